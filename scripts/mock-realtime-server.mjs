@@ -0,0 +1,220 @@
+// Local mock of the attendance realtime hub.
+//
+// Speaks just enough of the SignalR protocol (negotiate + Server-Sent Events
+// transport + JSON hub protocol) for @microsoft/signalr to connect, and pushes
+// fake detections, summary counters and camera status changes.
+//
+// Usage:
+//   npm run mock:realtime
+//   VITE_REALTIME_URL=http://localhost:5002/hubs/attendance npm run dev
+//
+// Options (env): MOCK_REALTIME_PORT (default 5002), MOCK_DETECTION_MS (default 3000)
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_REALTIME_PORT || 5002);
+const HUB_PATH = '/hubs/attendance';
+const DETECTION_MS = Number(process.env.MOCK_DETECTION_MS || 3000);
+const CAMERA_MS = 10000;
+const PING_MS = 15000;
+const RS = '\u001e'; // SignalR record separator
+
+// ─── Fake school state ──────────────────────────────
+
+const students = [
+    { studentCode: 'S1001', fullName: 'Tan Wei Ming' },
+    { studentCode: 'S1002', fullName: 'Nur Aisyah binti Ahmad' },
+    { studentCode: 'S1003', fullName: 'Lim Jia Hui' },
+    { studentCode: 'S1004', fullName: 'Muhammad Haziq' },
+    { studentCode: 'S1005', fullName: 'Priya Devi' },
+    { studentCode: 'S1006', fullName: 'Wong Kai Xiang' },
+];
+
+const cameras = [
+    { cameraId: 1, cameraName: 'Main Gate', isOnline: true },
+    { cameraId: 2, cameraName: 'Side Gate', isOnline: true },
+];
+
+const summary = {
+    totalStudents: 480,
+    totalPresent: 0,
+    totalLate: 0,
+    totalAbsent: 480,
+    attendanceRate: 0,
+    date: new Date().toISOString().split('T')[0],
+};
+
+let nextLogId = 1;
+
+const nextDetection = () => {
+    const student = students[Math.floor(Math.random() * students.length)];
+    const camera = cameras[Math.floor(Math.random() * cameras.length)];
+    return {
+        logID: nextLogId++,
+        ...student,
+        detectionTime: new Date().toISOString(),
+        confidence: 0.8 + Math.random() * 0.19,
+        cameraName: camera.cameraName,
+        snapshotPath: '',
+    };
+};
+
+const bumpSummary = () => {
+    if (summary.totalAbsent === 0) return;
+    if (Math.random() < 0.15) summary.totalLate++;
+    else summary.totalPresent++;
+    summary.totalAbsent--;
+    const attended = summary.totalPresent + summary.totalLate;
+    summary.attendanceRate = Math.round((attended / summary.totalStudents) * 1000) / 10;
+};
+
+const cameraStatus = (camera) => ({
+    cameraId: camera.cameraId,
+    cameraName: camera.cameraName,
+    isOnline: camera.isOnline,
+    statusMessage: camera.isOnline ? 'Running' : 'Connection lost',
+    lastFrameTime: new Date().toISOString(),
+    framesProcessed: Math.floor(Math.random() * 100000),
+});
+
+// ─── Connections ────────────────────────────────────
+
+/** connectionToken → { stream: ServerResponse | null, handshaken: boolean } */
+const connections = new Map();
+
+const sendFrame = (conn, message) => {
+    if (!conn.stream) return;
+    conn.stream.write(`data: ${JSON.stringify(message)}${RS}\n\n`);
+};
+
+const broadcast = (target, ...args) => {
+    for (const conn of connections.values()) {
+        if (conn.handshaken) sendFrame(conn, { type: 1, target, arguments: args });
+    }
+};
+
+setInterval(() => {
+    bumpSummary();
+    broadcast('DetectionReceived', nextDetection());
+    broadcast('SummaryUpdated', { ...summary });
+}, DETECTION_MS);
+
+setInterval(() => {
+    const camera = cameras[Math.floor(Math.random() * cameras.length)];
+    camera.isOnline = !camera.isOnline;
+    broadcast('CameraStatusChanged', cameraStatus(camera));
+}, CAMERA_MS);
+
+setInterval(() => {
+    for (const conn of connections.values()) {
+        if (conn.handshaken) sendFrame(conn, { type: 6 });
+    }
+}, PING_MS);
+
+// ─── HTTP ───────────────────────────────────────────
+
+const setCors = (req, res) => {
+    // The SignalR client sends credentials, so the origin must be echoed back
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] || '*');
+};
+
+const readBody = (req) => new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolve(body));
+});
+
+const handleClientMessages = (conn, body) => {
+    for (const raw of body.split(RS).filter(Boolean)) {
+        const message = JSON.parse(raw);
+        if (!conn.handshaken) {
+            // First message is the handshake request: {"protocol":"json","version":1}
+            conn.handshaken = true;
+            sendFrame(conn, {});
+            sendFrame(conn, { type: 1, target: 'SummaryUpdated', arguments: [{ ...summary }] });
+            cameras.forEach((camera) => {
+                sendFrame(conn, { type: 1, target: 'CameraStatusChanged', arguments: [cameraStatus(camera)] });
+            });
+        } else if (message.type === 7) {
+            conn.stream?.end();
+        }
+    }
+};
+
+const server = http.createServer(async (req, res) => {
+    setCors(req, res);
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+    }
+
+    const url = new URL(req.url, `http://${req.headers.host}`);
+
+    if (url.pathname === `${HUB_PATH}/negotiate` && req.method === 'POST') {
+        const token = randomUUID();
+        connections.set(token, { stream: null, handshaken: false });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+            connectionId: randomUUID(),
+            connectionToken: token,
+            negotiateVersion: 1,
+            availableTransports: [{ transport: 'ServerSentEvents', transferFormats: ['Text'] }],
+        }));
+        return;
+    }
+
+    if (url.pathname !== HUB_PATH) {
+        res.writeHead(404).end();
+        return;
+    }
+
+    const token = url.searchParams.get('id');
+    const conn = connections.get(token);
+    if (!conn) {
+        res.writeHead(404).end('Unknown connection');
+        return;
+    }
+
+    if (req.method === 'GET') {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+        });
+        res.write(':\n\n');
+        conn.stream = res;
+        console.log(`[mock-realtime] client connected (${connections.size} open)`);
+        req.on('close', () => {
+            connections.delete(token);
+            console.log(`[mock-realtime] client disconnected (${connections.size} open)`);
+        });
+        return;
+    }
+
+    if (req.method === 'POST') {
+        try {
+            handleClientMessages(conn, await readBody(req));
+            res.writeHead(200).end();
+        } catch {
+            res.writeHead(400).end('Invalid message');
+        }
+        return;
+    }
+
+    if (req.method === 'DELETE') {
+        conn.stream?.end();
+        connections.delete(token);
+        res.writeHead(202).end();
+        return;
+    }
+
+    res.writeHead(405).end();
+});
+
+server.listen(PORT, () => {
+    console.log(`[mock-realtime] hub listening on http://localhost:${PORT}${HUB_PATH}`);
+});
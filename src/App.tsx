@@ -9,11 +9,14 @@ import DashboardPage from './pages/DashboardPage';
 import SchoolsPage from './pages/SchoolsPage';
 import SchoolAdminsPage from './pages/SchoolAdminsPage';
 import AcademicYearsPage from './pages/AcademicYearsPage';
+import SchoolCalendarPage from './pages/SchoolCalendarPage';
 import GradesPage from './pages/GradesPage';
 import ClassesPage from './pages/ClassesPage';
 import StudentsPage from './pages/StudentsPage';
+import StudentProfilePage from './pages/StudentProfilePage';
 import AttendancePage from './pages/AttendancePage';
 import CamerasPage from './pages/CamerasPage';
+import CameraHealthPage from './pages/CameraHealthPage';
 import TrainingPage from './pages/TrainingPage';
 import SettingsPage from './pages/SettingsPage';
 import TeachersPage from './pages/TeachersPage';
@@ -21,7 +24,13 @@ import TeamsPage from './pages/TeamsPage';
 import EventsPage from './pages/EventsPage';
 import EventReportPage from './pages/EventReportPage';
 import ImportStudentsPage from './pages/ImportStudentsPage';
+import PhotoImportPage from './pages/PhotoImportPage';
 import LateStudentsReportPage from './pages/LateStudentsReportPage';
+import AnalyticsPage from './pages/AnalyticsPage';
+import AtRiskStudentsPage from './pages/AtRiskStudentsPage';
+import PhotoCoveragePage from './pages/PhotoCoveragePage';
+import StudentExcusesPage from './pages/StudentExcusesPage';
+import NotificationsPage from './pages/NotificationsPage';
 import LateCheckInPage from './pages/LateCheckInPage';
 import PencerapanPage from './pages/PencerapanPage';
 import MyPdpPage from './pages/MyPdpPage';
@@ -112,6 +121,17 @@ function App() {
                             </ProtectedRoute>
                         }
                     />
+                    <Route
+                        path="/academic-years/:academicYearId/calendar"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ManageAcademicYears"
+                                requiredRole={['SchoolAdmin']}
+                            >
+                                <SchoolCalendarPage />
+                            </ProtectedRoute>
+                        }
+                    />
                     <Route
                         path="/grades"
                         element={
@@ -146,6 +166,18 @@ function App() {
                             </ProtectedRoute>
                         }
                     />
+                    <Route
+                        path="/students/:code"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ManageStudents"
+                                alternativePermission="ViewStudents"
+                                requiredRole={['SchoolAdmin', 'Teacher', 'Staff']}
+                            >
+                                <StudentProfilePage />
+                            </ProtectedRoute>
+                        }
+                    />
                     <Route
                         path="/attendance"
                         element={
@@ -158,6 +190,18 @@ function App() {
                             </ProtectedRoute>
                         }
                     />
+                    <Route
+                        path="/excuses"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ViewAttendance"
+                                alternativePermission="ViewAttendanceRecords"
+                                requiredRole={['SchoolAdmin', 'Teacher']}
+                            >
+                                <StudentExcusesPage />
+                            </ProtectedRoute>
+                        }
+                    />
                     <Route
                         path="/cameras"
                         element={
@@ -169,6 +213,17 @@ function App() {
                             </ProtectedRoute>
                         }
                     />
+                    <Route
+                        path="/cameras/health"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ManageCameras"
+                                requiredRole={['SchoolAdmin']}
+                            >
+                                <CameraHealthPage />
+                            </ProtectedRoute>
+                        }
+                    />
                     <Route
                         path="/training"
                         element={
@@ -191,6 +246,17 @@ function App() {
                             </ProtectedRoute>
                         }
                     />
+                    <Route
+                        path="/import-photos"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ImportData"
+                                requiredRole={['SchoolAdmin']}
+                            >
+                                <PhotoImportPage />
+                            </ProtectedRoute>
+                        }
+                    />
 
                     {/* ── Reports ─────────────────────────────────────── */}
                     <Route
@@ -216,6 +282,41 @@ function App() {
                             </ProtectedRoute>
                         }
                     />
+                    <Route
+                        path="/analytics"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ViewAttendance"
+                                alternativePermission="ViewAttendanceRecords"
+                                requiredRole={['SchoolAdmin']}
+                            >
+                                <AnalyticsPage />
+                            </ProtectedRoute>
+                        }
+                    />
+                    <Route
+                        path="/at-risk"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ViewAttendance"
+                                alternativePermission="ViewAttendanceRecords"
+                                requiredRole={['SchoolAdmin', 'Teacher']}
+                            >
+                                <AtRiskStudentsPage />
+                            </ProtectedRoute>
+                        }
+                    />
+                    <Route
+                        path="/photo-coverage"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ManageStudents"
+                                requiredRole={['SchoolAdmin', 'Teacher']}
+                            >
+                                <PhotoCoveragePage />
+                            </ProtectedRoute>
+                        }
+                    />
                     <Route
                         path="/pencerapan"
                         element={
@@ -323,6 +424,17 @@ function App() {
                         }
                     />
 
+                    <Route
+                        path="/notifications"
+                        element={
+                            <ProtectedRoute
+                                requiredPermission="ManageNotifications"
+                                requiredRole={['SchoolAdmin']}
+                            >
+                                <NotificationsPage />
+                            </ProtectedRoute>
+                        }
+                    />
                     <Route
                         path="/settings"
                         element={
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, FileClock, ArrowRight } from 'lucide-react';
+import { attendanceService } from '../../services/attendanceService';
+import type { AttendanceAuditEntry } from '../../types';
+
+interface AttendanceAuditModalProps {
+    isOpen: boolean;
+    date: string;
+    studentCode?: string;
+    onClose: () => void;
+}
+
+const statusClass = (status?: string) => {
+    switch (status) {
+        case 'Present':
+            return 'bg-green-100 text-green-800';
+        case 'Late':
+            return 'bg-yellow-100 text-yellow-800';
+        case 'Absent':
+            return 'bg-red-100 text-red-800';
+        case 'Excused':
+            return 'bg-blue-100 text-blue-800';
+        default:
+            return 'bg-gray-100 text-gray-800';
+    }
+};
+
+const AttendanceAuditModal = ({ isOpen, date, studentCode, onClose }: AttendanceAuditModalProps) => {
+    const { t } = useTranslation();
+    const [entries, setEntries] = useState<AttendanceAuditEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            fetchAuditTrail();
+        }
+    }, [isOpen, date, studentCode]);
+
+    const fetchAuditTrail = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const data = await attendanceService.getAuditTrail(date, studentCode);
+            setEntries(data || []);
+        } catch (err) {
+            console.error('Error fetching attendance audit trail:', err);
+            setError(t('attendance.override.auditFetchFailed', 'Failed to load the audit log'));
+            setEntries([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const statusLabel = (status?: string) =>
+        status ? t(`attendance.${status.toLowerCase()}`, status) : t('attendance.override.noRecord', 'No record');
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                            <FileClock className="w-5 h-5 text-blue-600" />
+                            {t('attendance.override.auditTitle', 'Attendance Audit Log')}
+                        </h2>
+                        <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                            {new Date(`${date}T00:00:00`).toLocaleDateString()}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto flex-1">
+                    {isLoading ? (
+                        <div className="flex items-center justify-center h-48">
+                            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                        </div>
+                    ) : error ? (
+                        <div className="m-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">{error}</div>
+                    ) : entries.length === 0 ? (
+                        <div className="text-center py-12 px-4">
+                            <FileClock className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                            <p className="text-sm text-gray-600">{t('attendance.override.auditEmpty', 'No manual changes for this date')}</p>
+                        </div>
+                    ) : (
+                        <table className="w-full">
+                            <thead className="bg-gray-50 border-b sticky top-0">
+                                <tr>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {t('attendance.override.changedAt', 'When')}
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {t('attendance.student')}
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {t('attendance.override.change', 'Change')}
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {t('attendance.override.reason', 'Reason')}
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        {t('attendance.override.changedBy', 'By')}
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {entries.map(entry => (
+                                    <tr key={entry.auditId} className="hover:bg-gray-50 align-top">
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                                            {new Date(entry.changedAt).toLocaleString()}
+                                            {entry.source === 'Bulk' && (
+                                                <span className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-blue-100 text-blue-700">
+                                                    {t('attendance.override.bulkBadge', 'Bulk')}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="text-sm font-medium text-gray-900">{entry.fullName}</div>
+                                            <div className="text-xs text-gray-500">{entry.studentCode}</div>
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap">
+                                            <div className="flex items-center gap-1.5">
+                                                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusClass(entry.previousStatus)}`}>
+                                                    {statusLabel(entry.previousStatus)}
+                                                </span>
+                                                <ArrowRight className="w-3.5 h-3.5 text-gray-400" />
+                                                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusClass(entry.newStatus)}`}>
+                                                    {statusLabel(entry.newStatus)}
+                                                </span>
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="text-sm text-gray-900">
+                                                {t(`attendance.override.reasons.${entry.reasonCode}`, entry.reasonCode)}
+                                            </div>
+                                            {entry.remarks && (
+                                                <div className="text-xs text-gray-500 mt-0.5">{entry.remarks}</div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
+                                            {entry.changedByName}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AttendanceAuditModal;
@@ -0,0 +1,540 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Calendar, Filter, Search, Users, CheckCircle, XCircle, Clock, TrendingUp, Eye, RefreshCw } from 'lucide-react';
+import api from '../../services/api';
+import { attendanceService } from '../../services/attendanceService';
+import { excuseService } from '../../services/excuseService';
+import { schoolCalendarService } from '../../services/schoolCalendarService';
+import { buildExcuseLookup, findExcuse, splitAbsences, type ExcuseLookup } from '../../utils/excuses';
+import {
+    applyCalendarToSummary,
+    buildSchoolCalendar,
+    filterSchoolDays,
+    getClosedRuns,
+    isSchoolDay,
+    toDateString,
+} from '../../utils/schoolCalendar';
+import StatCard from '../Common/StatCard';
+import Pagination from '../Common/Pagination';
+import ExcusedBadge from './ExcusedBadge';
+import type { AttendanceRangeSummary, AttendanceRecord, AbsentStudentRecord, ClassAttendanceSummary } from '../../types';
+
+interface Grade {
+    gradeID: number;
+    gradeName: string;
+}
+
+interface Class {
+    classID: number;
+    className: string;
+    gradeID: number;
+}
+
+type HistoryTab = 'byClass' | 'daily' | 'records' | 'absentees';
+
+const AttendanceHistoryView = () => {
+    const { t } = useTranslation();
+    const today = toDateString(new Date());
+
+    const [startDate, setStartDate] = useState(() => {
+        const d = new Date();
+        d.setDate(d.getDate() - 6);
+        return toDateString(d);
+    });
+    const [endDate, setEndDate] = useState(today);
+    const [grades, setGrades] = useState<Grade[]>([]);
+    const [classes, setClasses] = useState<Class[]>([]);
+    const [selectedGradeId, setSelectedGradeId] = useState<number | null>(null);
+    const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [activeTab, setActiveTab] = useState<HistoryTab>('byClass');
+
+    const [summary, setSummary] = useState<AttendanceRangeSummary | null>(null);
+    const [records, setRecords] = useState<AttendanceRecord[]>([]);
+    const [absentees, setAbsentees] = useState<AbsentStudentRecord[]>([]);
+    const [excuseLookup, setExcuseLookup] = useState<ExcuseLookup>(new Map());
+    const [closedDays, setClosedDays] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const [currentPage, setCurrentPage] = useState(1);
+    const itemsPerPage = 20;
+
+    const [previewImage, setPreviewImage] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchFilterOptions();
+    }, []);
+
+    useEffect(() => {
+        if (startDate && endDate && startDate <= endDate) {
+            fetchHistory();
+        }
+    }, [startDate, endDate, selectedClassId]);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [activeTab, searchTerm, selectedGradeId, selectedClassId, startDate, endDate]);
+
+    const fetchFilterOptions = async () => {
+        try {
+            const [gradeRes, classRes] = await Promise.all([api.get('/grade'), api.get('/class')]);
+            if (gradeRes.data.success) setGrades(gradeRes.data.data || []);
+            if (classRes.data.success) setClasses(classRes.data.data || []);
+        } catch {
+            // Silent fail for filter options
+        }
+    };
+
+    const fetchHistory = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const classId = selectedClassId ?? undefined;
+            const [summaryData, recordData, absentData, excusedDays, calendarRange] = await Promise.all([
+                attendanceService.getSummaryByDateRange(startDate, endDate, classId),
+                attendanceService.getAttendanceByDateRange(startDate, endDate, classId),
+                attendanceService.getAbsentByDateRange(startDate, endDate, classId),
+                // Excuses only relabel absences; don't fail the whole view without them
+                excuseService.getExcusedDays(startDate, endDate, classId).catch(() => []),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
+            // Nobody is absent on a weekend, holiday or school break
+            const calendar = buildSchoolCalendar(calendarRange);
+            const closedRuns = summaryData ? getClosedRuns(summaryData, calendar) : [];
+            const closedSummaries = await Promise.all(
+                closedRuns.map(run => attendanceService.getSummaryByDateRange(run.startDate, run.endDate, classId))
+            );
+            const schoolSummary = summaryData
+                ? applyCalendarToSummary(summaryData, calendar, closedSummaries.flatMap(s => s.byClass || []))
+                : summaryData;
+            setSummary(schoolSummary);
+            setClosedDays(summaryData && schoolSummary ? summaryData.daily.length - schoolSummary.daily.length : 0);
+            setRecords((recordData || []).filter(r => r.status !== 'Absent' || isSchoolDay(calendar, r.attendanceDate)));
+            setAbsentees(filterSchoolDays(absentData || [], calendar, a => a.absentDate));
+            setExcuseLookup(buildExcuseLookup(excusedDays || []));
+        } catch (err) {
+            console.error('Error fetching attendance history:', err);
+            setError(t('attendance.history.fetchFailed', 'Failed to load attendance history'));
+            setSummary(null);
+            setRecords([]);
+            setAbsentees([]);
+            setExcuseLookup(new Map());
+            setClosedDays(0);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Grade is filtered client-side; the range endpoints only accept a class
+    const selectedGradeName = grades.find(g => g.gradeID === selectedGradeId)?.gradeName;
+    const filteredClasses = selectedGradeId ? classes.filter(c => c.gradeID === selectedGradeId) : classes;
+
+    const matchesSearch = (...values: (string | undefined)[]) => {
+        if (!searchTerm.trim()) return true;
+        const term = searchTerm.toLowerCase();
+        return values.some(v => v?.toLowerCase().includes(term));
+    };
+
+    const classRows = (summary?.byClass || []).filter(c =>
+        (!selectedGradeName || c.gradeName === selectedGradeName) && matchesSearch(c.className, c.gradeName)
+    );
+    const recordRows = records.filter(r =>
+        (!selectedGradeName || r.grade === selectedGradeName) && matchesSearch(r.fullName, r.studentCode, r.class)
+    );
+    const absentRows = absentees.filter(a =>
+        (!selectedGradeName || a.grade === selectedGradeName) && matchesSearch(a.fullName, a.studentCode, a.class)
+    );
+
+    // The stat cards follow the grade filter (not the search), so excuses are counted the same way
+    const gradeClasses = (summary?.byClass || []).filter(c => !selectedGradeName || c.gradeName === selectedGradeName);
+    const gradeAbsentees = absentees.filter(a => !selectedGradeName || a.grade === selectedGradeName);
+    const excusedCount = splitAbsences(gradeAbsentees, excuseLookup, a => a.absentDate).excused.length;
+    const sumClasses = (pick: (c: ClassAttendanceSummary) => number) => gradeClasses.reduce((sum, c) => sum + pick(c), 0);
+    const totalPresent = selectedGradeName ? sumClasses(c => c.totalPresent) : summary?.totalPresent ?? 0;
+    const totalLate = selectedGradeName ? sumClasses(c => c.totalLate) : summary?.totalLate ?? 0;
+    const totalAbsent = selectedGradeName ? sumClasses(c => c.totalAbsent) : summary?.totalAbsent ?? 0;
+    const gradeExpected = totalPresent + totalLate + totalAbsent;
+    const attendanceRate = !selectedGradeName
+        ? summary?.attendanceRate ?? 0
+        : gradeExpected > 0 ? ((totalPresent + totalLate) / gradeExpected) * 100 : 0;
+
+    const pagedRows = <T,>(rows: T[]) => rows.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+    const activeCount = activeTab === 'records' ? recordRows.length : activeTab === 'absentees' ? absentRows.length : 0;
+
+    const formatDate = (dateStr: string) => {
+        if (!dateStr) return '-';
+        return new Date(dateStr).toLocaleDateString('en-MY', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+    };
+
+    const formatTime = (dateTimeStr?: string) => {
+        if (!dateTimeStr) return '-';
+        return new Date(dateTimeStr).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+    };
+
+    const getRateClass = (rate: number) => {
+        if (rate >= 95) return 'text-green-700';
+        if (rate >= 85) return 'text-yellow-700';
+        return 'text-red-700';
+    };
+
+    const getStatusBadgeClass = (status: string) => {
+        switch (status) {
+            case 'Present':
+                return 'bg-green-100 text-green-800';
+            case 'Late':
+                return 'bg-yellow-100 text-yellow-800';
+            case 'Absent':
+                return 'bg-red-100 text-red-800';
+            case 'Excused':
+                return 'bg-blue-100 text-blue-800';
+            default:
+                return 'bg-gray-100 text-gray-800';
+        }
+    };
+
+    const tabs: { key: HistoryTab; label: string; count?: number }[] = [
+        { key: 'byClass', label: t('attendance.history.byClass', 'By Class'), count: classRows.length },
+        { key: 'daily', label: t('attendance.history.daily', 'By Day'), count: summary?.daily.length },
+        { key: 'records', label: t('attendance.history.records', 'Check-ins'), count: recordRows.length },
+        { key: 'absentees', label: t('attendance.history.absentees', 'Absentees'), count: absentRows.length },
+    ];
+
+    const thClass = 'px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+    const tdClass = 'px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-sm';
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Filters */}
+            <div className="card p-4 sm:p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                        <Filter className="w-5 h-5 text-gray-500" />
+                        <h3 className="font-semibold text-gray-900">{t('common.filters', 'Filters')}</h3>
+                    </div>
+                    <button
+                        onClick={fetchHistory}
+                        className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg flex items-center gap-2 text-sm transition-colors"
+                    >
+                        <RefreshCw className="w-4 h-4" />{t('common.refresh', 'Refresh')}
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('attendance.history.startDate', 'Start Date')}</label>
+                        <input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className="input-field w-full" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('attendance.history.endDate', 'End Date')}</label>
+                        <input type="date" value={endDate} min={startDate} max={today} onChange={(e) => setEndDate(e.target.value)} className="input-field w-full" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.grade', 'Grade')}</label>
+                        <select
+                            value={selectedGradeId || ''}
+                            onChange={(e) => {
+                                setSelectedGradeId(e.target.value ? parseInt(e.target.value) : null);
+                                setSelectedClassId(null);
+                            }}
+                            className="input-field w-full"
+                        >
+                            <option value="">{t('common.allGrades', 'All Grades')}</option>
+                            {grades.map(grade => (<option key={grade.gradeID} value={grade.gradeID}>{grade.gradeName}</option>))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.class', 'Class')}</label>
+                        <select
+                            value={selectedClassId || ''}
+                            onChange={(e) => setSelectedClassId(e.target.value ? parseInt(e.target.value) : null)}
+                            className="input-field w-full"
+                        >
+                            <option value="">{t('common.allClasses', 'All Classes')}</option>
+                            {filteredClasses.map(cls => (<option key={cls.classID} value={cls.classID}>{cls.className}</option>))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.search', 'Search')}</label>
+                        <div className="relative">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                                type="text"
+                                value={searchTerm}
+                                onChange={(e) => setSearchTerm(e.target.value)}
+                                placeholder={t('attendance.history.searchPlaceholder', 'Student or class...')}
+                                className="input-field w-full pl-9"
+                            />
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {isLoading ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            ) : summary && (
+                <>
+                    {/* Range Stats */}
+                    <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-6">
+                        <StatCard
+                            title={t('attendance.history.schoolDays', 'School Days')}
+                            value={summary.schoolDays}
+                            icon={Calendar}
+                            color="bg-blue-500"
+                            subtitle={closedDays > 0
+                                ? t('attendance.closedDaysExcluded', '{{count}} non-school days excluded', { count: closedDays })
+                                : t('attendance.history.studentsCount', '{{count}} students', { count: summary.totalStudents })}
+                        />
+                        <StatCard title={t('attendance.present')} value={totalPresent} icon={CheckCircle} color="bg-green-500" />
+                        <StatCard title={t('attendance.late')} value={totalLate} icon={Clock} color="bg-yellow-500" />
+                        <StatCard
+                            title={t('attendance.absent')}
+                            value={Math.max(0, totalAbsent - excusedCount)}
+                            icon={XCircle}
+                            color="bg-red-500"
+                            subtitle={excusedCount > 0 ? t('attendance.excusedCount', '{{count}} excused', { count: excusedCount }) : undefined}
+                        />
+                        <StatCard
+                            title={t('attendance.history.attendanceRate', 'Attendance Rate')}
+                            value={`${attendanceRate.toFixed(1)}%`}
+                            icon={TrendingUp}
+                            color="bg-purple-500"
+                        />
+                    </div>
+
+                    {/* Tabs */}
+                    <div className="card overflow-hidden">
+                        <div className="flex border-b overflow-x-auto">
+                            {tabs.map(tab => (
+                                <button
+                                    key={tab.key}
+                                    onClick={() => setActiveTab(tab.key)}
+                                    className={`px-4 sm:px-6 py-3 text-sm font-medium whitespace-nowrap border-b-2 transition-colors ${activeTab === tab.key
+                                        ? 'border-blue-600 text-blue-600'
+                                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                                        }`}
+                                >
+                                    {tab.label}
+                                    {tab.count !== undefined && (
+                                        <span className="ml-2 px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full text-xs">{tab.count}</span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            {/* By Class */}
+                            {activeTab === 'byClass' && (
+                                classRows.length === 0 ? (
+                                    <EmptyState message={t('attendance.noRecordsMessage')} />
+                                ) : (
+                                    <table className="w-full">
+                                        <thead className="bg-gray-50 border-b">
+                                            <tr>
+                                                <th className={thClass}>{t('attendance.gradeClass')}</th>
+                                                <th className={thClass}>{t('common.totalStudents', 'Students')}</th>
+                                                <th className={thClass}>{t('attendance.present')}</th>
+                                                <th className={thClass}>{t('attendance.late')}</th>
+                                                <th className={thClass}>{t('attendance.absent')}</th>
+                                                <th className={thClass}>{t('attendance.history.attendanceRate', 'Attendance Rate')}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="bg-white divide-y divide-gray-200">
+                                            {classRows.map(row => (
+                                                <tr key={row.classId} className="hover:bg-gray-50">
+                                                    <td className={`${tdClass} font-medium text-gray-900`}>{row.gradeName} - {row.className}</td>
+                                                    <td className={`${tdClass} text-gray-700`}>{row.totalStudents}</td>
+                                                    <td className={`${tdClass} text-green-700`}>{row.totalPresent}</td>
+                                                    <td className={`${tdClass} text-yellow-700`}>{row.totalLate}</td>
+                                                    <td className={`${tdClass} text-red-700`}>{row.totalAbsent}</td>
+                                                    <td className={`${tdClass} font-semibold ${getRateClass(row.attendanceRate)}`}>{row.attendanceRate.toFixed(1)}%</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )
+                            )}
+
+                            {/* By Day */}
+                            {activeTab === 'daily' && (
+                                summary.daily.length === 0 ? (
+                                    <EmptyState message={t('attendance.noRecordsMessage')} />
+                                ) : (
+                                    <table className="w-full">
+                                        <thead className="bg-gray-50 border-b">
+                                            <tr>
+                                                <th className={thClass}>{t('attendance.history.date', 'Date')}</th>
+                                                <th className={thClass}>{t('attendance.present')}</th>
+                                                <th className={thClass}>{t('attendance.late')}</th>
+                                                <th className={thClass}>{t('attendance.absent')}</th>
+                                                <th className={thClass}>{t('attendance.history.attendanceRate', 'Attendance Rate')}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="bg-white divide-y divide-gray-200">
+                                            {summary.daily.map(day => (
+                                                <tr key={day.date} className="hover:bg-gray-50">
+                                                    <td className={`${tdClass} font-medium text-gray-900`}>{formatDate(day.date)}</td>
+                                                    <td className={`${tdClass} text-green-700`}>{day.totalPresent}</td>
+                                                    <td className={`${tdClass} text-yellow-700`}>{day.totalLate}</td>
+                                                    <td className={`${tdClass} text-red-700`}>{day.totalAbsent}</td>
+                                                    <td className={`${tdClass} font-semibold ${getRateClass(day.attendanceRate)}`}>{day.attendanceRate.toFixed(1)}%</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )
+                            )}
+
+                            {/* Check-in Records */}
+                            {activeTab === 'records' && (
+                                recordRows.length === 0 ? (
+                                    <EmptyState message={t('attendance.noRecordsMessage')} />
+                                ) : (
+                                    <table className="w-full">
+                                        <thead className="bg-gray-50 border-b">
+                                            <tr>
+                                                <th className={thClass}>{t('attendance.history.date', 'Date')}</th>
+                                                <th className={thClass}>{t('attendance.student')}</th>
+                                                <th className={`hidden sm:table-cell ${thClass}`}>{t('attendance.gradeClass')}</th>
+                                                <th className={thClass}>{t('attendance.checkInTime')}</th>
+                                                <th className={thClass}>{t('attendance.status')}</th>
+                                                <th className={`hidden md:table-cell ${thClass}`}>{t('attendance.camera')}</th>
+                                                <th className={`${thClass} text-center`}>{t('attendance.snapshot', 'Snapshot')}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="bg-white divide-y divide-gray-200">
+                                            {pagedRows(recordRows).map(record => (
+                                                <tr key={record.attendanceID} className="hover:bg-gray-50">
+                                                    <td className={`${tdClass} text-gray-700`}>{formatDate(record.attendanceDate)}</td>
+                                                    <td className={tdClass}>
+                                                        <Link to={`/students/${encodeURIComponent(record.studentCode)}`} className="font-medium text-gray-900 hover:text-blue-600 hover:underline">{record.fullName}</Link>
+                                                        <div className="text-xs text-gray-500">{record.studentCode}</div>
+                                                    </td>
+                                                    <td className={`hidden sm:table-cell ${tdClass} text-gray-900`}>{record.class || 'N/A'}</td>
+                                                    <td className={`${tdClass} text-gray-900`}>{formatTime(record.checkInTime)}</td>
+                                                    <td className={tdClass}>
+                                                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(record.status)}`}>
+                                                            {t(`attendance.${record.status.toLowerCase()}`)}
+                                                        </span>
+                                                    </td>
+                                                    <td className={`hidden md:table-cell ${tdClass} text-gray-500`}>{record.cameraName || '-'}</td>
+                                                    <td className={`${tdClass} text-center`}>
+                                                        {record.snapshotPath ? (
+                                                            <button
+                                                                onClick={() => setPreviewImage(record.snapshotPath!)}
+                                                                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                                                title={t('attendance.viewSnapshot', 'View Snapshot')}
+                                                            >
+                                                                <Eye className="w-5 h-5" />
+                                                            </button>
+                                                        ) : (
+                                                            <span className="text-gray-400">-</span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )
+                            )}
+
+                            {/* Absentees */}
+                            {activeTab === 'absentees' && (
+                                absentRows.length === 0 ? (
+                                    <EmptyState message={t('attendance.history.noAbsentees', 'No absences in the selected range.')} />
+                                ) : (
+                                    <table className="w-full">
+                                        <thead className="bg-gray-50 border-b">
+                                            <tr>
+                                                <th className={thClass}>{t('attendance.history.date', 'Date')}</th>
+                                                <th className={thClass}>{t('attendance.student')}</th>
+                                                <th className={`hidden sm:table-cell ${thClass}`}>{t('attendance.gradeClass')}</th>
+                                                <th className={thClass}>{t('attendance.status')}</th>
+                                                <th className={thClass}>{t('attendance.history.parentContact', 'Parent Contact')}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="bg-white divide-y divide-gray-200">
+                                            {pagedRows(absentRows).map(row => {
+                                                const excuse = findExcuse(excuseLookup, row.studentCode, row.absentDate);
+                                                return (
+                                                    <tr key={`${row.studentID}-${row.absentDate}`} className="hover:bg-gray-50">
+                                                        <td className={`${tdClass} text-gray-700`}>{formatDate(row.absentDate)}</td>
+                                                        <td className={tdClass}>
+                                                            <Link to={`/students/${encodeURIComponent(row.studentCode)}`} className="font-medium text-gray-900 hover:text-blue-600 hover:underline">{row.fullName}</Link>
+                                                            <div className="text-xs text-gray-500">{row.studentCode}</div>
+                                                        </td>
+                                                        <td className={`hidden sm:table-cell ${tdClass} text-gray-900`}>{row.grade} - {row.class}</td>
+                                                        <td className={tdClass}>
+                                                            {excuse ? (
+                                                                <ExcusedBadge excuse={excuse} />
+                                                            ) : (
+                                                                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass('Absent')}`}>
+                                                                    {t('attendance.absent')}
+                                                                </span>
+                                                            )}
+                                                        </td>
+                                                        <td className={`${tdClass} text-gray-700`}>
+                                                            <div>{row.parentContact || '-'}</div>
+                                                            {row.parentEmail && <div className="text-xs text-gray-500">{row.parentEmail}</div>}
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                )
+                            )}
+                        </div>
+
+                        {activeCount > itemsPerPage && (
+                            <Pagination
+                                currentPage={currentPage}
+                                totalPages={Math.ceil(activeCount / itemsPerPage)}
+                                totalItems={activeCount}
+                                itemsPerPage={itemsPerPage}
+                                onPageChange={setCurrentPage}
+                            />
+                        )}
+                    </div>
+                </>
+            )}
+
+            {/* Image Preview Modal */}
+            {previewImage && (
+                <div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    onClick={() => setPreviewImage(null)}
+                >
+                    <div className="max-w-2xl max-h-[80vh] relative">
+                        <img
+                            src={previewImage}
+                            alt="Attendance snapshot"
+                            className="max-w-full max-h-[80vh] object-contain rounded-lg"
+                        />
+                        <button
+                            onClick={() => setPreviewImage(null)}
+                            className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-black/70 text-white rounded-full transition-colors"
+                        >
+                            ×
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const EmptyState = ({ message }: { message: string }) => (
+    <div className="text-center py-8 sm:py-12 px-4">
+        <Users className="w-12 h-12 sm:w-16 sm:h-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-sm sm:text-base text-gray-600">{message}</p>
+    </div>
+);
+
+export default AttendanceHistoryView;
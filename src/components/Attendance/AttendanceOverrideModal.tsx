@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, UserCheck, Search } from 'lucide-react';
+import { attendanceService, OVERRIDE_REASON_CODES } from '../../services/attendanceService';
+import type { AbsentStudentRecord, OverrideReasonCode, OverrideStatus } from '../../types';
+
+/** The daily-table row being corrected; omitted when marking a student with no record */
+export interface OverrideTarget {
+    studentCode: string;
+    fullName: string;
+    class?: string;
+    status: string;
+    checkInTime?: string;
+}
+
+interface AttendanceOverrideModalProps {
+    isOpen: boolean;
+    date: string;
+    record?: OverrideTarget | null;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const STATUSES: OverrideStatus[] = ['Present', 'Late', 'Excused', 'Absent'];
+
+const toTimeInput = (value?: string) => {
+    const d = value ? new Date(value) : new Date();
+    if (isNaN(d.getTime())) return '';
+    return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const AttendanceOverrideModal = ({ isOpen, date, record, onClose, onSuccess }: AttendanceOverrideModalProps) => {
+    const { t } = useTranslation();
+    const [absentees, setAbsentees] = useState<AbsentStudentRecord[]>([]);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [studentCode, setStudentCode] = useState('');
+    const [status, setStatus] = useState<OverrideStatus>('Present');
+    const [checkInTime, setCheckInTime] = useState('');
+    const [reasonCode, setReasonCode] = useState<OverrideReasonCode>('CameraMissed');
+    const [remarks, setRemarks] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setStudentCode(record?.studentCode || '');
+        setStatus(record?.status === 'Present' ? 'Late' : 'Present');
+        setCheckInTime(toTimeInput(record?.checkInTime));
+        setReasonCode(record ? 'DataCorrection' : 'CameraMissed');
+        setRemarks('');
+        setSearchTerm('');
+        setError('');
+        if (!record) fetchAbsentees();
+    }, [isOpen, record, date]);
+
+    const fetchAbsentees = async () => {
+        try {
+            const data = await attendanceService.getAbsentByDateRange(date, date);
+            setAbsentees(data || []);
+        } catch (err) {
+            console.error('Error fetching absent students:', err);
+            setAbsentees([]);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const filteredAbsentees = absentees.filter(a => {
+        if (!searchTerm.trim()) return true;
+        const term = searchTerm.toLowerCase();
+        return a.fullName.toLowerCase().includes(term)
+            || a.studentCode.toLowerCase().includes(term)
+            || a.class?.toLowerCase().includes(term);
+    });
+
+    // Excused and absent days have no check-in
+    const needsCheckInTime = status === 'Present' || status === 'Late';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (!studentCode) {
+            setError(t('attendance.override.studentRequired', 'Please select a student'));
+            return;
+        }
+        if (needsCheckInTime && !checkInTime) {
+            setError(t('attendance.override.timeRequired', 'Please enter a check-in time'));
+            return;
+        }
+        if (reasonCode === 'Other' && !remarks.trim()) {
+            setError(t('attendance.override.remarksRequired', 'Please describe the reason'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await attendanceService.overrideAttendance({
+                studentCode,
+                date,
+                status,
+                checkInTime: needsCheckInTime ? checkInTime : undefined,
+                reasonCode,
+                remarks: remarks.trim() || undefined,
+            });
+            onSuccess();
+            onClose();
+        } catch (err) {
+            console.error('Error overriding attendance:', err);
+            setError(t('attendance.override.saveFailed', 'Failed to save attendance'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                            <UserCheck className="w-5 h-5 text-blue-600" />
+                            {record
+                                ? t('attendance.override.editTitle', 'Correct Attendance')
+                                : t('attendance.override.markTitle', 'Mark Attendance')}
+                        </h2>
+                        <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                            {new Date(`${date}T00:00:00`).toLocaleDateString()}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Student */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('attendance.student')} <span className="text-red-500">*</span>
+                        </label>
+                        {record ? (
+                            <div className="bg-gray-50 rounded-lg px-3 py-2">
+                                <p className="text-sm font-medium text-gray-900">{record.fullName}</p>
+                                <p className="text-xs text-gray-500">
+                                    {record.studentCode}{record.class ? ` · ${record.class}` : ''} · {t(`attendance.${record.status.toLowerCase()}`, record.status)}
+                                </p>
+                            </div>
+                        ) : (
+                            <>
+                                <div className="relative mb-2">
+                                    <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                    <input
+                                        type="text"
+                                        value={searchTerm}
+                                        onChange={(e) => setSearchTerm(e.target.value)}
+                                        placeholder={t('attendance.override.searchAbsent', 'Search absent students...')}
+                                        className="input-field pl-9 py-2 text-sm"
+                                    />
+                                </div>
+                                <select
+                                    value={studentCode}
+                                    onChange={(e) => setStudentCode(e.target.value)}
+                                    className="input-field py-2 text-sm"
+                                    size={Math.min(6, Math.max(2, filteredAbsentees.length))}
+                                >
+                                    {filteredAbsentees.map(a => (
+                                        <option key={a.studentCode} value={a.studentCode}>
+                                            {a.fullName} ({a.studentCode}) — {a.class}
+                                        </option>
+                                    ))}
+                                </select>
+                                {absentees.length === 0 && (
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        {t('attendance.override.noAbsentees', 'No absent students for this date')}
+                                    </p>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    {/* Status */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('attendance.status')} <span className="text-red-500">*</span>
+                        </label>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                            {STATUSES.map(s => (
+                                <button
+                                    key={s}
+                                    type="button"
+                                    onClick={() => setStatus(s)}
+                                    className={`py-2 border-2 rounded-lg text-sm font-medium transition-colors ${status === s
+                                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                        : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                                        }`}
+                                >
+                                    {t(`attendance.${s.toLowerCase()}`)}
+                                </button>
+                            ))}
+                        </div>
+                        {status === 'Excused' && (
+                            <p className="text-xs text-gray-500 mt-1.5">
+                                {t('attendance.override.excusedHint', 'No check-in is recorded. The day counts as an excused absence.')}
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Check-in time */}
+                    {needsCheckInTime && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {t('attendance.checkInTime')} <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="time"
+                                value={checkInTime}
+                                onChange={(e) => setCheckInTime(e.target.value)}
+                                className="input-field py-2 text-sm"
+                            />
+                        </div>
+                    )}
+
+                    {/* Reason */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('attendance.override.reason', 'Reason')} <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                            value={reasonCode}
+                            onChange={(e) => setReasonCode(e.target.value as OverrideReasonCode)}
+                            className="input-field py-2 text-sm"
+                        >
+                            {OVERRIDE_REASON_CODES.map(code => (
+                                <option key={code} value={code}>
+                                    {t(`attendance.override.reasons.${code}`, code)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Remarks */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('attendance.override.remarks', 'Remarks')}
+                            {reasonCode === 'Other' && <span className="text-red-500"> *</span>}
+                        </label>
+                        <textarea
+                            value={remarks}
+                            onChange={(e) => setRemarks(e.target.value)}
+                            rows={3}
+                            placeholder={t('attendance.override.remarksPlaceholder', 'e.g. Camera at main gate offline 7:00–7:45')}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                        {t('attendance.override.auditNotice', 'This change will be recorded in the audit log with your name and the time.')}
+                    </p>
+
+                    {/* Actions */}
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting ? t('common.saving') : t('common.save')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default AttendanceOverrideModal;
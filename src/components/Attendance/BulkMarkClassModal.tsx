@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, Users } from 'lucide-react';
+import api from '../../services/api';
+import { attendanceService, OVERRIDE_REASON_CODES } from '../../services/attendanceService';
+import type { AbsentStudentRecord, OverrideReasonCode, OverrideStatus } from '../../types';
+
+interface Grade {
+    gradeID: number;
+    gradeName: string;
+}
+
+interface Class {
+    classID: number;
+    className: string;
+    gradeID: number;
+}
+
+interface BulkMarkClassModalProps {
+    isOpen: boolean;
+    date: string;
+    onClose: () => void;
+    onSuccess: (updatedCount: number) => void;
+}
+
+const BulkMarkClassModal = ({ isOpen, date, onClose, onSuccess }: BulkMarkClassModalProps) => {
+    const { t } = useTranslation();
+    const [grades, setGrades] = useState<Grade[]>([]);
+    const [classes, setClasses] = useState<Class[]>([]);
+    const [selectedGradeId, setSelectedGradeId] = useState<number | null>(null);
+    const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
+    const [absentees, setAbsentees] = useState<AbsentStudentRecord[]>([]);
+    const [selectedCodes, setSelectedCodes] = useState<Set<string>>(new Set());
+    const [isLoadingStudents, setIsLoadingStudents] = useState(false);
+    const [status, setStatus] = useState<OverrideStatus>('Present');
+    const [checkInTime, setCheckInTime] = useState('07:30');
+    const [reasonCode, setReasonCode] = useState<OverrideReasonCode>('CameraOutage');
+    const [remarks, setRemarks] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelectedClassId(null);
+        setAbsentees([]);
+        setSelectedCodes(new Set());
+        setRemarks('');
+        setError('');
+        fetchFilterOptions();
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (isOpen && selectedClassId) {
+            fetchAbsentees(selectedClassId);
+        }
+    }, [isOpen, selectedClassId, date]);
+
+    const fetchFilterOptions = async () => {
+        try {
+            const [gradeRes, classRes] = await Promise.all([api.get('/grade'), api.get('/class')]);
+            if (gradeRes.data.success) setGrades(gradeRes.data.data || []);
+            if (classRes.data.success) setClasses(classRes.data.data || []);
+        } catch {
+            // Silent fail for filter options
+        }
+    };
+
+    const fetchAbsentees = async (classId: number) => {
+        setIsLoadingStudents(true);
+        try {
+            const data = await attendanceService.getAbsentByDateRange(date, date, classId);
+            setAbsentees(data || []);
+            setSelectedCodes(new Set((data || []).map(a => a.studentCode)));
+        } catch (err) {
+            console.error('Error fetching absent students:', err);
+            setAbsentees([]);
+            setSelectedCodes(new Set());
+        } finally {
+            setIsLoadingStudents(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const filteredClasses = selectedGradeId ? classes.filter(c => c.gradeID === selectedGradeId) : classes;
+    const allSelected = absentees.length > 0 && selectedCodes.size === absentees.length;
+
+    const toggleStudent = (code: string) => {
+        setSelectedCodes(prev => {
+            const next = new Set(prev);
+            if (next.has(code)) next.delete(code);
+            else next.add(code);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelectedCodes(allSelected ? new Set() : new Set(absentees.map(a => a.studentCode)));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (!selectedClassId) {
+            setError(t('attendance.override.classRequired', 'Please select a class'));
+            return;
+        }
+        if (selectedCodes.size === 0) {
+            setError(t('attendance.override.noStudentsSelected', 'Please select at least one student'));
+            return;
+        }
+        if (reasonCode === 'Other' && !remarks.trim()) {
+            setError(t('attendance.override.remarksRequired', 'Please describe the reason'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const result = await attendanceService.bulkOverrideAttendance({
+                classId: selectedClassId,
+                date,
+                status,
+                checkInTime: status === 'Excused' ? undefined : checkInTime,
+                reasonCode,
+                remarks: remarks.trim() || undefined,
+                studentCodes: allSelected ? undefined : Array.from(selectedCodes),
+            });
+            onSuccess(result?.updatedCount ?? selectedCodes.size);
+            onClose();
+        } catch (err) {
+            console.error('Error marking class attendance:', err);
+            setError(t('attendance.override.saveFailed', 'Failed to save attendance'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                            <Users className="w-5 h-5 text-blue-600" />
+                            {t('attendance.override.bulkTitle', 'Mark Class Attendance')}
+                        </h2>
+                        <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                            {t('attendance.override.bulkSubtitle', 'Mark students without a check-in on {{date}}', {
+                                date: new Date(`${date}T00:00:00`).toLocaleDateString(),
+                            })}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Grade / Class */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">{t('common.grade')}</label>
+                            <select
+                                value={selectedGradeId ?? ''}
+                                onChange={(e) => {
+                                    setSelectedGradeId(e.target.value ? Number(e.target.value) : null);
+                                    setSelectedClassId(null);
+                                    setAbsentees([]);
+                                    setSelectedCodes(new Set());
+                                }}
+                                className="input-field py-2 text-sm"
+                            >
+                                <option value="">{t('common.allGrades')}</option>
+                                {grades.map(g => (
+                                    <option key={g.gradeID} value={g.gradeID}>{g.gradeName}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {t('common.class')} <span className="text-red-500">*</span>
+                            </label>
+                            <select
+                                value={selectedClassId ?? ''}
+                                onChange={(e) => setSelectedClassId(e.target.value ? Number(e.target.value) : null)}
+                                className="input-field py-2 text-sm"
+                            >
+                                <option value="">{t('attendance.override.selectClass', 'Select class')}</option>
+                                {filteredClasses.map(c => (
+                                    <option key={c.classID} value={c.classID}>{c.className}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Students without a record */}
+                    {selectedClassId && (
+                        <div className="border border-gray-200 rounded-lg">
+                            <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-200">
+                                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected}
+                                        onChange={toggleAll}
+                                        disabled={absentees.length === 0}
+                                        className="rounded border-gray-300 text-blue-600"
+                                    />
+                                    {t('attendance.override.selectAll', 'Select all')}
+                                </label>
+                                <span className="text-xs text-gray-500">
+                                    {t('attendance.override.selectedCount', '{{selected}} of {{total}} selected', {
+                                        selected: selectedCodes.size,
+                                        total: absentees.length,
+                                    })}
+                                </span>
+                            </div>
+                            <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                                {isLoadingStudents ? (
+                                    <div className="flex items-center justify-center py-6">
+                                        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                                    </div>
+                                ) : absentees.length === 0 ? (
+                                    <p className="text-sm text-gray-500 text-center py-6">
+                                        {t('attendance.override.classComplete', 'Every student in this class already has a record')}
+                                    </p>
+                                ) : absentees.map(a => (
+                                    <label key={a.studentCode} className="flex items-center gap-3 px-3 py-2 hover:bg-gray-50 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedCodes.has(a.studentCode)}
+                                            onChange={() => toggleStudent(a.studentCode)}
+                                            className="rounded border-gray-300 text-blue-600"
+                                        />
+                                        <span className="text-sm text-gray-900">{a.fullName}</span>
+                                        <span className="text-xs text-gray-500 ml-auto">{a.studentCode}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Status / Time */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">{t('attendance.status')}</label>
+                            <select
+                                value={status}
+                                onChange={(e) => setStatus(e.target.value as OverrideStatus)}
+                                className="input-field py-2 text-sm"
+                            >
+                                <option value="Present">{t('attendance.present')}</option>
+                                <option value="Late">{t('attendance.late')}</option>
+                                <option value="Excused">{t('attendance.excused')}</option>
+                            </select>
+                        </div>
+                        {status === 'Excused' ? (
+                            <p className="text-xs text-gray-500 self-end pb-2">
+                                {t('attendance.override.excusedHint', 'No check-in is recorded. The day counts as an excused absence.')}
+                            </p>
+                        ) : (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1.5">{t('attendance.checkInTime')}</label>
+                                <input
+                                    type="time"
+                                    value={checkInTime}
+                                    onChange={(e) => setCheckInTime(e.target.value)}
+                                    className="input-field py-2 text-sm"
+                                    required
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Reason */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('attendance.override.reason', 'Reason')} <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                            value={reasonCode}
+                            onChange={(e) => setReasonCode(e.target.value as OverrideReasonCode)}
+                            className="input-field py-2 text-sm"
+                        >
+                            {OVERRIDE_REASON_CODES.map(code => (
+                                <option key={code} value={code}>
+                                    {t(`attendance.override.reasons.${code}`, code)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Remarks */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('attendance.override.remarks', 'Remarks')}
+                            {reasonCode === 'Other' && <span className="text-red-500"> *</span>}
+                        </label>
+                        <textarea
+                            value={remarks}
+                            onChange={(e) => setRemarks(e.target.value)}
+                            rows={2}
+                            placeholder={t('attendance.override.remarksPlaceholder', 'e.g. Camera at main gate offline 7:00–7:45')}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                        {t('attendance.override.auditNotice', 'This change will be recorded in the audit log with your name and the time.')}
+                    </p>
+
+                    {/* Actions */}
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting || selectedCodes.size === 0}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting
+                                ? t('common.saving')
+                                : t('attendance.override.markSelected', 'Mark {{count}} students', { count: selectedCodes.size })}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default BulkMarkClassModal;
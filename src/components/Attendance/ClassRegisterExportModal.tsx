@@ -0,0 +1,261 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, FileSpreadsheet, Printer } from 'lucide-react';
+import api from '../../services/api';
+import { authService } from '../../services/authService';
+import { attendanceService } from '../../services/attendanceService';
+import { studentService } from '../../services/studentService';
+import { excuseService } from '../../services/excuseService';
+import { schoolCalendarService } from '../../services/schoolCalendarService';
+import { buildExcuseLookup } from '../../utils/excuses';
+import { buildSchoolCalendar, filterSchoolDays, toDateString } from '../../utils/schoolCalendar';
+import { getLeavingDate, isOnRoll } from '../../utils/studentLifecycle';
+import {
+    buildClassRegister,
+    exportRegisterToExcel,
+    monthRange,
+    printRegister,
+    type ClassRegister,
+    type RegisterLabels,
+} from '../../utils/classRegister';
+
+interface Grade {
+    gradeID: number;
+    gradeName: string;
+}
+
+interface Class {
+    classID: number;
+    className: string;
+    gradeID: number;
+}
+
+interface ClassRegisterExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Month to preselect (yyyy-MM) */
+    initialMonth?: string;
+}
+
+const ClassRegisterExportModal = ({ isOpen, onClose, initialMonth }: ClassRegisterExportModalProps) => {
+    const { t, i18n } = useTranslation();
+    const [grades, setGrades] = useState<Grade[]>([]);
+    const [classes, setClasses] = useState<Class[]>([]);
+    const [selectedGradeId, setSelectedGradeId] = useState<number | null>(null);
+    const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
+    const [month, setMonth] = useState(initialMonth || toDateString(new Date()).slice(0, 7));
+    const [register, setRegister] = useState<ClassRegister | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setMonth(initialMonth || toDateString(new Date()).slice(0, 7));
+        setError('');
+        if (grades.length === 0) fetchFilterOptions();
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (isOpen && selectedClassId && month) {
+            loadRegister(selectedClassId, month);
+        } else {
+            setRegister(null);
+        }
+    }, [isOpen, selectedClassId, month]);
+
+    const fetchFilterOptions = async () => {
+        try {
+            const [gradeRes, classRes] = await Promise.all([api.get('/grade'), api.get('/class')]);
+            if (gradeRes.data.success) setGrades(gradeRes.data.data || []);
+            if (classRes.data.success) setClasses(classRes.data.data || []);
+        } catch {
+            // Silent fail for filter options
+        }
+    };
+
+    const loadRegister = async (classId: number, monthValue: string) => {
+        const schoolId = authService.getCurrentUser()?.schoolID;
+        if (!schoolId) return;
+
+        const [year, monthNumber] = monthValue.split('-').map(Number);
+        const { startDate, endDate } = monthRange(year, monthNumber);
+
+        setIsLoading(true);
+        setError('');
+        try {
+            const [students, records, summary, excusedDays, calendarRange] = await Promise.all([
+                studentService.getStudentsBySchool(schoolId, undefined, undefined, classId),
+                attendanceService.getAttendanceByDateRange(startDate, endDate, classId),
+                attendanceService.getSummaryByDateRange(startDate, endDate, classId),
+                excuseService.getExcusedDays(startDate, endDate, classId).catch(() => []),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
+            setRegister(buildClassRegister({
+                year,
+                month: monthNumber,
+                // Leavers stay on the register for the days they were still enrolled
+                students: (students || [])
+                    .filter(s => isOnRoll(s, startDate))
+                    .map(s => ({ studentCode: s.studentCode, fullName: s.fullName, leftOn: getLeavingDate(s) ?? undefined })),
+                records: records || [],
+                schoolDays: filterSchoolDays(summary?.daily || [], buildSchoolCalendar(calendarRange), d => d.date).map(d => d.date),
+                excuses: buildExcuseLookup(excusedDays || []),
+            }));
+        } catch (err) {
+            console.error('Error building class register:', err);
+            setError(t('attendance.register.loadFailed', 'Failed to load attendance for this class'));
+            setRegister(null);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const filteredClasses = selectedGradeId ? classes.filter(c => c.gradeID === selectedGradeId) : classes;
+    const selectedClass = classes.find(c => c.classID === selectedClassId);
+    const selectedGrade = grades.find(g => g.gradeID === selectedClass?.gradeID);
+    const classLabel = [selectedGrade?.gradeName, selectedClass?.className].filter(Boolean).join(' - ');
+    const schoolDayCount = register?.days.filter(d => d.isSchoolDay).length ?? 0;
+
+    const buildLabels = (): RegisterLabels => {
+        const [year, monthNumber] = month.split('-').map(Number);
+        const monthLabel = new Date(year, monthNumber - 1, 1).toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' });
+        return {
+            title: t('attendance.register.title', 'Class Attendance Register'),
+            className: `${t('common.class')}: ${classLabel}`,
+            monthLabel: `${t('attendance.register.month', 'Month')}: ${monthLabel}`,
+            no: t('attendance.register.no', 'No.'),
+            name: t('attendance.register.name', 'Name'),
+            studentCode: t('attendance.studentCode'),
+            rate: t('attendance.register.rate', '%'),
+            legend: t('attendance.register.legend', 'P = Present, L = Late, A = Absent, E = Excused. Shaded columns are weekends and school holidays.'),
+            weekdayInitials: t('attendance.register.weekdayInitials', 'S,M,T,W,T,F,S').split(','),
+        };
+    };
+
+    const handleExcel = () => {
+        if (!register) return;
+        const filename = `${t('attendance.register.filename', 'class_register')}_${classLabel.replace(/\s+/g, '')}_${month}.xlsx`;
+        exportRegisterToExcel(register, buildLabels(), filename);
+    };
+
+    const handlePrint = () => {
+        if (!register) return;
+        if (!printRegister(register, buildLabels())) {
+            setError(t('attendance.register.popupBlocked', 'Please allow pop-ups to print the register'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div>
+                        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                            <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+                            {t('attendance.register.modalTitle', 'Export Class Register')}
+                        </h2>
+                        <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                            {t('attendance.register.modalSubtitle', 'Monthly register with P/L/A codes per day')}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">{t('common.grade')}</label>
+                            <select
+                                value={selectedGradeId ?? ''}
+                                onChange={(e) => {
+                                    setSelectedGradeId(e.target.value ? Number(e.target.value) : null);
+                                    setSelectedClassId(null);
+                                }}
+                                className="input-field py-2 text-sm"
+                            >
+                                <option value="">{t('common.allGrades')}</option>
+                                {grades.map(g => (
+                                    <option key={g.gradeID} value={g.gradeID}>{g.gradeName}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {t('common.class')} <span className="text-red-500">*</span>
+                            </label>
+                            <select
+                                value={selectedClassId ?? ''}
+                                onChange={(e) => setSelectedClassId(e.target.value ? Number(e.target.value) : null)}
+                                className="input-field py-2 text-sm"
+                            >
+                                <option value="">{t('attendance.override.selectClass', 'Select class')}</option>
+                                {filteredClasses.map(c => (
+                                    <option key={c.classID} value={c.classID}>{c.className}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">{t('attendance.register.month', 'Month')}</label>
+                        <input
+                            type="month"
+                            value={month}
+                            max={toDateString(new Date()).slice(0, 7)}
+                            onChange={(e) => setMonth(e.target.value)}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    {isLoading ? (
+                        <div className="flex items-center justify-center py-6">
+                            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                        </div>
+                    ) : register && (
+                        <div className="bg-gray-50 rounded-lg p-3 text-sm text-gray-700">
+                            {t('attendance.register.preview', '{{students}} students · {{days}} school days', {
+                                students: register.rows.length,
+                                days: schoolDayCount,
+                            })}
+                        </div>
+                    )}
+
+                    <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                        <button
+                            onClick={handleExcel}
+                            disabled={!register || isLoading}
+                            className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <FileSpreadsheet className="w-4 h-4" />
+                            {t('attendance.register.downloadExcel', 'Download Excel')}
+                        </button>
+                        <button
+                            onClick={handlePrint}
+                            disabled={!register || isLoading}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <Printer className="w-4 h-4" />
+                            {t('attendance.register.printPdf', 'Print / Save as PDF')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ClassRegisterExportModal;
@@ -0,0 +1,28 @@
+import { useTranslation } from 'react-i18next';
+import type { ExcusedDay } from '../../services/excuseService';
+
+interface ExcusedBadgeProps {
+    excuse: ExcusedDay;
+}
+
+/** Status pill for an absence covered by an excuse, an attended event or an excused override */
+const ExcusedBadge = ({ excuse }: ExcusedBadgeProps) => {
+    const { t } = useTranslation();
+
+    const detail = excuse.source === 'Event'
+        ? excuse.eventName || t('excuses.types.SchoolEvent')
+        : excuse.source === 'Override'
+            ? t(`attendance.override.reasons.${excuse.reasonCode ?? 'Other'}`)
+            : t(`excuses.types.${excuse.excuseType ?? 'Other'}`);
+
+    return (
+        <span
+            className="px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800"
+            title={excuse.reason || detail}
+        >
+            {t('attendance.excused')} · {detail}
+        </span>
+    );
+};
+
+export default ExcusedBadge;
@@ -1,8 +1,18 @@
 ﻿import { useState } from 'react';
-import { Camera, X, Plus, Video, Brain } from 'lucide-react';
+import { Camera, X, Plus } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import api from '../../services/api';
 import { authService } from '../../services/authService';
+import {
+    cameraService,
+    CAMERA_TYPE_RTSP,
+    CONNECTION_FIELDS,
+    EMPTY_CAMERA_FORM,
+    validateCameraForm,
+    type CameraConnectionTestResult,
+    type CameraFormData,
+} from '../../services/cameraService';
+import CameraFormFields from './CameraFormFields';
+import CameraConnectionTest from './CameraConnectionTest';
 
 interface AddCameraModalProps {
     isOpen: boolean;
@@ -12,45 +22,27 @@ interface AddCameraModalProps {
 
 const AddCameraModal = ({ isOpen, onClose, onSuccess }: AddCameraModalProps) => {
     const { t } = useTranslation();
-    const [formData, setFormData] = useState({
-        cameraName: '',
-        location: '',
-        cameraType: 1, // 1=RTSP, 2=P6SAI
-        rtspUrl: '',
-        ipAddress: '',
-        deviceSerial: '', // For P6SAI cameras
-    });
+    const [formData, setFormData] = useState<CameraFormData>(EMPTY_CAMERA_FORM);
+    const [testResult, setTestResult] = useState<CameraConnectionTestResult | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState('');
 
     if (!isOpen) return null;
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-        const value = e.target.name === 'cameraType' ? parseInt(e.target.value) : e.target.value;
-        setFormData({
-            ...formData,
-            [e.target.name]: value,
-        });
+    const handleFieldsChange = (changes: Partial<CameraFormData>) => {
+        setFormData(prev => ({ ...prev, ...changes }));
+        if (CONNECTION_FIELDS.some(field => field in changes)) {
+            setTestResult(null);
+        }
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
 
-        // Validation
-        if (!formData.cameraName) {
-            setError(t('cameras.cameraNameRequired'));
-            return;
-        }
-
-        // Validate based on camera type
-        if (formData.cameraType === 1 && !formData.rtspUrl) {
-            setError(t('cameras.rtspRequired'));
-            return;
-        }
-
-        if (formData.cameraType === 2 && !formData.deviceSerial) {
-            setError(t('cameras.deviceSerialRequired'));
+        const validationError = validateCameraForm(formData);
+        if (validationError) {
+            setError(t(validationError));
             return;
         }
 
@@ -61,23 +53,14 @@ const AddCameraModal = ({ isOpen, onClose, onSuccess }: AddCameraModalProps) =>
             return;
         }
 
+        if (testResult && !testResult.success && !confirm(t('cameras.test.saveAnyway'))) {
+            return;
+        }
+
         setIsSubmitting(true);
 
         try {
-            // Send empty strings instead of null for unused fields
-            const requestData = {
-                cameraName: formData.cameraName,
-                location: formData.location,
-                cameraType: formData.cameraType,
-                rtspUrl: formData.cameraType === 1 ? formData.rtspUrl : '',
-                ipAddress: formData.ipAddress || '',
-                deviceSerial: formData.cameraType === 2 ? formData.deviceSerial : '',
-                schoolId: currentUser.schoolID
-            };
-
-            console.log('Adding camera with data:', requestData);
-
-            await api.post('/camera', requestData);
+            await cameraService.createCamera(formData, currentUser.schoolID);
             onSuccess();
             handleClose();
         } catch (err) {
@@ -89,14 +72,8 @@ const AddCameraModal = ({ isOpen, onClose, onSuccess }: AddCameraModalProps) =>
     };
 
     const handleClose = () => {
-        setFormData({
-            cameraName: '',
-            location: '',
-            cameraType: 1,
-            rtspUrl: '',
-            ipAddress: '',
-            deviceSerial: '',
-        });
+        setFormData(EMPTY_CAMERA_FORM);
+        setTestResult(null);
         setError('');
         onClose();
     };
@@ -130,157 +107,24 @@ const AddCameraModal = ({ isOpen, onClose, onSuccess }: AddCameraModalProps) =>
                         </div>
                     )}
 
-                    {/* Camera Type Selection */}
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                            {t('cameras.cameraType')} <span className="text-red-500">{t('cameras.required')}</span>
-                        </label>
-                        <div className="grid grid-cols-2 gap-2 sm:gap-3">
-                            {/* RTSP Camera Option */}
-                            <button
-                                type="button"
-                                onClick={() => setFormData({ ...formData, cameraType: 1 })}
-                                className={`p-3 sm:p-4 border-2 rounded-lg transition-all ${formData.cameraType === 1
-                                    ? 'border-blue-500 bg-blue-50'
-                                    : 'border-gray-200 hover:border-gray-300 active:bg-gray-50'
-                                    }`}
-                            >
-                                <Video className={`w-5 h-5 sm:w-6 sm:h-6 mx-auto mb-1 sm:mb-2 ${formData.cameraType === 1 ? 'text-blue-600' : 'text-gray-400'
-                                    }`} />
-                                <div className="text-xs sm:text-sm font-medium text-gray-900">
-                                    {t('cameras.cameraTypeRTSP')}
-                                </div>
-                                <div className="text-xs text-gray-500 mt-0.5 sm:mt-1 hidden sm:block">
-                                    {t('cameras.traditionalIPCamera')}
-                                </div>
-                            </button>
-
-                            {/* P6SAI Camera Option */}
-                            <button
-                                type="button"
-                                onClick={() => setFormData({ ...formData, cameraType: 2 })}
-                                className={`p-3 sm:p-4 border-2 rounded-lg transition-all ${formData.cameraType === 2
-                                    ? 'border-purple-500 bg-purple-50'
-                                    : 'border-gray-200 hover:border-gray-300 active:bg-gray-50'
-                                    }`}
-                            >
-                                <Brain className={`w-5 h-5 sm:w-6 sm:h-6 mx-auto mb-1 sm:mb-2 ${formData.cameraType === 2 ? 'text-purple-600' : 'text-gray-400'
-                                    }`} />
-                                <div className="text-xs sm:text-sm font-medium text-gray-900">
-                                    {t('cameras.cameraTypeP6SAI')}
-                                </div>
-                                <div className="text-xs text-gray-500 mt-0.5 sm:mt-1 hidden sm:block">
-                                    {t('cameras.aiFaceRecognition')}
-                                </div>
-                            </button>
-                        </div>
-                    </div>
-
-                    {/* Camera Name */}
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                            {t('cameras.cameraName')} <span className="text-red-500">{t('cameras.required')}</span>
-                        </label>
-                        <input
-                            type="text"
-                            name="cameraName"
-                            value={formData.cameraName}
-                            onChange={handleChange}
-                            placeholder={t('cameras.cameraNamePlaceholder')}
-                            className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
-                            required
-                        />
-                    </div>
-
-                    {/* Location */}
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                            {t('cameras.location')}
-                        </label>
-                        <input
-                            type="text"
-                            name="location"
-                            value={formData.location}
-                            onChange={handleChange}
-                            placeholder={t('cameras.locationPlaceholder')}
-                            className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
-                        />
-                    </div>
-
-                    {/* RTSP URL - Only for RTSP cameras */}
-                    {formData.cameraType === 1 && (
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                                {t('cameras.rtspUrl')} <span className="text-red-500">{t('cameras.required')}</span>
-                            </label>
-                            <input
-                                type="text"
-                                name="rtspUrl"
-                                value={formData.rtspUrl}
-                                onChange={handleChange}
-                                placeholder={t('cameras.rtspUrlPlaceholder')}
-                                className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
-                            />
-                            <p className="text-xs text-gray-500 mt-1">
-                                {t('cameras.rtspExampleTitle')}
-                                <br />
-                                • {t('cameras.rtspExampleHikvision')}
-                                <br />
-                                • {t('cameras.rtspExampleDahua')}
-                            </p>
-                        </div>
-                    )}
-
-                    {/* Device Serial - Only for P6SAI cameras */}
-                    {formData.cameraType === 2 && (
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                                {t('cameras.deviceSerial')} <span className="text-red-500">{t('cameras.required')}</span>
-                            </label>
-                            <input
-                                type="text"
-                                name="deviceSerial"
-                                value={formData.deviceSerial}
-                                onChange={handleChange}
-                                placeholder={t('cameras.deviceSerialPlaceholder')}
-                                className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
-                            />
-                            <p className="text-xs text-gray-500 mt-1">
-                                {t('cameras.deviceSerialHint')}
-                            </p>
-                        </div>
-                    )}
+                    <CameraFormFields formData={formData} onChange={handleFieldsChange} />
 
-                    {/* IP Address - Optional for both types */}
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
-                            {t('cameras.ipAddress')}{' '}
-                            <span className="text-gray-400 text-xs">({t('cameras.optional')})</span>
-                        </label>
-                        <input
-                            type="text"
-                            name="ipAddress"
-                            value={formData.ipAddress}
-                            onChange={handleChange}
-                            placeholder={t('cameras.ipAddressPlaceholder')}
-                            className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
-                        />
-                    </div>
+                    <CameraConnectionTest formData={formData} result={testResult} onResult={setTestResult} />
 
                     {/* Guidelines */}
-                    <div className={`${formData.cameraType === 1
+                    <div className={`${formData.cameraType === CAMERA_TYPE_RTSP
                         ? 'bg-blue-50 border-blue-200'
                         : 'bg-purple-50 border-purple-200'
                         } border rounded-lg p-3`}>
-                        <p className={`text-xs sm:text-sm font-semibold ${formData.cameraType === 1 ? 'text-blue-900' : 'text-purple-900'
+                        <p className={`text-xs sm:text-sm font-semibold ${formData.cameraType === CAMERA_TYPE_RTSP ? 'text-blue-900' : 'text-purple-900'
                             } mb-1`}>
-                            {formData.cameraType === 1
+                            {formData.cameraType === CAMERA_TYPE_RTSP
                                 ? t('cameras.rtspSetupTitle')
                                 : t('cameras.p6saiSetupTitle')}
                         </p>
-                        <ul className={`text-xs ${formData.cameraType === 1 ? 'text-blue-800' : 'text-purple-800'
+                        <ul className={`text-xs ${formData.cameraType === CAMERA_TYPE_RTSP ? 'text-blue-800' : 'text-purple-800'
                             } space-y-1`}>
-                            {formData.cameraType === 1 ? (
+                            {formData.cameraType === CAMERA_TYPE_RTSP ? (
                                 <>
                                     <li>• {t('cameras.setupTip1')}</li>
                                     <li>• {t('cameras.setupTip2')}</li>
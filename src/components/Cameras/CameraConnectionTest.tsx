@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Activity, CheckCircle, XCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import axios from 'axios';
+import {
+    cameraService,
+    CAMERA_TYPE_RTSP,
+    type CameraConnectionTestResult,
+    type CameraFormData,
+} from '../../services/cameraService';
+
+interface CameraConnectionTestProps {
+    formData: CameraFormData;
+    /** Last result for the current connection fields; the parent clears it when they change */
+    result: CameraConnectionTestResult | null;
+    onResult: (result: CameraConnectionTestResult) => void;
+}
+
+const CameraConnectionTest = ({ formData, result, onResult }: CameraConnectionTestProps) => {
+    const { t } = useTranslation();
+    const [isTesting, setIsTesting] = useState(false);
+
+    const canTest = formData.cameraType === CAMERA_TYPE_RTSP ? !!formData.rtspUrl.trim() : !!formData.deviceSerial.trim();
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        try {
+            onResult(await cameraService.testConnection(formData));
+        } catch (err) {
+            console.error('Error testing camera connection:', err);
+            onResult({
+                success: false,
+                message: axios.isAxiosError(err) && err.response?.data?.message
+                    ? err.response.data.message
+                    : t('cameras.test.requestFailed'),
+            });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <p className="text-xs sm:text-sm text-gray-600">{t('cameras.test.hint')}</p>
+                <button
+                    type="button"
+                    onClick={handleTest}
+                    disabled={!canTest || isTesting}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2 flex-shrink-0 transition-colors"
+                >
+                    {isTesting ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+                    ) : (
+                        <Activity className="w-4 h-4" />
+                    )}
+                    {isTesting ? t('cameras.test.testing') : t('cameras.test.button')}
+                </button>
+            </div>
+
+            {result && (
+                <div className={`rounded-lg p-3 text-xs sm:text-sm ${result.success ? 'bg-green-50 border border-green-200 text-green-800' : 'bg-red-50 border border-red-200 text-red-800'}`}>
+                    <div className="flex items-start gap-2">
+                        {result.success
+                            ? <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                            : <XCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />}
+                        <div className="min-w-0">
+                            <p className="font-medium">
+                                {result.success ? t('cameras.test.success') : t('cameras.test.failed')}
+                                {result.latencyMs !== undefined && ` · ${t('cameras.test.latency', { ms: Math.round(result.latencyMs) })}`}
+                            </p>
+                            {result.message && <p className="mt-0.5 break-words">{result.message}</p>}
+                            {result.frameWidth && result.frameHeight && (
+                                <p className="mt-0.5">{t('cameras.test.resolution', { width: result.frameWidth, height: result.frameHeight })}</p>
+                            )}
+                            {result.deviceModel && <p className="mt-0.5">{t('cameras.test.deviceModel', { model: result.deviceModel })}</p>}
+                        </div>
+                    </div>
+                    {result.sampleFrame && (
+                        <img
+                            src={`data:image/jpeg;base64,${result.sampleFrame}`}
+                            alt={t('cameras.test.sampleFrame')}
+                            className="mt-3 w-full rounded border border-gray-200 bg-black"
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CameraConnectionTest;
@@ -0,0 +1,199 @@
+import { Video, Brain } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { CAMERA_ROLES, CAMERA_TYPE_P6SAI, CAMERA_TYPE_RTSP, type CameraFormData, type CameraRole } from '../../services/cameraService';
+
+interface CameraFormFieldsProps {
+    formData: CameraFormData;
+    onChange: (changes: Partial<CameraFormData>) => void;
+    /** The type of a saved camera cannot change; its recognition pipeline differs */
+    lockType?: boolean;
+}
+
+/** Type, name, location and connection fields shared by the add and edit modals */
+const CameraFormFields = ({ formData, onChange, lockType = false }: CameraFormFieldsProps) => {
+    const { t } = useTranslation();
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        onChange({ [e.target.name]: e.target.value });
+    };
+
+    return (
+        <>
+            {/* Camera Type Selection */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('cameras.cameraType')} <span className="text-red-500">{t('cameras.required')}</span>
+                </label>
+                <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                    {/* RTSP Camera Option */}
+                    <button
+                        type="button"
+                        disabled={lockType}
+                        onClick={() => onChange({ cameraType: CAMERA_TYPE_RTSP })}
+                        className={`p-3 sm:p-4 border-2 rounded-lg transition-all disabled:cursor-not-allowed ${formData.cameraType === CAMERA_TYPE_RTSP
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-200 hover:border-gray-300 active:bg-gray-50 disabled:opacity-50'
+                            }`}
+                    >
+                        <Video className={`w-5 h-5 sm:w-6 sm:h-6 mx-auto mb-1 sm:mb-2 ${formData.cameraType === CAMERA_TYPE_RTSP ? 'text-blue-600' : 'text-gray-400'
+                            }`} />
+                        <div className="text-xs sm:text-sm font-medium text-gray-900">
+                            {t('cameras.cameraTypeRTSP')}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-0.5 sm:mt-1 hidden sm:block">
+                            {t('cameras.traditionalIPCamera')}
+                        </div>
+                    </button>
+
+                    {/* P6SAI Camera Option */}
+                    <button
+                        type="button"
+                        disabled={lockType}
+                        onClick={() => onChange({ cameraType: CAMERA_TYPE_P6SAI })}
+                        className={`p-3 sm:p-4 border-2 rounded-lg transition-all disabled:cursor-not-allowed ${formData.cameraType === CAMERA_TYPE_P6SAI
+                            ? 'border-purple-500 bg-purple-50'
+                            : 'border-gray-200 hover:border-gray-300 active:bg-gray-50 disabled:opacity-50'
+                            }`}
+                    >
+                        <Brain className={`w-5 h-5 sm:w-6 sm:h-6 mx-auto mb-1 sm:mb-2 ${formData.cameraType === CAMERA_TYPE_P6SAI ? 'text-purple-600' : 'text-gray-400'
+                            }`} />
+                        <div className="text-xs sm:text-sm font-medium text-gray-900">
+                            {t('cameras.cameraTypeP6SAI')}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-0.5 sm:mt-1 hidden sm:block">
+                            {t('cameras.aiFaceRecognition')}
+                        </div>
+                    </button>
+                </div>
+            </div>
+
+            {/* Camera Name */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                    {t('cameras.cameraName')} <span className="text-red-500">{t('cameras.required')}</span>
+                </label>
+                <input
+                    type="text"
+                    name="cameraName"
+                    value={formData.cameraName}
+                    onChange={handleChange}
+                    placeholder={t('cameras.cameraNamePlaceholder')}
+                    className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
+                    required
+                />
+            </div>
+
+            {/* Location */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                    {t('cameras.location')}
+                </label>
+                <input
+                    type="text"
+                    name="location"
+                    value={formData.location}
+                    onChange={handleChange}
+                    placeholder={t('cameras.locationPlaceholder')}
+                    className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
+                />
+            </div>
+
+            {/* Role & Zone */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        {t('cameras.role.label')}
+                    </label>
+                    <select
+                        value={formData.role}
+                        onChange={(e) => onChange({ role: e.target.value as CameraRole })}
+                        className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
+                    >
+                        {CAMERA_ROLES.map(role => (
+                            <option key={role} value={role}>{t(`cameras.role.${role}`)}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        {t('cameras.zone')}{' '}
+                        <span className="text-gray-400 text-xs">({t('cameras.optional')})</span>
+                    </label>
+                    <input
+                        type="text"
+                        name="zone"
+                        value={formData.zone}
+                        onChange={handleChange}
+                        placeholder={t('cameras.zonePlaceholder')}
+                        className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 -mt-2">
+                {t(`cameras.roleHint.${formData.role}`)}
+            </p>
+
+            {/* RTSP URL - Only for RTSP cameras */}
+            {formData.cameraType === CAMERA_TYPE_RTSP && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        {t('cameras.rtspUrl')} <span className="text-red-500">{t('cameras.required')}</span>
+                    </label>
+                    <input
+                        type="text"
+                        name="rtspUrl"
+                        value={formData.rtspUrl}
+                        onChange={handleChange}
+                        placeholder={t('cameras.rtspUrlPlaceholder')}
+                        className="input-field py-2.5 sm:py-2 text-base sm:text-sm font-mono"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        {t('cameras.rtspExampleTitle')}
+                        <br />
+                        • {t('cameras.rtspExampleHikvision')}
+                        <br />
+                        • {t('cameras.rtspExampleDahua')}
+                    </p>
+                </div>
+            )}
+
+            {/* Device Serial - Only for P6SAI cameras */}
+            {formData.cameraType === CAMERA_TYPE_P6SAI && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                        {t('cameras.deviceSerial')} <span className="text-red-500">{t('cameras.required')}</span>
+                    </label>
+                    <input
+                        type="text"
+                        name="deviceSerial"
+                        value={formData.deviceSerial}
+                        onChange={handleChange}
+                        placeholder={t('cameras.deviceSerialPlaceholder')}
+                        className="input-field py-2.5 sm:py-2 text-base sm:text-sm font-mono"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                        {t('cameras.deviceSerialHint')}
+                    </p>
+                </div>
+            )}
+
+            {/* IP Address - Optional for both types */}
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                    {t('cameras.ipAddress')}{' '}
+                    <span className="text-gray-400 text-xs">({t('cameras.optional')})</span>
+                </label>
+                <input
+                    type="text"
+                    name="ipAddress"
+                    value={formData.ipAddress}
+                    onChange={handleChange}
+                    placeholder={t('cameras.ipAddressPlaceholder')}
+                    className="input-field py-2.5 sm:py-2 text-base sm:text-sm"
+                />
+            </div>
+        </>
+    );
+};
+
+export default CameraFormFields;
@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { X, Eye, Pause, Play, VideoOff, Settings } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { authService } from '../../services/authService';
+import { settingsService } from '../../services/settingsService';
+import { cameraService, type CameraConfig, type CameraPreviewFrame, type PreviewFace } from '../../services/cameraService';
+import { DEFAULT_RECOGNITION_THRESHOLD, parseRecognitionThreshold } from '../../services/trainingService';
+
+interface CameraLiveViewModalProps {
+    camera: CameraConfig;
+    onClose: () => void;
+}
+
+const PREVIEW_INTERVAL_MS = 1000;
+const PREVIEW_RETRY_MS = 3000;
+
+type FaceMatch = 'matched' | 'belowThreshold' | 'unknown';
+
+const FACE_COLORS: Record<FaceMatch, string> = {
+    matched: '#16a34a',
+    belowThreshold: '#f59e0b',
+    unknown: '#dc2626',
+};
+
+const classifyFace = (face: PreviewFace, threshold: number): FaceMatch => {
+    if (!face.studentCode) return 'unknown';
+    return face.confidence >= threshold ? 'matched' : 'belowThreshold';
+};
+
+/**
+ * Polls the camera's latest processed frame and draws the recognized faces over it.
+ * The threshold slider only recolours the boxes; the saved value lives in Settings.
+ */
+const CameraLiveViewModal = ({ camera, onClose }: CameraLiveViewModalProps) => {
+    const { t } = useTranslation();
+    const [preview, setPreview] = useState<CameraPreviewFrame | null>(null);
+    const [error, setError] = useState('');
+    const [isPaused, setIsPaused] = useState(false);
+    const [savedThreshold, setSavedThreshold] = useState(DEFAULT_RECOGNITION_THRESHOLD);
+    const [threshold, setThreshold] = useState(DEFAULT_RECOGNITION_THRESHOLD);
+
+    useEffect(() => {
+        const schoolId = authService.getCurrentUser()?.schoolID;
+        if (!schoolId) return;
+        settingsService.getSchoolSettings(schoolId)
+            .then(settings => {
+                const value = parseRecognitionThreshold(settings);
+                setSavedThreshold(value);
+                setThreshold(value);
+            })
+            .catch(() => null);
+    }, []);
+
+    useEffect(() => {
+        if (isPaused) return;
+        let cancelled = false;
+        let failing = false;
+        let timer: ReturnType<typeof setTimeout>;
+
+        // Chain requests instead of using an interval so slow frames never overlap
+        const poll = async () => {
+            let delay = PREVIEW_INTERVAL_MS;
+            try {
+                const frame = await cameraService.getPreviewFrame(camera.cameraId);
+                if (cancelled) return;
+                setPreview(frame);
+                setError('');
+                failing = false;
+            } catch (err) {
+                if (cancelled) return;
+                // The modal shows the error; log only the start of an outage, not every retry
+                if (!failing) console.error('Error fetching camera preview:', err);
+                failing = true;
+                setError(t('cameras.liveView.unavailable'));
+                delay = PREVIEW_RETRY_MS;
+            }
+            timer = setTimeout(poll, delay);
+        };
+        poll();
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [camera.cameraId, isPaused, t]);
+
+    const faces = preview?.faces || [];
+    const counts = faces.reduce<Record<FaceMatch, number>>((acc, face) => {
+        acc[classifyFace(face, threshold)]++;
+        return acc;
+    }, { matched: 0, belowThreshold: 0, unknown: 0 });
+
+    const renderFace = (face: PreviewFace, index: number, frameWidth: number) => {
+        const match = classifyFace(face, threshold);
+        const color = FACE_COLORS[match];
+        const fontSize = Math.max(12, frameWidth / 60);
+        const stroke = Math.max(2, frameWidth / 400);
+        const percent = `${(face.confidence * 100).toFixed(0)}%`;
+        const label = match === 'unknown'
+            ? t('cameras.liveView.unknownFace')
+            : `${face.fullName} (${face.studentCode}) ${percent}`;
+        const labelHeight = fontSize * 1.4;
+        const labelY = face.y >= labelHeight ? face.y - labelHeight : face.y + face.height;
+
+        return (
+            <g key={index}>
+                <rect
+                    x={face.x}
+                    y={face.y}
+                    width={face.width}
+                    height={face.height}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={stroke}
+                    strokeDasharray={match === 'belowThreshold' ? `${stroke * 4} ${stroke * 2}` : undefined}
+                />
+                <rect
+                    x={face.x}
+                    y={labelY}
+                    width={label.length * fontSize * 0.6 + fontSize}
+                    height={labelHeight}
+                    fill={color}
+                    opacity={0.85}
+                />
+                <text
+                    x={face.x + fontSize / 2}
+                    y={labelY + fontSize * 1.05}
+                    fill="#ffffff"
+                    fontSize={fontSize}
+                    fontFamily="ui-monospace, monospace"
+                >
+                    {label}
+                </text>
+            </g>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div className="min-w-0">
+                        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 flex items-center gap-2">
+                            <Eye className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" />
+                            {t('cameras.liveView.title')}
+                        </h2>
+                        <p className="text-xs sm:text-sm text-gray-600 mt-1 truncate">
+                            {camera.cameraName}{camera.location && ` · ${camera.location}`}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setIsPaused(!isPaused)}
+                            className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                            title={isPaused ? t('cameras.liveView.resume') : t('cameras.liveView.pause')}
+                        >
+                            {isPaused ? <Play className="w-5 h-5 text-gray-600" /> : <Pause className="w-5 h-5 text-gray-600" />}
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                        >
+                            <X className="w-6 h-6 text-gray-600" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {/* Frame */}
+                    <div className="relative bg-black rounded-lg overflow-hidden">
+                        {preview ? (
+                            <>
+                                <img
+                                    src={`data:image/jpeg;base64,${preview.frame}`}
+                                    alt={camera.cameraName}
+                                    className="block w-full h-auto"
+                                />
+                                <svg
+                                    className="absolute inset-0 w-full h-full"
+                                    viewBox={`0 0 ${preview.frameWidth} ${preview.frameHeight}`}
+                                    preserveAspectRatio="none"
+                                >
+                                    {faces.map((face, index) => renderFace(face, index, preview.frameWidth))}
+                                </svg>
+                            </>
+                        ) : (
+                            <div className="aspect-video flex flex-col items-center justify-center text-gray-400 gap-2">
+                                {error ? (
+                                    <VideoOff className="w-10 h-10" />
+                                ) : (
+                                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-gray-400"></div>
+                                )}
+                                <span className="text-sm">{error || t('cameras.liveView.connecting')}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {preview && error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Status line */}
+                    {preview && (
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs sm:text-sm text-gray-600">
+                            <span>
+                                {t('cameras.liveView.capturedAt', { time: new Date(preview.capturedAt).toLocaleTimeString() })}
+                                {isPaused && ` · ${t('cameras.liveView.paused')}`}
+                            </span>
+                            {(Object.keys(FACE_COLORS) as FaceMatch[]).map(match => (
+                                <span key={match} className="inline-flex items-center gap-1.5">
+                                    <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: FACE_COLORS[match] }}></span>
+                                    {t(`cameras.liveView.faces.${match}`, { count: counts[match] })}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Threshold preview */}
+                    <div className="border border-gray-200 rounded-lg p-3 sm:p-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                            {t('cameras.liveView.previewThreshold')}
+                        </label>
+                        <div className="flex items-center gap-4">
+                            <input
+                                type="range"
+                                min="0.5"
+                                max="0.95"
+                                step="0.05"
+                                value={threshold}
+                                onChange={(e) => setThreshold(parseFloat(e.target.value))}
+                                className="flex-1"
+                            />
+                            <span className="text-lg font-semibold text-gray-900 min-w-[60px] text-right">
+                                {(threshold * 100).toFixed(0)}%
+                            </span>
+                        </div>
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mt-2">
+                            <p className="text-xs text-gray-500">
+                                {t('cameras.liveView.thresholdHint', { saved: (savedThreshold * 100).toFixed(0) })}
+                            </p>
+                            <Link
+                                to="/settings"
+                                className="text-xs sm:text-sm text-blue-600 hover:underline inline-flex items-center gap-1 flex-shrink-0"
+                            >
+                                <Settings className="w-3.5 h-3.5" />
+                                {t('cameras.liveView.openSettings')}
+                            </Link>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CameraLiveViewModal;
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { authService } from '../../services/authService';
+import { settingsService } from '../../services/settingsService';
+import { schoolCalendarService } from '../../services/schoolCalendarService';
+import { cameraService, type CameraConfig } from '../../services/cameraService';
+import { useRealtimeEvent } from '../../hooks/useRealtime';
+import { buildSchoolCalendar, isSchoolDay, toDateString } from '../../utils/schoolCalendar';
+import {
+    getMonitoredStatuses,
+    getOfflineAlerts,
+    parseCameraHealthSettings,
+    DEFAULT_CAMERA_HEALTH_SETTINGS,
+    type CameraHealthSettings,
+} from '../../utils/cameraHealth';
+import type { CameraStatus } from '../../types';
+
+const REEVALUATE_MS = 60000;
+
+/**
+ * Shown above every page for camera managers when an active, running camera has been
+ * offline for more than CameraOfflineAlertMinutes during today's school hours. Cameras
+ * stopped on purpose and inactive cameras are ignored.
+ */
+const CameraOfflineBanner = () => {
+    const { t } = useTranslation();
+    const [cameras, setCameras] = useState<CameraConfig[]>([]);
+    const [statuses, setStatuses] = useState<{ [key: number]: CameraStatus }>({});
+    const [healthSettings, setHealthSettings] = useState<CameraHealthSettings>(DEFAULT_CAMERA_HEALTH_SETTINGS);
+    const [isSchoolDayToday, setIsSchoolDayToday] = useState(true);
+    const [today, setToday] = useState(toDateString(new Date()));
+    const [now, setNow] = useState(new Date());
+    const [dismissed, setDismissed] = useState<string[]>([]);
+
+    // Statuses only change on transitions, so re-check the offline duration every minute
+    useEffect(() => {
+        const timer = setInterval(() => {
+            const current = new Date();
+            setNow(current);
+            setToday(toDateString(current));
+        }, REEVALUATE_MS);
+        return () => clearInterval(timer);
+    }, []);
+
+    useEffect(() => {
+        const schoolId = authService.getCurrentUser()?.schoolID;
+        Promise.all([
+            schoolId ? settingsService.getSchoolSettings(schoolId).catch(() => null) : Promise.resolve(null),
+            schoolCalendarService.getRange(today, today).catch(() => null),
+        ]).then(([settings, calendarRange]) => {
+            if (settings) setHealthSettings(parseCameraHealthSettings(settings));
+            setIsSchoolDayToday(isSchoolDay(buildSchoolCalendar(calendarRange), today));
+        });
+    }, [today]);
+
+    const fetchStatuses = () => {
+        cameraService.getStatuses()
+            .then(list => {
+                const map: { [key: number]: CameraStatus } = {};
+                list.forEach(status => {
+                    map[status.cameraId] = status;
+                });
+                setStatuses(map);
+            })
+            .catch(error => console.error('Error fetching camera statuses:', error));
+    };
+
+    useEffect(() => {
+        cameraService.getCameras()
+            .then(setCameras)
+            .catch(error => console.error('Error fetching cameras:', error));
+        fetchStatuses();
+    }, []);
+
+    const monitored = getMonitoredStatuses(Object.values(statuses), cameras);
+    const hasActiveCameras = cameras.some(c => c.isActive);
+    const hasMonitoredCameras = monitored.length > 0;
+
+    // Live updates only while a camera is expected to run; otherwise check once a minute for one being started
+    useEffect(() => {
+        if (!hasActiveCameras || hasMonitoredCameras) return;
+        const timer = setInterval(fetchStatuses, REEVALUATE_MS);
+        return () => clearInterval(timer);
+    }, [hasActiveCameras, hasMonitoredCameras]);
+
+    useRealtimeEvent('cameraStatus', (updates) => {
+        setStatuses(prev => {
+            const next = { ...prev };
+            updates.forEach(status => {
+                next[status.cameraId] = status;
+            });
+            return next;
+        });
+    }, hasMonitoredCameras);
+
+    const alerts = getOfflineAlerts(monitored, healthSettings, isSchoolDayToday, today, now)
+        .filter(alert => !dismissed.includes(alert.key));
+
+    if (alerts.length === 0) return null;
+
+    const formatTime = (date: Date) => date.toLocaleTimeString('en-MY', { hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="mb-4 sm:mb-6 bg-red-50 border border-red-200 rounded-lg p-3 sm:p-4 flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-red-900">
+                    {t('cameraHealth.banner.title', { count: alerts.length })}
+                </p>
+                <ul className="mt-1 space-y-0.5 text-xs sm:text-sm text-red-800">
+                    {alerts.map(alert => (
+                        <li key={alert.key}>
+                            {t('cameraHealth.banner.item', {
+                                name: alert.cameraName,
+                                minutes: alert.offlineMinutes,
+                                since: formatTime(alert.offlineSince),
+                            })}
+                        </li>
+                    ))}
+                </ul>
+                <div className="mt-2 flex gap-4 text-xs sm:text-sm">
+                    <Link to="/cameras" className="text-red-700 font-medium hover:underline">
+                        {t('cameraHealth.banner.manage')}
+                    </Link>
+                    <Link to="/cameras/health" className="text-red-700 font-medium hover:underline">
+                        {t('cameraHealth.banner.history')}
+                    </Link>
+                </div>
+            </div>
+            <button
+                onClick={() => setDismissed(prev => [...prev, ...alerts.map(a => a.key)])}
+                className="p-1 text-red-500 hover:bg-red-100 rounded transition-colors"
+                title={t('cameraHealth.banner.dismiss')}
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export default CameraOfflineBanner;
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Camera, X, Save } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import axios from 'axios';
+import {
+    cameraService,
+    CONNECTION_FIELDS,
+    toCameraForm,
+    validateCameraForm,
+    type CameraConfig,
+    type CameraConnectionTestResult,
+    type CameraFormData,
+} from '../../services/cameraService';
+import CameraFormFields from './CameraFormFields';
+import CameraConnectionTest from './CameraConnectionTest';
+
+interface EditCameraModalProps {
+    camera: CameraConfig;
+    /** A running camera is restarted by the backend so new connection settings take effect */
+    isRunning: boolean;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const EditCameraModal = ({ camera, isRunning, onClose, onSuccess }: EditCameraModalProps) => {
+    const { t } = useTranslation();
+    const [formData, setFormData] = useState<CameraFormData>(() => toCameraForm(camera));
+    const [testResult, setTestResult] = useState<CameraConnectionTestResult | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleFieldsChange = (changes: Partial<CameraFormData>) => {
+        setFormData(prev => ({ ...prev, ...changes }));
+        if (CONNECTION_FIELDS.some(field => field in changes)) {
+            setTestResult(null);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        const validationError = validateCameraForm(formData);
+        if (validationError) {
+            setError(t(validationError));
+            return;
+        }
+
+        if (testResult && !testResult.success && !confirm(t('cameras.test.saveAnyway'))) {
+            return;
+        }
+
+        setIsSubmitting(true);
+
+        try {
+            await cameraService.updateCamera(camera.cameraId, formData);
+            onSuccess();
+        } catch (err) {
+            console.error('Error updating camera:', err);
+            setError(axios.isAxiosError(err) && err.response?.data?.message
+                ? err.response.data.message
+                : t('cameras.editCameraError'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div className="min-w-0">
+                        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 flex items-center gap-2">
+                            <Camera className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" />
+                            {t('cameras.editCameraModalTitle')}
+                        </h2>
+                        <p className="text-xs sm:text-sm text-gray-600 mt-1 truncate">{camera.cameraName}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {/* Error Message */}
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    <CameraFormFields formData={formData} onChange={handleFieldsChange} lockType />
+
+                    <CameraConnectionTest formData={formData} result={testResult} onResult={setTestResult} />
+
+                    {isRunning && (
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs sm:text-sm text-amber-800">
+                            {t('cameras.restartOnSave')}
+                        </div>
+                    )}
+
+                    {/* Buttons */}
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2.5 sm:py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 active:bg-gray-100 transition-colors disabled:opacity-50"
+                        >
+                            {t('cameras.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="flex-1 btn-primary flex items-center justify-center gap-2 py-2.5 sm:py-2"
+                        >
+                            {isSubmitting ? (
+                                <>
+                                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                                    {t('common.saving')}
+                                </>
+                            ) : (
+                                <>
+                                    <Save className="w-4 h-4" />
+                                    {t('common.save')}
+                                </>
+                            )}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default EditCameraModal;
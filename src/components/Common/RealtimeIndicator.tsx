@@ -0,0 +1,31 @@
+import { useTranslation } from 'react-i18next';
+import type { RealtimeConnectionState } from '../../services/realtimeService';
+
+interface RealtimeIndicatorProps {
+    state: RealtimeConnectionState;
+    className?: string;
+}
+
+const STATE_STYLES: Record<RealtimeConnectionState, { dot: string; badge: string }> = {
+    live: { dot: 'bg-green-500 animate-pulse', badge: 'bg-green-50 text-green-700 border-green-200' },
+    polling: { dot: 'bg-yellow-500', badge: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+    connecting: { dot: 'bg-gray-400 animate-pulse', badge: 'bg-gray-50 text-gray-600 border-gray-200' },
+    idle: { dot: 'bg-gray-300', badge: 'bg-gray-50 text-gray-500 border-gray-200' },
+};
+
+const RealtimeIndicator = ({ state, className = '' }: RealtimeIndicatorProps) => {
+    const { t } = useTranslation();
+    const style = STATE_STYLES[state];
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-medium whitespace-nowrap ${style.badge} ${className}`}
+            title={t(`realtime.${state}Hint`)}
+        >
+            <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+            {t(`realtime.${state}`)}
+        </span>
+    );
+};
+
+export default RealtimeIndicator;
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { eventService, type EventType, type EventCalendarItem } from '../../services/eventService';
+import { schoolCalendarService } from '../../services/schoolCalendarService';
+import { buildSchoolCalendar, toDateString, OPEN_CALENDAR, type SchoolCalendar } from '../../utils/schoolCalendar';
+import MonthCalendar from '../SchoolCalendar/MonthCalendar';
+import LoadingSpinner from '../Common/LoadingSpinner';
+
+interface EventCalendarViewProps {
+    eventType: EventType | 'All';
+    searchTerm: string;
+    onViewEvent: (eventId: number) => void;
+}
+
+const EventCalendarView = ({ eventType, searchTerm, onViewEvent }: EventCalendarViewProps) => {
+    const { t } = useTranslation();
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [month, setMonth] = useState(new Date().getMonth() + 1);
+    const [items, setItems] = useState<EventCalendarItem[]>([]);
+    const [calendar, setCalendar] = useState<SchoolCalendar>(OPEN_CALENDAR);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        fetchMonth();
+    }, [year, month]);
+
+    const fetchMonth = async () => {
+        setIsLoading(true);
+        const startDate = toDateString(new Date(year, month - 1, 1));
+        const endDate = toDateString(new Date(year, month, 0));
+        try {
+            const [eventData, calendarRange] = await Promise.all([
+                eventService.getCalendar(month, year),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
+            setItems(eventData || []);
+            setCalendar(buildSchoolCalendar(calendarRange));
+        } catch (error) {
+            console.error('Error loading event calendar:', error);
+            setItems([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const term = searchTerm.trim().toLowerCase();
+    const visible = items.filter(item =>
+        (eventType === 'All' || item.eventType === eventType) &&
+        (!term || item.eventName.toLowerCase().includes(term) || item.venue?.toLowerCase().includes(term))
+    );
+
+    const eventsOn = (date: string) => visible.filter(item => {
+        const start = item.eventDate.split('T')[0];
+        const end = (item.endDate || item.eventDate).split('T')[0];
+        return start <= date && date <= end;
+    });
+
+    return (
+        <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+            {isLoading ? (
+                <LoadingSpinner />
+            ) : (
+                <MonthCalendar
+                    year={year}
+                    month={month}
+                    calendar={calendar}
+                    onMonthChange={(y, m) => {
+                        setYear(y);
+                        setMonth(m);
+                    }}
+                    renderDay={(info) => (
+                        <div className="mt-1 space-y-0.5">
+                            {eventsOn(info.date).map(item => (
+                                <button
+                                    key={item.eventID}
+                                    onClick={() => onViewEvent(item.eventID)}
+                                    title={info.isSchoolDay
+                                        ? item.eventName
+                                        : `${item.eventName} · ${t('events.calendar.nonSchoolDay', 'Not a school day')}`}
+                                    className={`block w-full text-left truncate px-1 py-0.5 rounded text-[10px] sm:text-xs ${info.isSchoolDay
+                                        ? 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                                        : 'bg-white text-blue-700 border border-dashed border-blue-300 hover:bg-blue-50'
+                                        }`}
+                                >
+                                    {item.startTime && <span className="font-medium">{item.startTime.slice(0, 5)} </span>}
+                                    {item.eventName}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                />
+            )}
+        </div>
+    );
+};
+
+export default EventCalendarView;
@@ -0,0 +1,283 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, FileCheck, Search, Paperclip } from 'lucide-react';
+import { authService } from '../../services/authService';
+import { studentService, type StudentWithAcademic } from '../../services/studentService';
+import { excuseService, EXCUSE_TYPES, type ExcuseType } from '../../services/excuseService';
+import { toDateString } from '../../utils/schoolCalendar';
+
+interface AddExcuseModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const MAX_ATTACHMENT_MB = 5;
+
+const AddExcuseModal = ({ isOpen, onClose, onSuccess }: AddExcuseModalProps) => {
+    const { t } = useTranslation();
+    const [students, setStudents] = useState<StudentWithAcademic[]>([]);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [selectedStudent, setSelectedStudent] = useState<StudentWithAcademic | null>(null);
+    const [excuseType, setExcuseType] = useState<ExcuseType>('Medical');
+    const [startDate, setStartDate] = useState(toDateString(new Date()));
+    const [endDate, setEndDate] = useState(toDateString(new Date()));
+    const [reason, setReason] = useState('');
+    const [attachment, setAttachment] = useState<File | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const today = toDateString(new Date());
+        setSearchTerm('');
+        setSelectedStudent(null);
+        setExcuseType('Medical');
+        setStartDate(today);
+        setEndDate(today);
+        setReason('');
+        setAttachment(null);
+        setError('');
+        if (students.length === 0) fetchStudents();
+    }, [isOpen]);
+
+    const fetchStudents = async () => {
+        const schoolId = authService.getCurrentUser()?.schoolID;
+        if (!schoolId) return;
+        try {
+            const data = await studentService.getStudentsBySchool(schoolId);
+            setStudents((data || []).filter(s => s.isActive));
+        } catch (err) {
+            console.error('Error fetching students:', err);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const matches = searchTerm.trim().length < 2 ? [] : students.filter(s => {
+        const term = searchTerm.toLowerCase();
+        return s.fullName.toLowerCase().includes(term) || s.studentCode.toLowerCase().includes(term);
+    }).slice(0, 8);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0] || null;
+        if (file && file.size > MAX_ATTACHMENT_MB * 1024 * 1024) {
+            setError(t('excuses.attachmentTooLarge', 'Attachment must be smaller than {{size}} MB', { size: MAX_ATTACHMENT_MB }));
+            e.target.value = '';
+            return;
+        }
+        setError('');
+        setAttachment(file);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (!selectedStudent) {
+            setError(t('excuses.studentRequired', 'Please select a student'));
+            return;
+        }
+        if (!startDate || !endDate || endDate < startDate) {
+            setError(t('excuses.invalidRange', 'End date must be on or after the start date'));
+            return;
+        }
+        if (!reason.trim()) {
+            setError(t('excuses.reasonRequired', 'Please enter a reason'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await excuseService.createExcuse({
+                studentCode: selectedStudent.studentCode,
+                excuseType,
+                startDate,
+                endDate,
+                reason: reason.trim(),
+            }, attachment);
+            onSuccess();
+            onClose();
+        } catch (err) {
+            console.error('Error creating excuse:', err);
+            setError(t('excuses.saveFailed', 'Failed to save the excuse'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                        <FileCheck className="w-5 h-5 text-blue-600" />
+                        {t('excuses.addTitle', 'Record Excused Absence')}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Student */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('attendance.student')} <span className="text-red-500">*</span>
+                        </label>
+                        {selectedStudent ? (
+                            <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+                                <div>
+                                    <p className="text-sm font-medium text-gray-900">{selectedStudent.fullName}</p>
+                                    <p className="text-xs text-gray-500">
+                                        {selectedStudent.studentCode}
+                                        {selectedStudent.className && ` · ${selectedStudent.gradeName} - ${selectedStudent.className}`}
+                                    </p>
+                                </div>
+                                <button type="button" onClick={() => setSelectedStudent(null)} className="p-1 text-gray-500 hover:text-gray-700">
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="relative">
+                                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                                <input
+                                    type="text"
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    placeholder={t('excuses.searchStudent', 'Search by name or student code...')}
+                                    className="input-field pl-9 py-2 text-sm"
+                                />
+                                {matches.length > 0 && (
+                                    <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+                                        {matches.map(s => (
+                                            <button
+                                                key={s.studentCode}
+                                                type="button"
+                                                onClick={() => setSelectedStudent(s)}
+                                                className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                                            >
+                                                <span className="text-sm text-gray-900">{s.fullName}</span>
+                                                <span className="text-xs text-gray-500 ml-2">{s.studentCode}{s.className && ` · ${s.className}`}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Type */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('excuses.type', 'Type')} <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                            value={excuseType}
+                            onChange={(e) => setExcuseType(e.target.value as ExcuseType)}
+                            className="input-field py-2 text-sm"
+                        >
+                            {EXCUSE_TYPES.map(type => (
+                                <option key={type} value={type}>{t(`excuses.types.${type}`, type)}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Date range */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {t('excuses.startDate', 'From')} <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="date"
+                                value={startDate}
+                                onChange={(e) => {
+                                    setStartDate(e.target.value);
+                                    if (endDate < e.target.value) setEndDate(e.target.value);
+                                }}
+                                className="input-field py-2 text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {t('excuses.endDate', 'To')} <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="date"
+                                value={endDate}
+                                min={startDate}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="input-field py-2 text-sm"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Reason */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('excuses.reason', 'Reason')} <span className="text-red-500">*</span>
+                        </label>
+                        <textarea
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            rows={3}
+                            placeholder={t('excuses.reasonPlaceholder', 'e.g. MC from Klinik Kesihatan, fever')}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    {/* Attachment */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('excuses.attachment', 'Attachment')}
+                        </label>
+                        <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 text-sm text-gray-600">
+                            <Paperclip className="w-4 h-4 flex-shrink-0" />
+                            <span className="truncate">
+                                {attachment ? attachment.name : t('excuses.attachmentHint', 'Medical certificate or letter (PDF/image, max {{size}} MB)', { size: MAX_ATTACHMENT_MB })}
+                            </span>
+                            <input
+                                type="file"
+                                accept="application/pdf,image/*"
+                                onChange={handleFileChange}
+                                className="hidden"
+                            />
+                        </label>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting ? t('common.saving') : t('common.save')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default AddExcuseModal;
@@ -0,0 +1,386 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle, Clock, UserX, AlertTriangle, CloudOff, LogOut, Monitor, RefreshCw } from 'lucide-react';
+import { lateCheckInService, type LateCheckInResult } from '../../services/lateCheckInService';
+import { isRetryableCheckInError, type LateCheckInQueue } from '../../hooks/useLateCheckInQueue';
+import { GOOD_FRAMES_REQUIRED, checkFaceFraming, createFaceDetector, type FaceFraming } from '../../utils/faceFraming';
+
+interface LateCheckInKioskProps {
+    queue: LateCheckInQueue;
+    onExit: () => void;
+}
+
+const DETECTION_INTERVAL_MS = 100;
+const RESULT_DISPLAY_MS = 4000;
+
+/**
+ * waitingClear: after a result, wait for the frame to empty so the same student isn't captured twice.
+ * scanning: looking for one well-positioned face.
+ */
+type KioskPhase = 'waitingClear' | 'scanning' | 'submitting' | 'result';
+
+type KioskStatus = FaceFraming | 'no-face' | 'multiple-faces';
+
+type KioskOutcome =
+    | { kind: 'checkedIn'; result: LateCheckInResult }
+    | { kind: 'notRecognized'; result: LateCheckInResult }
+    | { kind: 'queued' }
+    | { kind: 'error'; message: string };
+
+/** Unattended late check-in: auto-captures one centred face, shows the result, then re-arms */
+const LateCheckInKiosk = ({ queue, onExit }: LateCheckInKioskProps) => {
+    const { t } = useTranslation();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const detectorRef = useRef<FaceDetector | null>(createFaceDetector(2));
+    const goodFrameCountRef = useRef(0);
+    const phaseRef = useRef<KioskPhase>('waitingClear');
+
+    const [phase, setPhaseState] = useState<KioskPhase>('waitingClear');
+    const [status, setStatus] = useState<KioskStatus>('no-face');
+    const [stability, setStability] = useState(0);
+    const [outcome, setOutcome] = useState<KioskOutcome | null>(null);
+    const [cameraError, setCameraError] = useState('');
+
+    const setPhase = (next: KioskPhase) => {
+        phaseRef.current = next;
+        setPhaseState(next);
+    };
+
+    // Front camera only; the kiosk faces the students
+    useEffect(() => {
+        if (!detectorRef.current) return;
+        let cancelled = false;
+        navigator.mediaDevices.getUserMedia({
+            video: { facingMode: { ideal: 'user' }, width: { ideal: 1280 }, height: { ideal: 720 } },
+            audio: false
+        })
+            .then(async stream => {
+                if (cancelled) {
+                    stream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                streamRef.current = stream;
+                if (videoRef.current) {
+                    videoRef.current.srcObject = stream;
+                    await videoRef.current.play();
+                }
+            })
+            .catch(err => {
+                console.error('Kiosk camera error:', err);
+                setCameraError(err instanceof Error && err.name === 'NotAllowedError'
+                    ? t('lateCheckIn.permissionDenied', 'Camera permission denied. Please allow camera access.')
+                    : t('lateCheckIn.noCameraFound', 'No camera found on this device.'));
+            });
+        return () => {
+            cancelled = true;
+            streamRef.current?.getTracks().forEach(track => track.stop());
+            streamRef.current = null;
+        };
+    }, [t]);
+
+    // Detection loop; reads the phase from a ref so the interval never goes stale
+    useEffect(() => {
+        const detector = detectorRef.current;
+        if (!detector) return;
+        let busy = false;
+
+        const timer = setInterval(async () => {
+            const video = videoRef.current;
+            const current = phaseRef.current;
+            if (busy || !video || video.readyState !== 4) return;
+            if (current !== 'scanning' && current !== 'waitingClear') return;
+
+            busy = true;
+            try {
+                const faces = await detector.detect(video);
+                if (faces.length === 0) {
+                    goodFrameCountRef.current = 0;
+                    setStatus('no-face');
+                    setStability(0);
+                    if (phaseRef.current === 'waitingClear') setPhase('scanning');
+                    return;
+                }
+                if (phaseRef.current !== 'scanning') return;
+
+                const next: KioskStatus = faces.length > 1
+                    ? 'multiple-faces'
+                    : checkFaceFraming(faces[0].boundingBox, video.videoWidth, video.videoHeight);
+                goodFrameCountRef.current = next === 'good' ? goodFrameCountRef.current + 1 : 0;
+                setStatus(next);
+                setStability(Math.min(100, (goodFrameCountRef.current / GOOD_FRAMES_REQUIRED) * 100));
+
+                if (goodFrameCountRef.current >= GOOD_FRAMES_REQUIRED) {
+                    goodFrameCountRef.current = 0;
+                    captureAndSubmit();
+                }
+            } catch {
+                // Frames fail while the video is still warming up; the next tick tries again
+            } finally {
+                busy = false;
+            }
+        }, DETECTION_INTERVAL_MS);
+
+        return () => clearInterval(timer);
+    }, []);
+
+    // Show each result for a few seconds, then re-arm
+    useEffect(() => {
+        if (phase !== 'result') return;
+        const timer = setTimeout(() => {
+            setOutcome(null);
+            setStability(0);
+            setPhase('waitingClear');
+        }, RESULT_DISPLAY_MS);
+        return () => clearTimeout(timer);
+    }, [phase]);
+
+    const captureFrame = (): string | null => {
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!video || !canvas || !ctx) return null;
+
+        const size = Math.min(video.videoWidth, video.videoHeight);
+        canvas.width = size;
+        canvas.height = size;
+        // Mirror to match the on-screen preview, as in manual mode
+        ctx.save();
+        ctx.scale(-1, 1);
+        ctx.drawImage(
+            video,
+            (video.videoWidth - size) / 2, (video.videoHeight - size) / 2, size, size,
+            -size, 0, size, size
+        );
+        ctx.restore();
+        return canvas.toDataURL('image/jpeg', 0.85);
+    };
+
+    const captureAndSubmit = async () => {
+        const image = captureFrame();
+        if (!image) return;
+        const capturedAt = new Date().toISOString();
+        const remarks = t('lateCheckIn.remarkText', 'Late check-in via kiosk');
+        setPhase('submitting');
+
+        let next: KioskOutcome;
+        try {
+            const blob = await (await fetch(image)).blob();
+            const result = await lateCheckInService.checkIn(blob, remarks);
+            next = result.success && result.isRecognized
+                ? { kind: 'checkedIn', result }
+                : { kind: 'notRecognized', result };
+        } catch (err) {
+            if (isRetryableCheckInError(err)) {
+                next = queue.enqueue(image, capturedAt, remarks)
+                    ? { kind: 'queued' }
+                    : { kind: 'error', message: t('lateCheckIn.kiosk.queueFull') };
+            } else {
+                console.error('Kiosk check-in error:', err);
+                next = { kind: 'error', message: err instanceof Error && err.message ? err.message : t('lateCheckIn.checkInFailed', 'Check-in failed') };
+            }
+        }
+        setOutcome(next);
+        setPhase('result');
+    };
+
+    const handleExit = () => {
+        if (confirm(t('lateCheckIn.kiosk.confirmExit'))) onExit();
+    };
+
+    const statusMessage = (): string => {
+        if (phase === 'waitingClear') return t('lateCheckIn.kiosk.nextStudent');
+        switch (status) {
+            case 'multiple-faces': return t('lateCheckIn.kiosk.oneAtATime');
+            case 'too-far': return t('students.cameraCapture.moveCloser', 'Move closer');
+            case 'too-close': return t('students.cameraCapture.moveBack', 'Move back a little');
+            case 'off-center': return t('students.cameraCapture.centerFace', 'Center your face');
+            case 'good': return t('students.cameraCapture.goodHoldStill', 'Good, hold still');
+            default: return t('lateCheckIn.positionFace', 'Position your face in the circle');
+        }
+    };
+
+    const ringColor = status === 'good' && phase === 'scanning'
+        ? 'border-green-400 shadow-[0_0_30px_rgba(74,222,128,0.4)]'
+        : 'border-orange-400 shadow-[0_0_30px_rgba(251,146,60,0.4)]';
+
+    const formatTime = (dateString?: string) =>
+        dateString ? new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '';
+
+    const renderOutcome = (result: KioskOutcome) => {
+        switch (result.kind) {
+            case 'checkedIn':
+                return (
+                    <div className="bg-green-500/20 border border-green-500/50 rounded-2xl p-6 text-center">
+                        <CheckCircle className="w-16 h-16 text-green-400 mx-auto mb-3" />
+                        <h2 className="text-2xl font-bold text-white">{result.result.studentName}</h2>
+                        <p className="text-gray-400">{result.result.studentCode}</p>
+                        <p className="mt-3 flex items-center justify-center gap-2 text-orange-400">
+                            <Clock className="w-4 h-4" />
+                            {t('lateCheckIn.checkedInAt', 'Checked in at')} {formatTime(result.result.checkInTime)}
+                        </p>
+                    </div>
+                );
+            case 'notRecognized':
+                return (
+                    <div className="bg-red-500/20 border border-red-500/50 rounded-2xl p-6 text-center">
+                        {result.result.facesDetected === 0
+                            ? <AlertTriangle className="w-16 h-16 text-red-400 mx-auto mb-3" />
+                            : <UserX className="w-16 h-16 text-red-400 mx-auto mb-3" />}
+                        <h2 className="text-2xl font-bold text-red-400">
+                            {result.result.facesDetected === 0
+                                ? t('lateCheckIn.noFaceDetected', 'No Face Detected')
+                                : t('lateCheckIn.notRecognized', 'Not Recognized')}
+                        </h2>
+                        <p className="text-gray-400 mt-2">{t('lateCheckIn.kiosk.seeOffice')}</p>
+                    </div>
+                );
+            case 'queued':
+                return (
+                    <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-2xl p-6 text-center">
+                        <CloudOff className="w-16 h-16 text-yellow-400 mx-auto mb-3" />
+                        <h2 className="text-2xl font-bold text-yellow-300">{t('lateCheckIn.kiosk.savedOffline')}</h2>
+                        <p className="text-gray-400 mt-2">{t('lateCheckIn.kiosk.savedOfflineHint')}</p>
+                    </div>
+                );
+            case 'error':
+                return (
+                    <div className="bg-red-500/20 border border-red-500/50 rounded-2xl p-6 text-center">
+                        <AlertTriangle className="w-16 h-16 text-red-400 mx-auto mb-3" />
+                        <h2 className="text-xl font-bold text-red-400">{result.message}</h2>
+                        <p className="text-gray-400 mt-2">{t('lateCheckIn.kiosk.seeOffice')}</p>
+                    </div>
+                );
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-hidden bg-gray-900">
+            <div className="relative h-full flex flex-col">
+                {/* Header */}
+                <div className="flex-shrink-0 bg-gray-900/80 backdrop-blur-sm px-4 py-3 flex items-center justify-between safe-area-top">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-orange-500/20 rounded-lg">
+                            <Monitor className="w-5 h-5 text-orange-400" />
+                        </div>
+                        <div>
+                            <h1 className="text-base sm:text-lg font-semibold text-white">
+                                {t('lateCheckIn.title', 'Late Check-In')}
+                            </h1>
+                            <p className="text-xs sm:text-sm text-gray-400">{t('lateCheckIn.kiosk.subtitle')}</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {queue.unresolved.length > 0 && (
+                            <span
+                                className="px-3 py-1 rounded-full text-xs font-medium bg-red-500/20 text-red-300 flex items-center gap-1.5"
+                                title={t('lateCheckIn.review.kioskHint')}
+                            >
+                                <UserX className="w-3.5 h-3.5" />
+                                {t('lateCheckIn.review.count', { count: queue.unresolved.length })}
+                            </span>
+                        )}
+                        {queue.pending > 0 && (
+                            <span className="px-3 py-1 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-300 flex items-center gap-1.5">
+                                {queue.isSyncing ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <CloudOff className="w-3.5 h-3.5" />}
+                                {t('lateCheckIn.kiosk.pending', { count: queue.pending })}
+                            </span>
+                        )}
+                        <button
+                            onClick={handleExit}
+                            className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                            title={t('lateCheckIn.kiosk.exit')}
+                        >
+                            <LogOut className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Camera */}
+                <div className="flex-1 relative overflow-hidden">
+                    {!detectorRef.current || cameraError ? (
+                        <div className="absolute inset-0 flex items-center justify-center p-6">
+                            <div className="max-w-sm text-center">
+                                <AlertTriangle className="w-12 h-12 text-yellow-400 mx-auto mb-3" />
+                                <p className="text-white">{cameraError || t('lateCheckIn.kiosk.unsupported')}</p>
+                                <button
+                                    onClick={onExit}
+                                    className="mt-4 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-xl transition-colors"
+                                >
+                                    {t('lateCheckIn.kiosk.exit')}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <video
+                                ref={videoRef}
+                                autoPlay
+                                playsInline
+                                muted
+                                className="w-full h-full object-cover scale-x-[-1]"
+                            />
+                            <canvas ref={canvasRef} className="hidden" />
+
+                            {/* Circular frame */}
+                            <div className="absolute inset-0 pointer-events-none">
+                                <svg className="w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="xMidYMid slice">
+                                    <defs>
+                                        <mask id="circleMaskKiosk">
+                                            <rect width="100" height="100" fill="white" />
+                                            <circle cx="50" cy="50" r="35" fill="black" />
+                                        </mask>
+                                    </defs>
+                                    <rect width="100" height="100" fill="rgba(0,0,0,0.6)" mask="url(#circleMaskKiosk)" />
+                                </svg>
+                                <div className="absolute inset-0 flex items-center justify-center">
+                                    <div className={`w-[70%] max-w-[300px] aspect-square rounded-full border-4 transition-colors ${ringColor}`} />
+                                </div>
+                            </div>
+
+                            {/* Status */}
+                            {(phase === 'scanning' || phase === 'waitingClear') && (
+                                <div className="absolute top-4 sm:top-8 left-0 right-0 text-center z-10 space-y-2">
+                                    <span className="inline-block px-4 py-2 rounded-full text-sm sm:text-base font-medium shadow-lg bg-orange-500/90 text-white">
+                                        {statusMessage()}
+                                    </span>
+                                    {stability > 0 && (
+                                        <div className="w-48 h-1.5 bg-gray-700 rounded-full overflow-hidden mx-auto">
+                                            <div className="h-full bg-green-400 transition-all" style={{ width: `${stability}%` }}></div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {phase === 'submitting' && (
+                                <div className="absolute inset-0 flex items-center justify-center bg-black/60 z-20">
+                                    <div className="text-center">
+                                        <div className="animate-spin rounded-full h-16 w-16 border-4 border-orange-500 border-t-transparent mx-auto mb-4"></div>
+                                        <p className="text-white font-medium">{t('lateCheckIn.processing', 'Recognizing face...')}</p>
+                                    </div>
+                                </div>
+                            )}
+
+                            {phase === 'result' && outcome && (
+                                <div className="absolute inset-0 flex items-center justify-center bg-gray-900/90 z-20 p-4">
+                                    <div className="w-full max-w-sm">{renderOutcome(outcome)}</div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                {/* Sync summary */}
+                {queue.lastSync && (
+                    <div className="flex-shrink-0 px-4 py-2 text-center text-xs text-gray-400 safe-area-bottom">
+                        {t('lateCheckIn.kiosk.synced', { count: queue.lastSync.submitted })}
+                        {queue.lastSync.needsReview > 0 && ` · ${t('lateCheckIn.review.count', { count: queue.lastSync.needsReview })}`}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default LateCheckInKiosk;
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search, X, UserCheck, ArrowLeft } from 'lucide-react';
+import axios from 'axios';
+import { authService } from '../../services/authService';
+import { studentService, type StudentWithAcademic } from '../../services/studentService';
+import { lateCheckInService, type LateCheckInResult } from '../../services/lateCheckInService';
+
+interface ManualCheckInPanelProps {
+    snapshot: string;           // captured photo (data URL), attached as evidence
+    capturedAt?: string;        // original capture time for queued check-ins
+    onSuccess: (result: LateCheckInResult) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Fallback when face recognition fails: the guard looks the student up by name or
+ * code, confirms against the snapshot and records the check-in as manual.
+ */
+const ManualCheckInPanel = ({ snapshot, capturedAt, onSuccess, onCancel }: ManualCheckInPanelProps) => {
+    const { t } = useTranslation();
+    const [students, setStudents] = useState<StudentWithAcademic[]>([]);
+    const [isLoadingStudents, setIsLoadingStudents] = useState(true);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [selectedStudent, setSelectedStudent] = useState<StudentWithAcademic | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchStudents = async () => {
+            const schoolId = authService.getCurrentUser()?.schoolID;
+            if (!schoolId) {
+                setIsLoadingStudents(false);
+                return;
+            }
+            try {
+                const data = await studentService.getStudentsBySchool(schoolId);
+                setStudents((data || []).filter(s => s.isActive));
+            } catch (err) {
+                console.error('Error fetching students:', err);
+                setError(t('lateCheckIn.manual.loadFailed', 'Could not load the student list'));
+            } finally {
+                setIsLoadingStudents(false);
+            }
+        };
+        fetchStudents();
+    }, [t]);
+
+    const matches = searchTerm.trim().length < 2 ? [] : students.filter(s => {
+        const term = searchTerm.toLowerCase();
+        return s.fullName.toLowerCase().includes(term) || s.studentCode.toLowerCase().includes(term);
+    }).slice(0, 8);
+
+    const handleConfirm = async () => {
+        if (!selectedStudent) return;
+
+        setIsSubmitting(true);
+        setError('');
+        try {
+            const blob = await (await fetch(snapshot)).blob();
+            const result = await lateCheckInService.manualCheckIn(selectedStudent.studentCode, blob, capturedAt);
+            onSuccess(result);
+        } catch (err) {
+            console.error('Manual check-in error:', err);
+            if (axios.isAxiosError(err)) {
+                setError(err.response?.data?.errors?.[0] || err.response?.data?.message || t('lateCheckIn.checkInFailed', 'Check-in failed'));
+            } else {
+                setError((err instanceof Error && err.message) || t('lateCheckIn.checkInFailed', 'Check-in failed'));
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 border border-gray-700 rounded-2xl p-5 text-left">
+            <div className="flex items-center gap-2 mb-1">
+                <button
+                    onClick={onCancel}
+                    disabled={isSubmitting}
+                    className="p-1.5 -ml-1.5 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                    <ArrowLeft className="w-4 h-4 text-gray-400" />
+                </button>
+                <h2 className="text-lg font-semibold text-white">
+                    {t('lateCheckIn.manual.title', 'Manual Check-In')}
+                </h2>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">
+                {t('lateCheckIn.manual.description', 'Find the student and confirm it is them. The photo is saved with the record for review.')}
+            </p>
+
+            {error && (
+                <div className="mb-4 bg-red-500/20 border border-red-500/50 rounded-xl p-3 text-sm text-red-200">
+                    {error}
+                </div>
+            )}
+
+            {selectedStudent ? (
+                // Confirm step
+                <div>
+                    <div className="flex items-center gap-4 bg-gray-900/60 rounded-xl p-3 mb-4">
+                        <img
+                            src={snapshot}
+                            alt={t('lateCheckIn.manual.snapshot', 'Captured photo')}
+                            className="w-20 h-20 rounded-lg object-cover flex-shrink-0"
+                        />
+                        <div className="min-w-0 flex-1">
+                            <p className="text-base font-semibold text-white truncate">{selectedStudent.fullName}</p>
+                            <p className="text-sm text-gray-400">{selectedStudent.studentCode}</p>
+                            {selectedStudent.className && (
+                                <p className="text-xs text-gray-500">{selectedStudent.gradeName} - {selectedStudent.className}</p>
+                            )}
+                        </div>
+                        <button
+                            onClick={() => setSelectedStudent(null)}
+                            disabled={isSubmitting}
+                            className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                            title={t('lateCheckIn.manual.change', 'Choose another student')}
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={isSubmitting}
+                        className="w-full py-3 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-xl transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        {isSubmitting ? (
+                            <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent"></div>
+                        ) : (
+                            <UserCheck className="w-5 h-5" />
+                        )}
+                        {t('lateCheckIn.manual.confirm', 'Confirm Check-In')}
+                    </button>
+                </div>
+            ) : (
+                // Search step
+                <div>
+                    <div className="relative">
+                        <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                        <input
+                            type="text"
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            placeholder={t('lateCheckIn.manual.search', 'Search by name or student code...')}
+                            disabled={isLoadingStudents}
+                            autoFocus
+                            className="w-full pl-9 pr-3 py-2.5 bg-gray-900 border border-gray-600 rounded-xl text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-orange-500 focus:border-transparent disabled:opacity-50"
+                        />
+                    </div>
+                    <div className="mt-2 max-h-64 overflow-y-auto space-y-1">
+                        {isLoadingStudents ? (
+                            <p className="text-sm text-gray-500 text-center py-4">{t('common.loading', 'Loading...')}</p>
+                        ) : searchTerm.trim().length >= 2 && matches.length === 0 ? (
+                            <p className="text-sm text-gray-500 text-center py-4">{t('lateCheckIn.manual.noMatches', 'No students found')}</p>
+                        ) : (
+                            matches.map(s => (
+                                <button
+                                    key={s.studentCode}
+                                    onClick={() => setSelectedStudent(s)}
+                                    className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+                                >
+                                    <span className="text-sm text-white">{s.fullName}</span>
+                                    <span className="text-xs text-gray-400 ml-2">{s.studentCode}{s.className && ` · ${s.className}`}</span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ManualCheckInPanel;
@@ -6,13 +6,14 @@ import {
     BookOpen, UserCircle, /*Clock,*/ KeyRound,
     Menu, X, ChevronRight, BarChart2, FileText, ChevronDown,
     ClipboardCheck, ScrollText,
-    Images, Upload, FolderOpen, FileClock
+    Images, Upload, FolderOpen, FileClock, TrendingUp, ShieldAlert, FileCheck, BellRing, ScanFace, FileArchive
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { useTranslation } from 'react-i18next';
 import { authService } from '../../services/authService';
 import LanguageSwitcher from '../LanguageSwitcher';
 import ChangePasswordModal from '../modals/ChangePasswordModal';
+import CameraOfflineBanner from '../Cameras/CameraOfflineBanner';
 
 // ─────────────────────────────────────────────────────────────
 //  TYPES
@@ -156,6 +157,14 @@ const Layout = () => {
             alternativePermission: 'ViewAttendanceRecords',
             roles: ['SchoolAdmin', 'Teacher', 'Staff']
         },
+        {
+            path: '/excuses',
+            icon: FileCheck,
+            label: t('nav.excuses'),
+            permission: 'ViewAttendance',
+            alternativePermission: 'ViewAttendanceRecords',
+            roles: ['SchoolAdmin', 'Teacher']
+        },
         {
             path: '/cameras',
             icon: Video,
@@ -177,6 +186,13 @@ const Layout = () => {
             permission: 'ImportData',
             roles: ['SchoolAdmin']
         },
+        {
+            path: '/import-photos',
+            icon: FileArchive,
+            label: t('nav.importPhotos'),
+            permission: 'ImportData',
+            roles: ['SchoolAdmin']
+        },
         //{
         //    path: '/late-check-in',
         //    icon: Clock,
@@ -233,6 +249,13 @@ const Layout = () => {
             permission: null,
             roles: ['SuperAdmin', 'SchoolAdmin', 'Teacher', 'Staff']
         },
+        {
+            path: '/notifications',
+            icon: BellRing,
+            label: t('nav.notifications'),
+            permission: 'ManageNotifications',
+            roles: ['SchoolAdmin']
+        },
         {
             path: '/settings',
             icon: Settings,
@@ -266,6 +289,29 @@ const Layout = () => {
                 alternativePermission: 'ViewAttendanceRecords',
                 roles: ['SchoolAdmin', 'Teacher', 'Staff'],
             },
+            {
+                path: '/analytics',
+                icon: TrendingUp,
+                label: t('nav.analytics', 'Attendance Analytics'),
+                permission: 'ViewAttendance',
+                alternativePermission: 'ViewAttendanceRecords',
+                roles: ['SchoolAdmin'],
+            },
+            {
+                path: '/at-risk',
+                icon: ShieldAlert,
+                label: t('nav.atRisk', 'At-Risk Students'),
+                permission: 'ViewAttendance',
+                alternativePermission: 'ViewAttendanceRecords',
+                roles: ['SchoolAdmin', 'Teacher'],
+            },
+            {
+                path: '/photo-coverage',
+                icon: ScanFace,
+                label: t('nav.photoCoverage', 'Photo Coverage'),
+                permission: 'ManageStudents',
+                roles: ['SchoolAdmin', 'Teacher'],
+            },
             {
                 path: '/pencerapan',
                 icon: FileText,
@@ -578,6 +624,9 @@ const Layout = () => {
             {/* ==================== MAIN CONTENT ==================== */}
             <main className="flex-1 overflow-y-auto pt-14 lg:pt-0">
                 <div className="p-4 sm:p-6 lg:p-8 max-w-7xl mx-auto">
+                    {currentUser?.userRole === 'SchoolAdmin' && hasPermission('ManageCameras') && (
+                        <CameraOfflineBanner />
+                    )}
                     <Outlet />
                 </div>
             </main>
@@ -0,0 +1,324 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { Search, RefreshCw, Send, Mail, MessageCircle, Smartphone, CheckCircle, XCircle, Clock } from 'lucide-react';
+import {
+    notificationService,
+    NOTIFICATION_CHANNELS,
+    type NotificationChannel,
+    type NotificationLog,
+    type NotificationStatus,
+} from '../../services/notificationService';
+import { toDateString } from '../../utils/schoolCalendar';
+import StatCard from '../Common/StatCard';
+import Pagination from '../Common/Pagination';
+
+const CHANNEL_ICONS: Record<NotificationChannel, React.ElementType> = {
+    Email: Mail,
+    Telegram: MessageCircle,
+    SMS: Smartphone,
+};
+
+const STATUS_CLASSES: Record<NotificationStatus, string> = {
+    Sent: 'bg-green-100 text-green-800',
+    Pending: 'bg-yellow-100 text-yellow-800',
+    Failed: 'bg-red-100 text-red-800',
+};
+
+const NotificationLogTab = () => {
+    const { t } = useTranslation();
+    const today = toDateString(new Date());
+    const [startDate, setStartDate] = useState(() => {
+        const d = new Date();
+        d.setDate(d.getDate() - 6);
+        return toDateString(d);
+    });
+    const [endDate, setEndDate] = useState(today);
+    const [statusFilter, setStatusFilter] = useState<NotificationStatus | ''>('');
+    const [channelFilter, setChannelFilter] = useState<NotificationChannel | ''>('');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [logs, setLogs] = useState<NotificationLog[]>([]);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    const [isLoading, setIsLoading] = useState(true);
+    const [isResending, setIsResending] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    const [currentPage, setCurrentPage] = useState(1);
+    const itemsPerPage = 20;
+
+    useEffect(() => {
+        if (startDate && endDate && startDate <= endDate) {
+            fetchLogs();
+        }
+    }, [startDate, endDate, statusFilter, channelFilter]);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [startDate, endDate, statusFilter, channelFilter, searchTerm]);
+
+    const fetchLogs = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const data = await notificationService.getLogs({
+                startDate,
+                endDate,
+                status: statusFilter || undefined,
+                channel: channelFilter || undefined,
+            });
+            setLogs(data || []);
+            setSelectedIds(new Set());
+        } catch (err) {
+            console.error('Error fetching notification logs:', err);
+            setError(t('notifications.log.fetchFailed', 'Failed to load the notification log'));
+            setLogs([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const resend = async (ids: number[]) => {
+        if (ids.length === 0) return;
+        setIsResending(true);
+        setMessage('');
+        setError('');
+        try {
+            const result = await notificationService.resend(ids);
+            setMessage(t('notifications.log.resent', '{{count}} notifications queued for resend', { count: result?.queued ?? ids.length }));
+            fetchLogs();
+        } catch (err) {
+            console.error('Error resending notifications:', err);
+            setError(t('notifications.log.resendFailed', 'Failed to resend notifications'));
+        } finally {
+            setIsResending(false);
+        }
+    };
+
+    const filtered = logs.filter(log => {
+        if (!searchTerm.trim()) return true;
+        const term = searchTerm.toLowerCase();
+        return log.studentName.toLowerCase().includes(term)
+            || log.studentCode.toLowerCase().includes(term)
+            || log.recipient.toLowerCase().includes(term)
+            || log.parentName?.toLowerCase().includes(term);
+    });
+    const paged = filtered.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+    const sentCount = logs.filter(l => l.status === 'Sent').length;
+    const failedCount = logs.filter(l => l.status === 'Failed').length;
+    const pendingCount = logs.filter(l => l.status === 'Pending').length;
+
+    const toggleSelected = (id: number) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString('en-MY') : '-');
+
+    const thClass = 'px-3 sm:px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+    const tdClass = 'px-3 sm:px-4 py-3 text-sm';
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Stats */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-6">
+                <StatCard title={t('notifications.status.Sent', 'Sent')} value={sentCount} icon={CheckCircle} color="bg-green-500" />
+                <StatCard title={t('notifications.status.Pending', 'Pending')} value={pendingCount} icon={Clock} color="bg-yellow-500" />
+                <StatCard title={t('notifications.status.Failed', 'Failed')} value={failedCount} icon={XCircle} color="bg-red-500" />
+            </div>
+
+            {/* Filters */}
+            <div className="card p-4 sm:p-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('attendance.history.startDate')}</label>
+                        <input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className="input-field w-full" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('attendance.history.endDate')}</label>
+                        <input type="date" value={endDate} min={startDate} max={today} onChange={(e) => setEndDate(e.target.value)} className="input-field w-full" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('notifications.log.status', 'Status')}</label>
+                        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as NotificationStatus | '')} className="input-field w-full">
+                            <option value="">{t('common.all')}</option>
+                            {(['Sent', 'Pending', 'Failed'] as NotificationStatus[]).map(s => (
+                                <option key={s} value={s}>{t(`notifications.status.${s}`, s)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('notifications.log.channel', 'Channel')}</label>
+                        <select value={channelFilter} onChange={(e) => setChannelFilter(e.target.value as NotificationChannel | '')} className="input-field w-full">
+                            <option value="">{t('common.all')}</option>
+                            {NOTIFICATION_CHANNELS.map(c => (
+                                <option key={c} value={c}>{t(`notifications.channels.${c}`, c)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.search')}</label>
+                        <div className="relative">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                                type="text"
+                                value={searchTerm}
+                                onChange={(e) => setSearchTerm(e.target.value)}
+                                placeholder={t('notifications.log.searchPlaceholder', 'Student, parent or recipient...')}
+                                className="input-field w-full pl-9"
+                            />
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+            {message && <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">{message}</div>}
+
+            {/* Log table */}
+            <div className="card overflow-hidden">
+                <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b">
+                    <span className="text-sm text-gray-600">
+                        {t('notifications.log.selected', '{{count}} selected', { count: selectedIds.size })}
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => resend(logs.filter(l => l.status === 'Failed').map(l => l.notificationID))}
+                            disabled={isResending || failedCount === 0}
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                        >
+                            {t('notifications.log.resendAllFailed', 'Resend all failed')}
+                        </button>
+                        <button
+                            onClick={() => resend(Array.from(selectedIds))}
+                            disabled={isResending || selectedIds.size === 0}
+                            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1.5 transition-colors"
+                        >
+                            <Send className="w-4 h-4" />
+                            {t('notifications.log.resendSelected', 'Resend selected')}
+                        </button>
+                        <button
+                            onClick={fetchLogs}
+                            className="p-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                            title={t('common.refresh')}
+                        >
+                            <RefreshCw className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center h-64">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : filtered.length === 0 ? (
+                    <div className="text-center py-12 px-4 text-gray-600">
+                        {t('notifications.log.empty', 'No notifications in this period')}
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead className="bg-gray-50 border-b">
+                                <tr>
+                                    <th className={thClass}></th>
+                                    <th className={thClass}>{t('notifications.log.createdAt', 'Queued')}</th>
+                                    <th className={thClass}>{t('attendance.student')}</th>
+                                    <th className={thClass}>{t('notifications.log.recipient', 'Recipient')}</th>
+                                    <th className={thClass}>{t('notifications.log.channel', 'Channel')}</th>
+                                    <th className={thClass}>{t('notifications.log.status', 'Status')}</th>
+                                    <th className={`${thClass} text-center`}>{t('common.actions')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {paged.map(log => {
+                                    const ChannelIcon = CHANNEL_ICONS[log.channel] || Mail;
+                                    return (
+                                        <tr key={log.notificationID} className="hover:bg-gray-50 align-top">
+                                            <td className={tdClass}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedIds.has(log.notificationID)}
+                                                    onChange={() => toggleSelected(log.notificationID)}
+                                                    className="rounded border-gray-300 text-blue-600"
+                                                />
+                                            </td>
+                                            <td className={`${tdClass} whitespace-nowrap text-gray-700`}>
+                                                <div>{formatDateTime(log.createdDate)}</div>
+                                                <div className="text-xs text-gray-500">
+                                                    {t(`notifications.templateTypes.${log.templateType}`, log.templateType)}
+                                                    {' · '}
+                                                    {log.triggeredBy === 'Manual'
+                                                        ? t('notifications.log.manualBy', 'Manual ({{name}})', { name: log.triggeredByName || '-' })
+                                                        : t('notifications.log.scheduled', 'Scheduled')}
+                                                </div>
+                                            </td>
+                                            <td className={tdClass}>
+                                                <Link to={`/students/${encodeURIComponent(log.studentCode)}`} className="font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                                                    {log.studentName}
+                                                </Link>
+                                                <div className="text-xs text-gray-500">{log.studentCode}{log.className && ` · ${log.className}`}</div>
+                                            </td>
+                                            <td className={`${tdClass} text-gray-700`}>
+                                                <div>{log.parentName || '-'}</div>
+                                                <div className="text-xs text-gray-500 break-all">{log.recipient}</div>
+                                            </td>
+                                            <td className={`${tdClass} whitespace-nowrap text-gray-700`}>
+                                                <span className="inline-flex items-center gap-1.5">
+                                                    <ChannelIcon className="w-4 h-4 text-gray-500" />
+                                                    {t(`notifications.channels.${log.channel}`, log.channel)}
+                                                </span>
+                                            </td>
+                                            <td className={tdClass}>
+                                                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[log.status]}`}>
+                                                    {t(`notifications.status.${log.status}`, log.status)}
+                                                </span>
+                                                {log.status === 'Sent' && log.sentDate && (
+                                                    <div className="text-xs text-gray-500 mt-1">{formatDateTime(log.sentDate)}</div>
+                                                )}
+                                                {log.status === 'Failed' && log.errorMessage && (
+                                                    <div className="text-xs text-red-600 mt-1 max-w-xs">{log.errorMessage}</div>
+                                                )}
+                                                {log.attempts > 1 && (
+                                                    <div className="text-xs text-gray-400 mt-0.5">
+                                                        {t('notifications.log.attempts', '{{count}} attempts', { count: log.attempts })}
+                                                    </div>
+                                                )}
+                                            </td>
+                                            <td className={`${tdClass} text-center`}>
+                                                <button
+                                                    onClick={() => resend([log.notificationID])}
+                                                    disabled={isResending || log.status === 'Pending'}
+                                                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-40"
+                                                    title={t('notifications.log.resend', 'Resend')}
+                                                >
+                                                    <Send className="w-4 h-4" />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {filtered.length > itemsPerPage && (
+                    <Pagination
+                        currentPage={currentPage}
+                        totalPages={Math.ceil(filtered.length / itemsPerPage)}
+                        totalItems={filtered.length}
+                        itemsPerPage={itemsPerPage}
+                        onPageChange={setCurrentPage}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default NotificationLogTab;
@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Send, Search, CheckCircle } from 'lucide-react';
+import { attendanceService } from '../../services/attendanceService';
+import { excuseService } from '../../services/excuseService';
+import {
+    notificationService,
+    NOTIFICATION_CHANNELS,
+    type NotificationChannel,
+    type NotificationLog,
+} from '../../services/notificationService';
+import { buildExcuseLookup, findExcuse, type ExcuseLookup } from '../../utils/excuses';
+import { toDateString } from '../../utils/schoolCalendar';
+import ExcusedBadge from '../Attendance/ExcusedBadge';
+import type { AbsentStudentRecord } from '../../types';
+
+const SendAbsentTab = () => {
+    const { t } = useTranslation();
+    const today = toDateString(new Date());
+    const [date, setDate] = useState(today);
+    const [absentees, setAbsentees] = useState<AbsentStudentRecord[]>([]);
+    const [excuseLookup, setExcuseLookup] = useState<ExcuseLookup>(new Map());
+    const [notified, setNotified] = useState<Map<string, NotificationLog>>(new Map());
+    const [selectedCodes, setSelectedCodes] = useState<Set<string>>(new Set());
+    const [channels, setChannels] = useState<Set<NotificationChannel>>(new Set());
+    const [searchTerm, setSearchTerm] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        fetchAbsentees();
+    }, [date]);
+
+    const fetchAbsentees = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const [absentData, excusedDays, logs] = await Promise.all([
+                attendanceService.getAbsentByDateRange(date, date),
+                excuseService.getExcusedDays(date, date).catch(() => []),
+                notificationService.getLogs({ startDate: date, endDate: date }).catch(() => []),
+            ]);
+            const lookup = buildExcuseLookup(excusedDays || []);
+            const sent = new Map<string, NotificationLog>();
+            (logs || [])
+                .filter(l => l.templateType === 'AbsentNotification' && l.status === 'Sent')
+                .forEach(l => sent.set(l.studentCode, l));
+
+            setAbsentees(absentData || []);
+            setExcuseLookup(lookup);
+            setNotified(sent);
+            // Preselect unexcused students whose parents have not been told yet
+            setSelectedCodes(new Set((absentData || [])
+                .filter(a => !findExcuse(lookup, a.studentCode, a.absentDate) && !sent.has(a.studentCode))
+                .map(a => a.studentCode)));
+        } catch (err) {
+            console.error('Error fetching absent students:', err);
+            setError(t('notifications.send.fetchFailed', 'Failed to load absent students'));
+            setAbsentees([]);
+            setSelectedCodes(new Set());
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSend = async () => {
+        if (selectedCodes.size === 0) return;
+        if (!confirm(t('notifications.send.confirm', 'Send absence notifications to {{count}} parents?', { count: selectedCodes.size }))) return;
+
+        setIsSending(true);
+        setError('');
+        setMessage('');
+        try {
+            const result = await notificationService.sendAbsentNotifications({
+                date,
+                studentCodes: Array.from(selectedCodes),
+                channels: channels.size > 0 ? Array.from(channels) : undefined,
+            });
+            setMessage(t('notifications.send.result', '{{queued}} queued, {{skipped}} skipped (no parent contact)', {
+                queued: result?.queued ?? 0,
+                skipped: result?.skipped ?? 0,
+            }));
+            fetchAbsentees();
+        } catch (err) {
+            console.error('Error sending notifications:', err);
+            setError(t('notifications.send.failed', 'Failed to send notifications'));
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const toggle = <T,>(setter: React.Dispatch<React.SetStateAction<Set<T>>>, value: T) => {
+        setter(prev => {
+            const next = new Set(prev);
+            if (next.has(value)) next.delete(value);
+            else next.add(value);
+            return next;
+        });
+    };
+
+    const filtered = absentees.filter(a => {
+        if (!searchTerm.trim()) return true;
+        const term = searchTerm.toLowerCase();
+        return a.fullName.toLowerCase().includes(term)
+            || a.studentCode.toLowerCase().includes(term)
+            || a.class?.toLowerCase().includes(term);
+    });
+    const allFilteredSelected = filtered.length > 0 && filtered.every(a => selectedCodes.has(a.studentCode));
+
+    const toggleAllFiltered = () => {
+        setSelectedCodes(prev => {
+            const next = new Set(prev);
+            filtered.forEach(a => (allFilteredSelected ? next.delete(a.studentCode) : next.add(a.studentCode)));
+            return next;
+        });
+    };
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            <div className="card p-4 sm:p-6 space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('notifications.send.absentOn', 'Absent on')}</label>
+                        <input type="date" value={date} max={today} onChange={(e) => setDate(e.target.value)} className="input-field w-full" />
+                    </div>
+                    <div className="sm:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('notifications.send.channels', 'Channels')}</label>
+                        <div className="flex flex-wrap gap-4 py-2">
+                            {NOTIFICATION_CHANNELS.map(channel => (
+                                <label key={channel} className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={channels.has(channel)}
+                                        onChange={() => toggle(setChannels, channel)}
+                                        className="rounded border-gray-300 text-blue-600"
+                                    />
+                                    {t(`notifications.channels.${channel}`, channel)}
+                                </label>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            {t('notifications.send.channelsHint', "Leave all unticked to use each parent's registered channels.")}
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+            {message && <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">{message}</div>}
+
+            <div className="card overflow-hidden">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3 border-b">
+                    <div className="relative sm:w-72">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                        <input
+                            type="text"
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            placeholder={t('attendance.history.searchPlaceholder')}
+                            className="input-field w-full pl-9 py-1.5 text-sm"
+                        />
+                    </div>
+                    <button
+                        onClick={handleSend}
+                        disabled={isSending || selectedCodes.size === 0}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-2 transition-colors"
+                    >
+                        <Send className="w-4 h-4" />
+                        {isSending
+                            ? t('notifications.send.sending', 'Sending...')
+                            : t('notifications.send.sendSelected', 'Notify {{count}} parents', { count: selectedCodes.size })}
+                    </button>
+                </div>
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center h-64">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : filtered.length === 0 ? (
+                    <div className="text-center py-12 px-4 text-gray-600">
+                        {t('attendance.override.noAbsentees')}
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead className="bg-gray-50 border-b">
+                                <tr>
+                                    <th className="px-4 py-3 text-left">
+                                        <input
+                                            type="checkbox"
+                                            checked={allFilteredSelected}
+                                            onChange={toggleAllFiltered}
+                                            className="rounded border-gray-300 text-blue-600"
+                                        />
+                                    </th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.student')}</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.gradeClass')}</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.history.parentContact')}</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('notifications.log.status', 'Status')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {filtered.map(a => {
+                                    const excuse = findExcuse(excuseLookup, a.studentCode, a.absentDate);
+                                    const sent = notified.get(a.studentCode);
+                                    const hasContact = Boolean(a.parentContact || a.parentEmail);
+                                    return (
+                                        <tr key={a.studentCode} className="hover:bg-gray-50">
+                                            <td className="px-4 py-3">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedCodes.has(a.studentCode)}
+                                                    onChange={() => toggle(setSelectedCodes, a.studentCode)}
+                                                    className="rounded border-gray-300 text-blue-600"
+                                                />
+                                            </td>
+                                            <td className="px-4 py-3 text-sm">
+                                                <div className="font-medium text-gray-900">{a.fullName}</div>
+                                                <div className="text-xs text-gray-500">{a.studentCode}</div>
+                                            </td>
+                                            <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">{a.grade} - {a.class}</td>
+                                            <td className="px-4 py-3 text-sm text-gray-700">
+                                                {hasContact ? (
+                                                    <>
+                                                        <div>{a.parentContact || '-'}</div>
+                                                        {a.parentEmail && <div className="text-xs text-gray-500">{a.parentEmail}</div>}
+                                                    </>
+                                                ) : (
+                                                    <span className="text-xs text-red-600">{t('notifications.send.noContact', 'No parent contact')}</span>
+                                                )}
+                                            </td>
+                                            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                                                {excuse ? (
+                                                    <ExcusedBadge excuse={excuse} />
+                                                ) : sent ? (
+                                                    <span className="inline-flex items-center gap-1 text-green-700 text-xs">
+                                                        <CheckCircle className="w-4 h-4" />
+                                                        {t('notifications.send.alreadyNotified', 'Notified {{time}}', {
+                                                            time: sent.sentDate ? new Date(sent.sentDate).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '',
+                                                        })}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs text-gray-500">{t('notifications.send.notNotified', 'Not notified')}</span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SendAbsentTab;
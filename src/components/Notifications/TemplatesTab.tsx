@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Save, RotateCcw, Bell, AlertTriangle } from 'lucide-react';
+import { authService } from '../../services/authService';
+import { settingsService } from '../../services/settingsService';
+import {
+    notificationService,
+    TEMPLATE_LANGUAGES,
+    type NotificationTemplate,
+    type NotificationTemplateType,
+    type TemplateLanguage,
+} from '../../services/notificationService';
+import {
+    DEFAULT_TEMPLATES,
+    SAMPLE_TEMPLATE_VALUES,
+    TEMPLATE_PLACEHOLDERS,
+    findUnknownPlaceholders,
+    renderTemplate,
+} from '../../utils/notificationTemplates';
+
+const TEMPLATE_TYPES: NotificationTemplateType[] = ['AbsentNotification', 'LateNotification'];
+
+const LANGUAGE_LABELS: Record<TemplateLanguage, string> = {
+    en: 'English',
+    zh: '中文',
+    ms: 'Bahasa Melayu',
+};
+
+type TemplateKey = `${NotificationTemplateType}:${TemplateLanguage}`;
+
+const TemplatesTab = () => {
+    const { t } = useTranslation();
+    const schoolId = authService.getCurrentUser()?.schoolID;
+
+    const [templateType, setTemplateType] = useState<NotificationTemplateType>('AbsentNotification');
+    const [language, setLanguage] = useState<TemplateLanguage>('en');
+    const [templates, setTemplates] = useState<Record<TemplateKey, NotificationTemplate>>({} as Record<TemplateKey, NotificationTemplate>);
+    const [drafts, setDrafts] = useState<Record<TemplateKey, { subject: string; body: string }>>({} as Record<TemplateKey, { subject: string; body: string }>);
+    const [notificationSettings, setNotificationSettings] = useState({ EnableParentNotification: '1', AbsentNotificationTime: '08:30' });
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        fetchTemplates();
+    }, []);
+
+    const fetchTemplates = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const [templateData, settings] = await Promise.all([
+                notificationService.getTemplates(),
+                schoolId ? settingsService.getSchoolSettings(schoolId) : Promise.resolve({} as Record<string, string>),
+            ]);
+            const byKey = {} as Record<TemplateKey, NotificationTemplate>;
+            (templateData || []).forEach(tpl => {
+                byKey[`${tpl.templateType}:${tpl.language}`] = tpl;
+            });
+            setTemplates(byKey);
+            setDrafts({} as Record<TemplateKey, { subject: string; body: string }>);
+            setNotificationSettings(prev => ({
+                EnableParentNotification: settings.EnableParentNotification ?? prev.EnableParentNotification,
+                AbsentNotificationTime: settings.AbsentNotificationTime ?? prev.AbsentNotificationTime,
+            }));
+        } catch (err) {
+            console.error('Error fetching notification templates:', err);
+            setError(t('notifications.templates.fetchFailed', 'Failed to load templates'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const key: TemplateKey = `${templateType}:${language}`;
+    const saved = templates[key] ?? { templateType, language, ...DEFAULT_TEMPLATES[templateType][language] };
+    const current = drafts[key] ?? { subject: saved.subject, body: saved.body };
+    const isDirty = current.subject !== saved.subject || current.body !== saved.body;
+    const unknownPlaceholders = findUnknownPlaceholders(`${current.subject} ${current.body}`);
+
+    const updateDraft = (changes: Partial<{ subject: string; body: string }>) => {
+        setDrafts(prev => ({ ...prev, [key]: { ...current, ...changes } }));
+        setMessage('');
+    };
+
+    const handleSave = async () => {
+        if (!current.subject.trim() || !current.body.trim()) {
+            setError(t('notifications.templates.required', 'Subject and message are required'));
+            return;
+        }
+        setIsSaving(true);
+        setError('');
+        setMessage('');
+        try {
+            const [updated] = await Promise.all([
+                notificationService.updateTemplate({ templateType, language, subject: current.subject, body: current.body }),
+                schoolId ? settingsService.updateSchoolSettings(schoolId, notificationSettings) : Promise.resolve(),
+            ]);
+            setTemplates(prev => ({ ...prev, [key]: updated ?? { templateType, language, ...current } }));
+            setDrafts(prev => {
+                const next = { ...prev };
+                delete next[key];
+                return next;
+            });
+            setMessage(t('notifications.templates.saved', 'Template saved'));
+        } catch (err) {
+            console.error('Error saving notification template:', err);
+            setError(t('notifications.templates.saveFailed', 'Failed to save the template'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Schedule */}
+            <div className="card p-4 sm:p-6">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-4">
+                    <Bell className="w-5 h-5 text-blue-600" />
+                    {t('notifications.templates.schedule', 'Automatic Notifications')}
+                </h3>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={notificationSettings.EnableParentNotification === '1'}
+                            onChange={(e) => setNotificationSettings(prev => ({ ...prev, EnableParentNotification: e.target.checked ? '1' : '0' }))}
+                            className="rounded border-gray-300 text-blue-600"
+                        />
+                        {t('settings.enableParentNotifications')}
+                    </label>
+                    <div className="flex items-center gap-2 text-sm text-gray-700">
+                        {t('settings.absentNotificationTime')}
+                        <input
+                            type="time"
+                            value={notificationSettings.AbsentNotificationTime}
+                            disabled={notificationSettings.EnableParentNotification !== '1'}
+                            onChange={(e) => setNotificationSettings(prev => ({ ...prev, AbsentNotificationTime: e.target.value }))}
+                            className="input-field w-32 py-1.5 text-sm"
+                        />
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{t('settings.absentNotificationTimeHint')}</p>
+            </div>
+
+            {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+            {message && <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">{message}</div>}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                {/* Editor */}
+                <div className="card p-4 sm:p-6 space-y-4">
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <select
+                            value={templateType}
+                            onChange={(e) => setTemplateType(e.target.value as NotificationTemplateType)}
+                            className="input-field py-2 text-sm sm:w-56"
+                        >
+                            {TEMPLATE_TYPES.map(type => (
+                                <option key={type} value={type}>{t(`notifications.templateTypes.${type}`, type)}</option>
+                            ))}
+                        </select>
+                        <div className="flex bg-gray-100 rounded-lg p-1">
+                            {TEMPLATE_LANGUAGES.map(lang => (
+                                <button
+                                    key={lang}
+                                    onClick={() => setLanguage(lang)}
+                                    className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${language === lang ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                                >
+                                    {LANGUAGE_LABELS[lang]}
+                                    {drafts[`${templateType}:${lang}`] && ' •'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">{t('notifications.templates.subject', 'Subject')}</label>
+                        <input
+                            type="text"
+                            value={current.subject}
+                            onChange={(e) => updateDraft({ subject: e.target.value })}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">{t('notifications.templates.body', 'Message')}</label>
+                        <textarea
+                            value={current.body}
+                            onChange={(e) => updateDraft({ body: e.target.value })}
+                            rows={8}
+                            className="input-field py-2 text-sm font-mono"
+                        />
+                    </div>
+
+                    <div>
+                        <p className="text-xs text-gray-500 mb-1.5">{t('notifications.templates.placeholders', 'Insert placeholder:')}</p>
+                        <div className="flex flex-wrap gap-1.5">
+                            {TEMPLATE_PLACEHOLDERS.map(p => (
+                                <button
+                                    key={p}
+                                    type="button"
+                                    onClick={() => updateDraft({ body: `${current.body}{${p}}` })}
+                                    className="px-2 py-1 text-xs font-mono bg-blue-50 text-blue-700 rounded hover:bg-blue-100"
+                                >
+                                    {`{${p}}`}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {unknownPlaceholders.length > 0 && (
+                        <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-xs text-yellow-800">
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                            {t('notifications.templates.unknownPlaceholders', 'Unknown placeholders will be sent as-is: {{list}}', {
+                                list: unknownPlaceholders.map(p => `{${p}}`).join(', '),
+                            })}
+                        </div>
+                    )}
+
+                    <div className="flex flex-col sm:flex-row gap-3 pt-2">
+                        <button
+                            onClick={() => updateDraft(DEFAULT_TEMPLATES[templateType][language])}
+                            className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <RotateCcw className="w-4 h-4" />
+                            {t('notifications.templates.resetDefault', 'Reset to default')}
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isSaving}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <Save className="w-4 h-4" />
+                            {isSaving ? t('common.saving') : t('common.save')}
+                            {isDirty && !isSaving && ' *'}
+                        </button>
+                    </div>
+
+                    {saved.updatedDate && (
+                        <p className="text-xs text-gray-500">
+                            {t('notifications.templates.lastUpdated', 'Last updated {{date}} by {{name}}', {
+                                date: new Date(saved.updatedDate).toLocaleString('en-MY'),
+                                name: saved.updatedByName || '-',
+                            })}
+                        </p>
+                    )}
+                </div>
+
+                {/* Preview */}
+                <div className="card p-4 sm:p-6">
+                    <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                        {t('notifications.templates.preview', 'Preview')}
+                    </h3>
+                    <div className="border border-gray-200 rounded-lg overflow-hidden">
+                        <div className="bg-gray-50 px-4 py-2 border-b text-sm font-medium text-gray-900">
+                            {renderTemplate(current.subject, SAMPLE_TEMPLATE_VALUES)}
+                        </div>
+                        <div className="px-4 py-3 text-sm text-gray-800 whitespace-pre-wrap">
+                            {renderTemplate(current.body, SAMPLE_TEMPLATE_VALUES)}
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                        {t('notifications.templates.previewHint', 'Parents receive the message in the language set on their contact; English is used otherwise.')}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TemplatesTab;
@@ -60,6 +60,7 @@ const FRONTEND_GROUPS: FrontendGroup[] = [
             'ImportData',
             'ViewAttendance',
             'ViewAttendanceRecords',
+            'EditAttendance',
         ],
     },
     {
@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, CalendarDays } from 'lucide-react';
+import axios from 'axios';
+import {
+    schoolCalendarService,
+    CALENDAR_ENTRY_TYPES,
+    type CalendarEntryType,
+    type SchoolCalendarEntry,
+} from '../../services/schoolCalendarService';
+
+interface CalendarEntryModalProps {
+    isOpen: boolean;
+    academicYearId: number;
+    /** Entry being edited; omitted when adding */
+    entry?: SchoolCalendarEntry | null;
+    /** Prefilled date when adding from a day in the month grid */
+    initialDate?: string;
+    yearStart: string;
+    yearEnd: string;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const CalendarEntryModal = ({ isOpen, academicYearId, entry, initialDate, yearStart, yearEnd, onClose, onSuccess }: CalendarEntryModalProps) => {
+    const { t } = useTranslation();
+    const [entryType, setEntryType] = useState<CalendarEntryType>('Holiday');
+    const [name, setName] = useState('');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [isSchoolDay, setIsSchoolDay] = useState(false);
+    const [description, setDescription] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setEntryType(entry?.entryType ?? 'Holiday');
+        setName(entry?.name ?? '');
+        setStartDate(entry ? entry.startDate.split('T')[0] : initialDate ?? '');
+        setEndDate(entry ? entry.endDate.split('T')[0] : initialDate ?? '');
+        setIsSchoolDay(entry?.isSchoolDay ?? false);
+        setDescription(entry?.description ?? '');
+        setError('');
+    }, [isOpen, entry, initialDate]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (!name.trim()) {
+            setError(t('schoolCalendar.nameRequired', 'Please enter a name'));
+            return;
+        }
+        if (!startDate || !endDate || endDate < startDate) {
+            setError(t('excuses.invalidRange'));
+            return;
+        }
+        if (startDate < yearStart || endDate > yearEnd) {
+            setError(t('schoolCalendar.outsideYear', 'Dates must fall within the academic year'));
+            return;
+        }
+
+        const dto = {
+            academicYearID: academicYearId,
+            entryType,
+            name: name.trim(),
+            startDate,
+            endDate,
+            isSchoolDay: entryType === 'SpecialDay' ? isSchoolDay : entryType === 'Term',
+            description: description.trim() || undefined,
+        };
+
+        setIsSubmitting(true);
+        try {
+            if (entry) {
+                await schoolCalendarService.updateEntry(entry.calendarEntryID, dto);
+            } else {
+                await schoolCalendarService.createEntry(dto);
+            }
+            onSuccess();
+            onClose();
+        } catch (err) {
+            console.error('Error saving calendar entry:', err);
+            setError(axios.isAxiosError(err) && err.response?.data?.message
+                ? err.response.data.message
+                : t('schoolCalendar.saveFailed', 'Failed to save the calendar entry'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                        <CalendarDays className="w-5 h-5 text-indigo-600" />
+                        {entry ? t('schoolCalendar.editEntry', 'Edit Calendar Entry') : t('schoolCalendar.addEntry', 'Add Calendar Entry')}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Type */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('excuses.type')} <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                            value={entryType}
+                            onChange={(e) => setEntryType(e.target.value as CalendarEntryType)}
+                            className="input-field py-2 text-sm"
+                        >
+                            {CALENDAR_ENTRY_TYPES.map(type => (
+                                <option key={type} value={type}>{t(`schoolCalendar.types.${type}`, type)}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">{t(`schoolCalendar.typeHints.${entryType}`)}</p>
+                    </div>
+
+                    {/* Name */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('schoolCalendar.name', 'Name')} <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            placeholder={t('schoolCalendar.namePlaceholder', 'e.g. Hari Raya Aidilfitri, Term 1')}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    {/* Date range */}
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {t('excuses.startDate')} <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="date"
+                                value={startDate}
+                                min={yearStart}
+                                max={yearEnd}
+                                onChange={(e) => {
+                                    setStartDate(e.target.value);
+                                    if (!endDate || endDate < e.target.value) setEndDate(e.target.value);
+                                }}
+                                className="input-field py-2 text-sm"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {t('excuses.endDate')} <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="date"
+                                value={endDate}
+                                min={startDate || yearStart}
+                                max={yearEnd}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                className="input-field py-2 text-sm"
+                            />
+                        </div>
+                    </div>
+
+                    {entryType === 'SpecialDay' && (
+                        <label className="flex items-start gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={isSchoolDay}
+                                onChange={(e) => setIsSchoolDay(e.target.checked)}
+                                className="mt-0.5 rounded border-gray-300 text-indigo-600"
+                            />
+                            <span>
+                                {t('schoolCalendar.isSchoolDay', 'Students are expected at school')}
+                                <span className="block text-xs text-gray-500">{t('schoolCalendar.isSchoolDayHint', 'Tick for a replacement school day on a weekend; leave unticked for a school-declared off day.')}</span>
+                            </span>
+                        </label>
+                    )}
+
+                    {/* Description */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('schoolCalendar.description', 'Notes')}
+                        </label>
+                        <textarea
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            rows={2}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting ? t('common.saving') : t('common.save')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default CalendarEntryModal;
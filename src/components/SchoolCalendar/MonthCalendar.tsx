@@ -0,0 +1,98 @@
+import type { ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+    buildMonthGrid,
+    getDayInfo,
+    toDateString,
+    DAY_KIND_STYLES,
+    type CalendarDayInfo,
+    type DayKind,
+    type SchoolCalendar,
+} from '../../utils/schoolCalendar';
+
+interface MonthCalendarProps {
+    year: number;
+    month: number;            // 1-12
+    calendar: SchoolCalendar;
+    onMonthChange: (year: number, month: number) => void;
+    /** Extra content under the day number, e.g. events */
+    renderDay?: (info: CalendarDayInfo) => ReactNode;
+    onDayClick?: (info: CalendarDayInfo) => void;
+}
+
+const LEGEND_KINDS: DayKind[] = ['SchoolDay', 'Weekend', 'Holiday', 'SchoolBreak', 'SpecialDay', 'OutOfTerm'];
+
+const MonthCalendar = ({ year, month, calendar, onMonthChange, renderDay, onDayClick }: MonthCalendarProps) => {
+    const { t, i18n } = useTranslation();
+    const weeks = buildMonthGrid(year, month);
+    const today = toDateString(new Date());
+
+    // 2024-01-01 was a Monday
+    const weekdayLabels = Array.from({ length: 7 }, (_, i) =>
+        new Date(2024, 0, 1 + i).toLocaleDateString(i18n.language, { weekday: 'short' })
+    );
+
+    const shiftMonth = (delta: number) => {
+        const d = new Date(year, month - 1 + delta, 1);
+        onMonthChange(d.getFullYear(), d.getMonth() + 1);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <button onClick={() => shiftMonth(-1)} className="p-2 border rounded-lg hover:bg-gray-100">
+                    <ChevronLeft className="w-5 h-5" />
+                </button>
+                <h3 className="text-lg font-semibold text-gray-900">
+                    {new Date(year, month - 1, 1).toLocaleDateString(i18n.language, { month: 'long', year: 'numeric' })}
+                </h3>
+                <button onClick={() => shiftMonth(1)} className="p-2 border rounded-lg hover:bg-gray-100">
+                    <ChevronRight className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-7 border-t border-l border-gray-200 text-xs sm:text-sm">
+                {weekdayLabels.map(label => (
+                    <div key={label} className="px-1 sm:px-2 py-2 bg-gray-50 border-r border-b border-gray-200 text-center font-medium text-gray-500">
+                        {label}
+                    </div>
+                ))}
+                {weeks.flat().map((date, index) => {
+                    if (!date) {
+                        return <div key={`blank-${index}`} className="min-h-[4.5rem] sm:min-h-[6rem] bg-gray-50 border-r border-b border-gray-200" />;
+                    }
+                    const info = getDayInfo(calendar, date);
+                    return (
+                        <div
+                            key={date}
+                            onClick={onDayClick ? () => onDayClick(info) : undefined}
+                            className={`min-h-[4.5rem] sm:min-h-[6rem] p-1 sm:p-1.5 border-r border-b border-gray-200 ${DAY_KIND_STYLES[info.kind]} ${onDayClick ? 'cursor-pointer hover:ring-2 hover:ring-inset hover:ring-indigo-300' : ''}`}
+                        >
+                            <div className={`text-xs font-medium ${date === today ? 'inline-flex items-center justify-center w-5 h-5 rounded-full bg-indigo-600 text-white' : ''}`}>
+                                {Number(date.slice(8))}
+                            </div>
+                            {info.entry && info.kind !== 'SchoolDay' && (
+                                <div className="text-[10px] sm:text-xs leading-tight truncate" title={info.entry.name}>
+                                    {info.entry.name}
+                                </div>
+                            )}
+                            {renderDay?.(info)}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+                {LEGEND_KINDS.map(kind => (
+                    <span key={kind} className="flex items-center gap-1.5">
+                        <span className={`w-3 h-3 rounded border border-gray-200 ${DAY_KIND_STYLES[kind]}`} />
+                        {t(`schoolCalendar.kinds.${kind}`, kind)}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default MonthCalendar;
@@ -0,0 +1,97 @@
+import { useTranslation } from 'react-i18next';
+import type { AttendanceRecord } from '../../types';
+
+interface AttendanceHeatmapProps {
+    startDate: string;
+    endDate: string;
+    records: AttendanceRecord[];
+    selectedDate?: string | null;
+    onDayClick?: (date: string, record?: AttendanceRecord) => void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+    Present: 'bg-green-500',
+    Late: 'bg-yellow-400',
+    Absent: 'bg-red-500',
+    Excused: 'bg-blue-400',
+};
+
+const toKey = (date: Date) => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+const AttendanceHeatmap = ({ startDate, endDate, records, selectedDate, onDayClick }: AttendanceHeatmapProps) => {
+    const { t } = useTranslation();
+
+    const byDate = new Map<string, AttendanceRecord>();
+    records.forEach(r => byDate.set(r.attendanceDate.split('T')[0], r));
+
+    // Build week columns (Sunday → Saturday), padding the first week
+    const start = new Date(`${startDate}T00:00:00`);
+    const end = new Date(`${endDate}T00:00:00`);
+    const cursor = new Date(start);
+    cursor.setDate(cursor.getDate() - cursor.getDay());
+
+    const weeks: (Date | null)[][] = [];
+    while (cursor <= end) {
+        const week: (Date | null)[] = [];
+        for (let i = 0; i < 7; i++) {
+            week.push(cursor >= start && cursor <= end ? new Date(cursor) : null);
+            cursor.setDate(cursor.getDate() + 1);
+        }
+        weeks.push(week);
+    }
+
+    const dayLabels = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+    return (
+        <div>
+            <div className="flex gap-1 overflow-x-auto pb-2">
+                <div className="flex flex-col gap-1 mr-1">
+                    {dayLabels.map((label, i) => (
+                        <div key={i} className="w-3 h-3 sm:w-4 sm:h-4 text-[10px] leading-3 sm:leading-4 text-gray-400">{label}</div>
+                    ))}
+                </div>
+                {weeks.map((week, wi) => (
+                    <div key={wi} className="flex flex-col gap-1">
+                        {week.map((day, di) => {
+                            if (!day) {
+                                return <div key={di} className="w-3 h-3 sm:w-4 sm:h-4" />;
+                            }
+                            const key = toKey(day);
+                            const record = byDate.get(key);
+                            const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+                            const color = record
+                                ? STATUS_COLORS[record.status] || 'bg-gray-300'
+                                : isWeekend ? 'bg-gray-50' : 'bg-gray-100';
+                            const label = record ? t(`attendance.${record.status.toLowerCase()}`) : t('students.profile.noData', 'No data');
+                            return (
+                                <button
+                                    key={di}
+                                    type="button"
+                                    onClick={() => onDayClick?.(key, record)}
+                                    title={`${key} — ${label}`}
+                                    className={`w-3 h-3 sm:w-4 sm:h-4 rounded-sm ${color} ${selectedDate === key ? 'ring-2 ring-blue-600 ring-offset-1' : ''} hover:opacity-80 transition-opacity`}
+                                />
+                            );
+                        })}
+                    </div>
+                ))}
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600">
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-green-500" />{t('attendance.present')}</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-yellow-400" />{t('attendance.late')}</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-red-500" />{t('attendance.absent')}</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-blue-400" />{t('attendance.excused')}</span>
+                <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-gray-100 border" />{t('students.profile.noData', 'No data')}</span>
+            </div>
+        </div>
+    );
+};
+
+export default AttendanceHeatmap;
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, ArrowRight, Columns, Save, Trash2, Loader2 } from 'lucide-react';
+import {
+    IMPORT_FIELDS,
+    REQUIRED_IMPORT_FIELDS,
+    applyMappingPreset,
+    type ColumnMapping,
+    type ColumnMappingPreset,
+    type ImportField
+} from '../../utils/studentImport';
+
+interface ColumnMappingStepProps {
+    headers: string[];
+    sampleRow: unknown[];           // first data row, shown next to each field
+    mapping: ColumnMapping;
+    onMappingChange: (mapping: ColumnMapping) => void;
+    academicYears: string[];
+    fixedAcademicYear: string;      // used when no column holds the academic year
+    onFixedAcademicYearChange: (year: string) => void;
+    presets: ColumnMappingPreset[];
+    onSavePresets: (presets: ColumnMappingPreset[]) => Promise<void>;
+    onBack: () => void;
+    onContinue: () => void;
+}
+
+/**
+ * Import step where each student field is matched to a column of the uploaded sheet.
+ * Mappings can be saved as presets shared by the whole school.
+ */
+const ColumnMappingStep = ({
+    headers,
+    sampleRow,
+    mapping,
+    onMappingChange,
+    academicYears,
+    fixedAcademicYear,
+    onFixedAcademicYearChange,
+    presets,
+    onSavePresets,
+    onBack,
+    onContinue
+}: ColumnMappingStepProps) => {
+    const { t } = useTranslation();
+    const [presetName, setPresetName] = useState('');
+    const [savingPreset, setSavingPreset] = useState(false);
+    const [presetError, setPresetError] = useState('');
+    const [presetMessage, setPresetMessage] = useState('');
+
+    const getFieldLabel = (field: ImportField) => t(`import.columns.${field === 'className' ? 'class' : field}`);
+
+    const getSample = (header?: string) => {
+        if (!header) return '';
+        const value = sampleRow[headers.indexOf(header)];
+        return value === null || value === undefined ? '' : String(value);
+    };
+
+    // A column feeds one field only; picking it again moves it
+    const handleSelect = (field: ImportField, header: string) => {
+        const next: ColumnMapping = {};
+        IMPORT_FIELDS.forEach(f => {
+            if (f !== field && mapping[f] && mapping[f] !== header) next[f] = mapping[f];
+        });
+        if (header) next[field] = header;
+        onMappingChange(next);
+    };
+
+    const isSatisfied = (field: ImportField) =>
+        !!mapping[field] || (field === 'academicYear' && !!fixedAcademicYear);
+
+    const missingRequired = REQUIRED_IMPORT_FIELDS.filter(field => !isSatisfied(field));
+    const mappedHeaders = new Set(Object.values(mapping));
+    const ignoredHeaders = headers.filter(header => header && !mappedHeaders.has(header));
+
+    const savePresets = async (next: ColumnMappingPreset[], message: string) => {
+        setSavingPreset(true);
+        setPresetError('');
+        setPresetMessage('');
+        try {
+            await onSavePresets(next);
+            setPresetMessage(message);
+        } catch (err) {
+            console.error('Error saving mapping presets:', err);
+            setPresetError(t('import.mapping.presetSaveFailed'));
+        } finally {
+            setSavingPreset(false);
+        }
+    };
+
+    const handleSavePreset = async () => {
+        const name = presetName.trim();
+        if (!name) return;
+        const next = [...presets.filter(p => p.name !== name), { name, mapping }];
+        await savePresets(next, t('import.mapping.presetSaved', { name }));
+        setPresetName('');
+    };
+
+    const handleDeletePreset = async (name: string) => {
+        if (!confirm(t('import.mapping.confirmDeletePreset', { name }))) return;
+        await savePresets(presets.filter(p => p.name !== name), t('import.mapping.presetDeleted', { name }));
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            {/* Header */}
+            <div className="p-3 sm:p-4 border-b border-gray-200">
+                <h2 className="font-semibold text-gray-900 flex items-center gap-2 text-sm sm:text-base">
+                    <Columns className="w-4 h-4 sm:w-5 sm:h-5 text-blue-600" />
+                    {t('import.mapping.title')}
+                </h2>
+                <p className="text-xs sm:text-sm text-gray-600 mt-1">{t('import.mapping.description')}</p>
+            </div>
+
+            {/* Presets */}
+            <div className="p-3 sm:p-4 border-b border-gray-200 bg-gray-50 space-y-3">
+                {presets.length > 0 && (
+                    <div>
+                        <p className="text-xs font-medium text-gray-600 mb-1.5">{t('import.mapping.presets')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {presets.map(preset => (
+                                <div key={preset.name} className="inline-flex items-center bg-white border border-gray-300 rounded-lg text-xs sm:text-sm">
+                                    <button
+                                        type="button"
+                                        onClick={() => onMappingChange(applyMappingPreset(preset, headers))}
+                                        className="px-3 py-1.5 text-gray-700 hover:text-blue-700"
+                                        title={t('import.mapping.applyPreset')}
+                                    >
+                                        {preset.name}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleDeletePreset(preset.name)}
+                                        disabled={savingPreset}
+                                        className="px-2 py-1.5 border-l border-gray-300 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                                        title={t('import.mapping.deletePreset')}
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <input
+                        type="text"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder={t('import.mapping.presetNamePlaceholder')}
+                        className="input-field py-2 text-sm sm:max-w-xs"
+                    />
+                    <button
+                        type="button"
+                        onClick={handleSavePreset}
+                        disabled={savingPreset || !presetName.trim()}
+                        className="px-4 py-2 border border-gray-300 bg-white rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm"
+                    >
+                        {savingPreset ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                        {t('import.mapping.savePreset')}
+                    </button>
+                </div>
+                {presetError && <p className="text-xs sm:text-sm text-red-700">{presetError}</p>}
+                {presetMessage && <p className="text-xs sm:text-sm text-green-700">{presetMessage}</p>}
+            </div>
+
+            {/* Field mapping */}
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.mapping.field')}</th>
+                            <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.mapping.sourceColumn')}</th>
+                            <th className="hidden sm:table-cell px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.mapping.sample')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {IMPORT_FIELDS.map(field => {
+                            const required = REQUIRED_IMPORT_FIELDS.includes(field);
+                            return (
+                                <tr key={field} className={required && !isSatisfied(field) ? 'bg-red-50' : ''}>
+                                    <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900 whitespace-nowrap">
+                                        {getFieldLabel(field)}
+                                        {required && <span className="text-red-500 ml-1">*</span>}
+                                    </td>
+                                    <td className="px-2 sm:px-4 py-2 sm:py-3">
+                                        <select
+                                            value={mapping[field] || ''}
+                                            onChange={(e) => handleSelect(field, e.target.value)}
+                                            className="input-field py-1.5 text-sm min-w-[160px]"
+                                        >
+                                            <option value="">{t('import.mapping.notMapped')}</option>
+                                            {headers.filter(Boolean).map(header => (
+                                                <option key={header} value={header}>{header}</option>
+                                            ))}
+                                        </select>
+                                        {field === 'academicYear' && !mapping.academicYear && (
+                                            <select
+                                                value={fixedAcademicYear}
+                                                onChange={(e) => onFixedAcademicYearChange(e.target.value)}
+                                                className="input-field py-1.5 text-sm min-w-[160px] mt-2"
+                                            >
+                                                <option value="">{t('import.mapping.sameYearForAll')}</option>
+                                                {academicYears.map(year => (
+                                                    <option key={year} value={year}>{year}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                    </td>
+                                    <td className="hidden sm:table-cell px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500 max-w-[240px] truncate">
+                                        {getSample(mapping[field])}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Footer */}
+            <div className="p-3 sm:p-4 border-t border-gray-200 space-y-3">
+                {ignoredHeaders.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                        {t('import.mapping.ignoredColumns')}: {ignoredHeaders.join(', ')}
+                    </p>
+                )}
+                {missingRequired.length > 0 && (
+                    <p className="text-xs sm:text-sm text-red-700">
+                        {t('import.mapping.missingRequired', { fields: missingRequired.map(getFieldLabel).join(', ') })}
+                    </p>
+                )}
+                <div className="flex flex-col-reverse sm:flex-row sm:justify-between gap-2 sm:gap-3">
+                    <button
+                        type="button"
+                        onClick={onBack}
+                        className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 active:bg-gray-100 flex items-center justify-center gap-2 text-sm"
+                    >
+                        <ArrowLeft className="w-4 h-4" />
+                        {t('import.mapping.back')}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={onContinue}
+                        disabled={missingRequired.length > 0}
+                        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 active:bg-blue-800 disabled:bg-blue-400 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm"
+                    >
+                        {t('import.mapping.continue')}
+                        <ArrowRight className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ColumnMappingStep;
@@ -2,24 +2,9 @@
 import { useTranslation } from 'react-i18next';
 import { Camera, X, CheckCircle, AlertCircle, RefreshCw, FlipHorizontal, Download, Lightbulb } from 'lucide-react';
 import { studentService } from '../../services/studentService';
-
-// TypeScript declarations for FaceDetector API (Chrome desktop only)
-declare global {
-    interface Window {
-        FaceDetector: new (options?: FaceDetectorOptions) => FaceDetector;
-    }
-    interface FaceDetectorOptions {
-        fastMode?: boolean;
-        maxDetectedFaces?: number;
-    }
-    interface FaceDetector {
-        detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
-    }
-    interface DetectedFace {
-        boundingBox: DOMRectReadOnly;
-        landmarks?: Array<{ type: string; locations: Array<{ x: number; y: number }> }>;
-    }
-}
+import { authService } from '../../services/authService';
+import RetrainPrompt from '../Training/RetrainPrompt';
+import { GOOD_FRAMES_REQUIRED, checkFaceFraming, createFaceDetector } from '../../utils/faceFraming';
 
 interface PhotoCaptureModalProps {
     studentCode: string;
@@ -55,11 +40,8 @@ const PhotoCaptureModal = ({ studentCode, studentName, isOpen, onClose, onSucces
     const [faceDetectorSupported, setFaceDetectorSupported] = useState(false);
     const [stabilityProgress, setStabilityProgress] = useState(0);
 
-    // Constants for face detection
-    const GOOD_FRAMES_REQUIRED = 15;
-    const MIN_FACE_SIZE_RATIO = 0.20;
-    const MAX_FACE_SIZE_RATIO = 0.80;
-    const CENTER_TOLERANCE = 0.25;
+    const canRetrain = authService.getCurrentUser()?.userRole === 'SchoolAdmin'
+        && authService.hasPermission('TrainFaceRecognition');
 
     // Prevent body scroll when modal is open
     useEffect(() => {
@@ -75,21 +57,10 @@ const PhotoCaptureModal = ({ studentCode, studentName, isOpen, onClose, onSucces
 
     // Initialize face detector
     useEffect(() => {
-        if ('FaceDetector' in window) {
-            try {
-                faceDetectorRef.current = new window.FaceDetector({
-                    fastMode: true,
-                    maxDetectedFaces: 1
-                });
-                setFaceDetectorSupported(true);
-                console.log('✅ FaceDetector API supported');
-            } catch (e) {
-                console.log('⚠️ FaceDetector API not available:', e);
-                setFaceDetectorSupported(false);
-            }
-        } else {
+        faceDetectorRef.current = createFaceDetector(1);
+        setFaceDetectorSupported(faceDetectorRef.current !== null);
+        if (!faceDetectorRef.current) {
             console.log('⚠️ FaceDetector API not supported in this browser (normal for mobile)');
-            setFaceDetectorSupported(false);
         }
     }, []);
 
@@ -243,38 +214,11 @@ const PhotoCaptureModal = ({ studentCode, studentName, isOpen, onClose, onSucces
                 return;
             }
 
-            const face = faces[0];
-            const box = face.boundingBox;
-
-            const videoWidth = video.videoWidth;
-            const videoHeight = video.videoHeight;
-            const frameSize = Math.min(videoWidth, videoHeight);
-
-            const faceSize = Math.max(box.width, box.height);
-            const faceSizeRatio = faceSize / frameSize;
-
-            const faceCenterX = box.x + box.width / 2;
-            const faceCenterY = box.y + box.height / 2;
-            const frameCenterX = videoWidth / 2;
-            const frameCenterY = videoHeight / 2;
-
-            const offsetX = Math.abs(faceCenterX - frameCenterX) / frameSize;
-            const offsetY = Math.abs(faceCenterY - frameCenterY) / frameSize;
-
-            let status: FaceStatus = 'good';
-
-            if (faceSizeRatio < MIN_FACE_SIZE_RATIO) {
-                status = 'too-far';
-                goodFrameCountRef.current = 0;
-            } else if (faceSizeRatio > MAX_FACE_SIZE_RATIO) {
-                status = 'too-close';
-                goodFrameCountRef.current = 0;
-            } else if (offsetX > CENTER_TOLERANCE || offsetY > CENTER_TOLERANCE) {
-                status = 'off-center';
-                goodFrameCountRef.current = 0;
-            } else {
+            const status: FaceStatus = checkFaceFraming(faces[0].boundingBox, video.videoWidth, video.videoHeight);
+            if (status === 'good') {
                 goodFrameCountRef.current++;
-                status = 'good';
+            } else {
+                goodFrameCountRef.current = 0;
             }
 
             setFaceStatus(status);
@@ -387,10 +331,11 @@ const PhotoCaptureModal = ({ studentCode, studentName, isOpen, onClose, onSucces
             await studentService.uploadPhotos(studentCode, dataTransfer.files);
 
             setUploadStatus('success');
-            setTimeout(() => {
-                onSuccess();
-                handleClose();
-            }, 1500);
+            onSuccess();
+            // Admins stay on the retrain prompt; everyone else is done
+            if (!canRetrain) {
+                setTimeout(handleClose, 1500);
+            }
         } catch (err) {
             console.error('Upload error:', err);
             setUploadStatus('error');
@@ -682,6 +627,12 @@ const PhotoCaptureModal = ({ studentCode, studentName, isOpen, onClose, onSucces
                     </div>
                 )}
 
+                {uploadStatus === 'success' && canRetrain && (
+                    <div className="flex-shrink-0 mx-4 my-2">
+                        <RetrainPrompt studentCode={studentCode} studentName={studentName} onDone={handleClose} />
+                    </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex-shrink-0 p-4 bg-gray-900/80 backdrop-blur-sm safe-area-bottom">
                     {!capturedImage ? (
@@ -743,7 +694,7 @@ const PhotoCaptureModal = ({ studentCode, studentName, isOpen, onClose, onSucces
                             </button>
                             <button
                                 onClick={handleUpload}
-                                disabled={isLoading}
+                                disabled={isLoading || uploadStatus === 'success'}
                                 className="flex-1 py-3 sm:py-3.5 px-4 bg-gradient-to-r from-cyan-500 to-cyan-400 
                                          hover:from-cyan-400 hover:to-cyan-300 
                                          text-white rounded-xl font-medium shadow-lg shadow-cyan-500/30 
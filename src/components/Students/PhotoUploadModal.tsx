@@ -2,6 +2,8 @@
 import { useTranslation } from 'react-i18next';
 import { Upload, X, Camera, CheckCircle, AlertCircle, Image as ImageIcon } from 'lucide-react';
 import { studentService } from '../../services/studentService';
+import { authService } from '../../services/authService';
+import RetrainPrompt from '../Training/RetrainPrompt';
 
 interface PhotoUploadModalProps {
     studentCode: string;
@@ -19,6 +21,8 @@ const PhotoUploadModal = ({ studentCode, studentName, isOpen, onClose, onSuccess
     const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle');
     const [errorMessage, setErrorMessage] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const canRetrain = authService.getCurrentUser()?.userRole === 'SchoolAdmin'
+        && authService.hasPermission('TrainFaceRecognition');
 
     // Prevent body scroll when modal is open
     useEffect(() => {
@@ -101,10 +105,14 @@ const PhotoUploadModal = ({ studentCode, studentName, isOpen, onClose, onSuccess
             await studentService.uploadPhotos(studentCode, dataTransfer.files);
 
             setUploadStatus('success');
-            setTimeout(() => {
-                onSuccess();
-                handleClose();
-            }, 1500);
+            onSuccess();
+            if (canRetrain) {
+                // Stay open so the admin can retrain straight away
+                setSelectedFiles([]);
+                setPreviews([]);
+            } else {
+                setTimeout(handleClose, 1500);
+            }
         } catch (err: unknown) {
             console.error('Upload error:', err);
             setUploadStatus('error');
@@ -223,6 +231,10 @@ const PhotoUploadModal = ({ studentCode, studentName, isOpen, onClose, onSuccess
                             </div>
                         )}
 
+                        {uploadStatus === 'success' && canRetrain && (
+                            <RetrainPrompt studentCode={studentCode} studentName={studentName} onDone={handleClose} />
+                        )}
+
                         {/* Preview Grid */}
                         {previews.length > 0 && (
                             <div>
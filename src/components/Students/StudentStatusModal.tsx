@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X, UserCog, ArrowRightLeft, LogIn, UserMinus, GraduationCap, AlertCircle } from 'lucide-react';
+import { studentService } from '../../services/studentService';
+import type { StudentLifecycleAction } from '../../types';
+import { getAvailableActions, isTransferAction, type StudentLifecycle } from '../../utils/studentLifecycle';
+import { toDateString } from '../../utils/schoolCalendar';
+
+interface StudentStatusModalProps {
+    isOpen: boolean;
+    student: StudentLifecycle & { studentID: number; studentCode: string; fullName: string };
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const ACTION_ICONS: Record<StudentLifecycleAction, typeof UserCog> = {
+    TransferOut: ArrowRightLeft,
+    Withdraw: UserMinus,
+    Graduate: GraduationCap,
+    TransferIn: LogIn,
+};
+
+/**
+ * Transfer out, withdraw, graduate or transfer back in a student. Leavers keep their
+ * attendance history; the server switches their face photos off from the effective date.
+ */
+const StudentStatusModal = ({ isOpen, student, onClose, onSuccess }: StudentStatusModalProps) => {
+    const { t } = useTranslation();
+    const actions = getAvailableActions(student);
+    const [action, setAction] = useState<StudentLifecycleAction>(actions[0] ?? 'TransferOut');
+    const [effectiveDate, setEffectiveDate] = useState(toDateString(new Date()));
+    const [reason, setReason] = useState('');
+    const [transferSchool, setTransferSchool] = useState('');
+    const [reactivatePhotos, setReactivatePhotos] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setAction(actions[0] ?? 'TransferOut');
+        setEffectiveDate(toDateString(new Date()));
+        setReason('');
+        setTransferSchool('');
+        setReactivatePhotos(true);
+        setError('');
+    }, [isOpen, student.studentID]);
+
+    if (!isOpen) return null;
+
+    const isTransfer = isTransferAction(action);
+    const isLeaving = action !== 'TransferIn';
+    const takesEffectNow = effectiveDate <= toDateString(new Date());
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        if (!effectiveDate) {
+            setError(t('students.status.dateRequired'));
+            return;
+        }
+        if (isTransfer && !transferSchool.trim()) {
+            setError(t('students.status.schoolRequired'));
+            return;
+        }
+        if (action !== 'Graduate' && !reason.trim()) {
+            setError(t('students.status.reasonRequired'));
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await studentService.changeStatus(student.studentID, {
+                action,
+                effectiveDate,
+                reason: reason.trim(),
+                transferSchool: isTransfer ? transferSchool.trim() : undefined,
+                reactivateFaceImages: isLeaving ? undefined : reactivatePhotos,
+            });
+            onSuccess();
+            onClose();
+        } catch (err) {
+            console.error('Error changing student status:', err);
+            setError(t('students.status.saveFailed'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div className="min-w-0">
+                        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                            <UserCog className="w-5 h-5 text-blue-600" />
+                            {t('students.status.title')}
+                        </h2>
+                        <p className="text-sm text-gray-500 truncate">{student.fullName} · {student.studentCode}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                {/* Form */}
+                <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Action */}
+                    <div className="grid grid-cols-1 gap-2">
+                        {actions.map(option => {
+                            const Icon = ACTION_ICONS[option];
+                            const selected = option === action;
+                            return (
+                                <button
+                                    key={option}
+                                    type="button"
+                                    onClick={() => setAction(option)}
+                                    className={`flex items-start gap-3 p-3 border rounded-lg text-left transition-colors ${selected
+                                        ? 'border-blue-500 bg-blue-50'
+                                        : 'border-gray-200 hover:bg-gray-50'
+                                        }`}
+                                >
+                                    <Icon className={`w-5 h-5 flex-shrink-0 mt-0.5 ${selected ? 'text-blue-600' : 'text-gray-500'}`} />
+                                    <div>
+                                        <p className="text-sm font-medium text-gray-900">{t(`students.status.actions.${option}`)}</p>
+                                        <p className="text-xs text-gray-500">{t(`students.status.actionHints.${option}`)}</p>
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {/* Effective date */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('students.status.effectiveDate')} <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                            type="date"
+                            value={effectiveDate}
+                            onChange={(e) => setEffectiveDate(e.target.value)}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    {/* Other school */}
+                    {isTransfer && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                                {action === 'TransferOut' ? t('students.status.destinationSchool') : t('students.status.previousSchool')}
+                                {' '}<span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="text"
+                                value={transferSchool}
+                                onChange={(e) => setTransferSchool(e.target.value)}
+                                placeholder={t('students.status.schoolPlaceholder')}
+                                className="input-field py-2 text-sm"
+                            />
+                        </div>
+                    )}
+
+                    {/* Reason */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">
+                            {t('students.status.reason')}
+                            {action !== 'Graduate' && <span className="text-red-500"> *</span>}
+                        </label>
+                        <textarea
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            rows={3}
+                            placeholder={t(`students.status.reasonPlaceholders.${action}`)}
+                            className="input-field py-2 text-sm"
+                        />
+                    </div>
+
+                    {/* Returning students can reuse the photos they left with */}
+                    {!isLeaving && (
+                        <label className="flex items-start gap-2 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={reactivatePhotos}
+                                onChange={(e) => setReactivatePhotos(e.target.checked)}
+                                className="w-4 h-4 text-blue-600 rounded mt-0.5"
+                            />
+                            {t('students.status.reactivatePhotos')}
+                        </label>
+                    )}
+
+                    {/* What happens */}
+                    <div className="flex items-start gap-2 bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs sm:text-sm text-gray-700">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5 text-gray-500" />
+                        <span>
+                            {isLeaving
+                                ? t(takesEffectNow ? 'students.status.leavingNow' : 'students.status.leavingLater', { date: effectiveDate })
+                                : t(reactivatePhotos ? 'students.status.returning' : 'students.status.returningNoPhotos')}
+                        </span>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting ? t('common.saving') : t('common.save')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default StudentStatusModal;
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ClipboardCheck, Settings, ArrowRight } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { trainingService, type ModelEvaluation } from '../../services/trainingService';
+
+interface ModelEvaluationPanelProps {
+    threshold: number;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Hold-out evaluation of the trained model at the saved RecognitionThreshold,
+ * with a sweep of nearby thresholds so a change can be judged before it is made.
+ */
+const ModelEvaluationPanel = ({ threshold }: ModelEvaluationPanelProps) => {
+    const { t } = useTranslation();
+    const [evaluation, setEvaluation] = useState<ModelEvaluation | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleRun = async () => {
+        setIsRunning(true);
+        setError('');
+        try {
+            setEvaluation(await trainingService.evaluateModel(threshold));
+        } catch (err) {
+            console.error('Error evaluating model:', err);
+            setError(t('training.evaluation.failed'));
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-gray-600">
+                    {t('training.evaluation.description', { threshold: (threshold * 100).toFixed(0) })}
+                </p>
+                <button
+                    onClick={handleRun}
+                    disabled={isRunning}
+                    className="btn-secondary flex items-center justify-center gap-2 flex-shrink-0"
+                >
+                    <ClipboardCheck className="w-5 h-5" />
+                    {isRunning ? t('training.evaluation.running') : t('training.evaluation.run')}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                    {error}
+                </div>
+            )}
+
+            {evaluation && (
+                <>
+                    {/* Summary */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="bg-green-50 p-3 rounded-lg">
+                            <p className="text-xs text-green-600 font-medium">{t('training.evaluation.accuracy')}</p>
+                            <p className="text-xl font-bold text-green-900 mt-1">{formatPercent(evaluation.accuracy)}</p>
+                            <p className="text-xs text-green-700">{t('training.evaluation.ofImages', { count: evaluation.correctMatches, total: evaluation.totalImages })}</p>
+                        </div>
+                        <div className="bg-red-50 p-3 rounded-lg">
+                            <p className="text-xs text-red-600 font-medium">{t('training.evaluation.falseMatchRate')}</p>
+                            <p className="text-xl font-bold text-red-900 mt-1">{formatPercent(evaluation.falseMatchRate)}</p>
+                            <p className="text-xs text-red-700">{t('training.evaluation.ofImages', { count: evaluation.falseMatches, total: evaluation.totalImages })}</p>
+                        </div>
+                        <div className="bg-yellow-50 p-3 rounded-lg">
+                            <p className="text-xs text-yellow-700 font-medium">{t('training.evaluation.rejected')}</p>
+                            <p className="text-xl font-bold text-yellow-900 mt-1">{evaluation.rejected}</p>
+                            <p className="text-xs text-yellow-700">{t('training.evaluation.rejectedHint')}</p>
+                        </div>
+                        <div className="bg-blue-50 p-3 rounded-lg">
+                            <p className="text-xs text-blue-600 font-medium">{t('training.students')}</p>
+                            <p className="text-xl font-bold text-blue-900 mt-1">{evaluation.totalStudents}</p>
+                            <p className="text-xs text-blue-700">
+                                {t('training.evaluation.evaluatedAt', { time: new Date(evaluation.evaluatedAt).toLocaleString('en-MY') })}
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Threshold sweep */}
+                    {evaluation.thresholdSweep.length > 0 && (
+                        <div>
+                            <h3 className="text-sm font-semibold text-gray-900 mb-2">{t('training.evaluation.sweepTitle')}</h3>
+                            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-gray-50 border-b">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.evaluation.threshold')}</th>
+                                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.evaluation.accuracy')}</th>
+                                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.evaluation.falseMatchRate')}</th>
+                                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.evaluation.rejectionRate')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {evaluation.thresholdSweep.map(point => {
+                                            const isCurrent = Math.abs(point.threshold - evaluation.threshold) < 0.001;
+                                            return (
+                                                <tr key={point.threshold} className={isCurrent ? 'bg-purple-50 font-semibold' : ''}>
+                                                    <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                                                        {(point.threshold * 100).toFixed(0)}%
+                                                        {isCurrent && <span className="ml-2 text-xs text-purple-700">{t('training.evaluation.current')}</span>}
+                                                    </td>
+                                                    <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">{formatPercent(point.accuracy)}</td>
+                                                    <td className={`px-3 py-2 whitespace-nowrap text-right ${point.falseMatchRate > 0 ? 'text-red-700' : 'text-gray-400'}`}>{formatPercent(point.falseMatchRate)}</td>
+                                                    <td className="px-3 py-2 whitespace-nowrap text-right text-gray-700">{formatPercent(point.rejectionRate)}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <Link
+                                to="/settings"
+                                className="mt-2 text-xs sm:text-sm text-blue-600 hover:underline inline-flex items-center gap-1"
+                            >
+                                <Settings className="w-3.5 h-3.5" />
+                                {t('training.evaluation.changeThreshold')}
+                            </Link>
+                        </div>
+                    )}
+
+                    {/* False matches */}
+                    <div>
+                        <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                            {t('training.evaluation.falseMatchesTitle', { count: evaluation.falseMatchPairs.length })}
+                        </h3>
+                        {evaluation.falseMatchPairs.length === 0 ? (
+                            <p className="text-sm text-gray-500">{t('training.evaluation.noFalseMatches')}</p>
+                        ) : (
+                            <ul className="divide-y divide-gray-100 border border-red-200 rounded-lg">
+                                {evaluation.falseMatchPairs.map(pair => (
+                                    <li key={pair.faceImageId} className="px-3 py-2.5 flex items-center gap-3">
+                                        <img src={pair.imagePath} alt={pair.fullName} className="w-12 h-12 rounded object-cover border border-gray-200 flex-shrink-0" />
+                                        <div className="flex-1 min-w-0">
+                                            <Link
+                                                to={`/students/${encodeURIComponent(pair.studentCode)}`}
+                                                className="text-sm font-medium text-gray-900 hover:underline truncate block"
+                                            >
+                                                {pair.fullName}
+                                            </Link>
+                                            <p className="text-xs text-gray-500">{pair.studentCode}</p>
+                                        </div>
+                                        <ArrowRight className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                        {pair.matchedImagePath && (
+                                            <img src={pair.matchedImagePath} alt={pair.matchedFullName} className="w-12 h-12 rounded object-cover border border-gray-200 flex-shrink-0" />
+                                        )}
+                                        <div className="flex-1 min-w-0">
+                                            <Link
+                                                to={`/students/${encodeURIComponent(pair.matchedStudentCode)}`}
+                                                className="text-sm font-medium text-gray-900 hover:underline truncate block"
+                                            >
+                                                {pair.matchedFullName}
+                                            </Link>
+                                            <p className="text-xs text-gray-500">{pair.matchedStudentCode}</p>
+                                        </div>
+                                        <div className="text-right flex-shrink-0">
+                                            <p className="text-sm font-semibold text-red-700">{(pair.confidence * 100).toFixed(1)}%</p>
+                                            <p className="text-xs text-gray-500">{t('training.test.distance', { value: pair.distance.toFixed(3) })}</p>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ModelEvaluationPanel;
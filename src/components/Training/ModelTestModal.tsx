@@ -0,0 +1,214 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, Upload, Camera, Search, UserX } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { trainingService, type FaceIdentifyResult } from '../../services/trainingService';
+
+interface ModelTestModalProps {
+    threshold: number;
+    onClose: () => void;
+}
+
+const TOP_N = 5;
+
+/** Matches one uploaded or captured photo against the current model and lists the closest students */
+const ModelTestModal = ({ threshold, onClose }: ModelTestModalProps) => {
+    const { t } = useTranslation();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const [isCameraOn, setIsCameraOn] = useState(false);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [result, setResult] = useState<FaceIdentifyResult | null>(null);
+    const [isIdentifying, setIsIdentifying] = useState(false);
+    const [error, setError] = useState('');
+
+    const stopCamera = () => {
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        setIsCameraOn(false);
+    };
+
+    useEffect(() => () => stopCamera(), []);
+
+    useEffect(() => () => {
+        if (previewUrl) URL.revokeObjectURL(previewUrl);
+    }, [previewUrl]);
+
+    const identify = async (image: Blob) => {
+        setPreviewUrl(URL.createObjectURL(image));
+        setResult(null);
+        setError('');
+        setIsIdentifying(true);
+        try {
+            setResult(await trainingService.identifyFace(image, TOP_N));
+        } catch (err) {
+            console.error('Error identifying face:', err);
+            setError(t('training.test.identifyFailed'));
+        } finally {
+            setIsIdentifying(false);
+        }
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        stopCamera();
+        identify(file);
+    };
+
+    const startCamera = async () => {
+        setError('');
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                video: { width: { ideal: 1280 }, height: { ideal: 720 } },
+                audio: false
+            });
+            streamRef.current = stream;
+            setIsCameraOn(true);
+            setPreviewUrl(null);
+            setResult(null);
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play();
+            }
+        } catch (err) {
+            console.error('Camera error:', err);
+            setError(err instanceof Error && err.name === 'NotAllowedError'
+                ? t('students.cameraCapture.permissionDenied', 'Camera permission denied')
+                : t('training.test.cameraUnavailable'));
+            stopCamera();
+        }
+    };
+
+    const capture = () => {
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!video || !canvas || !ctx) return;
+
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        ctx.drawImage(video, 0, 0);
+        stopCamera();
+        canvas.toBlob(blob => {
+            if (blob) identify(blob);
+        }, 'image/jpeg', 0.95);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+                {/* Header */}
+                <div className="border-b border-gray-200 px-4 sm:px-6 py-4 flex items-center justify-between flex-shrink-0">
+                    <div>
+                        <h2 className="text-xl sm:text-2xl font-bold text-gray-900 flex items-center gap-2">
+                            <Search className="w-5 h-5 sm:w-6 sm:h-6 text-purple-600" />
+                            {t('training.testRecognitionTitle')}
+                        </h2>
+                        <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                            {t('training.test.thresholdNote', { threshold: (threshold * 100).toFixed(0) })}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 active:bg-gray-200 rounded-lg transition-colors"
+                    >
+                        <X className="w-6 h-6 text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="p-4 sm:p-6 space-y-4 overflow-y-auto flex-1">
+                    {/* Source */}
+                    <div className="flex flex-col sm:flex-row gap-2">
+                        <label className="flex-1 btn-secondary flex items-center justify-center gap-2 cursor-pointer">
+                            <Upload className="w-4 h-4" />
+                            {t('training.test.uploadPhoto')}
+                            <input type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+                        </label>
+                        {isCameraOn ? (
+                            <button onClick={capture} className="flex-1 btn-primary flex items-center justify-center gap-2">
+                                <Camera className="w-4 h-4" />
+                                {t('training.test.capture')}
+                            </button>
+                        ) : (
+                            <button onClick={startCamera} className="flex-1 btn-secondary flex items-center justify-center gap-2">
+                                <Camera className="w-4 h-4" />
+                                {t('training.test.useCamera')}
+                            </button>
+                        )}
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Camera / photo */}
+                    <div className={`bg-black rounded-lg overflow-hidden ${isCameraOn ? '' : 'hidden'}`}>
+                        <video ref={videoRef} playsInline muted className="block w-full h-auto" />
+                    </div>
+                    <canvas ref={canvasRef} className="hidden" />
+                    {!isCameraOn && previewUrl && (
+                        <img src={previewUrl} alt="" className="block max-h-64 mx-auto rounded-lg border border-gray-200" />
+                    )}
+
+                    {isIdentifying && (
+                        <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-600">
+                            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-600"></div>
+                            {t('training.test.identifying')}
+                        </div>
+                    )}
+
+                    {/* Matches */}
+                    {result && (
+                        result.faceCount === 0 ? (
+                            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800 flex items-center gap-2">
+                                <UserX className="w-4 h-4 flex-shrink-0" />
+                                {t('training.test.noFace')}
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                {result.faceCount > 1 && (
+                                    <p className="text-xs text-yellow-700">{t('training.test.multipleFaces', { count: result.faceCount })}</p>
+                                )}
+                                <h3 className="text-sm font-semibold text-gray-900">{t('training.test.topMatches', { count: result.matches.length })}</h3>
+                                {result.matches.length === 0 ? (
+                                    <p className="text-sm text-gray-500">{t('training.test.noMatches')}</p>
+                                ) : (
+                                    <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                                        {result.matches.map((match, index) => {
+                                            const accepted = match.confidence >= threshold;
+                                            return (
+                                                <li key={match.studentCode} className="px-3 py-2.5 flex items-center gap-3">
+                                                    <span className="text-xs font-semibold text-gray-400 w-4">{index + 1}</span>
+                                                    {match.imagePath && (
+                                                        <img src={match.imagePath} alt={match.fullName} className="w-10 h-10 rounded object-cover border border-gray-200 flex-shrink-0" />
+                                                    )}
+                                                    <div className="flex-1 min-w-0">
+                                                        <p className="text-sm font-medium text-gray-900 truncate">{match.fullName}</p>
+                                                        <p className="text-xs text-gray-500">{match.studentCode} · {match.class}</p>
+                                                    </div>
+                                                    <div className="text-right">
+                                                        <p className="text-sm font-semibold text-gray-900">{(match.confidence * 100).toFixed(1)}%</p>
+                                                        <p className="text-xs text-gray-500">{t('training.test.distance', { value: match.distance.toFixed(3) })}</p>
+                                                    </div>
+                                                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full whitespace-nowrap ${accepted ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                                                        {accepted ? t('training.test.aboveThreshold') : t('training.test.belowThreshold')}
+                                                    </span>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </div>
+                        )
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ModelTestModal;
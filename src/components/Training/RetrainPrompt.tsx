@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Brain, Users, CheckCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import axios from 'axios';
+import { trainingService, type TrainingJobScope } from '../../services/trainingService';
+
+interface RetrainPromptProps {
+    studentCode: string;
+    studentName: string;
+    onDone: () => void;
+}
+
+/** Offered after a student's photos change, so the model can be updated without a full retrain */
+const RetrainPrompt = ({ studentCode, studentName, onDone }: RetrainPromptProps) => {
+    const { t } = useTranslation();
+    const [staleCount, setStaleCount] = useState<number | null>(null);
+    const [starting, setStarting] = useState<TrainingJobScope | null>(null);
+    const [started, setStarted] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        trainingService.getStaleStudents()
+            .then(students => setStaleCount(students.length))
+            .catch(() => null);
+    }, []);
+
+    const handleRetrain = async (scope: TrainingJobScope) => {
+        setStarting(scope);
+        setError('');
+        try {
+            await trainingService.startJob(scope, scope === 'Students' ? [studentCode] : undefined);
+            setStarted(true);
+        } catch (err) {
+            console.error('Error starting training:', err);
+            setError(axios.isAxiosError(err) && err.response?.status === 409
+                ? t('training.jobs.alreadyRunning')
+                : t('training.trainingFailed'));
+        } finally {
+            setStarting(null);
+        }
+    };
+
+    if (started) {
+        return (
+            <div className="bg-white border border-green-200 rounded-xl p-4 space-y-3">
+                <p className="text-sm text-green-800 flex items-center gap-2">
+                    <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                    {t('training.retrain.started')}
+                </p>
+                <div className="flex items-center justify-between gap-3">
+                    <Link to="/training" className="text-sm text-blue-600 hover:underline">
+                        {t('training.retrain.viewProgress')}
+                    </Link>
+                    <button onClick={onDone} className="btn-secondary px-4 py-2 text-sm">
+                        {t('training.retrain.done')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-white border border-purple-200 rounded-xl p-4 space-y-3">
+            <div>
+                <p className="text-sm font-semibold text-gray-900">{t('training.retrain.title')}</p>
+                <p className="text-xs text-gray-600 mt-0.5">{t('training.retrain.description')}</p>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-xs sm:text-sm text-red-800">
+                    {error}
+                </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <button
+                    onClick={() => handleRetrain('Students')}
+                    disabled={starting !== null}
+                    className="flex-1 btn-primary px-3 py-2 text-sm flex items-center justify-center gap-2"
+                >
+                    <Brain className="w-4 h-4" />
+                    {t('training.retrain.thisStudent', { name: studentName })}
+                </button>
+                <button
+                    onClick={() => handleRetrain('Changed')}
+                    disabled={starting !== null}
+                    className="flex-1 btn-secondary px-3 py-2 text-sm flex items-center justify-center gap-2"
+                >
+                    <Users className="w-4 h-4" />
+                    {staleCount !== null
+                        ? t('training.retrain.changedStudentsCount', { count: staleCount })
+                        : t('training.retrain.changedStudents')}
+                </button>
+            </div>
+            <button onClick={onDone} className="w-full text-sm text-gray-500 hover:text-gray-700">
+                {t('training.retrain.later')}
+            </button>
+        </div>
+    );
+};
+
+export default RetrainPrompt;
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, ChevronRight, ImageOff } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import type { TrainingStudentFailure } from '../../services/trainingService';
+
+interface TrainingFailureBreakdownProps {
+    failures: TrainingStudentFailure[];
+}
+
+/** Students with images the training run could not use, expandable to the individual images */
+const TrainingFailureBreakdown = ({ failures }: TrainingFailureBreakdownProps) => {
+    const { t } = useTranslation();
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    if (failures.length === 0) return null;
+
+    return (
+        <div className="border border-yellow-200 rounded-lg overflow-hidden">
+            <div className="bg-yellow-50 px-4 py-2.5 text-sm font-semibold text-yellow-900 flex items-center gap-2">
+                <ImageOff className="w-4 h-4" />
+                {t('training.jobs.failuresTitle', { count: failures.length })}
+            </div>
+            <ul className="divide-y divide-gray-100">
+                {failures.map(student => {
+                    const isOpen = expanded === student.studentCode;
+                    const usable = student.totalImages - student.failedImages.length;
+                    return (
+                        <li key={student.studentCode}>
+                            <button
+                                onClick={() => setExpanded(isOpen ? null : student.studentCode)}
+                                className="w-full px-4 py-2.5 flex items-center gap-3 text-left hover:bg-gray-50 transition-colors"
+                            >
+                                {isOpen
+                                    ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                                    : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium text-gray-900 truncate">{student.fullName}</p>
+                                    <p className="text-xs text-gray-500">{student.studentCode} · {student.class}</p>
+                                </div>
+                                <span className={`text-xs font-medium px-2 py-0.5 rounded-full whitespace-nowrap ${usable === 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                                    {t('training.jobs.failedOfTotal', { failed: student.failedImages.length, total: student.totalImages })}
+                                </span>
+                            </button>
+                            {isOpen && (
+                                <div className="px-4 pb-3 pl-11 space-y-2">
+                                    {usable === 0 && (
+                                        <p className="text-xs text-red-700">{t('training.jobs.notRecognizable')}</p>
+                                    )}
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                        {student.failedImages.map(image => (
+                                            <div key={image.faceImageId} className="text-xs">
+                                                <img
+                                                    src={image.imagePath}
+                                                    alt={student.fullName}
+                                                    className="w-full aspect-square object-cover rounded border border-gray-200"
+                                                />
+                                                <p className="mt-1 text-gray-600">{image.reason}</p>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <Link
+                                        to={`/students/${encodeURIComponent(student.studentCode)}`}
+                                        className="inline-block text-xs text-blue-600 hover:underline"
+                                    >
+                                        {t('training.jobs.openStudent')}
+                                    </Link>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default TrainingFailureBreakdown;
@@ -0,0 +1,84 @@
+import { useTranslation } from 'react-i18next';
+import type { TrainingJob, TrainingJobStatus } from '../../services/trainingService';
+
+interface TrainingJobHistoryProps {
+    jobs: TrainingJob[];
+    selectedJobId: number | null;
+    onSelect: (jobId: number) => void;
+}
+
+const STATUS_STYLES: Record<TrainingJobStatus, string> = {
+    Queued: 'bg-gray-100 text-gray-700',
+    Running: 'bg-purple-100 text-purple-800',
+    Completed: 'bg-green-100 text-green-800',
+    Failed: 'bg-red-100 text-red-800',
+    Cancelled: 'bg-yellow-100 text-yellow-800',
+};
+
+const formatDuration = (job: TrainingJob) => {
+    if (!job.startedAt || !job.completedAt) return '-';
+    const seconds = Math.round((new Date(job.completedAt).getTime() - new Date(job.startedAt).getTime()) / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const TrainingJobHistory = ({ jobs, selectedJobId, onSelect }: TrainingJobHistoryProps) => {
+    const { t } = useTranslation();
+
+    if (jobs.length === 0) {
+        return <p className="text-sm text-gray-500 text-center py-6">{t('training.jobs.noHistory')}</p>;
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b">
+                    <tr>
+                        <th className="px-3 py-2.5 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.jobs.started')}</th>
+                        <th className="px-3 py-2.5 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.jobs.status')}</th>
+                        <th className="px-3 py-2.5 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.trainingImages')}</th>
+                        <th className="px-3 py-2.5 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.students')}</th>
+                        <th className="hidden sm:table-cell px-3 py-2.5 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.jobs.studentsWithFailures')}</th>
+                        <th className="hidden md:table-cell px-3 py-2.5 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.jobs.duration')}</th>
+                        <th className="hidden md:table-cell px-3 py-2.5 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('training.jobs.requestedBy')}</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {jobs.map(job => (
+                        <tr
+                            key={job.jobId}
+                            onClick={() => onSelect(job.jobId)}
+                            className={`cursor-pointer transition-colors ${selectedJobId === job.jobId ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+                        >
+                            <td className="px-3 py-2.5 whitespace-nowrap text-gray-900">
+                                {new Date(job.startedAt || job.createdAt).toLocaleString('en-MY', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                            </td>
+                            <td className="px-3 py-2.5 whitespace-nowrap">
+                                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[job.status]}`}>
+                                    {t(`training.jobs.statuses.${job.status}`)}
+                                </span>
+                                {job.scope && job.scope !== 'Full' && (
+                                    <span className="ml-2 text-xs text-gray-500">
+                                        {job.scope === 'Students'
+                                            ? t('training.retrain.scopeStudents', { count: job.studentCodes?.length ?? 0 })
+                                            : t('training.retrain.scopeChanged')}
+                                    </span>
+                                )}
+                            </td>
+                            <td className="px-3 py-2.5 whitespace-nowrap text-right text-gray-700">
+                                {job.successfulImages}/{job.totalImages}
+                            </td>
+                            <td className="px-3 py-2.5 whitespace-nowrap text-right text-gray-700">{job.totalStudents}</td>
+                            <td className={`hidden sm:table-cell px-3 py-2.5 whitespace-nowrap text-right ${job.failedStudents > 0 ? 'text-yellow-700 font-medium' : 'text-gray-400'}`}>
+                                {job.failedStudents}
+                            </td>
+                            <td className="hidden md:table-cell px-3 py-2.5 whitespace-nowrap text-right text-gray-500">{formatDuration(job)}</td>
+                            <td className="hidden md:table-cell px-3 py-2.5 whitespace-nowrap text-gray-500">{job.requestedBy || '-'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default TrainingJobHistory;
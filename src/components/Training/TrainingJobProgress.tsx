@@ -0,0 +1,59 @@
+import { Loader, XCircle } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import type { TrainingJob } from '../../services/trainingService';
+
+interface TrainingJobProgressProps {
+    job: TrainingJob;
+    onCancel: () => void;
+    isCancelling: boolean;
+}
+
+const TrainingJobProgress = ({ job, onCancel, isCancelling }: TrainingJobProgressProps) => {
+    const { t } = useTranslation();
+    const percent = job.totalImages > 0 ? Math.round((job.processedImages / job.totalImages) * 100) : 0;
+    const startedAt = job.startedAt || job.createdAt;
+
+    return (
+        <div className="border border-purple-200 bg-purple-50 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                    <Loader className="w-5 h-5 text-purple-600 animate-spin flex-shrink-0" />
+                    <p className="font-semibold text-purple-900 truncate">
+                        {job.status === 'Queued'
+                            ? t('training.jobs.queued')
+                            : job.currentStep || t('training.trainingInProgress')}
+                    </p>
+                </div>
+                <button
+                    onClick={onCancel}
+                    disabled={isCancelling}
+                    className="px-3 py-1.5 text-sm text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 flex items-center gap-1.5 flex-shrink-0 transition-colors"
+                >
+                    <XCircle className="w-4 h-4" />
+                    {t('training.jobs.cancel')}
+                </button>
+            </div>
+
+            <div>
+                <div className="h-3 bg-purple-100 rounded-full overflow-hidden">
+                    <div
+                        className="h-full bg-purple-600 rounded-full transition-all duration-500"
+                        style={{ width: `${percent}%` }}
+                    ></div>
+                </div>
+                <div className="flex justify-between text-xs text-purple-800 mt-1.5">
+                    <span>{t('training.jobs.imagesProgress', { processed: job.processedImages, total: job.totalImages })}</span>
+                    <span className="font-semibold">{percent}%</span>
+                </div>
+            </div>
+
+            <p className="text-xs text-purple-700">
+                {t('training.jobs.startedAt', { time: new Date(startedAt).toLocaleString('en-MY') })}
+                {' · '}
+                {t('training.jobs.leavePageHint')}
+            </p>
+        </div>
+    );
+};
+
+export default TrainingJobProgress;
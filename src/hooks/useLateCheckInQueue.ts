@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { lateCheckInService, type UnresolvedLateCheckIn } from '../services/lateCheckInService';
+
+const RETRY_INTERVAL_MS = 30000;
+
+/**
+ * True when the request never got a usable answer (offline, timeout, server down),
+ * so the capture should be kept and retried rather than dropped.
+ */
+export const isRetryableCheckInError = (err: unknown): boolean => {
+    if (!navigator.onLine) return true;
+    if (!axios.isAxiosError(err)) return false;
+    return !err.response || err.response.status >= 500;
+};
+
+export interface LateCheckInSyncResult {
+    submitted: number;          // recorded as checked in
+    needsReview: number;        // rejected or not recognized, moved to unresolved
+}
+
+export interface LateCheckInQueue {
+    pending: number;
+    /** Queued captures that were not recorded and need a manual check-in */
+    unresolved: UnresolvedLateCheckIn[];
+    isSyncing: boolean;
+    lastSync: LateCheckInSyncResult | null;
+    /** Returns false when the capture could not be stored */
+    enqueue: (image: string, capturedAt: string, remarks: string) => boolean;
+    /** Drop an unresolved capture once the student was checked in by hand, or it was not a student */
+    resolve: (id: string) => void;
+    sync: () => Promise<void>;
+}
+
+/**
+ * Offline queue for kiosk captures. Queued check-ins are retried on mount, when the
+ * browser comes back online and every 30 seconds, oldest first with their original times.
+ * Captures the server rejects or cannot match are kept as unresolved for a manual check-in.
+ */
+export const useLateCheckInQueue = (): LateCheckInQueue => {
+    const [pending, setPending] = useState(() => lateCheckInService.getQueue().length);
+    const [unresolved, setUnresolved] = useState(() => lateCheckInService.getUnresolved());
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [lastSync, setLastSync] = useState<LateCheckInSyncResult | null>(null);
+    const syncingRef = useRef(false);
+
+    const sync = useCallback(async () => {
+        const queue = lateCheckInService.getQueue();
+        if (syncingRef.current || queue.length === 0 || !navigator.onLine) return;
+
+        syncingRef.current = true;
+        setIsSyncing(true);
+        let submitted = 0;
+        let needsReview = 0;
+        try {
+            for (const item of queue) {
+                let unresolvedItem: UnresolvedLateCheckIn | null = null;
+                try {
+                    const blob = await (await fetch(item.image)).blob();
+                    const result = await lateCheckInService.checkIn(blob, item.remarks, item.capturedAt);
+                    if (!result.success || !result.isRecognized) {
+                        unresolvedItem = { ...item, reason: 'notRecognized', message: result.message };
+                    }
+                } catch (err) {
+                    // Still unreachable; keep this and the rest for the next attempt
+                    if (isRetryableCheckInError(err)) break;
+                    unresolvedItem = {
+                        ...item,
+                        reason: 'rejected',
+                        message: axios.isAxiosError(err)
+                            ? err.response?.data?.errors?.[0] || err.response?.data?.message
+                            : err instanceof Error ? err.message : undefined,
+                    };
+                }
+
+                if (unresolvedItem) {
+                    if (lateCheckInService.markUnresolved(unresolvedItem)) needsReview++;
+                } else {
+                    lateCheckInService.dequeue(item.id);
+                    submitted++;
+                }
+            }
+        } finally {
+            syncingRef.current = false;
+            setIsSyncing(false);
+            setPending(lateCheckInService.getQueue().length);
+            setUnresolved(lateCheckInService.getUnresolved());
+            if (submitted > 0 || needsReview > 0) setLastSync({ submitted, needsReview });
+        }
+    }, []);
+
+    const enqueue = useCallback((image: string, capturedAt: string, remarks: string) => {
+        const stored = lateCheckInService.enqueue({ image, capturedAt, remarks });
+        setPending(lateCheckInService.getQueue().length);
+        return stored;
+    }, []);
+
+    const resolve = useCallback((id: string) => {
+        lateCheckInService.resolve(id);
+        setUnresolved(lateCheckInService.getUnresolved());
+    }, []);
+
+    useEffect(() => {
+        sync();
+        window.addEventListener('online', sync);
+        const timer = setInterval(sync, RETRY_INTERVAL_MS);
+        return () => {
+            window.removeEventListener('online', sync);
+            clearInterval(timer);
+        };
+    }, [sync]);
+
+    return { pending, unresolved, isSyncing, lastSync, enqueue, resolve, sync };
+};
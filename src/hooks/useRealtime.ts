@@ -0,0 +1,35 @@
+import { useEffect, useRef, useState } from 'react';
+import { realtimeService } from '../services/realtimeService';
+import type { RealtimeConnectionState, RealtimeEvent, RealtimeEventMap } from '../services/realtimeService';
+
+/**
+ * Subscribe to a realtime event for the lifetime of the component.
+ * The latest handler is always used, so it doesn't need to be memoised.
+ * Pass `enabled = false` to skip the subscription (hooks can't be conditional).
+ */
+export const useRealtimeEvent = <K extends RealtimeEvent>(
+    event: K,
+    handler: (payload: RealtimeEventMap[K]) => void,
+    enabled: boolean = true
+): void => {
+    const handlerRef = useRef(handler);
+
+    useEffect(() => {
+        handlerRef.current = handler;
+    });
+
+    useEffect(() => {
+        if (!enabled) return;
+        return realtimeService.subscribe(event, (payload) => handlerRef.current(payload));
+    }, [event, enabled]);
+};
+
+/**
+ * Current state of the realtime connection ('live' when pushed over the hub,
+ * 'polling' when using the REST fallback).
+ */
+export const useRealtimeConnectionState = (enabled: boolean = true): RealtimeConnectionState => {
+    const [state, setState] = useState<RealtimeConnectionState>(realtimeService.getState());
+    useRealtimeEvent('connectionState', setState, enabled);
+    return state;
+};
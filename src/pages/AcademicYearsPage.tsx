@@ -1,6 +1,7 @@
 ﻿import { useState, useEffect } from 'react';
-import { Calendar, Plus, Edit, Trash2, X, CheckCircle, Users, GraduationCap, ArrowRight } from 'lucide-react';
+import { Calendar, CalendarDays, Plus, Edit, Trash2, X, CheckCircle, Users, GraduationCap, ArrowRight } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
 import api from '../services/api';
 import axios from 'axios';
 import EnrollmentPreviewModal from '../components/AcademicYear/EnrollmentPreviewModal';
@@ -433,6 +434,13 @@ const AcademicYearsPage = () => {
                                                         <CheckCircle className="w-5 h-5" />
                                                     </button>
                                                 )}
+                                                <Link
+                                                    to={`/academic-years/${year.academicYearID}/calendar`}
+                                                    className="text-blue-600 hover:text-blue-900"
+                                                    title={t('academicYears.calendar')}
+                                                >
+                                                    <CalendarDays className="w-5 h-5" />
+                                                </Link>
                                                 <button
                                                     onClick={() => handleEdit(year)}
                                                     className="text-indigo-600 hover:text-indigo-900"
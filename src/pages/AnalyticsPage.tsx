@@ -0,0 +1,400 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { TrendingUp, Filter, Calendar, Clock, UserX, Percent, RefreshCw } from 'lucide-react';
+import {
+    ResponsiveContainer,
+    LineChart,
+    Line,
+    BarChart,
+    Bar,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    Legend,
+} from 'recharts';
+import api from '../services/api';
+import { attendanceService } from '../services/attendanceService';
+import { schoolCalendarService } from '../services/schoolCalendarService';
+import StatCard from '../components/Common/StatCard';
+import {
+    aggregateTrend,
+    buildClassTrends,
+    buildGradeTrends,
+    type TrendGranularity,
+} from '../utils/attendanceTrends';
+import { applyCalendarToSummary, buildSchoolCalendar, getClosedRuns, toDateString } from '../utils/schoolCalendar';
+import type { AttendanceRangeSummary, LateSummary } from '../types';
+
+interface Grade {
+    gradeID: number;
+    gradeName: string;
+}
+
+interface Class {
+    classID: number;
+    className: string;
+    gradeID: number;
+}
+
+// Range presets in days, with the granularity that reads best for each
+const RANGE_PRESETS: { key: string; days: number; granularity: TrendGranularity }[] = [
+    { key: 'last4Weeks', days: 28, granularity: 'day' },
+    { key: 'last12Weeks', days: 84, granularity: 'week' },
+    { key: 'last6Months', days: 182, granularity: 'week' },
+    { key: 'last12Months', days: 365, granularity: 'month' },
+];
+
+const AnalyticsPage = () => {
+    const { t } = useTranslation();
+    const [rangeKey, setRangeKey] = useState('last12Weeks');
+    const [granularity, setGranularity] = useState<TrendGranularity>('week');
+    const [grades, setGrades] = useState<Grade[]>([]);
+    const [classes, setClasses] = useState<Class[]>([]);
+    const [selectedGradeId, setSelectedGradeId] = useState<number | null>(null);
+    const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
+
+    const [summary, setSummary] = useState<AttendanceRangeSummary | null>(null);
+    const [lateSummary, setLateSummary] = useState<LateSummary | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const preset = RANGE_PRESETS.find(p => p.key === rangeKey) || RANGE_PRESETS[1];
+    const endDate = toDateString(new Date());
+    const startDate = (() => {
+        const d = new Date();
+        d.setDate(d.getDate() - preset.days + 1);
+        return toDateString(d);
+    })();
+
+    useEffect(() => {
+        fetchFilterOptions();
+    }, []);
+
+    useEffect(() => {
+        fetchAnalytics();
+    }, [rangeKey, selectedGradeId, selectedClassId]);
+
+    const fetchFilterOptions = async () => {
+        try {
+            const [gradeRes, classRes] = await Promise.all([api.get('/grade'), api.get('/class')]);
+            if (gradeRes.data.success) setGrades(gradeRes.data.data || []);
+            if (classRes.data.success) setClasses(classRes.data.data || []);
+        } catch {
+            // Silent fail for filter options
+        }
+    };
+
+    const fetchAnalytics = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const classId = selectedClassId ?? undefined;
+            const gradeId = selectedGradeId ?? undefined;
+            const [rangeData, lateRes, calendarRange] = await Promise.all([
+                attendanceService.getSummaryByDateRange(startDate, endDate, classId, gradeId),
+                api.get(`/laterecognition/summary?startDate=${startDate}&endDate=${endDate}`),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
+            // Weekends, holidays and breaks would drag the trend and the class tables down
+            const calendar = buildSchoolCalendar(calendarRange);
+            const closedSummaries = await Promise.all(
+                (rangeData ? getClosedRuns(rangeData, calendar) : [])
+                    .map(run => attendanceService.getSummaryByDateRange(run.startDate, run.endDate, classId, gradeId))
+            );
+            setSummary(rangeData
+                ? applyCalendarToSummary(rangeData, calendar, closedSummaries.flatMap(s => s.byClass || []))
+                : rangeData);
+            setLateSummary(lateRes.data.success ? lateRes.data.data : null);
+        } catch (err) {
+            console.error('Error fetching analytics:', err);
+            setError(t('analytics.fetchFailed', 'Failed to load analytics'));
+            setSummary(null);
+            setLateSummary(null);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleRangeChange = (key: string) => {
+        setRangeKey(key);
+        const next = RANGE_PRESETS.find(p => p.key === key);
+        if (next) setGranularity(next.granularity);
+    };
+
+    const selectedGrade = grades.find(g => g.gradeID === selectedGradeId);
+    const filteredClasses = selectedGradeId ? classes.filter(c => c.gradeID === selectedGradeId) : classes;
+
+    const trend = summary ? aggregateTrend(summary.daily, granularity) : [];
+    const byClass = (summary?.byClass || []).filter(c => !selectedGrade || c.gradeName === selectedGrade.gradeName);
+    const lateByGrade = (lateSummary?.lateByGrade || []).filter(g => !selectedGrade || g.gradeId === selectedGrade.gradeID);
+    const lateByClass = lateSummary?.lateByClass || [];
+    const gradeTrends = buildGradeTrends(byClass, lateByGrade);
+    const classTrends = buildClassTrends(byClass, lateByClass)
+        .sort((a, b) => a.attendanceRate - b.attendanceRate);
+
+    const totalExpected = summary ? summary.daily.reduce((sum, d) => sum + d.totalStudents, 0) : 0;
+    const totalLate = summary ? summary.daily.reduce((sum, d) => sum + d.totalLate, 0) : 0;
+    const latePercentage = totalExpected > 0 ? (totalLate / totalExpected) * 100 : 0;
+
+    const formatPeriod = (period: string) => {
+        if (granularity === 'month') {
+            return new Date(`${period}-01T00:00:00`).toLocaleDateString('en-MY', { month: 'short', year: 'numeric' });
+        }
+        return new Date(`${period}T00:00:00`).toLocaleDateString('en-MY', { day: 'numeric', month: 'short' });
+    };
+
+    const chartData = trend.map(p => ({ ...p, label: formatPeriod(p.period) }));
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center gap-2 sm:gap-3">
+                        <TrendingUp className="w-6 h-6 sm:w-8 sm:h-8 text-blue-600" />
+                        {t('analytics.title', 'Attendance Analytics')}
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-600 mt-1">{t('analytics.subtitle', 'Attendance, lateness and absence trends over time')}</p>
+                </div>
+                <button
+                    onClick={fetchAnalytics}
+                    className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg flex items-center justify-center gap-2 transition-colors"
+                >
+                    <RefreshCw className="w-4 h-4" />{t('common.refresh', 'Refresh')}
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="card p-4 sm:p-6">
+                <div className="flex items-center gap-2 mb-4">
+                    <Filter className="w-5 h-5 text-gray-500" />
+                    <h3 className="font-semibold text-gray-900">{t('common.filters', 'Filters')}</h3>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('analytics.range', 'Period')}</label>
+                        <select value={rangeKey} onChange={(e) => handleRangeChange(e.target.value)} className="input-field w-full">
+                            {RANGE_PRESETS.map(p => (
+                                <option key={p.key} value={p.key}>{t(`analytics.ranges.${p.key}`)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('analytics.groupBy', 'Group by')}</label>
+                        <div className="flex bg-gray-100 rounded-lg p-1">
+                            {(['day', 'week', 'month'] as TrendGranularity[]).map(g => (
+                                <button
+                                    key={g}
+                                    onClick={() => setGranularity(g)}
+                                    className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${granularity === g ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                                >
+                                    {t(`analytics.granularity.${g}`)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.grade', 'Grade')}</label>
+                        <select
+                            value={selectedGradeId || ''}
+                            onChange={(e) => {
+                                setSelectedGradeId(e.target.value ? parseInt(e.target.value) : null);
+                                setSelectedClassId(null);
+                            }}
+                            className="input-field w-full"
+                        >
+                            <option value="">{t('common.allGrades', 'All Grades')}</option>
+                            {grades.map(grade => (<option key={grade.gradeID} value={grade.gradeID}>{grade.gradeName}</option>))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.class', 'Class')}</label>
+                        <select
+                            value={selectedClassId || ''}
+                            onChange={(e) => setSelectedClassId(e.target.value ? parseInt(e.target.value) : null)}
+                            className="input-field w-full"
+                        >
+                            <option value="">{t('common.allClasses', 'All Classes')}</option>
+                            {filteredClasses.map(cls => (<option key={cls.classID} value={cls.classID}>{cls.className}</option>))}
+                        </select>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {isLoading ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            ) : summary && (
+                <>
+                    {/* Headline numbers */}
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
+                        <StatCard
+                            title={t('analytics.avgAttendance', 'Avg. Attendance')}
+                            value={`${summary.attendanceRate.toFixed(1)}%`}
+                            icon={Percent}
+                            color="bg-green-500"
+                        />
+                        <StatCard
+                            title={t('analytics.avgLate', 'Avg. Late %')}
+                            value={`${latePercentage.toFixed(1)}%`}
+                            icon={Clock}
+                            color="bg-yellow-500"
+                        />
+                        <StatCard
+                            title={t('analytics.totalAbsences', 'Total Absences')}
+                            value={summary.totalAbsent}
+                            icon={UserX}
+                            color="bg-red-500"
+                        />
+                        <StatCard
+                            title={t('analytics.schoolDays', 'School Days')}
+                            value={summary.schoolDays}
+                            icon={Calendar}
+                            color="bg-blue-500"
+                        />
+                    </div>
+
+                    {/* Rate trend */}
+                    <div className="card p-4 sm:p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('analytics.rateTrend', 'Attendance rate and late percentage')}</h2>
+                        {chartData.length === 0 ? (
+                            <p className="text-sm text-gray-500 py-12 text-center">{t('analytics.noData', 'No attendance data for this period')}</p>
+                        ) : (
+                            <div className="h-72">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartData} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                        <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                                        <YAxis unit="%" tick={{ fontSize: 12 }} domain={[0, 100]} />
+                                        <Tooltip formatter={(value) => `${value}%`} />
+                                        <Legend />
+                                        <Line type="monotone" dataKey="attendanceRate" name={t('analytics.attendanceRate', 'Attendance rate')} stroke="#2563eb" strokeWidth={2} dot={false} />
+                                        <Line type="monotone" dataKey="latePercentage" name={t('analytics.latePercentage', 'Late %')} stroke="#f59e0b" strokeWidth={2} dot={false} />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Absence / late counts */}
+                    <div className="card p-4 sm:p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('analytics.countTrend', 'Absences and lates')}</h2>
+                        {chartData.length === 0 ? (
+                            <p className="text-sm text-gray-500 py-12 text-center">{t('analytics.noData', 'No attendance data for this period')}</p>
+                        ) : (
+                            <div className="h-72">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={chartData} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                        <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                                        <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                                        <Tooltip />
+                                        <Legend />
+                                        <Bar dataKey="totalAbsent" name={t('attendance.absent')} fill="#ef4444" stackId="count" />
+                                        <Bar dataKey="totalLate" name={t('attendance.late')} fill="#f59e0b" stackId="count" />
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* By grade */}
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                        <div className="card p-4 sm:p-6">
+                            <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('analytics.rateByGrade', 'Attendance rate by grade')}</h2>
+                            {gradeTrends.length === 0 ? (
+                                <p className="text-sm text-gray-500 py-12 text-center">{t('analytics.noData', 'No attendance data for this period')}</p>
+                            ) : (
+                                <div className="h-64">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <BarChart data={gradeTrends} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                            <XAxis dataKey="gradeName" tick={{ fontSize: 12 }} />
+                                            <YAxis unit="%" tick={{ fontSize: 12 }} domain={[0, 100]} />
+                                            <Tooltip formatter={(value) => `${value}%`} />
+                                            <Bar dataKey="attendanceRate" name={t('analytics.attendanceRate', 'Attendance rate')} fill="#2563eb" />
+                                        </BarChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            )}
+                        </div>
+                        <div className="card p-4 sm:p-6">
+                            <h2 className="text-lg font-semibold text-gray-900 mb-4">{t('analytics.countByGrade', 'Lates and absences by grade')}</h2>
+                            {gradeTrends.length === 0 ? (
+                                <p className="text-sm text-gray-500 py-12 text-center">{t('analytics.noData', 'No attendance data for this period')}</p>
+                            ) : (
+                                <div className="h-64">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <BarChart data={gradeTrends} margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                                            <XAxis dataKey="gradeName" tick={{ fontSize: 12 }} />
+                                            <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                                            <Tooltip />
+                                            <Legend />
+                                            <Bar dataKey="lateCount" name={t('attendance.late')} fill="#f59e0b" />
+                                            <Bar dataKey="totalAbsent" name={t('attendance.absent')} fill="#ef4444" />
+                                        </BarChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* By class — lowest attendance first */}
+                    <div className="card overflow-hidden">
+                        <div className="p-4 sm:p-6 border-b">
+                            <h2 className="text-lg font-semibold text-gray-900">{t('analytics.byClass', 'Classes by attendance rate')}</h2>
+                            <p className="text-sm text-gray-500 mt-1">{t('analytics.byClassHint', 'Lowest attendance first')}</p>
+                        </div>
+                        {classTrends.length === 0 ? (
+                            <p className="text-sm text-gray-500 py-12 text-center">{t('analytics.noData', 'No attendance data for this period')}</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full">
+                                    <thead className="bg-gray-50 border-b">
+                                        <tr>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.gradeClass')}</th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('common.totalStudents', 'Students')}</th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('analytics.attendanceRate', 'Attendance rate')}</th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.late')}</th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.absent')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {classTrends.map(c => (
+                                            <tr key={c.classId} className="hover:bg-gray-50">
+                                                <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{c.gradeName} - {c.className}</td>
+                                                <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm text-gray-700">{c.totalStudents}</td>
+                                                <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm">
+                                                    <div className="flex items-center gap-2">
+                                                        <div className="w-24 h-2 bg-gray-100 rounded-full overflow-hidden">
+                                                            <div
+                                                                className={`h-full ${c.attendanceRate >= 95 ? 'bg-green-500' : c.attendanceRate >= 85 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                                                                style={{ width: `${Math.min(c.attendanceRate, 100)}%` }}
+                                                            />
+                                                        </div>
+                                                        <span className="text-gray-900">{c.attendanceRate.toFixed(1)}%</span>
+                                                    </div>
+                                                </td>
+                                                <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm text-yellow-700">{c.lateCount}</td>
+                                                <td className="px-3 sm:px-6 py-3 whitespace-nowrap text-sm text-red-700">{c.totalAbsent}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AnalyticsPage;
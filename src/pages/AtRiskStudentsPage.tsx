@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ShieldAlert, Search, RefreshCw, Phone, Mail, UserX, Clock, Users, Settings } from 'lucide-react';
+import api from '../services/api';
+import { authService } from '../services/authService';
+import { attendanceService } from '../services/attendanceService';
+import { excuseService } from '../services/excuseService';
+import { schoolCalendarService } from '../services/schoolCalendarService';
+import { settingsService } from '../services/settingsService';
+import { studentService } from '../services/studentService';
+import StatCard from '../components/Common/StatCard';
+import {
+    DEFAULT_AT_RISK_THRESHOLDS,
+    evaluateAtRisk,
+    parseAtRiskThresholds,
+    type AtRiskReason,
+    type AtRiskStudent,
+    type AtRiskThresholds,
+    type StudentContact,
+} from '../utils/atRiskRules';
+import { buildExcuseLookup, splitAbsences } from '../utils/excuses';
+import { buildSchoolCalendar, filterSchoolDays, toDateString } from '../utils/schoolCalendar';
+import type { LateRecord } from '../types';
+
+const AtRiskStudentsPage = () => {
+    const { t } = useTranslation();
+    const currentUser = authService.getCurrentUser();
+    const isSchoolAdmin = currentUser?.userRole === 'SchoolAdmin';
+
+    const [students, setStudents] = useState<AtRiskStudent[]>([]);
+    const [thresholds, setThresholds] = useState<AtRiskThresholds>(DEFAULT_AT_RISK_THRESHOLDS);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [reasonFilter, setReasonFilter] = useState<'all' | AtRiskReason>('all');
+    const [searchTerm, setSearchTerm] = useState('');
+
+    useEffect(() => {
+        fetchAtRisk();
+    }, []);
+
+    const fetchAtRisk = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const schoolId = currentUser?.schoolID;
+
+            let rules = DEFAULT_AT_RISK_THRESHOLDS;
+            if (schoolId) {
+                try {
+                    rules = parseAtRiskThresholds(await settingsService.getSchoolSettings(schoolId));
+                } catch {
+                    // Fall back to default thresholds
+                }
+            }
+            setThresholds(rules);
+
+            // Look back far enough to cover the longest window in school days,
+            // with a buffer for weekends and holidays
+            const windowDays = Math.max(rules.absenceWindowDays, rules.lateWindowDays);
+            const end = new Date();
+            const start = new Date();
+            start.setDate(start.getDate() - Math.ceil(windowDays * 7 / 5) - 14);
+            const startDate = toDateString(start);
+            const endDate = toDateString(end);
+
+            const [summary, absences, lateRes, excusedDays, calendarRange] = await Promise.all([
+                attendanceService.getSummaryByDateRange(startDate, endDate),
+                attendanceService.getAbsentByDateRange(startDate, endDate),
+                api.get(`/laterecognition/report?startDate=${startDate}&endDate=${endDate}`),
+                excuseService.getExcusedDays(startDate, endDate).catch(() => []),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
+            const calendar = buildSchoolCalendar(calendarRange);
+            const lates: LateRecord[] = lateRes.data.success ? lateRes.data.data.records || [] : [];
+
+            // Parent contacts for students who are only flagged for lateness
+            const contacts = new Map<string, StudentContact>();
+            if (schoolId) {
+                try {
+                    const allStudents = await studentService.getStudentsBySchool(schoolId);
+                    allStudents.forEach(s => contacts.set(s.studentCode, { parentContact: s.parentContact, parentEmail: s.parentEmail }));
+                } catch {
+                    // Contacts are optional
+                }
+            }
+
+            setStudents(evaluateAtRisk({
+                schoolDays: filterSchoolDays(summary.daily, calendar, d => d.date).map(d => d.date),
+                // Excused absences and non-school days don't count towards the threshold
+                absences: splitAbsences(
+                    filterSchoolDays(absences || [], calendar, a => a.absentDate),
+                    buildExcuseLookup(excusedDays || []),
+                    a => a.absentDate
+                ).absent,
+                lates,
+                thresholds: rules,
+                contacts,
+            }));
+        } catch (err) {
+            console.error('Error evaluating at-risk students:', err);
+            setError(t('atRisk.fetchFailed', 'Failed to load at-risk students'));
+            setStudents([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(`${dateStr}T00:00:00`).toLocaleDateString('en-MY', { day: 'numeric', month: 'short' });
+
+    const filteredStudents = students.filter(s => {
+        if (reasonFilter !== 'all' && !s.reasons.includes(reasonFilter)) return false;
+        if (!searchTerm.trim()) return true;
+        const term = searchTerm.toLowerCase();
+        return s.fullName.toLowerCase().includes(term) ||
+            s.studentCode.toLowerCase().includes(term) ||
+            s.class?.toLowerCase().includes(term);
+    });
+
+    const absenceFlagged = students.filter(s => s.reasons.includes('absence')).length;
+    const lateFlagged = students.filter(s => s.reasons.includes('late')).length;
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center gap-2 sm:gap-3">
+                        <ShieldAlert className="w-6 h-6 sm:w-8 sm:h-8 text-red-600" />
+                        {t('atRisk.title', 'At-Risk Students')}
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-600 mt-1">{t('atRisk.subtitle', 'Students with repeated absences or late arrivals')}</p>
+                </div>
+                <button
+                    onClick={fetchAtRisk}
+                    className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg flex items-center justify-center gap-2 transition-colors"
+                >
+                    <RefreshCw className="w-4 h-4" />{t('common.refresh', 'Refresh')}
+                </button>
+            </div>
+
+            {/* Active rules */}
+            <div className="card p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-red-50 border-red-100">
+                <div className="text-sm text-gray-700 space-y-1">
+                    <p>{t('atRisk.absenceRule', '{{count}} or more absences in the last {{days}} school days', { count: thresholds.absenceCount, days: thresholds.absenceWindowDays })}</p>
+                    <p>{t('atRisk.lateRule', '{{count}} or more late arrivals in the last {{days}} school days', { count: thresholds.lateCount, days: thresholds.lateWindowDays })}</p>
+                </div>
+                {isSchoolAdmin && (
+                    <Link to="/settings" className="inline-flex items-center gap-2 text-sm text-blue-600 hover:underline whitespace-nowrap">
+                        <Settings className="w-4 h-4" />{t('atRisk.changeRules', 'Change thresholds')}
+                    </Link>
+                )}
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {isLoading ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-6">
+                        <StatCard title={t('atRisk.totalFlagged', 'Students Flagged')} value={students.length} icon={Users} color="bg-red-500" />
+                        <StatCard title={t('atRisk.absenceFlagged', 'Repeated Absences')} value={absenceFlagged} icon={UserX} color="bg-orange-500" />
+                        <StatCard title={t('atRisk.lateFlagged', 'Repeated Lateness')} value={lateFlagged} icon={Clock} color="bg-yellow-500" />
+                    </div>
+
+                    <div className="card overflow-hidden">
+                        {/* Filters */}
+                        <div className="p-4 border-b flex flex-col sm:flex-row gap-3">
+                            <div className="relative flex-1">
+                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                                <input
+                                    type="text"
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    placeholder={t('atRisk.searchPlaceholder', 'Search student or class...')}
+                                    className="input-field w-full pl-9"
+                                />
+                            </div>
+                            <select
+                                value={reasonFilter}
+                                onChange={(e) => setReasonFilter(e.target.value as 'all' | AtRiskReason)}
+                                className="input-field sm:w-56"
+                            >
+                                <option value="all">{t('atRisk.allReasons', 'All reasons')}</option>
+                                <option value="absence">{t('atRisk.reasons.absence', 'Absences')}</option>
+                                <option value="late">{t('atRisk.reasons.late', 'Lateness')}</option>
+                            </select>
+                        </div>
+
+                        {filteredStudents.length === 0 ? (
+                            <div className="text-center py-12 px-4">
+                                <ShieldAlert className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                                <p className="text-gray-600">{t('atRisk.noStudents', 'No students cross the current thresholds.')}</p>
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full">
+                                    <thead className="bg-gray-50 border-b">
+                                        <tr>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.student')}</th>
+                                            <th className="hidden sm:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.gradeClass')}</th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.absent')}</th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.late')}</th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('atRisk.parentContact', 'Parent Contact')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {filteredStudents.map(s => (
+                                            <tr key={s.studentCode} className="hover:bg-gray-50 align-top">
+                                                <td className="px-3 sm:px-6 py-3 whitespace-nowrap">
+                                                    <Link to={`/students/${encodeURIComponent(s.studentCode)}`} className="text-sm font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                                                        {s.fullName}
+                                                    </Link>
+                                                    <div className="text-xs text-gray-500">{s.studentCode}</div>
+                                                    <div className="flex gap-1 mt-1">
+                                                        {s.reasons.map(reason => (
+                                                            <span
+                                                                key={reason}
+                                                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${reason === 'absence' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}
+                                                            >
+                                                                {t(`atRisk.reasons.${reason}`)}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </td>
+                                                <td className="hidden sm:table-cell px-3 sm:px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                                                    {s.grade && s.class ? `${s.grade} - ${s.class}` : s.class || '-'}
+                                                </td>
+                                                <td className="px-3 sm:px-6 py-3 text-sm">
+                                                    <span className={`font-semibold ${s.reasons.includes('absence') ? 'text-red-700' : 'text-gray-700'}`}>{s.absenceCount}</span>
+                                                    {s.absentDates.length > 0 && (
+                                                        <div className="text-xs text-gray-500 mt-0.5">{s.absentDates.slice(0, 5).map(formatDate).join(', ')}</div>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 sm:px-6 py-3 text-sm">
+                                                    <span className={`font-semibold ${s.reasons.includes('late') ? 'text-yellow-700' : 'text-gray-700'}`}>{s.lateCount}</span>
+                                                    {s.lateDates.length > 0 && (
+                                                        <div className="text-xs text-gray-500 mt-0.5">{s.lateDates.slice(0, 5).map(formatDate).join(', ')}</div>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 sm:px-6 py-3 text-sm whitespace-nowrap">
+                                                    {s.parentContact ? (
+                                                        <a href={`tel:${s.parentContact.replace(/[^\d+]/g, '')}`} className="flex items-center gap-1.5 text-blue-600 hover:underline">
+                                                            <Phone className="w-4 h-4" />{s.parentContact}
+                                                        </a>
+                                                    ) : (
+                                                        <span className="text-gray-400">-</span>
+                                                    )}
+                                                    {s.parentEmail && (
+                                                        <a href={`mailto:${s.parentEmail}`} className="flex items-center gap-1.5 text-blue-600 hover:underline mt-1">
+                                                            <Mail className="w-4 h-4" />{s.parentEmail}
+                                                        </a>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AtRiskStudentsPage;
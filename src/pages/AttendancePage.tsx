@@ -1,7 +1,30 @@
 ﻿import { useState, useEffect } from 'react';
-import { Calendar, Download, Filter, Users, CheckCircle, XCircle, Clock, Eye } from 'lucide-react';
+import { Calendar, CalendarOff, Download, Filter, Users, CheckCircle, XCircle, Clock, Eye, History, Pencil, UserCheck, FileClock, DoorOpen } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
 import api from '../services/api';
+import { authService } from '../services/authService';
+import { attendanceService } from '../services/attendanceService';
+import { excuseService } from '../services/excuseService';
+import { schoolCalendarService } from '../services/schoolCalendarService';
+import { settingsService } from '../services/settingsService';
+import { cameraService, DEFAULT_CAMERA_ROLE } from '../services/cameraService';
+import { buildExcuseLookup, findExcuse, splitAbsences, type ExcuseLookup } from '../utils/excuses';
+import {
+    buildSchoolCalendar,
+    getDayInfo,
+    parseSchoolHours,
+    atTimeOfDay,
+    DEFAULT_SCHOOL_HOURS,
+    type CalendarDayInfo,
+    type SchoolHours,
+} from '../utils/schoolCalendar';
+import AttendanceHistoryView from '../components/Attendance/AttendanceHistoryView';
+import AttendanceOverrideModal from '../components/Attendance/AttendanceOverrideModal';
+import BulkMarkClassModal from '../components/Attendance/BulkMarkClassModal';
+import AttendanceAuditModal from '../components/Attendance/AttendanceAuditModal';
+import ClassRegisterExportModal from '../components/Attendance/ClassRegisterExportModal';
+import ExcusedBadge from '../components/Attendance/ExcusedBadge';
 
 interface AttendanceRecord {
     attendanceID: number;
@@ -15,6 +38,7 @@ interface AttendanceRecord {
     cameraName: string;
     cameraLocation?: string;
     snapshotPath?: string;  // ✅ Added for snapshot preview
+    isOverridden?: boolean; // Set when the record was created or changed manually
 }
 
 interface AttendanceResponse {
@@ -25,25 +49,62 @@ interface AttendanceResponse {
     records: AttendanceRecord[];
 }
 
+type ViewMode = 'daily' | 'history';
+
 const AttendancePage = () => {
     const { t } = useTranslation();
+    const [viewMode, setViewMode] = useState<ViewMode>('daily');
     const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
     const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
     const [stats, setStats] = useState({
         totalRecords: 0,
         present: 0,
         late: 0,
-        absent: 0
+        absent: 0,
+        excused: 0
     });
+    const [dayInfo, setDayInfo] = useState<CalendarDayInfo | null>(null);
+    const [excuseLookup, setExcuseLookup] = useState<ExcuseLookup>(new Map());
     const [isLoading, setIsLoading] = useState(true);
     const [filterStatus, setFilterStatus] = useState<string>('All');
+    const [schoolHours, setSchoolHours] = useState<SchoolHours>(DEFAULT_SCHOOL_HOURS);
+    // null when the camera list isn't available to this user
+    const [hasExitCamera, setHasExitCamera] = useState<boolean | null>(null);
 
     // ✅ Added for snapshot preview modal
     const [previewImage, setPreviewImage] = useState<string | null>(null);
 
+    // Manual override (teachers with EditAttendance, school admins)
+    const currentUser = authService.getCurrentUser();
+    const canEditAttendance = currentUser?.userRole === 'SchoolAdmin' || authService.hasPermission('EditAttendance');
+    const [showOverrideModal, setShowOverrideModal] = useState(false);
+    const [overrideRecord, setOverrideRecord] = useState<AttendanceRecord | null>(null);
+    const [showBulkModal, setShowBulkModal] = useState(false);
+    const [showAuditModal, setShowAuditModal] = useState(false);
+    const [showRegisterModal, setShowRegisterModal] = useState(false);
+
     useEffect(() => {
-        fetchAttendance();
-    }, [selectedDate]);
+        if (viewMode === 'daily') {
+            fetchAttendance();
+        }
+    }, [selectedDate, viewMode]);
+
+    // Check-out is only recorded by cameras with the Exit or Both role
+    useEffect(() => {
+        const schoolId = authService.getCurrentUser()?.schoolID;
+        if (schoolId) {
+            settingsService.getSchoolSettings(schoolId)
+                .then(settings => setSchoolHours(parseSchoolHours(settings)))
+                .catch(() => null);
+        }
+        cameraService.getCameras()
+            .then(cameras => setHasExitCamera(cameras.some(c =>
+                c.isActive &&
+                (schoolId === undefined || c.schoolId === schoolId) &&
+                ['Exit', 'Both'].includes(c.role || DEFAULT_CAMERA_ROLE)
+            )))
+            .catch(() => setHasExitCamera(null));
+    }, []);
 
     const fetchAttendance = async () => {
         try {
@@ -61,36 +122,44 @@ const AttendancePage = () => {
 
             setAttendanceRecords(records);
 
+            // Absences covered by an excuse or an attended event are counted separately
+            const [absentees, excusedDays, calendarRange] = await Promise.all([
+                attendanceService.getAbsentByDateRange(selectedDate, selectedDate).catch(() => []),
+                excuseService.getExcusedDays(selectedDate, selectedDate).catch(() => []),
+                schoolCalendarService.getRange(selectedDate, selectedDate).catch(() => null),
+            ]);
+            const info = getDayInfo(buildSchoolCalendar(calendarRange), selectedDate);
+            const lookup = buildExcuseLookup(excusedDays || []);
+            setDayInfo(info);
+            setExcuseLookup(lookup);
+            // Nobody is absent when the school is closed
+            const { absent, excused } = info.isSchoolDay
+                ? splitAbsences(absentees || [], lookup, a => a.absentDate)
+                : { absent: [], excused: [] };
+
             // Use stats from API response
             setStats({
                 totalRecords: data.totalRecords || 0,
                 present: data.present || 0,
                 late: data.late || 0,
-                absent: 0 // Will be calculated if needed
+                absent: absent.length,
+                excused: excused.length
             });
 
         } catch (error) {
             console.error('Error fetching attendance:', error);
             setAttendanceRecords([]);
-            setStats({ totalRecords: 0, present: 0, late: 0, absent: 0 });
+            setStats({ totalRecords: 0, present: 0, late: 0, absent: 0, excused: 0 });
+            setDayInfo(null);
+            setExcuseLookup(new Map());
         } finally {
             setIsLoading(false);
         }
     };
 
-    const exportReport = async () => {
-        try {
-            alert(t('attendance.exportComingSoon'));
-            // TODO: Implement CSV export endpoint
-            // const response = await api.get('/attendance/export', {
-            //     params: { date: selectedDate },
-            //     responseType: 'blob'
-            // });
-
-        } catch (error) {
-            console.error('Error exporting report:', error);
-            alert(t('attendance.exportFailed'));
-        }
+    const openOverride = (record: AttendanceRecord | null) => {
+        setOverrideRecord(record);
+        setShowOverrideModal(true);
     };
 
     const getStatusBadgeClass = (status: string) => {
@@ -101,22 +170,47 @@ const AttendancePage = () => {
                 return 'bg-yellow-100 text-yellow-800';
             case 'Absent':
                 return 'bg-red-100 text-red-800';
+            case 'Excused':
+                return 'bg-blue-100 text-blue-800';
             default:
                 return 'bg-gray-100 text-gray-800';
         }
     };
 
-    const filteredRecords = filterStatus === 'All'
-        ? attendanceRecords
-        : attendanceRecords.filter(r => r.status === filterStatus);
+    const formatTime = (value?: string) =>
+        value ? new Date(value).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '-';
+
+    // Students seen today without a check-out, once school has ended
+    const tracksCheckOut = hasExitCamera !== false;
+    const isAfterSchoolEnd = new Date() >= atTimeOfDay(selectedDate, schoolHours.endTime);
+    const isOnCampus = (r: AttendanceRecord) => r.status !== 'Absent' && !!r.checkInTime && !r.checkOutTime;
+    const onCampusRecords = tracksCheckOut && isAfterSchoolEnd ? attendanceRecords.filter(isOnCampus) : [];
 
-    if (isLoading) {
+    // Absences covered by an excuse, an attended event or an excused override show as excused
+    const getExcuse = (r: AttendanceRecord) => r.status === 'Absent' || r.status === 'Excused'
+        ? findExcuse(excuseLookup, r.studentCode, selectedDate)
+        : undefined;
+    const isExcused = (r: AttendanceRecord) => r.status === 'Excused' || !!getExcuse(r);
+
+    const renderStatusBadge = (record: AttendanceRecord) => {
+        const excuse = getExcuse(record);
+        if (excuse) return <ExcusedBadge excuse={excuse} />;
         return (
-            <div className="flex items-center justify-center h-64">
-                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-            </div>
+            <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(record.status)}`}>
+                {t(`attendance.${record.status.toLowerCase()}`)}
+            </span>
         );
-    }
+    };
+
+    const filteredRecords = filterStatus === 'All'
+        ? attendanceRecords
+        : filterStatus === 'OnCampus'
+            ? onCampusRecords
+            : filterStatus === 'Excused'
+                ? attendanceRecords.filter(isExcused)
+                : filterStatus === 'Absent'
+                    ? attendanceRecords.filter(r => r.status === 'Absent' && !isExcused(r))
+                    : attendanceRecords.filter(r => r.status === filterStatus);
 
     return (
         <div className="space-y-4 sm:space-y-6">
@@ -129,194 +223,350 @@ const AttendancePage = () => {
                     </h1>
                     <p className="text-sm sm:text-base text-gray-600 mt-1">{t('attendance.subtitle')}</p>
                 </div>
-                <button
-                    onClick={exportReport}
-                    className="bg-blue-600 text-white px-4 py-2.5 sm:py-2 rounded-lg hover:bg-blue-700 active:bg-blue-800 transition-colors flex items-center justify-center gap-2 w-full sm:w-auto"
-                >
-                    <Download className="w-5 h-5" />
-                    {t('attendance.exportReport')}
-                </button>
-            </div>
-
-            {/* Date Picker and Filter */}
-            <div className="card p-4 sm:p-6 flex flex-col sm:flex-row gap-4 sm:items-center">
-                <div className="flex items-center gap-2 flex-1 sm:flex-none">
-                    <Calendar className="w-5 h-5 text-gray-600 flex-shrink-0" />
-                    <input
-                        type="date"
-                        value={selectedDate}
-                        onChange={(e) => setSelectedDate(e.target.value)}
-                        className="input-field flex-1 sm:flex-none py-2.5 sm:py-2 text-base sm:text-sm"
-                        max={new Date().toISOString().split('T')[0]}
-                    />
+                <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+                    {/* Daily / History toggle */}
+                    <div className="flex bg-gray-100 rounded-lg p-1">
+                        <button
+                            onClick={() => setViewMode('daily')}
+                            className={`flex-1 sm:flex-none px-3 py-1.5 rounded-md text-sm font-medium flex items-center justify-center gap-2 transition-colors ${viewMode === 'daily' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                        >
+                            <Calendar className="w-4 h-4" />
+                            {t('attendance.dailyView', 'Daily')}
+                        </button>
+                        <button
+                            onClick={() => setViewMode('history')}
+                            className={`flex-1 sm:flex-none px-3 py-1.5 rounded-md text-sm font-medium flex items-center justify-center gap-2 transition-colors ${viewMode === 'history' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                        >
+                            <History className="w-4 h-4" />
+                            {t('attendance.historyView', 'History')}
+                        </button>
+                    </div>
+                    {viewMode === 'daily' && (
+                        <button
+                            onClick={() => setShowRegisterModal(true)}
+                            className="bg-blue-600 text-white px-4 py-2.5 sm:py-2 rounded-lg hover:bg-blue-700 active:bg-blue-800 transition-colors flex items-center justify-center gap-2 w-full sm:w-auto"
+                        >
+                            <Download className="w-5 h-5" />
+                            {t('attendance.exportReport')}
+                        </button>
+                    )}
                 </div>
+            </div>
 
-                <div className="flex items-center gap-2 flex-1 sm:flex-none">
-                    <Filter className="w-5 h-5 text-gray-600 flex-shrink-0" />
-                    <select
-                        value={filterStatus}
-                        onChange={(e) => setFilterStatus(e.target.value)}
-                        className="input-field flex-1 sm:flex-none py-2.5 sm:py-2 text-base sm:text-sm"
-                    >
-                        <option value="All">{t('attendance.allStatus')}</option>
-                        <option value="Present">{t('attendance.present')}</option>
-                        <option value="Late">{t('attendance.late')}</option>
-                        <option value="Absent">{t('attendance.absent')}</option>
-                    </select>
+            {viewMode === 'history' ? (
+                <AttendanceHistoryView />
+            ) : isLoading ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
                 </div>
-            </div>
+            ) : (
+                <>
 
-            {/* Stats Cards */}
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-6">
-                <div className="card p-3 sm:p-6">
-                    <div className="flex items-center gap-3 sm:gap-4">
-                        <div className="p-2 sm:p-3 bg-blue-100 rounded-lg">
-                            <Users className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" />
+                    {/* Date Picker and Filter */}
+                    <div className="card p-4 sm:p-6 flex flex-col sm:flex-row gap-4 sm:items-center">
+                        <div className="flex items-center gap-2 flex-1 sm:flex-none">
+                            <Calendar className="w-5 h-5 text-gray-600 flex-shrink-0" />
+                            <input
+                                type="date"
+                                value={selectedDate}
+                                onChange={(e) => setSelectedDate(e.target.value)}
+                                className="input-field flex-1 sm:flex-none py-2.5 sm:py-2 text-base sm:text-sm"
+                                max={new Date().toISOString().split('T')[0]}
+                            />
                         </div>
-                        <div>
-                            <p className="text-xs sm:text-sm text-gray-600">{t('attendance.totalRecords')}</p>
-                            <p className="text-lg sm:text-2xl font-bold text-gray-900">{stats.totalRecords}</p>
+
+                        <div className="flex items-center gap-2 flex-1 sm:flex-none">
+                            <Filter className="w-5 h-5 text-gray-600 flex-shrink-0" />
+                            <select
+                                value={filterStatus}
+                                onChange={(e) => setFilterStatus(e.target.value)}
+                                className="input-field flex-1 sm:flex-none py-2.5 sm:py-2 text-base sm:text-sm"
+                            >
+                                <option value="All">{t('attendance.allStatus')}</option>
+                                <option value="Present">{t('attendance.present')}</option>
+                                <option value="Late">{t('attendance.late')}</option>
+                                <option value="Absent">{t('attendance.absent')}</option>
+                                <option value="Excused">{t('attendance.excused')}</option>
+                                {tracksCheckOut && isAfterSchoolEnd && (
+                                    <option value="OnCampus">{t('attendance.onCampus.filter')}</option>
+                                )}
+                            </select>
                         </div>
+
+                        {canEditAttendance && (
+                            <div className="flex flex-wrap gap-2 sm:ml-auto">
+                                <button
+                                    onClick={() => openOverride(null)}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 transition-colors"
+                                >
+                                    <UserCheck className="w-4 h-4" />
+                                    {t('attendance.override.markStudent', 'Mark Student')}
+                                </button>
+                                <button
+                                    onClick={() => setShowBulkModal(true)}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 transition-colors"
+                                >
+                                    <Users className="w-4 h-4" />
+                                    {t('attendance.override.markClass', 'Mark Class Present')}
+                                </button>
+                                <button
+                                    onClick={() => setShowAuditModal(true)}
+                                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2 transition-colors"
+                                >
+                                    <FileClock className="w-4 h-4" />
+                                    {t('attendance.override.auditLog', 'Audit Log')}
+                                </button>
+                            </div>
+                        )}
                     </div>
-                </div>
 
-                <div className="card p-3 sm:p-6">
-                    <div className="flex items-center gap-3 sm:gap-4">
-                        <div className="p-2 sm:p-3 bg-green-100 rounded-lg">
-                            <CheckCircle className="w-5 h-5 sm:w-6 sm:h-6 text-green-600" />
+                    {dayInfo && !dayInfo.isSchoolDay && (
+                        <div className="flex items-center gap-3 bg-gray-50 border border-gray-200 text-gray-700 px-4 py-3 rounded-lg text-sm">
+                            <CalendarOff className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                            {t('attendance.notSchoolDay', 'Not a school day ({{reason}}). Absences are not counted.', {
+                                reason: dayInfo.entry?.name || t(`schoolCalendar.kinds.${dayInfo.kind}`),
+                            })}
                         </div>
-                        <div>
-                            <p className="text-xs sm:text-sm text-gray-600">{t('attendance.present')}</p>
-                            <p className="text-lg sm:text-2xl font-bold text-green-900">{stats.present}</p>
+                    )}
+
+                    {onCampusRecords.length > 0 && (
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                            <div className="flex items-center gap-3 flex-1">
+                                <DoorOpen className="w-5 h-5 text-amber-600 flex-shrink-0" />
+                                {t('attendance.onCampus.banner', {
+                                    count: onCampusRecords.length,
+                                    time: schoolHours.endTime,
+                                })}
+                            </div>
+                            {filterStatus !== 'OnCampus' && (
+                                <button
+                                    onClick={() => setFilterStatus('OnCampus')}
+                                    className="text-amber-900 font-medium hover:underline whitespace-nowrap self-start sm:self-auto"
+                                >
+                                    {t('attendance.onCampus.show')}
+                                </button>
+                            )}
                         </div>
-                    </div>
-                </div>
+                    )}
 
-                <div className="card p-3 sm:p-6">
-                    <div className="flex items-center gap-3 sm:gap-4">
-                        <div className="p-2 sm:p-3 bg-yellow-100 rounded-lg">
-                            <Clock className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-600" />
+                    {!tracksCheckOut && (
+                        <p className="text-xs text-gray-500">{t('attendance.onCampus.noExitCamera')}</p>
+                    )}
+
+                    {/* Stats Cards */}
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-6">
+                        <div className="card p-3 sm:p-6">
+                            <div className="flex items-center gap-3 sm:gap-4">
+                                <div className="p-2 sm:p-3 bg-blue-100 rounded-lg">
+                                    <Users className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" />
+                                </div>
+                                <div>
+                                    <p className="text-xs sm:text-sm text-gray-600">{t('attendance.totalRecords')}</p>
+                                    <p className="text-lg sm:text-2xl font-bold text-gray-900">{stats.totalRecords}</p>
+                                </div>
+                            </div>
                         </div>
-                        <div>
-                            <p className="text-xs sm:text-sm text-gray-600">{t('attendance.late')}</p>
-                            <p className="text-lg sm:text-2xl font-bold text-yellow-900">{stats.late}</p>
+
+                        <div className="card p-3 sm:p-6">
+                            <div className="flex items-center gap-3 sm:gap-4">
+                                <div className="p-2 sm:p-3 bg-green-100 rounded-lg">
+                                    <CheckCircle className="w-5 h-5 sm:w-6 sm:h-6 text-green-600" />
+                                </div>
+                                <div>
+                                    <p className="text-xs sm:text-sm text-gray-600">{t('attendance.present')}</p>
+                                    <p className="text-lg sm:text-2xl font-bold text-green-900">{stats.present}</p>
+                                </div>
+                            </div>
                         </div>
-                    </div>
-                </div>
 
-                <div className="card p-3 sm:p-6">
-                    <div className="flex items-center gap-3 sm:gap-4">
-                        <div className="p-2 sm:p-3 bg-red-100 rounded-lg">
-                            <XCircle className="w-5 h-5 sm:w-6 sm:h-6 text-red-600" />
+                        <div className="card p-3 sm:p-6">
+                            <div className="flex items-center gap-3 sm:gap-4">
+                                <div className="p-2 sm:p-3 bg-yellow-100 rounded-lg">
+                                    <Clock className="w-5 h-5 sm:w-6 sm:h-6 text-yellow-600" />
+                                </div>
+                                <div>
+                                    <p className="text-xs sm:text-sm text-gray-600">{t('attendance.late')}</p>
+                                    <p className="text-lg sm:text-2xl font-bold text-yellow-900">{stats.late}</p>
+                                </div>
+                            </div>
                         </div>
-                        <div>
-                            <p className="text-xs sm:text-sm text-gray-600">{t('attendance.absent')}</p>
-                            <p className="text-lg sm:text-2xl font-bold text-red-900">{stats.absent}</p>
+
+                        <div className="card p-3 sm:p-6">
+                            <div className="flex items-center gap-3 sm:gap-4">
+                                <div className="p-2 sm:p-3 bg-red-100 rounded-lg">
+                                    <XCircle className="w-5 h-5 sm:w-6 sm:h-6 text-red-600" />
+                                </div>
+                                <div>
+                                    <p className="text-xs sm:text-sm text-gray-600">{t('attendance.absent')}</p>
+                                    <p className="text-lg sm:text-2xl font-bold text-red-900">{stats.absent}</p>
+                                    {stats.excused > 0 && (
+                                        <p className="text-xs text-blue-600">{t('attendance.excusedCount', '{{count}} excused', { count: stats.excused })}</p>
+                                    )}
+                                </div>
+                            </div>
                         </div>
                     </div>
-                </div>
-            </div>
 
-            {/* Attendance Table */}
-            <div className="card overflow-hidden">
-                {filteredRecords.length === 0 ? (
-                    <div className="text-center py-8 sm:py-12 px-4">
-                        <Calendar className="w-12 h-12 sm:w-16 sm:h-16 text-gray-400 mx-auto mb-4" />
-                        <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">
-                            {t('attendance.noRecordsFound')}
-                        </h3>
-                        <p className="text-sm sm:text-base text-gray-600">
-                            {t('attendance.noRecordsMessage')}
-                        </p>
-                    </div>
-                ) : (
-                    <div className="overflow-x-auto">
-                        <table className="w-full">
-                            <thead className="bg-gray-50 border-b">
-                                <tr>
-                                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                        {t('attendance.student')}
-                                    </th>
-                                    <th className="hidden sm:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                        {t('attendance.gradeClass')}
-                                    </th>
-                                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                        {t('attendance.checkInTime')}
-                                    </th>
-                                    <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                        {t('attendance.status')}
-                                    </th>
-                                    <th className="hidden md:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                        {t('attendance.camera')}
-                                    </th>
-                                    {/* ✅ Added Snapshot column header */}
-                                    <th className="px-3 sm:px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                        {t('attendance.snapshot', 'Snapshot')}
-                                    </th>
-                                </tr>
-                            </thead>
-                            <tbody className="bg-white divide-y divide-gray-200">
-                                {filteredRecords.map((record) => (
-                                    <tr key={record.attendanceID} className="hover:bg-gray-50">
-                                        <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
-                                            <div>
-                                                <div className="text-sm font-medium text-gray-900">
-                                                    {record.fullName}
-                                                </div>
-                                                <div className="text-xs sm:text-sm text-gray-500">
-                                                    {record.studentCode}
-                                                </div>
-                                                {/* Show class on mobile since column is hidden */}
-                                                <div className="sm:hidden text-xs text-gray-400 mt-0.5">
-                                                    {record.class || 'N/A'}
-                                                </div>
-                                            </div>
-                                        </td>
-                                        <td className="hidden sm:table-cell px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
-                                            <div className="text-sm text-gray-900">
-                                                {record.class || 'N/A'}
-                                            </div>
-                                        </td>
-                                        <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
-                                            <div className="text-sm text-gray-900">
-                                                {record.checkInTime
-                                                    ? new Date(record.checkInTime).toLocaleTimeString('en-US', {
-                                                        hour: '2-digit',
-                                                        minute: '2-digit'
-                                                    })
-                                                    : '-'
-                                                }
-                                            </div>
-                                        </td>
-                                        <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
-                                            <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass(record.status)}`}>
-                                                {t(`attendance.${record.status.toLowerCase()}`)}
-                                            </span>
-                                        </td>
-                                        <td className="hidden md:table-cell px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-sm text-gray-500">
-                                            {record.cameraName || '-'}
-                                        </td>
-                                        {/* ✅ Added Snapshot column with Eye icon */}
-                                        <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-center">
-                                            {record.snapshotPath ? (
-                                                <button
-                                                    onClick={() => setPreviewImage(record.snapshotPath!)}
-                                                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                                                    title={t('attendance.viewSnapshot', 'View Snapshot')}
-                                                >
-                                                    <Eye className="w-5 h-5" />
-                                                </button>
-                                            ) : (
-                                                <span className="text-gray-400">-</span>
+                    {/* Attendance Table */}
+                    <div className="card overflow-hidden">
+                        {filteredRecords.length === 0 ? (
+                            <div className="text-center py-8 sm:py-12 px-4">
+                                <Calendar className="w-12 h-12 sm:w-16 sm:h-16 text-gray-400 mx-auto mb-4" />
+                                <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">
+                                    {t('attendance.noRecordsFound')}
+                                </h3>
+                                <p className="text-sm sm:text-base text-gray-600">
+                                    {t('attendance.noRecordsMessage')}
+                                </p>
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full">
+                                    <thead className="bg-gray-50 border-b">
+                                        <tr>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                {t('attendance.student')}
+                                            </th>
+                                            <th className="hidden sm:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                {t('attendance.gradeClass')}
+                                            </th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                {t('attendance.checkInTime')}
+                                            </th>
+                                            <th className="hidden sm:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                {t('attendance.checkOutTime')}
+                                            </th>
+                                            <th className="px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                {t('attendance.status')}
+                                            </th>
+                                            <th className="hidden md:table-cell px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                {t('attendance.camera')}
+                                            </th>
+                                            {/* ✅ Added Snapshot column header */}
+                                            <th className="px-3 sm:px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                {t('attendance.snapshot', 'Snapshot')}
+                                            </th>
+                                            {canEditAttendance && (
+                                                <th className="px-3 sm:px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    {t('common.actions')}
+                                                </th>
                                             )}
-                                        </td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="bg-white divide-y divide-gray-200">
+                                        {filteredRecords.map((record) => (
+                                            <tr key={record.attendanceID} className="hover:bg-gray-50">
+                                                <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
+                                                    <div>
+                                                        <Link to={`/students/${encodeURIComponent(record.studentCode)}`} className="text-sm font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                                                            {record.fullName}
+                                                        </Link>
+                                                        <div className="text-xs sm:text-sm text-gray-500">
+                                                            {record.studentCode}
+                                                        </div>
+                                                        {/* Show class on mobile since column is hidden */}
+                                                        <div className="sm:hidden text-xs text-gray-400 mt-0.5">
+                                                            {record.class || 'N/A'}
+                                                        </div>
+                                                    </div>
+                                                </td>
+                                                <td className="hidden sm:table-cell px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
+                                                    <div className="text-sm text-gray-900">
+                                                        {record.class || 'N/A'}
+                                                    </div>
+                                                </td>
+                                                <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
+                                                    <div className="text-sm text-gray-900">
+                                                        {formatTime(record.checkInTime)}
+                                                    </div>
+                                                </td>
+                                                <td className="hidden sm:table-cell px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
+                                                    {record.checkOutTime ? (
+                                                        <div className="text-sm text-gray-900">{formatTime(record.checkOutTime)}</div>
+                                                    ) : onCampusRecords.includes(record) ? (
+                                                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                                                            {t('attendance.onCampus.badge')}
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-sm text-gray-400">-</span>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
+                                                    {renderStatusBadge(record)}
+                                                    {record.isOverridden && (
+                                                        <span
+                                                            className="ml-1.5 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-blue-100 text-blue-700"
+                                                            title={t('attendance.override.editedHint', 'Changed manually — see the audit log')}
+                                                        >
+                                                            {t('attendance.override.edited', 'Edited')}
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="hidden md:table-cell px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-sm text-gray-500">
+                                                    {record.cameraName || '-'}
+                                                </td>
+                                                {/* ✅ Added Snapshot column with Eye icon */}
+                                                <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-center">
+                                                    {record.snapshotPath ? (
+                                                        <button
+                                                            onClick={() => setPreviewImage(record.snapshotPath!)}
+                                                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                                            title={t('attendance.viewSnapshot', 'View Snapshot')}
+                                                        >
+                                                            <Eye className="w-5 h-5" />
+                                                        </button>
+                                                    ) : (
+                                                        <span className="text-gray-400">-</span>
+                                                    )}
+                                                </td>
+                                                {canEditAttendance && (
+                                                    <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-center">
+                                                        <button
+                                                            onClick={() => openOverride(record)}
+                                                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                                                            title={t('attendance.override.editTitle', 'Correct Attendance')}
+                                                        >
+                                                            <Pencil className="w-4 h-4" />
+                                                        </button>
+                                                    </td>
+                                                )}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
                     </div>
-                )}
-            </div>
+
+                </>
+            )}
+
+            {/* Manual override modals */}
+            <AttendanceOverrideModal
+                isOpen={showOverrideModal}
+                date={selectedDate}
+                record={overrideRecord}
+                onClose={() => setShowOverrideModal(false)}
+                onSuccess={fetchAttendance}
+            />
+            <BulkMarkClassModal
+                isOpen={showBulkModal}
+                date={selectedDate}
+                onClose={() => setShowBulkModal(false)}
+                onSuccess={fetchAttendance}
+            />
+            <AttendanceAuditModal
+                isOpen={showAuditModal}
+                date={selectedDate}
+                onClose={() => setShowAuditModal(false)}
+            />
+
+            {/* Class register export (Excel / PDF) */}
+            <ClassRegisterExportModal
+                isOpen={showRegisterModal}
+                onClose={() => setShowRegisterModal(false)}
+                initialMonth={selectedDate.slice(0, 7)}
+            />
 
             {/* ✅ Image Preview Modal */}
             {previewImage && (
@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Activity, Wifi, WifiOff, AlertTriangle, Clock } from 'lucide-react';
+import { authService } from '../services/authService';
+import { settingsService } from '../services/settingsService';
+import { schoolCalendarService } from '../services/schoolCalendarService';
+import { cameraService, type CameraConfig, type CameraStatusEvent } from '../services/cameraService';
+import { buildSchoolCalendar, listSchoolDays, toDateString } from '../utils/schoolCalendar';
+import {
+    computeDailyUptime,
+    summarizeUptime,
+    uptimeColor,
+    parseCameraHealthSettings,
+    DEFAULT_CAMERA_HEALTH_SETTINGS,
+    type CameraDayUptime,
+    type CameraHealthSettings,
+} from '../utils/cameraHealth';
+import StatCard from '../components/Common/StatCard';
+
+const DEFAULT_RANGE_DAYS = 7;
+
+const daysAgo = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return toDateString(date);
+};
+
+const CameraHealthPage = () => {
+    const { t } = useTranslation();
+    const schoolId = authService.getCurrentUser()?.schoolID;
+
+    const [startDate, setStartDate] = useState(daysAgo(DEFAULT_RANGE_DAYS - 1));
+    const [endDate, setEndDate] = useState(daysAgo(0));
+    const [cameras, setCameras] = useState<CameraConfig[]>([]);
+    const [events, setEvents] = useState<CameraStatusEvent[]>([]);
+    const [schoolDays, setSchoolDays] = useState<string[]>([]);
+    const [healthSettings, setHealthSettings] = useState<CameraHealthSettings>(DEFAULT_CAMERA_HEALTH_SETTINGS);
+    const [cameraFilter, setCameraFilter] = useState<number | 'All'>('All');
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (startDate && endDate && startDate <= endDate) fetchHistory();
+    }, [startDate, endDate]);
+
+    const fetchHistory = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const [cameraData, eventData, settings, calendarRange] = await Promise.all([
+                cameraService.getCameras(),
+                cameraService.getStatusHistory(startDate, endDate),
+                schoolId ? settingsService.getSchoolSettings(schoolId).catch(() => ({})) : Promise.resolve({}),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
+            setCameras(cameraData.filter(c => c.isActive && (schoolId === undefined || c.schoolId === schoolId)));
+            setEvents(eventData);
+            setHealthSettings(parseCameraHealthSettings(settings));
+            setSchoolDays(listSchoolDays(buildSchoolCalendar(calendarRange), startDate, endDate));
+        } catch (err) {
+            console.error('Error fetching camera health history:', err);
+            setError(t('cameraHealth.fetchFailed'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const uptime = computeDailyUptime(events, schoolDays, healthSettings);
+    const rowsFor = (cameraId: number) => uptime.filter(r => r.cameraId === cameraId);
+    const cellFor = (cameraId: number, date: string): CameraDayUptime | undefined =>
+        uptime.find(r => r.cameraId === cameraId && r.date === date);
+
+    const overall = summarizeUptime(uptime);
+    const camerasWithOutages = cameras.filter(c => summarizeUptime(rowsFor(c.cameraId)).outages > 0).length;
+
+    const visibleEvents = events
+        .filter(e => e.occurredAt.split('T')[0] >= startDate)
+        .filter(e => cameraFilter === 'All' || e.cameraId === cameraFilter)
+        .sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+
+    const formatDay = (date: string) =>
+        new Date(`${date}T00:00:00`).toLocaleDateString('en-MY', { weekday: 'short', day: 'numeric', month: 'short' });
+
+    const formatPercent = (percent: number | null) => (percent === null ? '—' : `${percent}%`);
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-end gap-4">
+                <div>
+                    <Link to="/cameras" className="inline-flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 mb-2">
+                        <ArrowLeft className="w-4 h-4" />
+                        {t('cameras.title')}
+                    </Link>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center gap-2 sm:gap-3">
+                        <Activity className="w-6 h-6 sm:w-8 sm:h-8 text-blue-600" />
+                        {t('cameraHealth.title')}
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-600 mt-1">
+                        {t('cameraHealth.subtitle', { start: healthSettings.schoolStartTime, end: healthSettings.schoolEndTime })}
+                    </p>
+                </div>
+                <div className="flex gap-2 items-end">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">{t('cameraHealth.from')}</label>
+                        <input
+                            type="date"
+                            value={startDate}
+                            max={endDate}
+                            onChange={(e) => setStartDate(e.target.value)}
+                            className="input-field"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">{t('cameraHealth.to')}</label>
+                        <input
+                            type="date"
+                            value={endDate}
+                            min={startDate}
+                            onChange={(e) => setEndDate(e.target.value)}
+                            className="input-field"
+                        />
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                    {error}
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            ) : (
+                <>
+                    {/* Stats */}
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+                        <StatCard title={t('cameraHealth.overallUptime')} value={formatPercent(overall.uptimePercent)} icon={Wifi} color="bg-green-500" />
+                        <StatCard title={t('cameraHealth.outages')} value={overall.outages} icon={WifiOff} color="bg-red-500" />
+                        <StatCard title={t('cameraHealth.camerasWithOutages')} value={`${camerasWithOutages}/${cameras.length}`} icon={AlertTriangle} color="bg-amber-500" />
+                        <StatCard title={t('cameraHealth.schoolDays')} value={schoolDays.length} icon={Clock} color="bg-blue-500" />
+                    </div>
+
+                    {/* Daily uptime */}
+                    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                        <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+                            <h2 className="text-lg font-semibold text-gray-900">{t('cameraHealth.dailyUptime')}</h2>
+                        </div>
+                        {cameras.length === 0 || schoolDays.length === 0 ? (
+                            <p className="px-4 sm:px-6 py-8 text-center text-sm text-gray-500">
+                                {cameras.length === 0 ? t('cameras.noCameras') : t('cameraHealth.noSchoolDays')}
+                            </p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full text-sm">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-4 py-3 text-left font-medium text-gray-600 whitespace-nowrap">{t('cameraHealth.camera')}</th>
+                                            {schoolDays.map(day => (
+                                                <th key={day} className="px-3 py-3 text-center font-medium text-gray-600 whitespace-nowrap">{formatDay(day)}</th>
+                                            ))}
+                                            <th className="px-4 py-3 text-center font-medium text-gray-600 whitespace-nowrap">{t('cameraHealth.total')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {cameras.map(camera => {
+                                            const total = summarizeUptime(rowsFor(camera.cameraId));
+                                            return (
+                                                <tr key={camera.cameraId}>
+                                                    <td className="px-4 py-3 whitespace-nowrap">
+                                                        <div className="font-medium text-gray-900">{camera.cameraName}</div>
+                                                        {camera.location && <div className="text-xs text-gray-500">{camera.location}</div>}
+                                                    </td>
+                                                    {schoolDays.map(day => {
+                                                        const cell = cellFor(camera.cameraId, day);
+                                                        return (
+                                                            <td
+                                                                key={day}
+                                                                className={`px-3 py-3 text-center whitespace-nowrap ${uptimeColor(cell?.uptimePercent ?? null)}`}
+                                                                title={cell
+                                                                    ? t('cameraHealth.cellTitle', { online: cell.onlineMinutes, monitored: cell.monitoredMinutes, outages: cell.outages })
+                                                                    : t('cameraHealth.noData')}
+                                                            >
+                                                                {formatPercent(cell?.uptimePercent ?? null)}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                    <td className={`px-4 py-3 text-center font-semibold whitespace-nowrap ${uptimeColor(total.uptimePercent)}`}>
+                                                        {formatPercent(total.uptimePercent)}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Transition log */}
+                    <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                        <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                            <h2 className="text-lg font-semibold text-gray-900">{t('cameraHealth.transitions')}</h2>
+                            <select
+                                value={cameraFilter}
+                                onChange={(e) => setCameraFilter(e.target.value === 'All' ? 'All' : Number(e.target.value))}
+                                className="input-field sm:w-56"
+                            >
+                                <option value="All">{t('cameraHealth.allCameras')}</option>
+                                {cameras.map(camera => (
+                                    <option key={camera.cameraId} value={camera.cameraId}>{camera.cameraName}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {visibleEvents.length === 0 ? (
+                            <p className="px-4 sm:px-6 py-8 text-center text-sm text-gray-500">{t('cameraHealth.noTransitions')}</p>
+                        ) : (
+                            <ul className="divide-y divide-gray-100 max-h-[28rem] overflow-y-auto">
+                                {visibleEvents.map(event => (
+                                    <li key={event.eventId} className="px-4 sm:px-6 py-3 flex items-start gap-3">
+                                        {event.isOnline
+                                            ? <Wifi className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                                            : <WifiOff className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />}
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm text-gray-900">
+                                                <span className="font-medium">{event.cameraName}</span>{' '}
+                                                <span className={event.isOnline ? 'text-green-700' : 'text-red-700'}>
+                                                    {event.isOnline ? t('cameras.online') : t('cameras.offline')}
+                                                </span>
+                                            </p>
+                                            {event.statusMessage && <p className="text-xs text-gray-500 mt-0.5 break-words">{event.statusMessage}</p>}
+                                        </div>
+                                        <span className="text-xs text-gray-500 whitespace-nowrap">
+                                            {new Date(event.occurredAt).toLocaleString('en-MY', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CameraHealthPage;
@@ -1,30 +1,29 @@
 import { useState, useEffect } from 'react';
-import { Camera, Play, Square, Plus, Wifi, WifiOff, Video, Brain } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Camera, Play, Square, Plus, Wifi, WifiOff, Video, Brain, Edit, Trash2, Eye, Activity, LogIn, LogOut, ArrowLeftRight, MapPin, type LucideIcon } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import api from '../services/api';
+import { cameraService, DEFAULT_CAMERA_ROLE, type CameraConfig, type CameraRole } from '../services/cameraService';
 import AddCameraModal from '../components/Cameras/AddCameraModal';
+import EditCameraModal from '../components/Cameras/EditCameraModal';
+import CameraLiveViewModal from '../components/Cameras/CameraLiveViewModal';
 import { authService } from '../services/authService';
+import RealtimeIndicator from '../components/Common/RealtimeIndicator';
+import { useRealtimeEvent, useRealtimeConnectionState } from '../hooks/useRealtime';
+import type { CameraStatus } from '../types';
 
-interface CameraConfig {
-    cameraId: number;
-    cameraName: string;
-    location: string;
-    cameraType: number; // 1=RTSP, 2=P6SAI
-    rtspUrl: string;
-    ipAddress: string;
-    deviceSerial?: string; // For P6SAI cameras
-    isActive: boolean;
-    schoolId?: number;
-}
+const ROLE_STYLES: Record<CameraRole, string> = {
+    Entry: 'bg-green-100 text-green-700',
+    Exit: 'bg-orange-100 text-orange-700',
+    Both: 'bg-sky-100 text-sky-700',
+    Monitoring: 'bg-gray-100 text-gray-600',
+};
 
-interface CameraStatus {
-    cameraId: number;
-    cameraName: string;
-    isOnline: boolean;
-    statusMessage: string;
-    lastFrameTime: string;
-    framesProcessed: number;
-}
+const ROLE_ICONS: Record<CameraRole, LucideIcon> = {
+    Entry: LogIn,
+    Exit: LogOut,
+    Both: ArrowLeftRight,
+    Monitoring: Eye,
+};
 
 const CamerasPage = () => {
     const { t } = useTranslation();
@@ -32,6 +31,8 @@ const CamerasPage = () => {
     const [cameraStatuses, setCameraStatuses] = useState<{ [key: number]: CameraStatus }>({});
     const [isLoading, setIsLoading] = useState(true);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [editingCamera, setEditingCamera] = useState<CameraConfig | null>(null);
+    const [viewingCamera, setViewingCamera] = useState<CameraConfig | null>(null);
     const [userSchoolId, setUserSchoolId] = useState<number | null>(null);
 
     useEffect(() => {
@@ -39,12 +40,20 @@ const CamerasPage = () => {
             await fetchUserProfile();
         };
         initializePage();
-
-        // Poll camera statuses every 5 seconds (only for RTSP cameras)
-        const interval = setInterval(fetchCameraStatuses, 5000);
-        return () => clearInterval(interval);
     }, []);
 
+    // Status changes are pushed by the realtime service (falls back to polling)
+    const connectionState = useRealtimeConnectionState();
+    useRealtimeEvent('cameraStatus', (statuses) => {
+        setCameraStatuses(prev => {
+            const next = { ...prev };
+            statuses.forEach(status => {
+                next[status.cameraId] = status;
+            });
+            return next;
+        });
+    });
+
     useEffect(() => {
         if (userSchoolId !== null) {
             fetchCameras();
@@ -67,9 +76,8 @@ const CamerasPage = () => {
 
     const fetchCameras = async () => {
         try {
-            const response = await api.get('/camera');
-            const allCameras = response.data.data;
-            const filteredCameras = allCameras.filter((camera: CameraConfig) =>
+            const allCameras = await cameraService.getCameras();
+            const filteredCameras = allCameras.filter((camera) =>
                 camera.isActive === true &&
                 (userSchoolId === null || camera.schoolId === userSchoolId)
             );
@@ -83,10 +91,9 @@ const CamerasPage = () => {
 
     const fetchCameraStatuses = async () => {
         try {
-            const response = await api.get('/camera/statuses');
-            const statuses = response.data.data.cameras || [];
+            const statuses = await cameraService.getStatuses();
             const statusMap: { [key: number]: CameraStatus } = {};
-            statuses.forEach((status: CameraStatus) => {
+            statuses.forEach((status) => {
                 statusMap[status.cameraId] = status;
             });
             setCameraStatuses(statusMap);
@@ -97,7 +104,7 @@ const CamerasPage = () => {
 
     const handleStartCamera = async (cameraId: number) => {
         try {
-            await api.post(`/camera/${cameraId}/start`);
+            await cameraService.startCamera(cameraId);
             setTimeout(fetchCameraStatuses, 1000);
         } catch (error: unknown) {
             console.error('Error starting camera:', error);
@@ -108,7 +115,7 @@ const CamerasPage = () => {
 
     const handleStopCamera = async (cameraId: number) => {
         try {
-            await api.post(`/camera/${cameraId}/stop`);
+            await cameraService.stopCamera(cameraId);
             setTimeout(fetchCameraStatuses, 1000);
         } catch (error) {
             console.error('Error stopping camera:', error);
@@ -118,7 +125,7 @@ const CamerasPage = () => {
 
     const handleStopAllCameras = async () => {
         try {
-            await api.post('/camera/stop-all');
+            await cameraService.stopAll();
             setTimeout(fetchCameraStatuses, 1000);
         } catch (error) {
             console.error('Error stopping all cameras:', error);
@@ -126,6 +133,18 @@ const CamerasPage = () => {
         }
     };
 
+    const handleDeleteCamera = async (camera: CameraConfig) => {
+        if (!confirm(t('cameras.confirmDelete', { name: camera.cameraName }))) return;
+        try {
+            await cameraService.deleteCamera(camera.cameraId);
+            fetchCameras();
+            fetchCameraStatuses();
+        } catch (error) {
+            console.error('Error deleting camera:', error);
+            alert(t('cameras.deleteCameraError'));
+        }
+    };
+
     const getCameraTypeBadge = (cameraType: number) => {
         if (cameraType === 2) {
             return (
@@ -191,8 +210,17 @@ const CamerasPage = () => {
                         {t('cameras.title')}
                     </h1>
                     <p className="text-sm sm:text-base text-gray-600 mt-1">{t('cameras.subtitle')}</p>
+                    <RealtimeIndicator state={connectionState} className="mt-2" />
                 </div>
                 <div className="flex gap-2 sm:gap-3">
+                    <Link
+                        to="/cameras/health"
+                        className="flex-1 sm:flex-none px-3 sm:px-4 py-2.5 sm:py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 active:bg-gray-100 transition-colors flex items-center justify-center gap-2 text-sm sm:text-base"
+                    >
+                        <Activity className="w-4 h-4" />
+                        <span className="hidden sm:inline">{t('cameraHealth.title')}</span>
+                        <span className="sm:hidden">{t('cameraHealth.short')}</span>
+                    </Link>
                     <button
                         onClick={handleStopAllCameras}
                         className="flex-1 sm:flex-none px-3 sm:px-4 py-2.5 sm:py-2 text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 active:bg-red-200 transition-colors flex items-center justify-center gap-2 text-sm sm:text-base"
@@ -217,6 +245,8 @@ const CamerasPage = () => {
                 {cameras.map((camera) => {
                     const status = cameraStatuses[camera.cameraId];
                     const isRunning = status?.isOnline || false;
+                    const role = camera.role || DEFAULT_CAMERA_ROLE;
+                    const RoleIcon = ROLE_ICONS[role];
 
                     return (
                         <div
@@ -231,8 +261,43 @@ const CamerasPage = () => {
                                             {camera.cameraName}
                                         </h3>
                                         <p className="text-xs sm:text-sm text-gray-600 mt-1 truncate">{camera.location}</p>
+                                        <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+                                            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium ${ROLE_STYLES[role]}`}>
+                                                <RoleIcon className="w-3 h-3" />
+                                                {t(`cameras.role.${role}`)}
+                                            </span>
+                                            {camera.zone && (
+                                                <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-gray-100 text-gray-700 rounded-md text-xs">
+                                                    <MapPin className="w-3 h-3" />
+                                                    {camera.zone}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                        {getCameraTypeBadge(camera.cameraType)}
+                                        <button
+                                            onClick={() => setViewingCamera(camera)}
+                                            className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                            title={t('cameras.liveView.open')}
+                                        >
+                                            <Eye className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => setEditingCamera(camera)}
+                                            className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                            title={t('cameras.editCamera')}
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDeleteCamera(camera)}
+                                            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                            title={t('cameras.deleteCamera')}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
                                     </div>
-                                    {getCameraTypeBadge(camera.cameraType)}
                                 </div>
                                 {getCameraConnectionInfo(camera)}
                             </div>
@@ -336,6 +401,28 @@ const CamerasPage = () => {
                     fetchCameras();
                 }}
             />
+
+            {/* Live View Modal */}
+            {viewingCamera && (
+                <CameraLiveViewModal
+                    camera={viewingCamera}
+                    onClose={() => setViewingCamera(null)}
+                />
+            )}
+
+            {/* Edit Camera Modal */}
+            {editingCamera && (
+                <EditCameraModal
+                    camera={editingCamera}
+                    isRunning={cameraStatuses[editingCamera.cameraId]?.isOnline || false}
+                    onClose={() => setEditingCamera(null)}
+                    onSuccess={() => {
+                        setEditingCamera(null);
+                        fetchCameras();
+                        setTimeout(fetchCameraStatuses, 1000);
+                    }}
+                />
+            )}
         </div>
     );
 };
@@ -5,12 +5,20 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import StatCard from '../components/Common/StatCard';
 import { attendanceService } from '../services/attendanceService';
+import { excuseService } from '../services/excuseService';
+import { schoolCalendarService } from '../services/schoolCalendarService';
+import { buildExcuseLookup, splitAbsences } from '../utils/excuses';
+import { buildSchoolCalendar, getDayInfo, toDateString, type CalendarDayInfo } from '../utils/schoolCalendar';
 import LoadingSpinner from '../components/Common/LoadingSpinner';
+import RealtimeIndicator from '../components/Common/RealtimeIndicator';
+import { useRealtimeEvent, useRealtimeConnectionState } from '../hooks/useRealtime';
 import type { AttendanceSummary, RecentDetection } from '../types';
 
 const DashboardPage = () => {
     const [summary, setSummary] = useState<AttendanceSummary | null>(null);
     const [recentDetections, setRecentDetections] = useState<RecentDetection[]>([]);
+    const [excusedToday, setExcusedToday] = useState(0);
+    const [todayInfo, setTodayInfo] = useState<CalendarDayInfo | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const { t } = useTranslation();
     const { user } = useAuth();
@@ -28,6 +36,16 @@ const DashboardPage = () => {
         }
     }, [isTeacherOrStaff]);
 
+    // Live updates (admin dashboard only)
+    const connectionState = useRealtimeConnectionState(!isTeacherOrStaff);
+    useRealtimeEvent('summary', setSummary, !isTeacherOrStaff);
+    useRealtimeEvent('detection', (detection) => {
+        setRecentDetections(prev => {
+            if (prev.some(d => d.logID === detection.logID)) return prev;
+            return [detection, ...prev].slice(0, 10);
+        });
+    }, !isTeacherOrStaff);
+
     const fetchDashboardData = async () => {
         try {
             const [summaryData, detectionsData] = await Promise.all([
@@ -41,6 +59,25 @@ const DashboardPage = () => {
         } finally {
             setIsLoading(false);
         }
+        fetchExcusedToday();
+    };
+
+    // Absent students on leave or at a school event are shown as excused
+    const fetchExcusedToday = async () => {
+        try {
+            // Local date: the UTC date is still yesterday during morning check-in in UTC+8
+            const today = toDateString(new Date());
+            const [absentees, excusedDays, calendarRange] = await Promise.all([
+                attendanceService.getAbsentToday(),
+                excuseService.getExcusedDays(today, today),
+                schoolCalendarService.getRange(today, today).catch(() => null),
+            ]);
+            setTodayInfo(getDayInfo(buildSchoolCalendar(calendarRange), today));
+            const { excused } = splitAbsences(absentees || [], buildExcuseLookup(excusedDays || []), () => today);
+            setExcusedToday(excused.length);
+        } catch (error) {
+            console.error('Error fetching excused absences:', error);
+        }
     };
 
     if (isLoading) {
@@ -168,13 +205,16 @@ const DashboardPage = () => {
     return (
         <div className="space-y-4 sm:space-y-6">
             {/* Header - Responsive */}
-            <div>
-                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
-                    {t('dashboard.title')}
-                </h1>
-                <p className="text-sm sm:text-base text-gray-600 mt-1">
-                    {t('dashboard.subtitle')}
-                </p>
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+                        {t('dashboard.title')}
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-600 mt-1">
+                        {t('dashboard.subtitle')}
+                    </p>
+                </div>
+                <RealtimeIndicator state={connectionState} />
             </div>
 
             {/* Stats Cards - Responsive Grid (2 columns on mobile) */}
@@ -200,9 +240,12 @@ const DashboardPage = () => {
                 />
                 <StatCard
                     title={t('dashboard.absent')}
-                    value={summary?.totalAbsent || 0}
+                    value={todayInfo && !todayInfo.isSchoolDay ? 0 : Math.max(0, (summary?.totalAbsent || 0) - excusedToday)}
                     icon={UserX}
                     color="bg-red-500"
+                    subtitle={todayInfo && !todayInfo.isSchoolDay
+                        ? todayInfo.entry?.name || t(`schoolCalendar.kinds.${todayInfo.kind}`)
+                        : excusedToday > 0 ? t('attendance.excusedCount', '{{count}} excused', { count: excusedToday }) : undefined}
                 />
             </div>
 
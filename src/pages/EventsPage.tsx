@@ -19,6 +19,7 @@ import Pagination from '../components/Common/Pagination';
 import AddEventModal from '../components/Events/AddEventModal';
 import EditEventModal from '../components/Events/EditEventModal';
 import EventDetailsModal from '../components/Events/EventDetailsModal';
+import EventCalendarView from '../components/Events/EventCalendarView';
 // ✅ Import translation utilities
 import { getTranslatedActivityType } from '../utils/activityTypeTranslations';
 import { getTranslatedEventType } from '../utils/eventTypeTranslations';
@@ -246,7 +247,13 @@ const EventsPage = () => {
             </div>
 
             {/* Events List */}
-            {loading ? (
+            {viewMode === 'calendar' ? (
+                <EventCalendarView
+                    eventType={selectedEventType}
+                    searchTerm={searchTerm}
+                    onViewEvent={setViewEventId}
+                />
+            ) : loading ? (
                 <LoadingSpinner />
             ) : (
                 <>
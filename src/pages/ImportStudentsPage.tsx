@@ -2,48 +2,51 @@
 import { useTranslation } from 'react-i18next';
 import {
     Upload, FileSpreadsheet, Download, AlertCircle, CheckCircle,
-    X, Users, FileWarning, Loader2, Trash2
+    X, Users, FileWarning, Loader2, Trash2, UserPlus, RefreshCw, FileDown, Columns
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import api from '../services/api';
-
-// Interface for import row data
-interface ImportStudentRow {
-    rowNumber: number;
-    studentCode: string;
-    fullName: string;
-    otherName?: string;
-    dateOfBirth: string;
-    gender: string;
-    academicYear: string;
-    className: string;
-    email?: string;
-    phoneNumber?: string;
-    parentName?: string;
-    parentContact?: string;
-    parentEmail?: string;
-    address?: string;
-    isValid: boolean;
-    errors: string[];
-}
+import { authService } from '../services/authService';
+import { studentService, type StudentWithAcademic } from '../services/studentService';
+import { settingsService } from '../services/settingsService';
+import ColumnMappingStep from '../components/Students/ColumnMappingStep';
+import {
+    MAPPING_PRESETS_SETTING_KEY,
+    applyMappingPreset,
+    diffImportRow,
+    findMatchingPreset,
+    mapSheetRows,
+    parseMappingPresets,
+    suggestColumnMapping,
+    toImportPayloadRow,
+    toTemplateRow,
+    validateImportRows,
+    type ColumnMapping,
+    type ColumnMappingPreset,
+    type ImportCellError,
+    type ImportField,
+    type ImportMode,
+    type ImportRowDiff,
+    type ImportStudentRow,
+    type ImportValidationData
+} from '../utils/studentImport';
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'result';
+
+const IMPORT_STEPS: ImportStep[] = ['upload', 'mapping', 'preview', 'result'];
 
 // Interface for import result
 interface ImportResult {
     success: boolean;
     totalRows: number;
     successCount: number;
+    createdCount?: number;      // upsert mode only
+    updatedCount?: number;      // upsert mode only
     failedCount: number;
     skippedCount: number;
     errors: { row: number; message: string }[];
 }
 
-// Interface for validation data from backend
-interface ValidationData {
-    academicYears: { academicYearID: number; yearName: string }[];
-    grades: { gradeID: number; gradeName: string }[];
-    classes: { classID: number; className: string; gradeID: number; academicYearID: number }[];
-}
-
 const ImportStudentsPage = () => {
     const { t } = useTranslation();
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -53,9 +56,16 @@ const ImportStudentsPage = () => {
     const [importing, setImporting] = useState(false);
     const [importResult, setImportResult] = useState<ImportResult | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [step, setStep] = useState<'upload' | 'preview' | 'result'>('upload');
-    const [validationData, setValidationData] = useState<ValidationData | null>(null);
+    const [step, setStep] = useState<ImportStep>('upload');
+    const [validationData, setValidationData] = useState<ImportValidationData | null>(null);
     const [loadingValidation, setLoadingValidation] = useState(true);
+    const [importMode, setImportMode] = useState<ImportMode>('create');
+    const [existingStudents, setExistingStudents] = useState<Map<string, StudentWithAcademic> | null>(null);
+    const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+    const [sheet, setSheet] = useState<{ headers: string[]; rows: unknown[][]; sampleRow: unknown[] } | null>(null);
+    const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+    const [fixedAcademicYear, setFixedAcademicYear] = useState('');
+    const [mappingPresets, setMappingPresets] = useState<ColumnMappingPreset[]>([]);
 
     // Load validation data on mount
     useEffect(() => {
@@ -65,8 +75,20 @@ const ImportStudentsPage = () => {
     const loadValidationData = async () => {
         try {
             setLoadingValidation(true);
-            const response = await api.get('/student/import/validation-data');
+            const schoolId = authService.getCurrentUser()?.schoolID;
+            const [response, students, settings] = await Promise.all([
+                api.get('/student/import/validation-data'),
+                // Needed to match rows on studentCode; without it only new students can be imported
+                schoolId ? studentService.getStudentsBySchool(schoolId).catch(() => null) : Promise.resolve(null),
+                schoolId ? settingsService.getSchoolSettings(schoolId).catch(() => null) : Promise.resolve(null)
+            ]);
             setValidationData(response.data.data);
+            if (students) {
+                setExistingStudents(new Map(students.map(s => [s.studentCode.toLowerCase(), s])));
+            }
+            if (settings) {
+                setMappingPresets(parseMappingPresets(settings));
+            }
         } catch (err) {
             console.error('Error loading validation data:', err);
             setError(t('import.errors.loadValidationFailed'));
@@ -156,110 +178,6 @@ const ImportStudentsPage = () => {
         XLSX.writeFile(wb, 'student_import_template.xlsx');
     };
 
-    // Validate a single row
-    const validateRow = (row: Partial<ImportStudentRow>, rowNumber: number): ImportStudentRow => {
-        const errors: string[] = [];
-
-        // Required field validations
-        if (!row.studentCode?.trim()) {
-            errors.push(t('import.validation.studentCodeRequired'));
-        }
-        if (!row.fullName?.trim()) {
-            errors.push(t('import.validation.fullNameRequired'));
-        }
-        // DateOfBirth is optional - only validate format if provided
-        if (row.dateOfBirth?.trim()) {
-            const date = new Date(row.dateOfBirth);
-            if (isNaN(date.getTime())) {
-                errors.push(t('import.validation.invalidDateFormat'));
-            }
-        }
-        if (!row.gender?.trim()) {
-            errors.push(t('import.validation.genderRequired'));
-        } else if (!isValidGender(row.gender.trim())) {
-            errors.push(t('import.validation.invalidGender'));
-        }
-
-        // Academic Year validation
-        if (!row.academicYear?.trim()) {
-            errors.push(t('import.validation.academicYearRequired'));
-        } else if (validationData) {
-            const yearExists = validationData.academicYears.some(
-                y => y.yearName.toLowerCase() === row.academicYear?.trim().toLowerCase()
-            );
-            if (!yearExists) {
-                errors.push(t('import.validation.invalidAcademicYear', { year: row.academicYear }));
-            }
-        }
-
-        // Class validation
-        if (!row.className?.trim()) {
-            errors.push(t('import.validation.classRequired'));
-        } else if (validationData) {
-            const classExists = validationData.classes.some(
-                c => c.className.toLowerCase() === row.className?.trim().toLowerCase()
-            );
-            if (!classExists) {
-                errors.push(t('import.validation.invalidClass', { className: row.className }));
-            }
-        }
-
-        // Optional field validations
-        if (row.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(row.email)) {
-            errors.push(t('import.validation.invalidEmail'));
-        }
-        if (row.parentEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(row.parentEmail)) {
-            errors.push(t('import.validation.invalidParentEmail'));
-        }
-
-        return {
-            rowNumber,
-            studentCode: row.studentCode?.trim() || '',
-            fullName: row.fullName?.trim() || '',
-            otherName: row.otherName?.trim() || undefined,
-            dateOfBirth: row.dateOfBirth?.trim() || '',
-            gender: normalizeGender(row.gender?.trim() || ''),
-            academicYear: row.academicYear?.trim() || '',
-            className: row.className?.trim() || '',
-            email: row.email?.trim() || undefined,
-            phoneNumber: row.phoneNumber?.trim() || undefined,
-            parentName: row.parentName?.trim() || undefined,
-            parentContact: row.parentContact?.trim() || undefined,
-            parentEmail: row.parentEmail?.trim() || undefined,
-            address: row.address?.trim() || undefined,
-            isValid: errors.length === 0,
-            errors
-        };
-    };
-
-    // Check if gender value is valid (English, Malay, or Chinese)
-    const isValidGender = (gender: string): boolean => {
-        const validValues = [
-            // English
-            'male', 'female', 'm', 'f',
-            // Bahasa Melayu
-            'lelaki', 'perempuan', 'l', 'p',
-            // 华语 (Chinese)
-            '男', '女'
-        ];
-        return validValues.includes(gender.toLowerCase());
-    };
-
-    // Normalize gender value to English (Male/Female)
-    const normalizeGender = (gender: string): string => {
-        const g = gender.toLowerCase();
-        // English
-        if (g === 'm' || g === 'male') return 'Male';
-        if (g === 'f' || g === 'female') return 'Female';
-        // Bahasa Melayu
-        if (g === 'l' || g === 'lelaki') return 'Male';
-        if (g === 'p' || g === 'perempuan') return 'Female';
-        // 华语 (Chinese)
-        if (gender === '男') return 'Male';
-        if (gender === '女') return 'Female';
-        return gender;
-    };
-
     // Handle file selection
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
@@ -302,89 +220,23 @@ const ImportStudentsPage = () => {
                     return;
                 }
 
-                // Get headers (first row)
-                const headers = jsonData[0] as string[];
-
-                // Map headers to our expected format
-                const headerMap: Record<string, string> = {
-                    'Student Code': 'studentCode',
-                    'StudentCode': 'studentCode',
-                    'student_code': 'studentCode',
-                    'Academic Year': 'academicYear',
-                    'AcademicYear': 'academicYear',
-                    'academic_year': 'academicYear',
-                    'Year': 'academicYear',
-                    'Full Name': 'fullName',
-                    'FullName': 'fullName',
-                    'full_name': 'fullName',
-                    'Name': 'fullName',
-                    'Other Name': 'otherName',
-                    'OtherName': 'otherName',
-                    'other_name': 'otherName',
-                    '中文名': 'otherName',
-                    'Chinese Name': 'otherName',
-                    'Nama Lain': 'otherName',
-                    'Tamil Name': 'otherName',
-                    'Date of Birth': 'dateOfBirth',
-                    'DateOfBirth': 'dateOfBirth',
-                    'date_of_birth': 'dateOfBirth',
-                    'DOB': 'dateOfBirth',
-                    'Gender': 'gender',
-                    'Email': 'email',
-                    'Phone Number': 'phoneNumber',
-                    'PhoneNumber': 'phoneNumber',
-                    'phone_number': 'phoneNumber',
-                    'Phone': 'phoneNumber',
-                    'Parent Name': 'parentName',
-                    'ParentName': 'parentName',
-                    'parent_name': 'parentName',
-                    'Parent Contact': 'parentContact',
-                    'ParentContact': 'parentContact',
-                    'parent_contact': 'parentContact',
-                    'Parent Email': 'parentEmail',
-                    'ParentEmail': 'parentEmail',
-                    'parent_email': 'parentEmail',
-                    'Address': 'address',
-                    'Class': 'className',
-                    'ClassName': 'className',
-                    'class_name': 'className',
-                    'Classes': 'className'
-                };
-
-                // Parse data rows
-                const parsedRows: ImportStudentRow[] = [];
-                for (let i = 1; i < jsonData.length; i++) {
-                    const row = jsonData[i] as unknown[];
-                    if (!row || row.every(cell => cell === null || cell === undefined || cell === '')) {
-                        continue; // Skip empty rows
-                    }
-
-                    const rowData: Record<string, string> = {};
-                    headers.forEach((header, index) => {
-                        const mappedKey = headerMap[header] || header.toLowerCase().replace(/\s+/g, '');
-                        let cellValue = row[index];
-
-                        // Handle date values from Excel
-                        if (mappedKey === 'dateOfBirth' && typeof cellValue === 'number') {
-                            // Excel date serial number to JS date
-                            const date = XLSX.SSF.parse_date_code(cellValue);
-                            cellValue = `${date.y}-${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`;
-                        }
-
-                        rowData[mappedKey] = cellValue?.toString() || '';
-                    });
-
-                    const validatedRow = validateRow(rowData as Partial<ImportStudentRow>, i + 1);
-                    parsedRows.push(validatedRow);
-                }
+                // Get headers (first row); columns are matched to fields in the mapping step
+                const headers = (jsonData[0] as unknown[]).map(header =>
+                    header === null || header === undefined ? '' : String(header).trim());
+                const rows = jsonData.slice(1) as unknown[][];
+                const sampleRow = rows.find(row =>
+                    row && !row.every(cell => cell === null || cell === undefined || cell === ''));
 
-                if (parsedRows.length === 0) {
+                if (!sampleRow) {
                     setError(t('import.errors.noValidData'));
                     return;
                 }
 
-                setParsedData(parsedRows);
-                setStep('preview');
+                // A saved preset that fits this layout wins over guessing
+                const preset = findMatchingPreset(mappingPresets, headers);
+                setSheet({ headers, rows, sampleRow });
+                setColumnMapping(preset ? applyMappingPreset(preset, headers) : suggestColumnMapping(headers));
+                setStep('mapping');
             } catch (err) {
                 console.error('Error parsing file:', err);
                 setError(t('import.errors.parseError'));
@@ -398,14 +250,76 @@ const ImportStudentsPage = () => {
         reader.readAsBinaryString(file);
     };
 
+    // Read the sheet through the chosen mapping and validate it
+    const handleContinueMapping = () => {
+        if (!sheet) return;
+
+        const fixedValues = !columnMapping.academicYear && fixedAcademicYear ? { academicYear: fixedAcademicYear } : {};
+        const rawRows = mapSheetRows(sheet.headers, sheet.rows, columnMapping, fixedValues);
+        const parsedRows = validateImportRows(rawRows, validationData);
+
+        setError(null);
+        setParsedData(parsedRows);
+        setSelectedRows(getDefaultSelection(parsedRows));
+        setStep('preview');
+    };
+
+    // Presets live in a school setting so every clerk sees the same ones
+    const handleSavePresets = async (presets: ColumnMappingPreset[]) => {
+        const schoolId = authService.getCurrentUser()?.schoolID;
+        if (!schoolId) throw new Error('No school');
+        await settingsService.updateSchoolSettings(schoolId, {
+            [MAPPING_PRESETS_SETTING_KEY]: JSON.stringify(presets)
+        });
+        setMappingPresets(presets);
+    };
+
+    // Match a row against the existing student with the same code
+    const getRowDiff = (row: ImportStudentRow): ImportRowDiff | null => {
+        if (!existingStudents) return null;
+        return diffImportRow(row, existingStudents.get(row.studentCode.toLowerCase()));
+    };
+
+    // A row can be imported when it is valid and, in create mode, not already on file
+    const isRowSelectable = (row: ImportStudentRow): boolean => {
+        if (!row.isValid) return false;
+        return importMode === 'upsert' || !existingStudents?.has(row.studentCode.toLowerCase());
+    };
+
+    // Tick every importable row except students that would not change
+    const getDefaultSelection = (rows: ImportStudentRow[]): Set<number> => new Set(
+        rows.filter(row => isRowSelectable(row) && getRowDiff(row)?.change !== 'unchanged').map(row => row.rowNumber)
+    );
+
+    const toggleRow = (rowNumber: number) => {
+        setSelectedRows(prev => {
+            const next = new Set(prev);
+            if (next.has(rowNumber)) next.delete(rowNumber);
+            else next.add(rowNumber);
+            return next;
+        });
+    };
+
+    const toggleAllRows = () => {
+        const selectable = parsedData.filter(isRowSelectable);
+        setSelectedRows(selectedCount === selectable.length
+            ? new Set()
+            : new Set(selectable.map(row => row.rowNumber)));
+    };
+
     // Remove a row from preview
     const handleRemoveRow = (rowNumber: number) => {
         setParsedData(prev => prev.filter(row => row.rowNumber !== rowNumber));
+        setSelectedRows(prev => {
+            const next = new Set(prev);
+            next.delete(rowNumber);
+            return next;
+        });
     };
 
     // Handle import
     const handleImport = async () => {
-        const validRows = parsedData.filter(row => row.isValid);
+        const validRows = parsedData.filter(row => row.isValid && selectedRows.has(row.rowNumber));
 
         if (validRows.length === 0) {
             setError(t('import.errors.noValidRows'));
@@ -418,21 +332,8 @@ const ImportStudentsPage = () => {
         try {
             // Build the payload
             const payload = {
-                students: validRows.map(row => ({
-                    studentCode: row.studentCode,
-                    fullName: row.fullName,
-                    otherName: row.otherName || null,
-                    dateOfBirth: row.dateOfBirth || null,
-                    gender: row.gender,
-                    academicYear: row.academicYear,
-                    className: row.className,
-                    email: row.email || null,
-                    phoneNumber: row.phoneNumber || null,
-                    parentName: row.parentName || null,
-                    parentContact: row.parentContact || null,
-                    parentEmail: row.parentEmail || null,
-                    address: row.address || null
-                }))
+                mode: importMode === 'upsert' ? 'Upsert' : 'Create',
+                students: validRows.map(row => toImportPayloadRow(row, importMode))
             };
 
             // Log the payload for debugging
@@ -497,10 +398,33 @@ const ImportStudentsPage = () => {
         }
     };
 
+    // Export the rows that failed validation under the template headers, plus an Errors column,
+    // so they can be corrected and re-uploaded on their own
+    const handleDownloadErrors = () => {
+        const failedRows = parsedData.filter(row => !row.isValid);
+        const ws = XLSX.utils.json_to_sheet(failedRows.map(row => ({
+            ...toTemplateRow(row),
+            'Errors': row.errors.map(error => `${getFieldLabel(error.field)}: ${formatError(error)}`).join('\n')
+        })));
+        ws['!cols'] = [
+            { wch: 15 }, { wch: 12 }, { wch: 25 }, { wch: 15 }, { wch: 15 }, { wch: 10 }, { wch: 25 },
+            { wch: 15 }, { wch: 25 }, { wch: 15 }, { wch: 25 }, { wch: 40 }, { wch: 10 }, { wch: 60 }
+        ];
+
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, ws, 'Students');
+        const baseName = file?.name.replace(/\.[^.]+$/, '') || 'student_import';
+        XLSX.writeFile(wb, `${baseName}_errors.xlsx`);
+    };
+
     // Reset to start over
     const handleReset = () => {
         setFile(null);
         setParsedData([]);
+        setSelectedRows(new Set());
+        setSheet(null);
+        setColumnMapping({});
+        setFixedAcademicYear('');
         setImportResult(null);
         setError(null);
         setStep('upload');
@@ -512,6 +436,29 @@ const ImportStudentsPage = () => {
     // Count valid/invalid rows
     const validCount = parsedData.filter(row => row.isValid).length;
     const invalidCount = parsedData.filter(row => !row.isValid).length;
+    const selectedCount = parsedData.filter(row => isRowSelectable(row) && selectedRows.has(row.rowNumber)).length;
+    const selectableCount = parsedData.filter(isRowSelectable).length;
+    const rowDiffs = new Map<number, ImportRowDiff>();
+    const changeCounts = { new: 0, changed: 0, unchanged: 0 };
+    parsedData.forEach(row => {
+        const diff = getRowDiff(row);
+        if (!diff) return;
+        rowDiffs.set(row.rowNumber, diff);
+        changeCounts[diff.change]++;
+    });
+
+    const getFieldLabel = (field: string) => t(`import.columns.${field === 'className' ? 'class' : field}`);
+    const formatError = (error: ImportCellError) => t(`import.validation.${error.key}`, error.params);
+
+    // Highlight a preview cell that has validation errors and list them on hover
+    const getCellProps = (row: ImportStudentRow, field: ImportField, className: string) => {
+        const cellErrors = row.errors.filter(error => error.field === field);
+        if (cellErrors.length === 0) return { className };
+        return {
+            className: `${className} bg-red-100 ring-1 ring-inset ring-red-300`,
+            title: cellErrors.map(formatError).join('\n')
+        };
+    };
 
     if (loadingValidation) {
         return (
@@ -535,31 +482,26 @@ const ImportStudentsPage = () => {
             {/* Progress Steps */}
             <div className="mb-6 sm:mb-8">
                 <div className="flex items-center justify-center">
-                    <div className={`flex items-center ${step === 'upload' ? 'text-blue-600' : 'text-green-600'}`}>
-                        <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center text-sm sm:text-base ${step === 'upload' ? 'bg-blue-100 border-2 border-blue-600' : 'bg-green-100'
-                            }`}>
-                            {step === 'upload' ? '1' : <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" />}
-                        </div>
-                        <span className="ml-1 sm:ml-2 text-xs sm:text-sm font-medium hidden sm:inline">{t('import.steps.upload')}</span>
-                    </div>
-                    <div className={`w-8 sm:w-24 h-1 mx-2 sm:mx-4 ${step !== 'upload' ? 'bg-green-500' : 'bg-gray-200'}`} />
-                    <div className={`flex items-center ${step === 'preview' ? 'text-blue-600' : step === 'result' ? 'text-green-600' : 'text-gray-400'
-                        }`}>
-                        <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center text-sm sm:text-base ${step === 'preview' ? 'bg-blue-100 border-2 border-blue-600' :
-                            step === 'result' ? 'bg-green-100' : 'bg-gray-100'
-                            }`}>
-                            {step === 'result' ? <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" /> : '2'}
-                        </div>
-                        <span className="ml-1 sm:ml-2 text-xs sm:text-sm font-medium hidden sm:inline">{t('import.steps.preview')}</span>
-                    </div>
-                    <div className={`w-8 sm:w-24 h-1 mx-2 sm:mx-4 ${step === 'result' ? 'bg-green-500' : 'bg-gray-200'}`} />
-                    <div className={`flex items-center ${step === 'result' ? 'text-green-600' : 'text-gray-400'}`}>
-                        <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center text-sm sm:text-base ${step === 'result' ? 'bg-green-100' : 'bg-gray-100'
-                            }`}>
-                            {step === 'result' ? <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" /> : '3'}
-                        </div>
-                        <span className="ml-1 sm:ml-2 text-xs sm:text-sm font-medium hidden sm:inline">{t('import.steps.result')}</span>
-                    </div>
+                    {IMPORT_STEPS.map((stepKey, index) => {
+                        const currentIndex = IMPORT_STEPS.indexOf(step);
+                        const isDone = index < currentIndex || step === 'result';
+                        const isCurrent = stepKey === step && !isDone;
+                        return (
+                            <div key={stepKey} className="flex items-center">
+                                {index > 0 && (
+                                    <div className={`w-6 sm:w-16 h-1 mx-2 sm:mx-4 ${index <= currentIndex ? 'bg-green-500' : 'bg-gray-200'}`} />
+                                )}
+                                <div className={`flex items-center ${isCurrent ? 'text-blue-600' : isDone ? 'text-green-600' : 'text-gray-400'}`}>
+                                    <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full flex items-center justify-center text-sm sm:text-base ${isCurrent ? 'bg-blue-100 border-2 border-blue-600' :
+                                        isDone ? 'bg-green-100' : 'bg-gray-100'
+                                        }`}>
+                                        {isDone ? <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" /> : index + 1}
+                                    </div>
+                                    <span className="ml-1 sm:ml-2 text-xs sm:text-sm font-medium hidden sm:inline">{t(`import.steps.${stepKey}`)}</span>
+                                </div>
+                            </div>
+                        );
+                    })}
                 </div>
             </div>
 
@@ -632,6 +574,39 @@ const ImportStudentsPage = () => {
                         </div>
                     )}
 
+                    {/* Import Mode */}
+                    <div className="mb-4 sm:mb-6">
+                        <h3 className="font-medium text-gray-900 mb-2 sm:mb-3 text-sm sm:text-base">{t('import.mode.title')}</h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {([
+                                { mode: 'create', icon: UserPlus },
+                                { mode: 'upsert', icon: RefreshCw }
+                            ] as const).map(({ mode, icon: Icon }) => {
+                                const disabled = mode === 'upsert' && !existingStudents;
+                                return (
+                                    <button
+                                        key={mode}
+                                        type="button"
+                                        onClick={() => setImportMode(mode)}
+                                        disabled={disabled}
+                                        className={`p-3 sm:p-4 rounded-lg border-2 text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${importMode === mode
+                                            ? 'border-blue-600 bg-blue-50'
+                                            : 'border-gray-200 hover:border-blue-300'
+                                            }`}
+                                    >
+                                        <div className="flex items-center gap-2 font-medium text-gray-900 text-sm sm:text-base">
+                                            <Icon className={`w-4 h-4 ${importMode === mode ? 'text-blue-600' : 'text-gray-500'}`} />
+                                            {t(`import.mode.${mode}`)}
+                                        </div>
+                                        <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                                            {disabled ? t('import.mode.upsertUnavailable') : t(`import.mode.${mode}Description`)}
+                                        </p>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
                     {/* Download Template */}
                     <div className="mb-6 sm:mb-8 p-3 sm:p-4 bg-blue-50 border border-blue-200 rounded-lg">
                         <div className="flex flex-col sm:flex-row items-start gap-3 sm:gap-4">
@@ -724,11 +699,29 @@ const ImportStudentsPage = () => {
                         <p className="text-xs text-gray-500 mt-2">
                             <span className="text-red-500">*</span> {t('import.columns.requiredNote')}
                         </p>
+                        <p className="text-xs text-gray-500 mt-1">{t('import.columns.mappingNote')}</p>
                     </div>
                 </div>
             )}
 
-            {/* Step 2: Preview */}
+            {/* Step 2: Column Mapping */}
+            {step === 'mapping' && sheet && (
+                <ColumnMappingStep
+                    headers={sheet.headers}
+                    sampleRow={sheet.sampleRow}
+                    mapping={columnMapping}
+                    onMappingChange={setColumnMapping}
+                    academicYears={validationData?.academicYears.map(y => y.yearName) || []}
+                    fixedAcademicYear={fixedAcademicYear}
+                    onFixedAcademicYearChange={setFixedAcademicYear}
+                    presets={mappingPresets}
+                    onSavePresets={handleSavePresets}
+                    onBack={handleReset}
+                    onContinue={handleContinueMapping}
+                />
+            )}
+
+            {/* Step 3: Preview */}
             {step === 'preview' && (
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200">
                     {/* Summary */}
@@ -755,8 +748,33 @@ const ImportStudentsPage = () => {
                                         </span>
                                     </div>
                                 )}
+                                {importMode === 'upsert' && rowDiffs.size > 0 && (
+                                    <div className="flex items-center gap-3 text-xs sm:text-sm">
+                                        <span className="text-blue-700">{t('import.diff.new')}: <strong>{changeCounts.new}</strong></span>
+                                        <span className="text-amber-700">{t('import.diff.changed')}: <strong>{changeCounts.changed}</strong></span>
+                                        <span className="text-gray-500">{t('import.diff.unchanged')}: <strong>{changeCounts.unchanged}</strong></span>
+                                    </div>
+                                )}
                             </div>
                             <div className="flex items-center gap-2 sm:gap-3">
+                                {invalidCount > 0 && (
+                                    <button
+                                        onClick={handleDownloadErrors}
+                                        className="flex-1 sm:flex-none px-3 sm:px-4 py-2 border border-red-300 rounded-lg text-red-700 hover:bg-red-50 active:bg-red-100 text-sm flex items-center justify-center gap-2"
+                                        title={t('import.preview.downloadErrorsHint')}
+                                    >
+                                        <FileDown className="w-4 h-4" />
+                                        <span className="hidden sm:inline">{t('import.preview.downloadErrors', { count: invalidCount })}</span>
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setStep('mapping')}
+                                    className="flex-1 sm:flex-none px-3 sm:px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 active:bg-gray-100 text-sm flex items-center justify-center gap-2"
+                                    title={t('import.preview.editMapping')}
+                                >
+                                    <Columns className="w-4 h-4" />
+                                    <span className="hidden sm:inline">{t('import.preview.editMapping')}</span>
+                                </button>
                                 <button
                                     onClick={handleReset}
                                     className="flex-1 sm:flex-none px-3 sm:px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 active:bg-gray-100 text-sm"
@@ -765,7 +783,7 @@ const ImportStudentsPage = () => {
                                 </button>
                                 <button
                                     onClick={handleImport}
-                                    disabled={importing || validCount === 0}
+                                    disabled={importing || selectedCount === 0}
                                     className="flex-1 sm:flex-none px-4 sm:px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 active:bg-blue-800 disabled:bg-blue-400 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-sm"
                                 >
                                     {importing ? (
@@ -777,8 +795,8 @@ const ImportStudentsPage = () => {
                                     ) : (
                                         <>
                                             <Upload className="w-4 h-4" />
-                                            <span className="hidden sm:inline">{t('import.preview.importValid', { count: validCount })}</span>
-                                            <span className="sm:hidden">Import ({validCount})</span>
+                                            <span className="hidden sm:inline">{t('import.preview.importSelected', { count: selectedCount })}</span>
+                                            <span className="sm:hidden">Import ({selectedCount})</span>
                                         </>
                                     )}
                                 </button>
@@ -786,70 +804,135 @@ const ImportStudentsPage = () => {
                         </div>
                     </div>
 
+                    {/* Existing students in create mode */}
+                    {importMode === 'create' && changeCounts.changed + changeCounts.unchanged > 0 && (
+                        <div className="mx-3 sm:mx-4 mt-3 sm:mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs sm:text-sm text-amber-800">
+                            {t('import.diff.existsInCreateMode', { count: changeCounts.changed + changeCounts.unchanged })}
+                        </div>
+                    )}
+
                     {/* Data Table */}
                     <div className="overflow-x-auto">
                         <table className="min-w-full divide-y divide-gray-200">
                             <thead className="bg-gray-50">
                                 <tr>
+                                    <th className="px-2 sm:px-4 py-2 sm:py-3 text-left">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectableCount > 0 && selectedCount === selectableCount}
+                                            onChange={toggleAllRows}
+                                            disabled={selectableCount === 0}
+                                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            title={t('import.preview.selectAll')}
+                                        />
+                                    </th>
                                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">#</th>
                                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.columns.studentCode')}</th>
                                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.columns.fullName')}</th>
                                     <th className="hidden sm:table-cell px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.columns.academicYear')}</th>
                                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.columns.class')}</th>
                                     <th className="hidden md:table-cell px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.columns.gender')}</th>
+                                    <th className="hidden lg:table-cell px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.columns.dateOfBirth')}</th>
+                                    <th className="hidden lg:table-cell px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.columns.parentContact')}</th>
                                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.preview.status')}</th>
+                                    {rowDiffs.size > 0 && (
+                                        <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.diff.title')}</th>
+                                    )}
                                     <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('import.preview.actions')}</th>
                                 </tr>
                             </thead>
                             <tbody className="bg-white divide-y divide-gray-200">
-                                {parsedData.map((row) => (
-                                    <tr key={row.rowNumber} className={row.isValid ? '' : 'bg-red-50'}>
-                                        <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500">{row.rowNumber}</td>
-                                        <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium text-gray-900">{row.studentCode}</td>
-                                        <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900">
-                                            {row.fullName}
-                                            {/* Show class on mobile */}
-                                            <span className="sm:hidden block text-xs text-gray-400 mt-0.5">{row.academicYear}</span>
-                                        </td>
-                                        <td className="hidden sm:table-cell px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500">{row.academicYear}</td>
-                                        <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500">{row.className}</td>
-                                        <td className="hidden md:table-cell px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500">{row.gender}</td>
-                                        <td className="px-2 sm:px-4 py-2 sm:py-3">
-                                            {row.isValid ? (
-                                                <span className="inline-flex items-center gap-1 px-1.5 sm:px-2 py-0.5 sm:py-1 text-xs font-medium text-green-700 bg-green-100 rounded-full">
-                                                    <CheckCircle className="w-3 h-3" />
-                                                    <span className="hidden sm:inline">{t('import.preview.valid')}</span>
-                                                </span>
-                                            ) : (
-                                                <div>
-                                                    <span className="inline-flex items-center gap-1 px-1.5 sm:px-2 py-0.5 sm:py-1 text-xs font-medium text-red-700 bg-red-100 rounded-full">
-                                                        <AlertCircle className="w-3 h-3" />
-                                                        <span className="hidden sm:inline">{t('import.preview.invalid')}</span>
+                                {parsedData.map((row) => {
+                                    const diff = rowDiffs.get(row.rowNumber);
+                                    const selectable = isRowSelectable(row);
+                                    return (
+                                        <tr key={row.rowNumber} className={!row.isValid ? 'bg-red-50' : selectable && selectedRows.has(row.rowNumber) ? '' : 'bg-gray-50 opacity-60'}>
+                                            <td className="px-2 sm:px-4 py-2 sm:py-3">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectable && selectedRows.has(row.rowNumber)}
+                                                    onChange={() => toggleRow(row.rowNumber)}
+                                                    disabled={!selectable}
+                                                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-40"
+                                                />
+                                            </td>
+                                            <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500">{row.rowNumber}</td>
+                                            <td {...getCellProps(row, 'studentCode', 'px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium text-gray-900')}>{row.studentCode}</td>
+                                            <td {...getCellProps(row, 'fullName', 'px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900')}>
+                                                {row.fullName}
+                                                {/* Show class on mobile */}
+                                                <span className="sm:hidden block text-xs text-gray-400 mt-0.5">{row.academicYear}</span>
+                                            </td>
+                                            <td {...getCellProps(row, 'academicYear', 'hidden sm:table-cell px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500')}>{row.academicYear}</td>
+                                            <td {...getCellProps(row, 'className', 'px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500')}>{row.className}</td>
+                                            <td {...getCellProps(row, 'gender', 'hidden md:table-cell px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500')}>{row.gender}</td>
+                                            <td {...getCellProps(row, 'dateOfBirth', 'hidden lg:table-cell px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500 whitespace-nowrap')}>{row.dateOfBirth}</td>
+                                            <td {...getCellProps(row, 'parentContact', 'hidden lg:table-cell px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-500 whitespace-nowrap')}>{row.parentContact}</td>
+                                            <td className="px-2 sm:px-4 py-2 sm:py-3">
+                                                {row.isValid ? (
+                                                    <span className="inline-flex items-center gap-1 px-1.5 sm:px-2 py-0.5 sm:py-1 text-xs font-medium text-green-700 bg-green-100 rounded-full">
+                                                        <CheckCircle className="w-3 h-3" />
+                                                        <span className="hidden sm:inline">{t('import.preview.valid')}</span>
                                                     </span>
-                                                    <div className="mt-1 text-xs text-red-600 max-w-[150px] sm:max-w-none truncate sm:whitespace-normal">
-                                                        {row.errors.join(', ')}
+                                                ) : (
+                                                    <div>
+                                                        <span className="inline-flex items-center gap-1 px-1.5 sm:px-2 py-0.5 sm:py-1 text-xs font-medium text-red-700 bg-red-100 rounded-full">
+                                                            <AlertCircle className="w-3 h-3" />
+                                                            <span className="hidden sm:inline">{t('import.preview.invalid')}</span>
+                                                        </span>
+                                                        <div className="mt-1 text-xs text-red-600 max-w-[150px] sm:max-w-none truncate sm:whitespace-normal">
+                                                            {row.errors.map(formatError).join(', ')}
+                                                        </div>
                                                     </div>
-                                                </div>
+                                                )}
+                                            </td>
+                                            {rowDiffs.size > 0 && (
+                                                <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs">
+                                                    {diff && (importMode === 'create' && diff.change !== 'new' ? (
+                                                        <span className="px-2 py-0.5 font-medium text-amber-700 bg-amber-100 rounded-full">{t('import.diff.exists')}</span>
+                                                    ) : (
+                                                        <>
+                                                            <span className={`px-2 py-0.5 font-medium rounded-full ${diff.change === 'new'
+                                                                ? 'text-blue-700 bg-blue-100'
+                                                                : diff.change === 'changed' ? 'text-amber-700 bg-amber-100' : 'text-gray-600 bg-gray-100'
+                                                                }`}>
+                                                                {t(`import.diff.${diff.change}`)}
+                                                            </span>
+                                                            {diff.changes.length > 0 && (
+                                                                <ul className="mt-1.5 space-y-0.5 min-w-[200px]">
+                                                                    {diff.changes.map(change => (
+                                                                        <li key={change.field} className="text-gray-600">
+                                                                            <span className="font-medium">{getFieldLabel(change.field)}:</span>{' '}
+                                                                            <span className="line-through text-red-500">{change.before || '—'}</span>
+                                                                            {' → '}
+                                                                            <span className="text-green-700">{change.after}</span>
+                                                                        </li>
+                                                                    ))}
+                                                                </ul>
+                                                            )}
+                                                        </>
+                                                    ))}
+                                                </td>
                                             )}
-                                        </td>
-                                        <td className="px-2 sm:px-4 py-2 sm:py-3">
-                                            <button
-                                                onClick={() => handleRemoveRow(row.rowNumber)}
-                                                className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-lg transition-colors"
-                                                title={t('import.preview.remove')}
-                                            >
-                                                <Trash2 className="w-4 h-4" />
-                                            </button>
-                                        </td>
-                                    </tr>
-                                ))}
+                                            <td className="px-2 sm:px-4 py-2 sm:py-3">
+                                                <button
+                                                    onClick={() => handleRemoveRow(row.rowNumber)}
+                                                    className="p-1.5 text-red-600 hover:text-red-800 hover:bg-red-50 rounded-lg transition-colors"
+                                                    title={t('import.preview.remove')}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
                             </tbody>
                         </table>
                     </div>
                 </div>
             )}
 
-            {/* Step 3: Result */}
+            {/* Step 4: Result */}
             {step === 'result' && importResult && (
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-8">
                     <div className="text-center mb-6 sm:mb-8">
@@ -867,11 +950,24 @@ const ImportStudentsPage = () => {
                     </div>
 
                     {/* Stats */}
-                    <div className="grid grid-cols-3 gap-2 sm:gap-6 mb-6 sm:mb-8">
-                        <div className="bg-green-50 rounded-lg p-3 sm:p-6 text-center">
-                            <p className="text-xl sm:text-3xl font-bold text-green-600">{importResult.successCount}</p>
-                            <p className="text-xs sm:text-sm text-green-700 mt-1">{t('import.result.imported')}</p>
-                        </div>
+                    <div className={`grid gap-2 sm:gap-6 mb-6 sm:mb-8 ${importResult.updatedCount !== undefined ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-3'}`}>
+                        {importResult.updatedCount !== undefined ? (
+                            <>
+                                <div className="bg-green-50 rounded-lg p-3 sm:p-6 text-center">
+                                    <p className="text-xl sm:text-3xl font-bold text-green-600">{importResult.createdCount ?? 0}</p>
+                                    <p className="text-xs sm:text-sm text-green-700 mt-1">{t('import.result.created')}</p>
+                                </div>
+                                <div className="bg-blue-50 rounded-lg p-3 sm:p-6 text-center">
+                                    <p className="text-xl sm:text-3xl font-bold text-blue-600">{importResult.updatedCount}</p>
+                                    <p className="text-xs sm:text-sm text-blue-700 mt-1">{t('import.result.updated')}</p>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="bg-green-50 rounded-lg p-3 sm:p-6 text-center">
+                                <p className="text-xl sm:text-3xl font-bold text-green-600">{importResult.successCount}</p>
+                                <p className="text-xs sm:text-sm text-green-700 mt-1">{t('import.result.imported')}</p>
+                            </div>
+                        )}
                         <div className="bg-red-50 rounded-lg p-3 sm:p-6 text-center">
                             <p className="text-xl sm:text-3xl font-bold text-red-600">{importResult.failedCount}</p>
                             <p className="text-xs sm:text-sm text-red-700 mt-1">{t('import.result.failed')}</p>
@@ -2,35 +2,14 @@
 import { useTranslation } from 'react-i18next';
 import {
     Camera, X, CheckCircle, AlertCircle, RefreshCw, FlipHorizontal,
-    Clock, User, Lightbulb, ArrowLeft, AlertTriangle, UserX
+    Clock, User, Lightbulb, ArrowLeft, AlertTriangle, UserX, Monitor, CloudOff, UserCheck
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import api from '../services/api';
+import { lateCheckInService, type LateCheckInResult } from '../services/lateCheckInService';
+import { useLateCheckInQueue } from '../hooks/useLateCheckInQueue';
 import LanguageSwitcherCompact from '../components/LanguageSwitcherCompact';
-
-// Late check-in result interface
-interface LateCheckInResult {
-    success: boolean;
-    isRecognized: boolean;
-    studentCode?: string;
-    studentName?: string;
-    facesDetected: number;
-    confidence: number;
-    distance: number;
-    checkInTime?: string;
-    attendanceId?: number;
-    snapshotUrl?: string;
-    remarks?: string;
-    message: string;
-}
-
-interface ApiResponse<T> {
-    success: boolean;
-    data: T;
-    message: string;
-    messageKey: string;
-    errors?: string[];
-}
+import LateCheckInKiosk from '../components/LateCheckIn/LateCheckInKiosk';
+import ManualCheckInPanel from '../components/LateCheckIn/ManualCheckInPanel';
 
 const LateCheckInPage = () => {
     const { t } = useTranslation();
@@ -49,6 +28,18 @@ const LateCheckInPage = () => {
     const [countdown, setCountdown] = useState<number | null>(null);
     const [showTips, setShowTips] = useState(false);
     const [result, setResult] = useState<LateCheckInResult | null>(null);
+    const [kioskMode, setKioskMode] = useState(false);
+    const [showManual, setShowManual] = useState(false);
+    const [isReviewing, setIsReviewing] = useState(false);
+    const checkInQueue = useLateCheckInQueue();
+    // Offline captures that were not recorded, oldest first
+    const reviewItem = isReviewing ? checkInQueue.unresolved[0] ?? null : null;
+
+    // Move on to the next unresolved capture, or close the review after the last one
+    const resolveReviewItem = (id: string) => {
+        if (checkInQueue.unresolved.length <= 1) setIsReviewing(false);
+        checkInQueue.resolve(id);
+    };
 
     // Prevent body scroll
     useEffect(() => {
@@ -58,15 +49,16 @@ const LateCheckInPage = () => {
         };
     }, []);
 
-    // Initialize camera on mount
+    // Initialize camera on mount; kiosk mode runs its own camera
     useEffect(() => {
+        if (kioskMode) return;
         initCamera();
         checkMultipleCameras();
         return () => {
             stopCamera();
         };
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [facingMode]);
+    }, [facingMode, kioskMode]);
 
     // Check if device has multiple cameras
     const checkMultipleCameras = async () => {
@@ -208,27 +200,7 @@ const LateCheckInPage = () => {
             const response = await fetch(capturedImage);
             const blob = await response.blob();
 
-            // Create form data
-            const formData = new FormData();
-            formData.append('image', blob, `late_checkin_${Date.now()}.jpg`);
-            formData.append('remarks', t('lateCheckIn.remarkText', 'Late check-in via kiosk'));
-
-            // Call API
-            const apiResponse = await api.post<ApiResponse<LateCheckInResult>>(
-                '/api/LateRecognition/check-in-late',
-                formData,
-                {
-                    headers: {
-                        'Content-Type': 'multipart/form-data'
-                    }
-                }
-            );
-
-            if (apiResponse.data.success && apiResponse.data.data) {
-                setResult(apiResponse.data.data);
-            } else {
-                setError(apiResponse.data.message || t('lateCheckIn.checkInFailed', 'Check-in failed'));
-            }
+            setResult(await lateCheckInService.checkIn(blob, t('lateCheckIn.remarkText', 'Late check-in via kiosk')));
         } catch (err: unknown) {
             console.error('Check-in error:', err);
             if (err && typeof err === 'object' && 'response' in err) {
@@ -238,7 +210,7 @@ const LateCheckInPage = () => {
                     t('lateCheckIn.checkInFailed', 'Check-in failed');
                 setError(errorMsg);
             } else {
-                setError(t('lateCheckIn.checkInFailed', 'Check-in failed'));
+                setError((err instanceof Error && err.message) || t('lateCheckIn.checkInFailed', 'Check-in failed'));
             }
         } finally {
             setIsLoading(false);
@@ -249,6 +221,7 @@ const LateCheckInPage = () => {
     const resetCapture = () => {
         setCapturedImage(null);
         setResult(null);
+        setShowManual(false);
         setError('');
         initCamera();
     };
@@ -267,6 +240,10 @@ const LateCheckInPage = () => {
         return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
     };
 
+    if (kioskMode) {
+        return <LateCheckInKiosk queue={checkInQueue} onExit={() => setKioskMode(false)} />;
+    }
+
     return (
         <div className="fixed inset-0 z-50 overflow-hidden">
             {/* Full screen dark background */}
@@ -297,6 +274,32 @@ const LateCheckInPage = () => {
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
+                        {checkInQueue.unresolved.length > 0 && (
+                            <button
+                                onClick={() => setIsReviewing(true)}
+                                className="px-2.5 py-1 rounded-full text-xs font-medium bg-red-500/20 text-red-300 hover:bg-red-500/30 flex items-center gap-1.5 transition-colors"
+                                title={t('lateCheckIn.review.hint')}
+                            >
+                                <UserX className="w-3.5 h-3.5" />
+                                {checkInQueue.unresolved.length}
+                            </button>
+                        )}
+                        {checkInQueue.pending > 0 && (
+                            <span
+                                className="px-2.5 py-1 rounded-full text-xs font-medium bg-yellow-500/20 text-yellow-300 flex items-center gap-1.5"
+                                title={t('lateCheckIn.kiosk.pendingHint')}
+                            >
+                                <CloudOff className="w-3.5 h-3.5" />
+                                {checkInQueue.pending}
+                            </span>
+                        )}
+                        <button
+                            onClick={() => setKioskMode(true)}
+                            className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                            title={t('lateCheckIn.kiosk.start')}
+                        >
+                            <Monitor className="w-5 h-5" />
+                        </button>
                         <LanguageSwitcherCompact />
                         <button
                             onClick={() => setShowTips(!showTips)}
@@ -326,11 +329,51 @@ const LateCheckInPage = () => {
                 {/* Main Content */}
                 <div className="flex-1 relative overflow-hidden">
 
+                    {/* Offline capture that needs a manual check-in; drawn over the camera so it keeps running */}
+                    {reviewItem && (
+                        <div className="absolute inset-0 flex items-center justify-center bg-gray-900 p-4 z-30">
+                            <div className="w-full max-w-sm space-y-3">
+                                <div className="bg-red-500/10 border border-red-500/40 rounded-2xl p-4 text-sm">
+                                    <p className="text-red-300 font-medium">
+                                        {reviewItem.reason === 'notRecognized'
+                                            ? t('lateCheckIn.review.notRecognized', { time: formatTime(reviewItem.capturedAt) })
+                                            : t('lateCheckIn.review.rejected', { time: formatTime(reviewItem.capturedAt) })}
+                                    </p>
+                                    {reviewItem.message && <p className="text-gray-400 mt-1">{reviewItem.message}</p>}
+                                    <button
+                                        onClick={() => {
+                                            if (confirm(t('lateCheckIn.review.confirmDiscard'))) resolveReviewItem(reviewItem.id);
+                                        }}
+                                        className="mt-2 text-xs text-gray-400 hover:text-white underline"
+                                    >
+                                        {t('lateCheckIn.review.discard')}
+                                    </button>
+                                </div>
+                                <ManualCheckInPanel
+                                    key={reviewItem.id}
+                                    snapshot={reviewItem.image}
+                                    capturedAt={reviewItem.capturedAt}
+                                    onSuccess={() => resolveReviewItem(reviewItem.id)}
+                                    onCancel={() => setIsReviewing(false)}
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {/* Show Result */}
                     {result ? (
                         <div className="absolute inset-0 flex items-center justify-center bg-gray-900 p-4">
                             <div className="w-full max-w-sm">
-                                {result.success && result.isRecognized ? (
+                                {showManual && capturedImage ? (
+                                    <ManualCheckInPanel
+                                        snapshot={capturedImage}
+                                        onSuccess={(manualResult) => {
+                                            setShowManual(false);
+                                            setResult(manualResult);
+                                        }}
+                                        onCancel={() => setShowManual(false)}
+                                    />
+                                ) : result.success && (result.isRecognized || result.isManual) ? (
                                     // Success Result
                                     <div className="bg-green-500/20 border border-green-500/50 rounded-2xl p-6 text-center">
                                         <div className="w-20 h-20 mx-auto mb-4 bg-green-500/30 rounded-full flex items-center justify-center">
@@ -357,7 +400,9 @@ const LateCheckInPage = () => {
                                             </div>
                                         </div>
                                         <p className="text-sm text-gray-400 mb-4">
-                                            {t('lateCheckIn.confidenceLevel', 'Confidence')}: {result.confidence.toFixed(1)}%
+                                            {result.isManual
+                                                ? t('lateCheckIn.manual.recorded', 'Recorded manually for review')
+                                                : `${t('lateCheckIn.confidenceLevel', 'Confidence')}: ${result.confidence.toFixed(1)}%`}
                                         </p>
                                         <button
                                             onClick={resetCapture}
@@ -392,6 +437,15 @@ const LateCheckInPage = () => {
                                             <RefreshCw className="w-5 h-5" />
                                             {t('lateCheckIn.tryAgain', 'Try Again')}
                                         </button>
+                                        {capturedImage && (
+                                            <button
+                                                onClick={() => setShowManual(true)}
+                                                className="w-full mt-3 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-xl transition-colors flex items-center justify-center gap-2"
+                                            >
+                                                <UserCheck className="w-5 h-5" />
+                                                {t('lateCheckIn.manual.start', 'Check In Manually')}
+                                            </button>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -1,5 +1,6 @@
 ﻿import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
 import {
     Clock,
     Search,
@@ -12,32 +13,16 @@ import {
     ChevronRight,
     Eye,
     RefreshCw,
-    Building2
+    Building2,
+    CalendarOff,
+    UserCheck
 } from 'lucide-react';
 import axios from 'axios';
 import api from '../services/api';
-
-interface LateRecord {
-    attendanceId: number;
-    studentCode: string;
-    studentName: string;
-    gradeName: string;
-    className: string;
-    attendanceDate: string;
-    checkInTime: string;
-    snapshotPath: string;
-    remarks: string;
-}
-
-interface LateSummary {
-    date: string;
-    totalLate: number;
-    totalPresent: number;
-    totalAbsent: number;
-    latePercentage: number;
-    lateByGrade: { gradeId: number; gradeName: string; lateCount: number }[];
-    lateByClass: { classId: number; className: string; gradeName: string; lateCount: number }[];
-}
+import { MANUAL_CHECK_IN_REMARK } from '../services/lateCheckInService';
+import { schoolCalendarService } from '../services/schoolCalendarService';
+import { buildSchoolCalendar, isSchoolDay } from '../utils/schoolCalendar';
+import type { LateRecord, LateSummary } from '../types';
 
 interface Grade {
     gradeID: number;
@@ -53,6 +38,7 @@ interface Class {
 const LateStudentsReportPage = () => {
     const { t } = useTranslation();
     const [records, setRecords] = useState<LateRecord[]>([]);
+    const [closedDayCount, setClosedDayCount] = useState(0);
     const [summary, setSummary] = useState<LateSummary | null>(null);
     const [grades, setGrades] = useState<Grade[]>([]);
     const [classes, setClasses] = useState<Class[]>([]);
@@ -66,6 +52,7 @@ const LateStudentsReportPage = () => {
     const [selectedGradeId, setSelectedGradeId] = useState<number | null>(null);
     const [selectedClassId, setSelectedClassId] = useState<number | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
+    const [manualOnly, setManualOnly] = useState(false);
 
     // Pagination
     const [currentPage, setCurrentPage] = useState(1);
@@ -126,9 +113,17 @@ const LateStudentsReportPage = () => {
             if (selectedGradeId) params.append('gradeId', selectedGradeId.toString());
             if (selectedClassId) params.append('classId', selectedClassId.toString());
 
-            const response = await api.get(`/laterecognition/report?${params.toString()}`);
+            const [response, calendarRange] = await Promise.all([
+                api.get(`/laterecognition/report?${params.toString()}`),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
             if (response.data.success) {
-                setRecords(response.data.data.records || []);
+                // Check-ins at weekend or holiday activities are not late arrivals
+                const calendar = buildSchoolCalendar(calendarRange);
+                const all: LateRecord[] = response.data.data.records || [];
+                const schoolDayRecords = all.filter(r => isSchoolDay(calendar, r.attendanceDate));
+                setRecords(schoolDayRecords);
+                setClosedDayCount(all.length - schoolDayRecords.length);
             } else {
                 setError(response.data.message || 'Failed to fetch report');
             }
@@ -158,9 +153,10 @@ const LateStudentsReportPage = () => {
     };
 
     const getFilteredRecords = () => {
-        if (!searchTerm.trim()) return records;
+        const base = manualOnly ? records.filter(r => r.isManual) : records;
+        if (!searchTerm.trim()) return base;
         const term = searchTerm.toLowerCase();
-        return records.filter(record =>
+        return base.filter(record =>
             record.studentCode.toLowerCase().includes(term) ||
             record.studentName.toLowerCase().includes(term) ||
             record.className?.toLowerCase().includes(term) ||
@@ -168,6 +164,7 @@ const LateStudentsReportPage = () => {
         );
     };
 
+    const manualCount = records.filter(r => r.isManual).length;
     const filteredRecords = getFilteredRecords();
     const totalPages = Math.ceil(filteredRecords.length / itemsPerPage);
     const startIndex = (currentPage - 1) * itemsPerPage;
@@ -185,11 +182,14 @@ const LateStudentsReportPage = () => {
         return date.toLocaleDateString('en-MY', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
     };
 
+    const formatRemarks = (remarks?: string) =>
+        remarks === MANUAL_CHECK_IN_REMARK ? t('lateCheckIn.manual.remarkText', 'Manual late check-in (face not recognized)') : remarks || '';
+
     const exportToCSV = () => {
-        const headers = ['Date', 'Time', 'Student Code', 'Student Name', 'Grade', 'Class', 'Remarks'];
+        const headers = ['Date', 'Time', 'Student Code', 'Student Name', 'Grade', 'Class', 'Method', 'Remarks'];
         const rows = filteredRecords.map(r => [
             formatDate(r.attendanceDate), formatTime(r.checkInTime), r.studentCode, r.studentName,
-            r.gradeName || '-', r.className || '-', r.remarks || ''
+            r.gradeName || '-', r.className || '-', r.isManual ? 'Manual' : 'Face', formatRemarks(r.remarks)
         ]);
         const csvContent = [headers.join(','), ...rows.map(row => row.map(cell => `"${cell}"`).join(','))].join('\n');
 
@@ -322,6 +322,28 @@ const LateStudentsReportPage = () => {
                 </div>
             </div>
 
+            {closedDayCount > 0 && (
+                <div className="flex items-center gap-3 bg-gray-50 border border-gray-200 text-gray-700 px-4 py-3 rounded-lg text-sm">
+                    <CalendarOff className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                    {t('lateReport.closedDaysHidden', '{{count}} check-ins on weekends or holidays are not counted as late.', { count: closedDayCount })}
+                </div>
+            )}
+
+            {(manualCount > 0 || manualOnly) && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-purple-50 border border-purple-200 text-purple-800 px-4 py-3 rounded-lg text-sm">
+                    <div className="flex items-center gap-3">
+                        <UserCheck className="w-5 h-5 text-purple-500 flex-shrink-0" />
+                        {t('lateReport.manualNotice', '{{count}} check-ins were recorded manually after face recognition failed. Check their snapshots.', { count: manualCount })}
+                    </div>
+                    <button
+                        onClick={() => { setManualOnly(!manualOnly); setCurrentPage(1); }}
+                        className="px-3 py-1.5 bg-white border border-purple-300 hover:bg-purple-100 rounded-lg text-xs font-medium whitespace-nowrap transition-colors"
+                    >
+                        {manualOnly ? t('lateReport.showAll', 'Show all') : t('lateReport.showManualOnly', 'Show manual only')}
+                    </button>
+                </div>
+            )}
+
             {/* Records Table */}
             <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
                 {isLoading ? (
@@ -362,12 +384,22 @@ const LateStudentsReportPage = () => {
                                                 <span className="inline-flex items-center gap-1.5 px-2.5 py-1 bg-amber-100 text-amber-700 rounded-full text-sm font-medium">
                                                     <Clock className="w-3.5 h-3.5" />{formatTime(record.checkInTime)}
                                                 </span>
+                                                {record.isManual && (
+                                                    <span
+                                                        className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs font-medium"
+                                                        title={t('lateReport.manualHint', 'Checked in by staff after face recognition failed')}
+                                                    >
+                                                        <UserCheck className="w-3 h-3" />{t('lateReport.manual', 'Manual')}
+                                                    </span>
+                                                )}
                                             </td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700">{record.studentCode}</td>
-                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{record.studentName}</td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                                <Link to={`/students/${encodeURIComponent(record.studentCode)}`} className="hover:text-blue-600 hover:underline">{record.studentName}</Link>
+                                            </td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{record.gradeName || '-'}</td>
                                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">{record.className || '-'}</td>
-                                            <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{record.remarks || '-'}</td>
+                                            <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">{formatRemarks(record.remarks) || '-'}</td>
                                             <td className="px-6 py-4 whitespace-nowrap text-center">
                                                 {record.snapshotPath ? (
                                                     <button onClick={() => setPreviewImage(record.snapshotPath)} className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors" title={t('lateReport.viewSnapshot', 'View Snapshot')}>
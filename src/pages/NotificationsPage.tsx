@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BellRing, ScrollText, Send, FileText } from 'lucide-react';
+import NotificationLogTab from '../components/Notifications/NotificationLogTab';
+import SendAbsentTab from '../components/Notifications/SendAbsentTab';
+import TemplatesTab from '../components/Notifications/TemplatesTab';
+
+type NotificationTab = 'log' | 'send' | 'templates';
+
+const NotificationsPage = () => {
+    const { t } = useTranslation();
+    const [activeTab, setActiveTab] = useState<NotificationTab>('log');
+
+    const tabs: { key: NotificationTab; label: string; icon: React.ElementType }[] = [
+        { key: 'log', label: t('notifications.tabs.log', 'Notification Log'), icon: ScrollText },
+        { key: 'send', label: t('notifications.tabs.send', 'Notify Absent'), icon: Send },
+        { key: 'templates', label: t('notifications.tabs.templates', 'Templates'), icon: FileText },
+    ];
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center gap-2 sm:gap-3">
+                    <BellRing className="w-6 h-6 sm:w-8 sm:h-8 text-blue-600" />
+                    {t('notifications.title', 'Parent Notifications')}
+                </h1>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">
+                    {t('notifications.subtitle', 'See which parents were notified, resend failures and edit message templates')}
+                </p>
+            </div>
+
+            {/* Tabs */}
+            <div className="flex border-b overflow-x-auto">
+                {tabs.map(tab => (
+                    <button
+                        key={tab.key}
+                        onClick={() => setActiveTab(tab.key)}
+                        className={`px-4 sm:px-6 py-3 text-sm font-medium whitespace-nowrap border-b-2 flex items-center gap-2 transition-colors ${activeTab === tab.key
+                            ? 'border-blue-600 text-blue-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700'
+                            }`}
+                    >
+                        <tab.icon className="w-4 h-4" />
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            {activeTab === 'log' && <NotificationLogTab />}
+            {activeTab === 'send' && <SendAbsentTab />}
+            {activeTab === 'templates' && <TemplatesTab />}
+        </div>
+    );
+};
+
+export default NotificationsPage;
@@ -0,0 +1,381 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ScanFace, RefreshCw, ChevronDown, ChevronRight, Camera, UserX, Users, CheckCircle, ImageOff, AlertTriangle } from 'lucide-react';
+import api from '../services/api';
+import { authService } from '../services/authService';
+import { studentService, type StudentWithAcademic } from '../services/studentService';
+import StatCard from '../components/Common/StatCard';
+import PhotoCaptureModal from '../components/Students/PhotoCaptureModal';
+import {
+    ENOUGH_FACE_PHOTOS,
+    PHOTO_COVERAGE_LEVELS,
+    buildClassCoverage,
+    emptyCoverageCounts,
+    getCoverageLevel,
+    type PhotoCoverageLevel,
+    type StudentPhotoCoverage,
+} from '../utils/photoCoverage';
+
+interface AcademicYear {
+    academicYearID: number;
+    yearName: string;
+    isActive: boolean;
+}
+
+// Photo statistics are per student, so fetch them a few at a time
+const STATS_BATCH_SIZE = 8;
+
+const LEVEL_STYLES: Record<PhotoCoverageLevel, string> = {
+    none: 'bg-red-100 text-red-800',
+    one: 'bg-orange-100 text-orange-800',
+    few: 'bg-yellow-100 text-yellow-800',
+    enough: 'bg-green-100 text-green-800',
+    unknown: 'bg-gray-100 text-gray-700',
+};
+
+const LEVEL_BAR_COLORS: Record<PhotoCoverageLevel, string> = {
+    none: 'bg-red-500',
+    one: 'bg-orange-400',
+    few: 'bg-yellow-400',
+    enough: 'bg-green-500',
+    unknown: 'bg-gray-300',
+};
+
+const PhotoCoveragePage = () => {
+    const { t } = useTranslation();
+    const currentUser = authService.getCurrentUser();
+    const isTeacher = currentUser?.userRole === 'Teacher';
+
+    const [academicYears, setAcademicYears] = useState<AcademicYear[]>([]);
+    const [academicYearId, setAcademicYearId] = useState<number | null>(null);
+    const [students, setStudents] = useState<StudentPhotoCoverage[]>([]);
+    const [progress, setProgress] = useState({ loaded: 0, total: 0 });
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [showGapsOnly, setShowGapsOnly] = useState(true);
+    const [captureStudent, setCaptureStudent] = useState<StudentPhotoCoverage | null>(null);
+    const [isRetrying, setIsRetrying] = useState(false);
+
+    // Bumped on every load so a slow run for a previous year can't overwrite the current one
+    const loadRunRef = useRef(0);
+
+    useEffect(() => {
+        api.get('/academic-year')
+            .then(res => {
+                const years: AcademicYear[] = res.data.data || [];
+                setAcademicYears(years);
+                const activeYear = years.find(y => y.isActive);
+                if (activeYear) {
+                    setAcademicYearId(activeYear.academicYearID);
+                } else {
+                    loadCoverage(null);
+                }
+            })
+            .catch(() => loadCoverage(null));
+    }, []);
+
+    useEffect(() => {
+        if (academicYearId !== null) loadCoverage(academicYearId);
+    }, [academicYearId]);
+
+    const toCoverage = (student: StudentWithAcademic, activePhotos: number | null): StudentPhotoCoverage => ({
+        studentCode: student.studentCode,
+        fullName: student.fullName,
+        classID: student.classID,
+        className: student.className,
+        gradeName: student.gradeName,
+        activePhotos,
+        level: getCoverageLevel(activePhotos),
+    });
+
+    const loadCoverage = async (yearId: number | null) => {
+        const run = ++loadRunRef.current;
+        const schoolId = currentUser?.schoolID;
+        if (!schoolId) return;
+
+        setIsLoading(true);
+        setError('');
+        setStudents([]);
+        try {
+            let list = (await studentService.getStudentsBySchool(schoolId, yearId ?? undefined))
+                .filter(s => s.isActive);
+
+            // Teachers only see the classes they are assigned to
+            if (isTeacher) {
+                const classesRes = await api.get('/class/my-classes').catch(() => null);
+                const classIds = new Set<number>((classesRes?.data.data || []).map((c: { classID: number }) => c.classID));
+                list = list.filter(s => s.classID && classIds.has(s.classID));
+            }
+
+            setProgress({ loaded: 0, total: list.length });
+            const results: StudentPhotoCoverage[] = [];
+            for (let i = 0; i < list.length; i += STATS_BATCH_SIZE) {
+                const batch = list.slice(i, i + STATS_BATCH_SIZE);
+                const stats = await Promise.all(batch.map(s =>
+                    studentService.getPhotoStatistics(s.studentCode).catch(() => null)
+                ));
+                if (run !== loadRunRef.current) return;
+                // A failed lookup is unknown, not "no photos"; it can be retried below
+                batch.forEach((s, index) => results.push(toCoverage(s, stats[index]?.activePhotos ?? null)));
+                setStudents([...results]);
+                setProgress({ loaded: results.length, total: list.length });
+            }
+        } catch (err) {
+            console.error('Error loading photo coverage:', err);
+            if (run === loadRunRef.current) setError(t('photoCoverage.fetchFailed'));
+        } finally {
+            if (run === loadRunRef.current) setIsLoading(false);
+        }
+    };
+
+    // Look up again the students whose statistics failed to load
+    const retryUnknown = async () => {
+        const run = loadRunRef.current;
+        const unknown = students.filter(s => s.level === 'unknown');
+        setIsRetrying(true);
+        try {
+            for (let i = 0; i < unknown.length; i += STATS_BATCH_SIZE) {
+                const batch = unknown.slice(i, i + STATS_BATCH_SIZE);
+                const stats = await Promise.all(batch.map(s =>
+                    studentService.getPhotoStatistics(s.studentCode).catch(() => null)
+                ));
+                if (run !== loadRunRef.current) return;
+                const loaded = new Map<string, number>();
+                batch.forEach((s, index) => {
+                    if (stats[index]) loaded.set(s.studentCode, stats[index].activePhotos);
+                });
+                setStudents(prev => prev.map(s => {
+                    const activePhotos = loaded.get(s.studentCode);
+                    return activePhotos === undefined ? s : { ...s, activePhotos, level: getCoverageLevel(activePhotos) };
+                }));
+            }
+        } finally {
+            setIsRetrying(false);
+        }
+    };
+
+    // Refresh one student after new photos were captured
+    const refreshStudent = async (studentCode: string) => {
+        try {
+            const stats = await studentService.getPhotoStatistics(studentCode);
+            setStudents(prev => prev.map(s => s.studentCode === studentCode
+                ? { ...s, activePhotos: stats.activePhotos, level: getCoverageLevel(stats.activePhotos) }
+                : s));
+        } catch (err) {
+            console.error('Error refreshing photo statistics:', err);
+        }
+    };
+
+    const classes = buildClassCoverage(students);
+    const visibleClasses = showGapsOnly ? classes.filter(c => c.gaps.length > 0) : classes;
+    const totals = students.reduce((acc, s) => {
+        acc[s.level]++;
+        return acc;
+    }, emptyCoverageCounts());
+    const percent = progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center gap-2 sm:gap-3">
+                        <ScanFace className="w-6 h-6 sm:w-8 sm:h-8 text-cyan-600" />
+                        {t('photoCoverage.title')}
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-600 mt-1">
+                        {t('photoCoverage.subtitle', { count: ENOUGH_FACE_PHOTOS })}
+                    </p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <select
+                        value={academicYearId ?? ''}
+                        onChange={(e) => setAcademicYearId(e.target.value ? parseInt(e.target.value) : null)}
+                        className="input-field sm:w-48"
+                        disabled={academicYears.length === 0}
+                    >
+                        {academicYears.map(year => (
+                            <option key={year.academicYearID} value={year.academicYearID}>
+                                {year.yearName}{year.isActive ? ` (${t('photoCoverage.activeYear')})` : ''}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => loadCoverage(academicYearId)}
+                        disabled={isLoading}
+                        className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />{t('common.refresh', 'Refresh')}
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {!isLoading && totals.unknown > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+                    <AlertTriangle className="w-5 h-5 flex-shrink-0 hidden sm:block" />
+                    <p className="flex-1 text-sm">{t('photoCoverage.unknownWarning', { count: totals.unknown })}</p>
+                    <button
+                        onClick={retryUnknown}
+                        disabled={isRetrying}
+                        className="px-3 py-1.5 bg-yellow-100 hover:bg-yellow-200 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${isRetrying ? 'animate-spin' : ''}`} />{t('photoCoverage.retryUnknown')}
+                    </button>
+                </div>
+            )}
+
+            {/* Progress while statistics load */}
+            {isLoading && progress.total > 0 && (
+                <div className="card p-4">
+                    <div className="flex justify-between text-sm text-gray-600 mb-2">
+                        <span>{t('photoCoverage.checking', { loaded: progress.loaded, total: progress.total })}</span>
+                        <span className="font-semibold">{percent}%</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-cyan-500 rounded-full transition-all duration-300" style={{ width: `${percent}%` }}></div>
+                    </div>
+                </div>
+            )}
+
+            {isLoading && progress.total === 0 ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
+                        <StatCard title={t('photoCoverage.levels.none')} value={totals.none} icon={UserX} color="bg-red-500" />
+                        <StatCard title={t('photoCoverage.levels.one')} value={totals.one} icon={ImageOff} color="bg-orange-500" />
+                        <StatCard title={t('photoCoverage.levels.few', { count: ENOUGH_FACE_PHOTOS })} value={totals.few} icon={Users} color="bg-yellow-500" />
+                        <StatCard title={t('photoCoverage.levels.enough', { count: ENOUGH_FACE_PHOTOS })} value={totals.enough} icon={CheckCircle} color="bg-green-500" />
+                    </div>
+
+                    <div className="card overflow-hidden">
+                        <div className="p-4 border-b flex items-center justify-between gap-3">
+                            <h2 className="text-lg font-semibold text-gray-900">{t('photoCoverage.byClass')}</h2>
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={showGapsOnly}
+                                    onChange={(e) => setShowGapsOnly(e.target.checked)}
+                                    className="w-4 h-4 text-blue-600 rounded"
+                                />
+                                {t('photoCoverage.gapsOnly')}
+                            </label>
+                        </div>
+
+                        {visibleClasses.length === 0 ? (
+                            <div className="text-center py-12 px-4">
+                                <ScanFace className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                                <p className="text-gray-600">
+                                    {students.length === 0 ? t('photoCoverage.noStudents') : t('photoCoverage.allCovered')}
+                                </p>
+                            </div>
+                        ) : (
+                            <ul className="divide-y divide-gray-100">
+                                {visibleClasses.map(entry => {
+                                    const isOpen = expanded === entry.classKey;
+                                    return (
+                                        <li key={entry.classKey}>
+                                            <button
+                                                onClick={() => setExpanded(isOpen ? null : entry.classKey)}
+                                                className="w-full px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 text-left hover:bg-gray-50 transition-colors"
+                                            >
+                                                <div className="flex items-center gap-2 sm:w-56 min-w-0">
+                                                    {isOpen
+                                                        ? <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                                                        : <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                                                    <div className="min-w-0">
+                                                        <p className="text-sm font-medium text-gray-900 truncate">
+                                                            {entry.classKey === 'none'
+                                                                ? t('photoCoverage.noClass')
+                                                                : entry.gradeName ? `${entry.gradeName} - ${entry.className}` : entry.className}
+                                                        </p>
+                                                        <p className="text-xs text-gray-500">{t('photoCoverage.studentCount', { count: entry.total })}</p>
+                                                    </div>
+                                                </div>
+                                                <div className="flex-1 h-2.5 bg-gray-100 rounded-full overflow-hidden flex">
+                                                    {[...PHOTO_COVERAGE_LEVELS, 'unknown' as const].map(level => entry.counts[level] > 0 && (
+                                                        <div
+                                                            key={level}
+                                                            className={LEVEL_BAR_COLORS[level]}
+                                                            style={{ width: `${(entry.counts[level] / entry.total) * 100}%` }}
+                                                        ></div>
+                                                    ))}
+                                                </div>
+                                                <div className="flex flex-wrap gap-1.5 sm:justify-end sm:w-72">
+                                                    {PHOTO_COVERAGE_LEVELS.map(level => (
+                                                        <span key={level} className={`px-2 py-0.5 rounded-full text-xs font-medium ${LEVEL_STYLES[level]}`}>
+                                                            {t(`photoCoverage.short.${level}`, { count: entry.counts[level] })}
+                                                        </span>
+                                                    ))}
+                                                    {entry.counts.unknown > 0 && (
+                                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${LEVEL_STYLES.unknown}`}>
+                                                            {t('photoCoverage.short.unknown', { count: entry.counts.unknown })}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            </button>
+
+                                            {isOpen && (
+                                                <div className="px-4 pb-3 sm:pl-10">
+                                                    {entry.gaps.length === 0 ? (
+                                                        <p className="text-sm text-gray-500">{t('photoCoverage.allCovered')}</p>
+                                                    ) : (
+                                                        <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                                                            {entry.gaps.map(student => (
+                                                                <li key={student.studentCode} className="px-3 py-2 flex items-center gap-3">
+                                                                    <div className="flex-1 min-w-0">
+                                                                        <Link
+                                                                            to={`/students/${encodeURIComponent(student.studentCode)}`}
+                                                                            className="text-sm font-medium text-gray-900 hover:text-blue-600 hover:underline truncate block"
+                                                                        >
+                                                                            {student.fullName}
+                                                                        </Link>
+                                                                        <p className="text-xs text-gray-500">{student.studentCode}</p>
+                                                                    </div>
+                                                                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${LEVEL_STYLES[student.level]}`}>
+                                                                        {t('photoCoverage.photoCount', { count: student.activePhotos })}
+                                                                    </span>
+                                                                    <button
+                                                                        onClick={() => setCaptureStudent(student)}
+                                                                        className="p-1.5 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded-lg transition-colors"
+                                                                        title={t('students.actions.capturePhoto', 'Capture Photo')}
+                                                                    >
+                                                                        <Camera className="w-5 h-5" />
+                                                                    </button>
+                                                                </li>
+                                                            ))}
+                                                        </ul>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {captureStudent && (
+                <PhotoCaptureModal
+                    studentCode={captureStudent.studentCode}
+                    studentName={captureStudent.fullName}
+                    isOpen={true}
+                    onClose={() => setCaptureStudent(null)}
+                    onSuccess={() => refreshStudent(captureStudent.studentCode)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default PhotoCoveragePage;
@@ -0,0 +1,452 @@
+import { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import axios from 'axios';
+import {
+    FileArchive, Upload, Pause, Play, RotateCcw, CheckCircle, XCircle, ScanFace, Clock, AlertTriangle, WifiOff
+} from 'lucide-react';
+import { authService } from '../services/authService';
+import { studentService } from '../services/studentService';
+import StatCard from '../components/Common/StatCard';
+import { listZipEntries, readZipEntry } from '../utils/zipReader';
+import { createFaceDetector } from '../utils/faceFraming';
+import {
+    REJECTED_PHOTO_STATUSES,
+    checkImportPhoto,
+    clearUploadedPaths,
+    getArchiveKey,
+    getPhotoType,
+    loadUploadedPaths,
+    matchPhotoToStudent,
+    saveUploadedPaths,
+    type PhotoImportItem,
+} from '../utils/photoImport';
+
+type RunState = 'idle' | 'running' | 'paused' | 'done';
+
+// Students are uploaded two at a time, their photos in batches of ten
+const CONCURRENT_STUDENTS = 2;
+const UPLOAD_BATCH_SIZE = 10;
+// Long lists are cut short; thousands of rows would freeze the page
+const LIST_LIMIT = 100;
+
+const isRetryableUploadError = (err: unknown): boolean => {
+    if (!navigator.onLine) return true;
+    if (!axios.isAxiosError(err)) return false;
+    return !err.response || err.response.status >= 500;
+};
+
+const PhotoImportPage = () => {
+    const { t } = useTranslation();
+    const currentUser = authService.getCurrentUser();
+
+    const [studentCodes, setStudentCodes] = useState<Map<string, string> | null>(null);
+    const [isLoadingStudents, setIsLoadingStudents] = useState(true);
+    const [error, setError] = useState('');
+
+    const [archive, setArchive] = useState<File | null>(null);
+    const [isReading, setIsReading] = useState(false);
+    const [items, setItems] = useState<PhotoImportItem[]>([]);
+    const [unmatched, setUnmatched] = useState<string[]>([]);
+    const [ignoredCount, setIgnoredCount] = useState(0);
+
+    const [faceCheckAvailable] = useState(() => createFaceDetector(2) !== null);
+    const [checkFaces, setCheckFaces] = useState(true);
+    const [runState, setRunState] = useState<RunState>('idle');
+    const [pauseReason, setPauseReason] = useState<'user' | 'network' | null>(null);
+
+    // Workers read and update these directly; state only mirrors them for rendering
+    const itemsRef = useRef<PhotoImportItem[]>([]);
+    const uploadedRef = useRef<Set<string>>(new Set());
+    const pauseRef = useRef(false);
+
+    useEffect(() => {
+        const schoolId = currentUser?.schoolID;
+        if (!schoolId) return;
+        studentService.getStudentsBySchool(schoolId)
+            .then(list => {
+                const codes = new Map<string, string>();
+                list.filter(s => s.isActive).forEach(s => codes.set(s.studentCode.toLowerCase(), s.studentCode));
+                setStudentCodes(codes);
+            })
+            .catch(err => {
+                console.error('Error loading students:', err);
+                setError(t('photoImport.loadStudentsFailed'));
+            })
+            .finally(() => setIsLoadingStudents(false));
+    }, []);
+
+    // Closing the tab mid-import is recoverable, but warn anyway
+    useEffect(() => {
+        if (runState !== 'running') return;
+        const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [runState]);
+
+    // Pick up again by itself once the connection is back
+    useEffect(() => {
+        if (runState !== 'paused' || pauseReason !== 'network') return;
+        const handleOnline = () => runImport();
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [runState, pauseReason]);
+
+    const updateItems = (updates: Map<number, Partial<PhotoImportItem>>) => {
+        itemsRef.current = itemsRef.current.map((item, index) => {
+            const update = updates.get(index);
+            return update ? { ...item, ...update } : item;
+        });
+        setItems(itemsRef.current);
+    };
+
+    const handleSelectArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !studentCodes) return;
+
+        setIsReading(true);
+        setError('');
+        try {
+            const entries = await listZipEntries(file);
+            const uploaded = loadUploadedPaths(getArchiveKey(file));
+            const matched: PhotoImportItem[] = [];
+            const noMatch: string[] = [];
+            let ignored = 0;
+
+            entries.forEach(entry => {
+                const type = getPhotoType(entry.path);
+                if (!type) {
+                    ignored++;
+                    return;
+                }
+                const studentCode = matchPhotoToStudent(entry.path, studentCodes);
+                if (!studentCode) {
+                    noMatch.push(entry.path);
+                    return;
+                }
+                matched.push({ entry, type, studentCode, status: uploaded.has(entry.path) ? 'uploaded' : 'pending' });
+            });
+
+            uploadedRef.current = uploaded;
+            itemsRef.current = matched;
+            setItems(matched);
+            setUnmatched(noMatch);
+            setIgnoredCount(ignored);
+            setArchive(file);
+            setRunState('idle');
+            setPauseReason(null);
+        } catch (err) {
+            console.error('Error reading archive:', err);
+            setError(t('photoImport.invalidArchive'));
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    /** Check and upload one batch of a student's photos */
+    const importBatch = async (studentCode: string, indexes: number[], detector: FaceDetector | null) => {
+        if (!archive) return;
+        const updates = new Map<number, Partial<PhotoImportItem>>();
+        const files: File[] = [];
+        const accepted: number[] = [];
+
+        for (const index of indexes) {
+            const item = itemsRef.current[index];
+            try {
+                const original = await readZipEntry(archive, item.entry, item.type);
+                const result = await checkImportPhoto(original, detector);
+                if (result.status !== 'ok') {
+                    updates.set(index, { status: result.status });
+                    continue;
+                }
+                const name = item.entry.path.split('/').pop() || 'photo.jpg';
+                files.push(new File(
+                    [result.photo],
+                    result.photo === original ? name : name.replace(/\.[^.]+$/, '.jpg'),
+                    { type: result.photo.type }
+                ));
+                accepted.push(index);
+            } catch (err) {
+                console.error('Error reading photo from archive:', err);
+                updates.set(index, { status: 'unreadable' });
+            }
+        }
+
+        if (files.length > 0) {
+            try {
+                await studentService.uploadPhotos(studentCode, files);
+                accepted.forEach(index => {
+                    updates.set(index, { status: 'uploaded' });
+                    uploadedRef.current.add(itemsRef.current[index].entry.path);
+                });
+                saveUploadedPaths(getArchiveKey(archive), uploadedRef.current);
+            } catch (err) {
+                if (isRetryableUploadError(err)) {
+                    // Leave the batch pending and stop; it is sent again on resume
+                    pauseRef.current = true;
+                    setPauseReason('network');
+                } else {
+                    const message = axios.isAxiosError(err) && err.response?.data?.message
+                        ? err.response.data.message
+                        : t('photoImport.uploadFailed');
+                    accepted.forEach(index => updates.set(index, { status: 'failed', message }));
+                }
+            }
+        }
+        updateItems(updates);
+    };
+
+    const runImport = async () => {
+        if (!archive) return;
+        pauseRef.current = false;
+        setPauseReason(null);
+        setRunState('running');
+
+        const detector = checkFaces && faceCheckAvailable ? createFaceDetector(2) : null;
+
+        // One queue entry per student so each upload call only carries that student's photos
+        const byStudent = new Map<string, number[]>();
+        itemsRef.current.forEach((item, index) => {
+            if (item.status !== 'pending') return;
+            byStudent.set(item.studentCode, [...(byStudent.get(item.studentCode) || []), index]);
+        });
+        const queue = [...byStudent.entries()];
+
+        const worker = async () => {
+            while (queue.length > 0 && !pauseRef.current) {
+                const [studentCode, indexes] = queue.shift()!;
+                for (let i = 0; i < indexes.length && !pauseRef.current; i += UPLOAD_BATCH_SIZE) {
+                    await importBatch(studentCode, indexes.slice(i, i + UPLOAD_BATCH_SIZE), detector);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: CONCURRENT_STUDENTS }, worker));
+
+        setRunState(pauseRef.current ? 'paused' : 'done');
+    };
+
+    const handlePause = () => {
+        pauseRef.current = true;
+        setPauseReason('user');
+    };
+
+    const handleRetryFailed = () => {
+        const updates = new Map<number, Partial<PhotoImportItem>>();
+        itemsRef.current.forEach((item, index) => {
+            if (item.status === 'failed') updates.set(index, { status: 'pending', message: undefined });
+        });
+        updateItems(updates);
+        runImport();
+    };
+
+    // Forget what was uploaded from this archive so every photo is sent again
+    const handleStartOver = () => {
+        if (!archive || !confirm(t('photoImport.confirmStartOver'))) return;
+        clearUploadedPaths(getArchiveKey(archive));
+        uploadedRef.current = new Set();
+        itemsRef.current = itemsRef.current.map(item => ({ ...item, status: 'pending', message: undefined }));
+        setItems(itemsRef.current);
+        setRunState('idle');
+        setPauseReason(null);
+    };
+
+    const counts = items.reduce((acc, item) => {
+        if (item.status === 'uploaded') acc.uploaded++;
+        else if (item.status === 'pending') acc.pending++;
+        else if (item.status === 'failed') acc.failed++;
+        else acc.rejected++;
+        return acc;
+    }, { uploaded: 0, pending: 0, failed: 0, rejected: 0 });
+    const studentCount = new Set(items.map(item => item.studentCode)).size;
+    const percent = items.length > 0 ? Math.round(((items.length - counts.pending) / items.length) * 100) : 0;
+    const rejected = items.filter(item => REJECTED_PHOTO_STATUSES.includes(item.status));
+    const failed = items.filter(item => item.status === 'failed');
+    const isRunning = runState === 'running';
+
+    const renderPathList = (title: string, rows: { path: string; note?: string }[], tone: string) => rows.length > 0 && (
+        <div className="card overflow-hidden">
+            <div className="p-4 border-b">
+                <h2 className="text-lg font-semibold text-gray-900">{title} ({rows.length})</h2>
+            </div>
+            <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+                {rows.slice(0, LIST_LIMIT).map(row => (
+                    <li key={row.path} className="px-4 py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                        <span className="text-sm text-gray-900 break-all">{row.path}</span>
+                        {row.note && <span className={`text-xs font-medium whitespace-nowrap ${tone}`}>{row.note}</span>}
+                    </li>
+                ))}
+            </ul>
+            {rows.length > LIST_LIMIT && (
+                <p className="px-4 py-2 text-xs text-gray-500 border-t">
+                    {t('photoImport.moreNotShown', { count: rows.length - LIST_LIMIT })}
+                </p>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center gap-2 sm:gap-3">
+                    <FileArchive className="w-6 h-6 sm:w-8 sm:h-8 text-blue-600" />
+                    {t('photoImport.title')}
+                </h1>
+                <p className="text-sm sm:text-base text-gray-600 mt-1">{t('photoImport.subtitle')}</p>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {/* Archive selection */}
+            <div className="card p-4 space-y-4">
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-900 space-y-1">
+                    <p className="font-medium">{t('photoImport.namingTitle')}</p>
+                    <p>{t('photoImport.namingFolders')}</p>
+                    <p>{t('photoImport.namingFiles')}</p>
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <label className={`px-4 py-2 bg-blue-600 text-white rounded-lg flex items-center justify-center gap-2 text-sm ${
+                        isLoadingStudents || isReading || isRunning || !studentCodes
+                            ? 'opacity-50 cursor-not-allowed'
+                            : 'hover:bg-blue-700 cursor-pointer'
+                    }`}>
+                        <Upload className="w-4 h-4" />
+                        {isReading ? t('photoImport.reading') : t('photoImport.selectArchive')}
+                        <input
+                            type="file"
+                            accept=".zip,application/zip"
+                            onChange={handleSelectArchive}
+                            disabled={isLoadingStudents || isReading || isRunning || !studentCodes}
+                            className="hidden"
+                        />
+                    </label>
+                    {archive && (
+                        <span className="text-sm text-gray-600 break-all">
+                            {archive.name} · {(archive.size / (1024 * 1024)).toFixed(0)} MB
+                        </span>
+                    )}
+                </div>
+
+                <label className={`flex items-start gap-2 text-sm ${faceCheckAvailable ? 'text-gray-700' : 'text-gray-400'}`}>
+                    <input
+                        type="checkbox"
+                        checked={checkFaces && faceCheckAvailable}
+                        onChange={(e) => setCheckFaces(e.target.checked)}
+                        disabled={!faceCheckAvailable || isRunning}
+                        className="w-4 h-4 text-blue-600 rounded mt-0.5"
+                    />
+                    <span>
+                        {t('photoImport.checkFaces')}
+                        {!faceCheckAvailable && <span className="block text-xs">{t('photoImport.faceCheckUnavailable')}</span>}
+                    </span>
+                </label>
+            </div>
+
+            {archive && (
+                <>
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
+                        <StatCard title={t('photoImport.stats.uploaded')} value={counts.uploaded} icon={CheckCircle} color="bg-green-500" />
+                        <StatCard title={t('photoImport.stats.pending')} value={counts.pending} icon={Clock} color="bg-blue-500" />
+                        <StatCard title={t('photoImport.stats.rejected')} value={counts.rejected} icon={ScanFace} color="bg-orange-500" />
+                        <StatCard title={t('photoImport.stats.failed')} value={counts.failed} icon={XCircle} color="bg-red-500" />
+                    </div>
+
+                    {/* Progress and controls */}
+                    <div className="card p-4 space-y-4">
+                        <p className="text-sm text-gray-600">
+                            {t('photoImport.summary', { photos: items.length, students: studentCount, unmatched: unmatched.length, ignored: ignoredCount })}
+                        </p>
+
+                        <div>
+                            <div className="flex justify-between text-sm text-gray-600 mb-2">
+                                <span>{t('photoImport.progress', { done: items.length - counts.pending, total: items.length })}</span>
+                                <span className="font-semibold">{percent}%</span>
+                            </div>
+                            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                                <div className="h-full bg-blue-500 rounded-full transition-all duration-300" style={{ width: `${percent}%` }}></div>
+                            </div>
+                        </div>
+
+                        {runState === 'paused' && pauseReason === 'network' && (
+                            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
+                                <WifiOff className="w-4 h-4 flex-shrink-0" />
+                                {t('photoImport.networkPaused')}
+                            </div>
+                        )}
+                        {runState === 'done' && (
+                            <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm flex items-center gap-2">
+                                <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                                {t('photoImport.finished', { uploaded: counts.uploaded })}
+                            </div>
+                        )}
+
+                        <div className="flex flex-col sm:flex-row gap-2">
+                            {isRunning ? (
+                                <button
+                                    onClick={handlePause}
+                                    disabled={pauseReason === 'user'}
+                                    className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg flex items-center justify-center gap-2 text-sm disabled:opacity-50"
+                                >
+                                    <Pause className="w-4 h-4" />
+                                    {pauseReason === 'user' ? t('photoImport.pausing') : t('photoImport.pause')}
+                                </button>
+                            ) : counts.pending > 0 && (
+                                <button
+                                    onClick={runImport}
+                                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center justify-center gap-2 text-sm"
+                                >
+                                    <Play className="w-4 h-4" />
+                                    {runState === 'paused' || counts.uploaded > 0 ? t('photoImport.resume') : t('photoImport.start')}
+                                </button>
+                            )}
+                            {!isRunning && counts.failed > 0 && (
+                                <button
+                                    onClick={handleRetryFailed}
+                                    className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 flex items-center justify-center gap-2 text-sm"
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                    {t('photoImport.retryFailed')}
+                                </button>
+                            )}
+                            {!isRunning && counts.uploaded > 0 && (
+                                <button
+                                    onClick={handleStartOver}
+                                    className="px-4 py-2 text-sm text-gray-500 hover:text-red-600 sm:ml-auto"
+                                >
+                                    {t('photoImport.startOver')}
+                                </button>
+                            )}
+                        </div>
+                        {isRunning && (
+                            <p className="text-xs text-gray-500 flex items-center gap-1">
+                                <AlertTriangle className="w-3.5 h-3.5" />
+                                {t('photoImport.keepOpen')}
+                            </p>
+                        )}
+                    </div>
+
+                    {renderPathList(
+                        t('photoImport.failedTitle'),
+                        failed.map(item => ({ path: item.entry.path, note: item.message })),
+                        'text-red-600'
+                    )}
+                    {renderPathList(
+                        t('photoImport.rejectedTitle'),
+                        rejected.map(item => ({ path: item.entry.path, note: t(`photoImport.reasons.${item.status}`) })),
+                        'text-orange-600'
+                    )}
+                    {renderPathList(
+                        t('photoImport.unmatchedTitle'),
+                        unmatched.map(path => ({ path })),
+                        ''
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PhotoImportPage;
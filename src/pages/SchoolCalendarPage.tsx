@@ -0,0 +1,338 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, CalendarDays, Plus, Edit, Trash2, Save } from 'lucide-react';
+import api from '../services/api';
+import { authService } from '../services/authService';
+import { settingsService } from '../services/settingsService';
+import {
+    schoolCalendarService,
+    type CalendarEntryType,
+    type SchoolCalendarEntry,
+} from '../services/schoolCalendarService';
+import {
+    buildSchoolCalendar,
+    listSchoolDays,
+    DEFAULT_WEEKEND_DAYS,
+    toDateString,
+    type CalendarDayInfo,
+} from '../utils/schoolCalendar';
+import MonthCalendar from '../components/SchoolCalendar/MonthCalendar';
+import CalendarEntryModal from '../components/SchoolCalendar/CalendarEntryModal';
+import StatCard from '../components/Common/StatCard';
+
+interface AcademicYear {
+    academicYearID: number;
+    yearName: string;
+    startDate: string;
+    endDate: string;
+    isActive: boolean;
+}
+
+const TYPE_COLORS: Record<CalendarEntryType, string> = {
+    Term: 'bg-green-100 text-green-800',
+    Holiday: 'bg-red-100 text-red-800',
+    SchoolBreak: 'bg-amber-100 text-amber-800',
+    SpecialDay: 'bg-purple-100 text-purple-800',
+};
+
+/** Stored as the WeekendDays school setting, e.g. "0,6" */
+const parseWeekendDays = (value?: string) =>
+    value === undefined ? DEFAULT_WEEKEND_DAYS : value.split(',').filter(Boolean).map(Number);
+
+const SchoolCalendarPage = () => {
+    const { t, i18n } = useTranslation();
+    const { academicYearId } = useParams<{ academicYearId: string }>();
+    const yearId = Number(academicYearId);
+    const schoolId = authService.getCurrentUser()?.schoolID;
+
+    const [academicYear, setAcademicYear] = useState<AcademicYear | null>(null);
+    const [entries, setEntries] = useState<SchoolCalendarEntry[]>([]);
+    const [weekendDays, setWeekendDays] = useState<number[]>(DEFAULT_WEEKEND_DAYS);
+    const [savedWeekendDays, setSavedWeekendDays] = useState<number[]>(DEFAULT_WEEKEND_DAYS);
+    const [viewYear, setViewYear] = useState(new Date().getFullYear());
+    const [viewMonth, setViewMonth] = useState(new Date().getMonth() + 1);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSavingWeekend, setIsSavingWeekend] = useState(false);
+    const [error, setError] = useState('');
+
+    const [showEntryModal, setShowEntryModal] = useState(false);
+    const [editingEntry, setEditingEntry] = useState<SchoolCalendarEntry | null>(null);
+    const [initialDate, setInitialDate] = useState<string | undefined>();
+
+    useEffect(() => {
+        if (yearId) fetchCalendar();
+    }, [yearId]);
+
+    const fetchCalendar = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const [yearRes, entryData, settings] = await Promise.all([
+                api.get('/academic-year'),
+                schoolCalendarService.getEntries(yearId),
+                schoolId ? settingsService.getSchoolSettings(schoolId) : Promise.resolve({} as Record<string, string>),
+            ]);
+            const year = ((yearRes.data.data || []) as AcademicYear[]).find(y => y.academicYearID === yearId) || null;
+            setAcademicYear(year);
+            setEntries(entryData || []);
+            const weekend = parseWeekendDays(settings.WeekendDays);
+            setWeekendDays(weekend);
+            setSavedWeekendDays(weekend);
+
+            // Open on the current month when it falls inside the year, otherwise on the first month
+            if (year) {
+                const today = toDateString(new Date());
+                const start = year.startDate.split('T')[0];
+                const end = year.endDate.split('T')[0];
+                const anchor = today >= start && today <= end ? today : start;
+                setViewYear(Number(anchor.slice(0, 4)));
+                setViewMonth(Number(anchor.slice(5, 7)));
+            }
+        } catch (err) {
+            console.error('Error fetching school calendar:', err);
+            setError(t('schoolCalendar.fetchFailed', 'Failed to load the school calendar'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSaveWeekend = async () => {
+        if (!schoolId) return;
+        setIsSavingWeekend(true);
+        try {
+            await settingsService.updateSchoolSettings(schoolId, { WeekendDays: weekendDays.join(',') });
+            setSavedWeekendDays(weekendDays);
+        } catch (err) {
+            console.error('Error saving weekend days:', err);
+            alert(t('schoolCalendar.weekendSaveFailed', 'Failed to save weekend days'));
+        } finally {
+            setIsSavingWeekend(false);
+        }
+    };
+
+    const handleDelete = async (entry: SchoolCalendarEntry) => {
+        if (!confirm(t('schoolCalendar.confirmDelete', 'Delete "{{name}}" from the calendar?', { name: entry.name }))) return;
+        try {
+            await schoolCalendarService.deleteEntry(entry.calendarEntryID);
+            fetchCalendar();
+        } catch (err) {
+            console.error('Error deleting calendar entry:', err);
+            alert(t('schoolCalendar.deleteFailed', 'Failed to delete the calendar entry'));
+        }
+    };
+
+    const openAdd = (date?: string) => {
+        setEditingEntry(null);
+        setInitialDate(date);
+        setShowEntryModal(true);
+    };
+
+    const openEdit = (entry: SchoolCalendarEntry) => {
+        setEditingEntry(entry);
+        setInitialDate(undefined);
+        setShowEntryModal(true);
+    };
+
+    const handleDayClick = (info: CalendarDayInfo) => {
+        if (info.entry && info.kind !== 'SchoolDay') openEdit(info.entry);
+        else openAdd(info.date);
+    };
+
+    const toggleWeekendDay = (day: number) => {
+        setWeekendDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()));
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-MY', { day: 'numeric', month: 'short', year: 'numeric' });
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center items-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+            </div>
+        );
+    }
+
+    if (!academicYear) {
+        return (
+            <div className="space-y-4">
+                <Link to="/academic-years" className="inline-flex items-center gap-2 text-sm text-indigo-600 hover:text-indigo-800">
+                    <ArrowLeft className="w-4 h-4" />
+                    {t('nav.academicYears')}
+                </Link>
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                    {error || t('schoolCalendar.yearNotFound', 'Academic year not found')}
+                </div>
+            </div>
+        );
+    }
+
+    const yearStart = academicYear.startDate.split('T')[0];
+    const yearEnd = academicYear.endDate.split('T')[0];
+    const calendar = buildSchoolCalendar({ weekendDays, entries });
+    const schoolDayCount = listSchoolDays(calendar, yearStart, yearEnd).length;
+    const sortedEntries = [...entries].sort((a, b) => a.startDate.localeCompare(b.startDate) || a.entryType.localeCompare(b.entryType));
+    const weekendDirty = weekendDays.join(',') !== savedWeekendDays.join(',');
+
+    // Monday first, matching the month grid
+    const weekdayOptions = [1, 2, 3, 4, 5, 6, 0].map(day => ({
+        day,
+        label: new Date(2024, 0, day === 0 ? 7 : day).toLocaleDateString(i18n.language, { weekday: 'short' }),
+    }));
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+                <div>
+                    <Link to="/academic-years" className="inline-flex items-center gap-2 text-sm text-indigo-600 hover:text-indigo-800 mb-2">
+                        <ArrowLeft className="w-4 h-4" />
+                        {t('nav.academicYears')}
+                    </Link>
+                    <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                        <CalendarDays className="w-7 h-7 text-indigo-600" />
+                        {t('schoolCalendar.title', 'School Calendar')} · {academicYear.yearName}
+                    </h1>
+                    <p className="text-sm text-gray-600 mt-1">
+                        {t('schoolCalendar.subtitle', 'Terms, holidays and special days decide which days count in attendance reports')}
+                    </p>
+                </div>
+                <button
+                    onClick={() => openAdd()}
+                    className="flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                    <Plus className="w-5 h-5" />
+                    {t('schoolCalendar.addEntry', 'Add Calendar Entry')}
+                </button>
+            </div>
+
+            {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>}
+
+            {/* Stats */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <StatCard
+                    title={t('schoolCalendar.schoolDays', 'School Days')}
+                    value={schoolDayCount}
+                    icon={CalendarDays}
+                    color="bg-indigo-500"
+                    subtitle={`${formatDate(yearStart)} - ${formatDate(yearEnd)}`}
+                />
+                {(['Term', 'Holiday', 'SchoolBreak'] as CalendarEntryType[]).map(type => (
+                    <StatCard
+                        key={type}
+                        title={t(`schoolCalendar.typesPlural.${type}`, type)}
+                        value={entries.filter(e => e.entryType === type).length}
+                        icon={CalendarDays}
+                        color={type === 'Term' ? 'bg-green-500' : type === 'Holiday' ? 'bg-red-500' : 'bg-amber-500'}
+                    />
+                ))}
+            </div>
+
+            {/* Weekend days */}
+            <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div>
+                        <h3 className="font-semibold text-gray-900">{t('schoolCalendar.weekendDays', 'Weekend Days')}</h3>
+                        <p className="text-xs text-gray-500 mt-1">{t('schoolCalendar.weekendDaysHint', 'Applies to every academic year. Kedah, Kelantan and Terengganu schools usually take Friday and Saturday off.')}</p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        {weekdayOptions.map(({ day, label }) => (
+                            <button
+                                key={day}
+                                onClick={() => toggleWeekendDay(day)}
+                                className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${weekendDays.includes(day)
+                                    ? 'bg-gray-700 text-white border-gray-700'
+                                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                    }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleSaveWeekend}
+                            disabled={!weekendDirty || isSavingWeekend}
+                            className="ml-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1.5"
+                        >
+                            <Save className="w-4 h-4" />
+                            {isSavingWeekend ? t('common.saving') : t('common.save')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                {/* Month grid */}
+                <div className="xl:col-span-2 bg-white rounded-lg shadow p-4 sm:p-6">
+                    <MonthCalendar
+                        year={viewYear}
+                        month={viewMonth}
+                        calendar={calendar}
+                        onMonthChange={(y, m) => {
+                            setViewYear(y);
+                            setViewMonth(m);
+                        }}
+                        onDayClick={handleDayClick}
+                    />
+                    <p className="text-xs text-gray-500 mt-3">{t('schoolCalendar.gridHint', 'Click a day to add an entry, or click a holiday to edit it.')}</p>
+                </div>
+
+                {/* Entry list */}
+                <div className="bg-white rounded-lg shadow overflow-hidden">
+                    <div className="px-4 py-3 border-b">
+                        <h3 className="font-semibold text-gray-900">{t('schoolCalendar.entries', 'Calendar Entries')}</h3>
+                    </div>
+                    {sortedEntries.length === 0 ? (
+                        <div className="p-8 text-center text-sm text-gray-500">
+                            {t('schoolCalendar.noEntries', 'No terms or holidays yet. Every weekday in the year counts as a school day.')}
+                        </div>
+                    ) : (
+                        <ul className="divide-y divide-gray-200 max-h-[36rem] overflow-y-auto">
+                            {sortedEntries.map(entry => (
+                                <li key={entry.calendarEntryID} className="px-4 py-3 flex items-start justify-between gap-3 hover:bg-gray-50">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${TYPE_COLORS[entry.entryType]}`}>
+                                                {t(`schoolCalendar.types.${entry.entryType}`, entry.entryType)}
+                                            </span>
+                                            <span className="text-sm font-medium text-gray-900 truncate">{entry.name}</span>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            {formatDate(entry.startDate)}
+                                            {entry.endDate.split('T')[0] !== entry.startDate.split('T')[0] && ` - ${formatDate(entry.endDate)}`}
+                                            {entry.entryType === 'SpecialDay' && ` · ${entry.isSchoolDay
+                                                ? t('schoolCalendar.schoolDay', 'School day')
+                                                : t('schoolCalendar.noSchool', 'No school')}`}
+                                        </p>
+                                        {entry.description && <p className="text-xs text-gray-500 mt-0.5 truncate">{entry.description}</p>}
+                                    </div>
+                                    <div className="flex gap-1 flex-shrink-0">
+                                        <button onClick={() => openEdit(entry)} className="p-1.5 text-indigo-600 hover:bg-indigo-50 rounded" title={t('common.edit')}>
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button onClick={() => handleDelete(entry)} className="p-1.5 text-red-600 hover:bg-red-50 rounded" title={t('common.delete')}>
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            <CalendarEntryModal
+                isOpen={showEntryModal}
+                academicYearId={yearId}
+                entry={editingEntry}
+                initialDate={initialDate}
+                yearStart={yearStart}
+                yearEnd={yearEnd}
+                onClose={() => setShowEntryModal(false)}
+                onSuccess={fetchCalendar}
+            />
+        </div>
+    );
+};
+
+export default SchoolCalendarPage;
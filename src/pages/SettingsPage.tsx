@@ -1,15 +1,11 @@
 ﻿import { useState, useEffect } from 'react';
-import { Settings, Save, Clock, Video, AlertTriangle } from 'lucide-react';
+import { Settings, Save, Clock, Video, AlertTriangle, ShieldAlert } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import api from '../services/api';
+import { Link } from 'react-router-dom';
 import { authService } from '../services/authService';
-
-interface SystemSetting {
-    schoolID: number;
-    settingKey: string;
-    settingValue: string;
-    description: string;
-}
+import { settingsService } from '../services/settingsService';
+import { DEFAULT_AT_RISK_THRESHOLDS } from '../utils/atRiskRules';
+import { DEFAULT_CAMERA_HEALTH_SETTINGS } from '../utils/cameraHealth';
 
 const SettingsPage = () => {
     const { t } = useTranslation();
@@ -19,8 +15,13 @@ const SettingsPage = () => {
         SchoolEndTime: '15:30',
         LateThreshold: '15',
         ProcessFrameInterval: '3',
+        CameraOfflineAlertMinutes: String(DEFAULT_CAMERA_HEALTH_SETTINGS.offlineAlertMinutes),
         EnableParentNotification: '1',
-        AbsentNotificationTime: '08:30'
+        AbsentNotificationTime: '08:30',
+        AtRiskAbsenceCount: String(DEFAULT_AT_RISK_THRESHOLDS.absenceCount),
+        AtRiskAbsenceWindowDays: String(DEFAULT_AT_RISK_THRESHOLDS.absenceWindowDays),
+        AtRiskLateCount: String(DEFAULT_AT_RISK_THRESHOLDS.lateCount),
+        AtRiskLateWindowDays: String(DEFAULT_AT_RISK_THRESHOLDS.lateWindowDays)
     });
 
     const [isLoading, setIsLoading] = useState(true);
@@ -39,16 +40,10 @@ const SettingsPage = () => {
                 return;
             }
 
-            const response = await api.get(`/settings/school/${currentUser.schoolID}`);
-            const settingsData = response.data.data;
-
-            // Convert array of settings to object
-            const settingsObj: { [key: string]: string } = {};
-            settingsData.forEach((setting: SystemSetting) => {
-                settingsObj[setting.settingKey] = setting.settingValue;
-            });
+            const settingsObj = await settingsService.getSchoolSettings(currentUser.schoolID);
 
-            setSettings(settingsObj);
+            // Keep defaults for keys the school hasn't saved yet
+            setSettings(prev => ({ ...prev, ...settingsObj }));
         } catch (error) {
             console.error('Error fetching settings:', error);
         } finally {
@@ -75,15 +70,7 @@ const SettingsPage = () => {
                 return;
             }
 
-            // Convert settings object to array format for API
-            const settingsArray = Object.entries(settings).map(([key, value]) => ({
-                settingKey: key,
-                settingValue: value
-            }));
-
-            await api.put(`/settings/school/${currentUser.schoolID}`, {
-                settings: settingsArray
-            });
+            await settingsService.updateSchoolSettings(currentUser.schoolID, settings);
 
             setSaveMessage(t('settings.successMessage'));
             setTimeout(() => setSaveMessage(''), 3000);
@@ -171,6 +158,9 @@ const SettingsPage = () => {
                             <p className="text-xs text-gray-500 mt-1">
                                 {t('settings.recognitionThresholdHint')}
                             </p>
+                            <Link to="/cameras" className="text-xs text-blue-600 hover:underline mt-1 inline-block">
+                                {t('settings.previewOnCamera')}
+                            </Link>
                         </div>
 
                         {/* Process Frame Interval */}
@@ -193,6 +183,27 @@ const SettingsPage = () => {
                                 {t('settings.processFrameIntervalHint')}
                             </p>
                         </div>
+
+                        {/* Camera Offline Alert */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                {t('settings.cameraOfflineAlert')}
+                            </label>
+                            <div className="flex items-center gap-4">
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="120"
+                                    value={settings.CameraOfflineAlertMinutes}
+                                    onChange={(e) => handleChange('CameraOfflineAlertMinutes', e.target.value)}
+                                    className="input-field w-24"
+                                />
+                                <span className="text-sm text-gray-600">{t('settings.cameraOfflineAlertUnit')}</span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                                {t('settings.cameraOfflineAlertHint')}
+                            </p>
+                        </div>
                     </div>
                 </div>
 
@@ -272,6 +283,78 @@ const SettingsPage = () => {
                     </div>
                 </div>
 
+                {/* At-Risk Thresholds */}
+                <div className="card">
+                    <div className="flex items-center gap-3 mb-4">
+                        <div className="p-2 bg-red-100 rounded-lg">
+                            <ShieldAlert className="w-6 h-6 text-red-600" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-semibold text-gray-900">{t('settings.atRiskTitle')}</h2>
+                            <p className="text-sm text-gray-600">{t('settings.atRiskSubtitle')}</p>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {/* Absences */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                {t('settings.atRiskAbsences')}
+                            </label>
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="30"
+                                    value={settings.AtRiskAbsenceCount}
+                                    onChange={(e) => handleChange('AtRiskAbsenceCount', e.target.value)}
+                                    className="input-field w-20"
+                                />
+                                <span className="text-sm text-gray-600">{t('settings.atRiskAbsencesWithin')}</span>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="90"
+                                    value={settings.AtRiskAbsenceWindowDays}
+                                    onChange={(e) => handleChange('AtRiskAbsenceWindowDays', e.target.value)}
+                                    className="input-field w-20"
+                                />
+                                <span className="text-sm text-gray-600">{t('settings.atRiskSchoolDays')}</span>
+                            </div>
+                        </div>
+
+                        {/* Lates */}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                {t('settings.atRiskLates')}
+                            </label>
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="30"
+                                    value={settings.AtRiskLateCount}
+                                    onChange={(e) => handleChange('AtRiskLateCount', e.target.value)}
+                                    className="input-field w-20"
+                                />
+                                <span className="text-sm text-gray-600">{t('settings.atRiskLatesWithin')}</span>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="90"
+                                    value={settings.AtRiskLateWindowDays}
+                                    onChange={(e) => handleChange('AtRiskLateWindowDays', e.target.value)}
+                                    className="input-field w-20"
+                                />
+                                <span className="text-sm text-gray-600">{t('settings.atRiskSchoolDays')}</span>
+                            </div>
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                        {t('settings.atRiskHint')}
+                    </p>
+                </div>
+
                 {/* Notifications - Commented out in original */}
                 {/*<div className="card">*/}
                 {/*    <div className="flex items-center gap-3 mb-4">*/}
@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { FileCheck, Plus, Search, Filter, Trash2, Paperclip, RefreshCw } from 'lucide-react';
+import { authService } from '../services/authService';
+import { excuseService, EXCUSE_TYPES, type ExcuseType, type StudentExcuse } from '../services/excuseService';
+import { toDateString } from '../utils/schoolCalendar';
+import AddExcuseModal from '../components/Excuses/AddExcuseModal';
+import Pagination from '../components/Common/Pagination';
+
+const TYPE_COLORS: Record<ExcuseType, string> = {
+    Medical: 'bg-red-100 text-red-800',
+    Family: 'bg-purple-100 text-purple-800',
+    Religious: 'bg-green-100 text-green-800',
+    Official: 'bg-blue-100 text-blue-800',
+    SchoolEvent: 'bg-amber-100 text-amber-800',
+    Other: 'bg-gray-100 text-gray-800',
+};
+
+const StudentExcusesPage = () => {
+    const { t } = useTranslation();
+    const currentUser = authService.getCurrentUser();
+    const canManage = currentUser?.userRole === 'SchoolAdmin' || authService.hasPermission('EditAttendance');
+
+    const [startDate, setStartDate] = useState(() => {
+        const d = new Date();
+        d.setDate(d.getDate() - 30);
+        return toDateString(d);
+    });
+    const [endDate, setEndDate] = useState(() => {
+        const d = new Date();
+        d.setDate(d.getDate() + 30);
+        return toDateString(d);
+    });
+    const [typeFilter, setTypeFilter] = useState<ExcuseType | ''>('');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [excuses, setExcuses] = useState<StudentExcuse[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [showAddModal, setShowAddModal] = useState(false);
+
+    const [currentPage, setCurrentPage] = useState(1);
+    const itemsPerPage = 20;
+
+    useEffect(() => {
+        if (startDate && endDate && startDate <= endDate) {
+            fetchExcuses();
+        }
+    }, [startDate, endDate, typeFilter]);
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [startDate, endDate, typeFilter, searchTerm]);
+
+    const fetchExcuses = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const data = await excuseService.getExcuses({
+                startDate,
+                endDate,
+                excuseType: typeFilter || undefined,
+            });
+            setExcuses(data || []);
+        } catch (err) {
+            console.error('Error fetching excuses:', err);
+            setError(t('excuses.fetchFailed', 'Failed to load excused absences'));
+            setExcuses([]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleDelete = async (excuse: StudentExcuse) => {
+        if (!confirm(t('excuses.confirmDelete', 'Delete this excuse for {{name}}?', { name: excuse.fullName }))) return;
+        try {
+            await excuseService.deleteExcuse(excuse.excuseID);
+            fetchExcuses();
+        } catch (err) {
+            console.error('Error deleting excuse:', err);
+            alert(t('excuses.deleteFailed', 'Failed to delete the excuse'));
+        }
+    };
+
+    const formatDate = (dateStr: string) =>
+        new Date(dateStr).toLocaleDateString('en-MY', { day: 'numeric', month: 'short', year: 'numeric' });
+
+    const filtered = excuses.filter(e => {
+        if (!searchTerm.trim()) return true;
+        const term = searchTerm.toLowerCase();
+        return e.fullName.toLowerCase().includes(term)
+            || e.studentCode.toLowerCase().includes(term)
+            || e.className?.toLowerCase().includes(term)
+            || e.reason.toLowerCase().includes(term);
+    });
+    const paged = filtered.slice((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage);
+
+    const thClass = 'px-3 sm:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+    const tdClass = 'px-3 sm:px-6 py-3 sm:py-4 text-sm';
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+                <div>
+                    <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 flex items-center gap-2 sm:gap-3">
+                        <FileCheck className="w-6 h-6 sm:w-8 sm:h-8 text-blue-600" />
+                        {t('excuses.title', 'Excused Absences')}
+                    </h1>
+                    <p className="text-sm sm:text-base text-gray-600 mt-1">
+                        {t('excuses.subtitle', 'Medical certificates, family leave and other approved absences')}
+                    </p>
+                </div>
+                {canManage && (
+                    <button
+                        onClick={() => setShowAddModal(true)}
+                        className="bg-blue-600 text-white px-4 py-2.5 sm:py-2 rounded-lg hover:bg-blue-700 active:bg-blue-800 transition-colors flex items-center justify-center gap-2 w-full sm:w-auto"
+                    >
+                        <Plus className="w-5 h-5" />
+                        {t('excuses.add', 'Add Excuse')}
+                    </button>
+                )}
+            </div>
+
+            {/* Filters */}
+            <div className="card p-4 sm:p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                        <Filter className="w-5 h-5 text-gray-500" />
+                        <h3 className="font-semibold text-gray-900">{t('common.filters')}</h3>
+                    </div>
+                    <button
+                        onClick={fetchExcuses}
+                        className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg flex items-center gap-2 text-sm transition-colors"
+                    >
+                        <RefreshCw className="w-4 h-4" />{t('common.refresh')}
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('excuses.startDate', 'From')}</label>
+                        <input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className="input-field w-full" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('excuses.endDate', 'To')}</label>
+                        <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="input-field w-full" />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('excuses.type', 'Type')}</label>
+                        <select
+                            value={typeFilter}
+                            onChange={(e) => setTypeFilter(e.target.value as ExcuseType | '')}
+                            className="input-field w-full"
+                        >
+                            <option value="">{t('excuses.allTypes', 'All Types')}</option>
+                            {EXCUSE_TYPES.map(type => (
+                                <option key={type} value={type}>{t(`excuses.types.${type}`, type)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.search')}</label>
+                        <div className="relative">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                                type="text"
+                                value={searchTerm}
+                                onChange={(e) => setSearchTerm(e.target.value)}
+                                placeholder={t('excuses.searchPlaceholder', 'Student, class or reason...')}
+                                className="input-field w-full pl-9"
+                            />
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {/* Table */}
+            <div className="card overflow-hidden">
+                {isLoading ? (
+                    <div className="flex items-center justify-center h-64">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : filtered.length === 0 ? (
+                    <div className="text-center py-12 px-4">
+                        <FileCheck className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                        <p className="text-gray-600">{t('excuses.empty', 'No excused absences in this period')}</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full">
+                            <thead className="bg-gray-50 border-b">
+                                <tr>
+                                    <th className={thClass}>{t('attendance.student')}</th>
+                                    <th className={thClass}>{t('excuses.type', 'Type')}</th>
+                                    <th className={thClass}>{t('excuses.period', 'Period')}</th>
+                                    <th className={`hidden md:table-cell ${thClass}`}>{t('excuses.reason', 'Reason')}</th>
+                                    <th className={`hidden lg:table-cell ${thClass}`}>{t('excuses.recordedBy', 'Recorded By')}</th>
+                                    <th className={`${thClass} text-center`}>{t('common.actions')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {paged.map(excuse => (
+                                    <tr key={excuse.excuseID} className="hover:bg-gray-50 align-top">
+                                        <td className={tdClass}>
+                                            <Link to={`/students/${encodeURIComponent(excuse.studentCode)}`} className="font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                                                {excuse.fullName}
+                                            </Link>
+                                            <div className="text-xs text-gray-500">
+                                                {excuse.studentCode}{excuse.className && ` · ${excuse.gradeName} - ${excuse.className}`}
+                                            </div>
+                                        </td>
+                                        <td className={`${tdClass} whitespace-nowrap`}>
+                                            <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${TYPE_COLORS[excuse.excuseType] || TYPE_COLORS.Other}`}>
+                                                {t(`excuses.types.${excuse.excuseType}`, excuse.excuseType)}
+                                            </span>
+                                        </td>
+                                        <td className={`${tdClass} whitespace-nowrap text-gray-700`}>
+                                            {excuse.startDate.split('T')[0] === excuse.endDate.split('T')[0]
+                                                ? formatDate(excuse.startDate)
+                                                : `${formatDate(excuse.startDate)} – ${formatDate(excuse.endDate)}`}
+                                        </td>
+                                        <td className={`hidden md:table-cell ${tdClass} text-gray-700`}>
+                                            <div className="max-w-xs">{excuse.reason}</div>
+                                            {excuse.attachmentUrl && (
+                                                <a
+                                                    href={excuse.attachmentUrl}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline mt-1"
+                                                >
+                                                    <Paperclip className="w-3 h-3" />
+                                                    {excuse.attachmentName || t('excuses.viewAttachment', 'View attachment')}
+                                                </a>
+                                            )}
+                                        </td>
+                                        <td className={`hidden lg:table-cell ${tdClass} whitespace-nowrap text-gray-700`}>
+                                            <div>{excuse.createdByName || '-'}</div>
+                                            <div className="text-xs text-gray-500">{formatDate(excuse.createdDate)}</div>
+                                        </td>
+                                        <td className={`${tdClass} text-center`}>
+                                            {canManage ? (
+                                                <button
+                                                    onClick={() => handleDelete(excuse)}
+                                                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                                    title={t('common.delete')}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            ) : (
+                                                <span className="text-gray-400">-</span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {filtered.length > itemsPerPage && (
+                    <Pagination
+                        currentPage={currentPage}
+                        totalPages={Math.ceil(filtered.length / itemsPerPage)}
+                        totalItems={filtered.length}
+                        itemsPerPage={itemsPerPage}
+                        onPageChange={setCurrentPage}
+                    />
+                )}
+            </div>
+
+            <AddExcuseModal
+                isOpen={showAddModal}
+                onClose={() => setShowAddModal(false)}
+                onSuccess={fetchExcuses}
+            />
+        </div>
+    );
+};
+
+export default StudentExcusesPage;
@@ -0,0 +1,462 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+    ArrowLeft,
+    User,
+    Phone,
+    Mail,
+    Calendar,
+    CheckCircle,
+    Clock,
+    XCircle,
+    TrendingUp,
+    Camera,
+    MessageSquare,
+    Trophy,
+    AlertCircle,
+    History
+} from 'lucide-react';
+import api from '../services/api';
+import { studentService, type StudentWithAcademic } from '../services/studentService';
+import { attendanceService } from '../services/attendanceService';
+import { eventService, EventTypeLabels, type StudentEventParticipation } from '../services/eventService';
+import { excuseService } from '../services/excuseService';
+import { schoolCalendarService } from '../services/schoolCalendarService';
+import { MANUAL_CHECK_IN_REMARK } from '../services/lateCheckInService';
+import { applyExcuses, buildExcuseLookup } from '../utils/excuses';
+import { buildSchoolCalendar, isSchoolDay, toDateString } from '../utils/schoolCalendar';
+import { getLeavingDate, getStudentStatus } from '../utils/studentLifecycle';
+import StatCard from '../components/Common/StatCard';
+import AttendanceHeatmap from '../components/Students/AttendanceHeatmap';
+import type { AttendanceRecord, LateRecord, RecentDetection, StudentStatusChange } from '../types';
+
+const RANGE_OPTIONS = [30, 90, 180, 365];
+
+const StudentProfilePage = () => {
+    const { t } = useTranslation();
+    const { code } = useParams<{ code: string }>();
+
+    const [student, setStudent] = useState<StudentWithAcademic | null>(null);
+    const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
+    const [detections, setDetections] = useState<RecentDetection[]>([]);
+    const [lateRecords, setLateRecords] = useState<LateRecord[]>([]);
+    const [events, setEvents] = useState<StudentEventParticipation[]>([]);
+    const [statusHistory, setStatusHistory] = useState<StudentStatusChange[]>([]);
+    const [rangeDays, setRangeDays] = useState(90);
+    const [selectedDate, setSelectedDate] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [previewImage, setPreviewImage] = useState<string | null>(null);
+
+    const endDate = toDateString(new Date());
+    const startDate = (() => {
+        const d = new Date();
+        d.setDate(d.getDate() - rangeDays + 1);
+        return toDateString(d);
+    })();
+
+    useEffect(() => {
+        if (code) fetchProfile(code);
+    }, [code]);
+
+    useEffect(() => {
+        if (code) fetchAttendance(code);
+    }, [code, rangeDays]);
+
+    const fetchProfile = async (studentCode: string) => {
+        setIsLoading(true);
+        setError('');
+        let profile: StudentWithAcademic;
+        try {
+            profile = await studentService.getStudentByCode(studentCode);
+            setStudent(profile);
+        } catch (err) {
+            console.error('Error fetching student:', err);
+            setError(t('students.profile.notFound', 'Student not found'));
+            setIsLoading(false);
+            return;
+        }
+
+        // Secondary panels fail independently
+        const [detectionRes, eventRes, historyRes] = await Promise.allSettled([
+            attendanceService.getStudentDetections(studentCode),
+            eventService.getStudentEvents(studentCode),
+            studentService.getStatusHistory(profile.studentID),
+        ]);
+        setDetections(detectionRes.status === 'fulfilled' ? detectionRes.value || [] : []);
+        setEvents(eventRes.status === 'fulfilled' ? eventRes.value || [] : []);
+        setStatusHistory(historyRes.status === 'fulfilled' ? historyRes.value : []);
+        setIsLoading(false);
+    };
+
+    const fetchAttendance = async (studentCode: string) => {
+        try {
+            const [attendanceData, lateRes, excusedDays, calendarRange] = await Promise.all([
+                attendanceService.getStudentAttendance(studentCode, startDate, endDate),
+                api.get('/laterecognition/report', { params: { startDate, endDate, studentCode } }),
+                excuseService.getExcusedDays(startDate, endDate, undefined, studentCode).catch(() => []),
+                schoolCalendarService.getRange(startDate, endDate).catch(() => null),
+            ]);
+            // An absence on a weekend or holiday is not an absence
+            const calendar = buildSchoolCalendar(calendarRange);
+            const schoolRecords = (attendanceData || []).filter(r => r.status !== 'Absent' || isSchoolDay(calendar, r.attendanceDate));
+            setAttendanceRecords(applyExcuses(schoolRecords, buildExcuseLookup(excusedDays || [])));
+            setLateRecords(lateRes.data.success ? lateRes.data.data.records || [] : []);
+        } catch (err) {
+            console.error('Error fetching student attendance:', err);
+            setAttendanceRecords([]);
+            setLateRecords([]);
+        }
+    };
+
+    const formatDate = (dateStr: string) => {
+        if (!dateStr) return '-';
+        return new Date(dateStr).toLocaleDateString('en-MY', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+    };
+
+    const formatTime = (dateTimeStr?: string) => {
+        if (!dateTimeStr) return '-';
+        return new Date(dateTimeStr).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+    };
+
+    // Past records stay visible; only absences after the student left are dropped
+    const status = student ? getStudentStatus(student) : 'Active';
+    const leavingDate = student ? getLeavingDate(student) : null;
+    const records = leavingDate
+        ? attendanceRecords.filter(r => r.status !== 'Absent' || r.attendanceDate.split('T')[0] < leavingDate)
+        : attendanceRecords;
+
+    const present = records.filter(r => r.status === 'Present').length;
+    const late = records.filter(r => r.status === 'Late').length;
+    const absent = records.filter(r => r.status === 'Absent').length;
+    const excused = records.filter(r => r.status === 'Excused').length;
+    const attended = present + late;
+    // Excused days don't count against the rate
+    const expected = records.length - excused;
+    const rate = expected > 0 ? (attended / expected) * 100 : 0;
+
+    const selectedRecord = selectedDate ? records.find(r => r.attendanceDate.split('T')[0] === selectedDate) : undefined;
+    const checkIns = records
+        .filter(r => r.checkInTime)
+        .sort((a, b) => b.attendanceDate.localeCompare(a.attendanceDate))
+        .slice(0, 10);
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
+    if (error || !student) {
+        return (
+            <div className="space-y-4">
+                <Link to="/students" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+                    <ArrowLeft className="w-4 h-4" />{t('students.profile.back', 'Back to Students')}
+                </Link>
+                <div className="card p-8 text-center">
+                    <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-3" />
+                    <p className="text-gray-700">{error || t('students.profile.notFound', 'Student not found')}</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            <Link to="/students" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+                <ArrowLeft className="w-4 h-4" />{t('students.profile.back', 'Back to Students')}
+            </Link>
+
+            {/* Header */}
+            <div className="card p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                    <div className="w-16 h-16 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0">
+                        <User className="w-8 h-8 text-blue-600" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">{student.fullName}</h1>
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status === 'Active' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                                {status === 'Active' ? t('students.profile.active', 'Active') : t(`students.status.badges.${status}`)}
+                            </span>
+                        </div>
+                        {student.otherName && <p className="text-gray-600">{student.otherName}</p>}
+                        <p className="text-sm text-gray-500 mt-1">
+                            <span className="font-mono">{student.studentCode}</span>
+                            {student.gradeName && student.className && ` · ${student.gradeName} - ${student.className}`}
+                            {student.gender && ` · ${student.gender}`}
+                        </p>
+                    </div>
+                    <div className="text-sm text-gray-600 space-y-1">
+                        {student.parentName && (
+                            <p className="flex items-center gap-2"><User className="w-4 h-4 text-gray-400" />{student.parentName}</p>
+                        )}
+                        {student.parentContact && (
+                            <p className="flex items-center gap-2"><Phone className="w-4 h-4 text-gray-400" />{student.parentContact}</p>
+                        )}
+                        {student.parentEmail && (
+                            <p className="flex items-center gap-2"><Mail className="w-4 h-4 text-gray-400" />{student.parentEmail}</p>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Left the school */}
+            {status !== 'Active' && (
+                <div className="flex items-start gap-3 bg-gray-50 border border-gray-200 text-gray-700 px-4 py-3 rounded-lg text-sm">
+                    <History className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                    <div>
+                        <p className="font-medium">
+                            {t(`students.status.left.${status}`, {
+                                date: leavingDate ? formatDate(leavingDate) : '-',
+                                school: student.transferSchool || '-',
+                            })}
+                        </p>
+                        {student.statusReason && <p>{t('students.status.reason')}: {student.statusReason}</p>}
+                        <p className="text-gray-500">{t('students.status.historyKept')}</p>
+                    </div>
+                </div>
+            )}
+
+            {/* Stats */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-6">
+                <StatCard title={t('attendance.present')} value={present} icon={CheckCircle} color="bg-green-500" />
+                <StatCard title={t('attendance.late')} value={late} icon={Clock} color="bg-yellow-500" />
+                <StatCard
+                    title={t('attendance.absent')}
+                    value={absent}
+                    icon={XCircle}
+                    color="bg-red-500"
+                    subtitle={excused > 0 ? t('attendance.excusedCount', '{{count}} excused', { count: excused }) : undefined}
+                />
+                <StatCard
+                    title={t('students.profile.attendanceRate', 'Attendance Rate')}
+                    value={`${rate.toFixed(1)}%`}
+                    icon={TrendingUp}
+                    color="bg-purple-500"
+                    subtitle={t('students.profile.lastDays', 'Last {{count}} days', { count: rangeDays })}
+                />
+            </div>
+
+            {/* Heatmap */}
+            <div className="card p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <Calendar className="w-5 h-5 text-blue-600" />
+                        {t('students.profile.attendanceCalendar', 'Attendance Calendar')}
+                    </h2>
+                    <select
+                        value={rangeDays}
+                        onChange={(e) => {
+                            setRangeDays(parseInt(e.target.value));
+                            setSelectedDate(null);
+                        }}
+                        className="input-field sm:w-48"
+                    >
+                        {RANGE_OPTIONS.map(days => (
+                            <option key={days} value={days}>{t('students.profile.lastDays', 'Last {{count}} days', { count: days })}</option>
+                        ))}
+                    </select>
+                </div>
+                <AttendanceHeatmap
+                    startDate={startDate}
+                    endDate={endDate}
+                    records={records}
+                    selectedDate={selectedDate}
+                    onDayClick={(date) => setSelectedDate(date === selectedDate ? null : date)}
+                />
+
+                {selectedDate && (
+                    <div className="mt-4 p-3 bg-gray-50 rounded-lg flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                        <span className="font-medium text-gray-900">{formatDate(selectedDate)}</span>
+                        {selectedRecord ? (
+                            <>
+                                <span>{t('attendance.status')}: {t(`attendance.${selectedRecord.status.toLowerCase()}`)}</span>
+                                <span>{t('attendance.checkInTime')}: {formatTime(selectedRecord.checkInTime)}</span>
+                                <span>{t('attendance.checkOutTime')}: {formatTime(selectedRecord.checkOutTime)}</span>
+                                {selectedRecord.cameraName && <span>{t('attendance.camera')}: {selectedRecord.cameraName}</span>}
+                                {selectedRecord.snapshotPath && (
+                                    <button onClick={() => setPreviewImage(selectedRecord.snapshotPath!)} className="text-blue-600 hover:underline">
+                                        {t('attendance.viewSnapshot', 'View Snapshot')}
+                                    </button>
+                                )}
+                            </>
+                        ) : (
+                            <span className="text-gray-500">{t('students.profile.noData', 'No data')}</span>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+                {/* Check-in Times */}
+                <div className="card p-4 sm:p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                        <Clock className="w-5 h-5 text-blue-600" />
+                        {t('students.profile.checkInTimes', 'Recent Check-ins')}
+                    </h2>
+                    {checkIns.length === 0 ? (
+                        <p className="text-sm text-gray-500">{t('attendance.noRecordsMessage')}</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500 uppercase">
+                                    <th className="py-2">{t('students.profile.date', 'Date')}</th>
+                                    <th className="py-2">{t('attendance.checkInTime')}</th>
+                                    <th className="py-2">{t('attendance.checkOutTime')}</th>
+                                    <th className="py-2">{t('attendance.status')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {checkIns.map(r => (
+                                    <tr key={r.attendanceID}>
+                                        <td className="py-2 text-gray-700">{formatDate(r.attendanceDate)}</td>
+                                        <td className="py-2 text-gray-900">{formatTime(r.checkInTime)}</td>
+                                        <td className="py-2 text-gray-900">{formatTime(r.checkOutTime)}</td>
+                                        <td className="py-2">
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${r.status === 'Late' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>
+                                                {t(`attendance.${r.status.toLowerCase()}`)}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Camera Snapshots */}
+                <div className="card p-4 sm:p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                        <Camera className="w-5 h-5 text-blue-600" />
+                        {t('students.profile.snapshots', 'Camera Snapshots')}
+                    </h2>
+                    {detections.filter(d => d.snapshotPath).length === 0 ? (
+                        <p className="text-sm text-gray-500">{t('dashboard.noDetections')}</p>
+                    ) : (
+                        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                            {detections.filter(d => d.snapshotPath).map(d => (
+                                <button key={d.logID} onClick={() => setPreviewImage(d.snapshotPath)} className="text-left group">
+                                    <img src={d.snapshotPath} alt={d.fullName} className="w-full aspect-square object-cover rounded-lg group-hover:opacity-80 transition-opacity" />
+                                    <p className="text-xs text-gray-700 mt-1 truncate">{new Date(d.detectionTime).toLocaleString('en-MY', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</p>
+                                    <p className="text-xs text-gray-500 truncate">{d.cameraName} · {(d.confidence * 100).toFixed(0)}%</p>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Late Remarks */}
+                <div className="card p-4 sm:p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                        <MessageSquare className="w-5 h-5 text-amber-600" />
+                        {t('students.profile.lateRemarks', 'Late Check-in Remarks')}
+                    </h2>
+                    {lateRecords.length === 0 ? (
+                        <p className="text-sm text-gray-500">{t('lateReport.noRecords', 'No late records found')}</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-100">
+                            {lateRecords.map(r => (
+                                <li key={r.attendanceId} className="py-2 flex items-start justify-between gap-3 text-sm">
+                                    <div>
+                                        <p className="text-gray-900">{formatDate(r.attendanceDate)} · {formatTime(r.checkInTime)}</p>
+                                        <p className="text-gray-500">
+                                            {r.remarks === MANUAL_CHECK_IN_REMARK ? t('lateCheckIn.manual.remarkText') : r.remarks || '-'}
+                                        </p>
+                                    </div>
+                                    {r.snapshotPath && (
+                                        <button onClick={() => setPreviewImage(r.snapshotPath)} className="text-blue-600 hover:underline whitespace-nowrap">
+                                            {t('attendance.viewSnapshot', 'View Snapshot')}
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Event Participation */}
+                <div className="card p-4 sm:p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                        <Trophy className="w-5 h-5 text-purple-600" />
+                        {t('students.profile.events', 'Event Participation')}
+                    </h2>
+                    {events.length === 0 ? (
+                        <p className="text-sm text-gray-500">{t('students.profile.noEvents', 'No event participation yet')}</p>
+                    ) : (
+                        <ul className="divide-y divide-gray-100">
+                            {events.map(e => (
+                                <li key={e.participantID} className="py-2 flex items-start justify-between gap-3 text-sm">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-gray-900 truncate">{e.eventName}</p>
+                                        <p className="text-gray-500">
+                                            {formatDate(e.eventDate)} · {EventTypeLabels[e.eventType]}{e.role && ` · ${e.role}`}
+                                        </p>
+                                        {e.performance && <p className="text-gray-600">{e.performance}</p>}
+                                    </div>
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${e.attended ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                                        {e.attended ? t('students.profile.attended', 'Attended') : t('students.profile.notAttended', 'Not attended')}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            {/* Enrollment History */}
+            {statusHistory.length > 0 && (
+                <div className="card p-4 sm:p-6">
+                    <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                        <History className="w-5 h-5 text-gray-600" />
+                        {t('students.status.historyTitle')}
+                    </h2>
+                    <ul className="divide-y divide-gray-100">
+                        {statusHistory.map(change => (
+                            <li key={change.statusChangeID} className="py-2 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-1 text-sm">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-gray-900">
+                                        {t(`students.status.actions.${change.action}`)}
+                                        {change.transferSchool && <span className="font-normal text-gray-600"> · {change.transferSchool}</span>}
+                                    </p>
+                                    {change.reason && <p className="text-gray-500">{change.reason}</p>}
+                                </div>
+                                <div className="text-gray-500 sm:text-right whitespace-nowrap">
+                                    <p>{formatDate(change.effectiveDate)}</p>
+                                    {change.changedBy && <p className="text-xs">{t('students.status.recordedBy', { name: change.changedBy })}</p>}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Image Preview Modal */}
+            {previewImage && (
+                <div
+                    className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+                    onClick={() => setPreviewImage(null)}
+                >
+                    <div className="max-w-2xl max-h-[80vh] relative">
+                        <img
+                            src={previewImage}
+                            alt="Snapshot"
+                            className="max-w-full max-h-[80vh] object-contain rounded-lg"
+                        />
+                        <button
+                            onClick={() => setPreviewImage(null)}
+                            className="absolute top-4 right-4 p-2 bg-black/50 hover:bg-black/70 text-white rounded-full transition-colors"
+                        >
+                            ×
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StudentProfilePage;
@@ -1,11 +1,17 @@
 ﻿import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Users, Plus, Edit, Trash2, X, Upload, Filter, GraduationCap, BookOpen, RefreshCw, Image as ImageIcon, ChevronLeft, ChevronRight, Search, ArrowUpDown, ArrowUp, ArrowDown, Camera, AlertCircle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Users, Plus, Edit, Trash2, X, Upload, Filter, GraduationCap, BookOpen, RefreshCw, Image as ImageIcon, ChevronLeft, ChevronRight, Search, ArrowUpDown, ArrowUp, ArrowDown, Camera, AlertCircle, Brain, UserCog } from 'lucide-react';
 import api from '../services/api';
 import axios from 'axios';
 import PhotoManagementModal from '../components/Students/PhotoManagementModal';
 import PhotoUploadModal from '../components/Students/PhotoUploadModal';
 import PhotoCaptureModal from '../components/Students/PhotoCaptureModal';
+import StudentStatusModal from '../components/Students/StudentStatusModal';
+import { trainingService, type StaleStudent } from '../services/trainingService';
+import type { StudentStatus } from '../types';
+import { getAvailableActions, getLeavingDate, getStudentStatus, isOnRoll } from '../utils/studentLifecycle';
+import { toDateString } from '../utils/schoolCalendar';
 
 interface Student {
     studentID: number;
@@ -23,6 +29,13 @@ interface Student {
     address: string;
     isActive: boolean;
     enrollmentDate: string;
+    graduationDate?: string;
+
+    // Lifecycle (transfer, withdrawal, graduation)
+    status?: StudentStatus;
+    statusDate?: string;
+    statusReason?: string;
+    transferSchool?: string;
 
     // Academic info
     academicYearID: number | null;
@@ -79,6 +92,7 @@ const StudentsPage = () => {
     const [showEnrollModal, setShowEnrollModal] = useState(false);
     const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [statusStudent, setStatusStudent] = useState<Student | null>(null);
 
     // Filters
     const [filterAcademicYearId, setFilterAcademicYearId] = useState<number | null>(null);
@@ -87,6 +101,8 @@ const StudentsPage = () => {
 
     // Search & Sorting state
     const [searchTerm, setSearchTerm] = useState('');
+    // Students who left stay listed under "left" so their history is still reachable
+    const [rollFilter, setRollFilter] = useState<'current' | 'left' | 'all'>('current');
     const [sortField, setSortField] = useState<'studentCode' | 'fullName' | 'otherName' | 'academicYear' | 'gradeName' | 'className' | null>(null);
     const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
     const [showSuggestions, setShowSuggestions] = useState(false);
@@ -125,9 +141,14 @@ const StudentsPage = () => {
         return false;
     };
 
-    // Filter students by search term (Enhanced to handle "CODE - NAME" format)
+    // Filter students by roll status and search term (Enhanced to handle "CODE - NAME" format)
     const getFilteredStudents = () => {
-        if (!searchTerm.trim()) return students;
+        const today = toDateString(new Date());
+        const listed = rollFilter === 'all'
+            ? students
+            : students.filter(student => isOnRoll(student, today) === (rollFilter === 'current'));
+
+        if (!searchTerm.trim()) return listed;
 
         const term = searchTerm.toLowerCase();
 
@@ -139,14 +160,14 @@ const StudentsPage = () => {
             const namePart = term.substring(dashIndex + 3).trim();
 
             // Search using both parts for exact match
-            return students.filter(student =>
+            return listed.filter(student =>
                 student.studentCode.toLowerCase().includes(codePart) &&
                 student.fullName.toLowerCase().includes(namePart)
             );
         }
 
         // Original search logic for normal typing
-        return students.filter(student =>
+        return listed.filter(student =>
             student.studentCode.toLowerCase().includes(term) ||
             student.fullName.toLowerCase().includes(term) ||
             (student.otherName && student.otherName.toLowerCase().includes(term))
@@ -180,7 +201,7 @@ const StudentsPage = () => {
     // Reset to page 1 when filters, search, or itemsPerPage change
     useEffect(() => {
         setCurrentPage(1);
-    }, [filterAcademicYearId, filterGradeId, filterClassId, searchTerm, sortField, sortDirection, itemsPerPage]);
+    }, [filterAcademicYearId, filterGradeId, filterClassId, searchTerm, rollFilter, sortField, sortDirection, itemsPerPage]);
 
     // Photo Management Modal State
     const [photoManagementModal, setPhotoManagementModal] = useState<{
@@ -241,6 +262,9 @@ const StudentsPage = () => {
 
     const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
+    // Students whose photos changed since the model last saw them, by student code
+    const [staleStudents, setStaleStudents] = useState<Map<string, StaleStudent>>(new Map());
+
     useEffect(() => {
         fetchInitialData();
     }, [schoolID]);
@@ -249,6 +273,10 @@ const StudentsPage = () => {
         fetchStudents();
     }, [filterAcademicYearId, filterGradeId, filterClassId]);
 
+    useEffect(() => {
+        fetchStaleStudents();
+    }, []);
+
     // Filter classes when grade changes in create form
     useEffect(() => {
         if (formData.enrollment?.gradeID) {
@@ -324,6 +352,42 @@ const StudentsPage = () => {
         }
     };
 
+    const fetchStaleStudents = async () => {
+        const stale = await trainingService.getStaleStudents().catch((): StaleStudent[] => []);
+        setStaleStudents(new Map(stale.map(student => [student.studentCode, student])));
+    };
+
+    const renderStaleBadge = (studentCode: string) => {
+        const stale = staleStudents.get(studentCode);
+        if (!stale) return null;
+        return (
+            <span
+                className="ml-1.5 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+                title={stale.lastTrainedAt
+                    ? t('students.staleModel.changedHint', { time: new Date(stale.lastTrainedAt).toLocaleString('en-MY') })
+                    : t('students.staleModel.neverTrainedHint')}
+            >
+                <Brain className="w-3 h-3" />
+                {t('students.staleModel.badge')}
+            </span>
+        );
+    };
+
+    const renderStatusBadge = (student: Student) => {
+        const status = getStudentStatus(student);
+        if (status === 'Active') return null;
+        const leavingDate = getLeavingDate(student);
+        return (
+            <span
+                className="mt-0.5 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+                title={[student.transferSchool, student.statusReason].filter(Boolean).join(' · ') || undefined}
+            >
+                {t(`students.status.badges.${status}`)}
+                {leavingDate && ` · ${new Date(leavingDate).toLocaleDateString('en-MY')}`}
+            </span>
+        );
+    };
+
     const fetchStudents = async () => {
         try {
             let url = `/student`;
@@ -793,6 +857,15 @@ const StudentsPage = () => {
                         )}
                     </div>
                     <div className="flex items-center justify-between sm:justify-end gap-2 sm:gap-4">
+                        <select
+                            value={rollFilter}
+                            onChange={(e) => setRollFilter(e.target.value as 'current' | 'left' | 'all')}
+                            className="px-2 sm:px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                        >
+                            <option value="current">{t('students.status.filter.current')}</option>
+                            <option value="left">{t('students.status.filter.left')}</option>
+                            <option value="all">{t('students.status.filter.all')}</option>
+                        </select>
                         <div className="flex items-center gap-2">
                             <label className="text-xs sm:text-sm text-gray-600">{t('students.pagination.itemsPerPage')}:</label>
                             <select
@@ -898,8 +971,11 @@ const StudentsPage = () => {
                                             <div className="text-sm font-medium text-gray-900">{student.studentCode}</div>
                                         </td>
                                         <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap">
-                                            <div className="text-sm font-medium text-gray-900">{student.fullName}</div>
+                                            <Link to={`/students/${encodeURIComponent(student.studentCode)}`} className="text-sm font-medium text-gray-900 hover:text-blue-600 hover:underline">
+                                                {student.fullName}
+                                            </Link>
                                             <div className="text-xs sm:text-sm text-gray-500">{student.gender}</div>
+                                            {renderStatusBadge(student)}
                                             {/* Show grade/class on mobile */}
                                             <div className="sm:hidden text-xs text-gray-400 mt-0.5">
                                                 {student.gradeName && student.className && `${student.gradeName} - ${student.className}`}
@@ -929,29 +1005,35 @@ const StudentsPage = () => {
                                                 }`}>
                                                 {student.photoCount}
                                             </span>
+                                            {renderStaleBadge(student.studentCode)}
                                         </td>
                                         <td className="px-3 sm:px-6 py-3 sm:py-4 whitespace-nowrap text-right text-sm font-medium">
                                             <div className="flex items-center justify-end gap-1 sm:gap-2">
                                                 {/* Photo Actions - Only for students in teacher's classes (or admin) */}
                                                 {canPerformPhotoAction(student) && (
                                                     <>
-                                                        {/* Capture Photo Button */}
-                                                        <button
-                                                            onClick={() => handleOpenPhotoCapture(student)}
-                                                            className="p-1.5 sm:p-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded-lg transition-colors"
-                                                            title={t('students.actions.capturePhoto', 'Capture Photo')}
-                                                        >
-                                                            <Camera className="w-5 h-5" />
-                                                        </button>
-
-                                                        {/* Upload Photos Button */}
-                                                        <button
-                                                            onClick={() => handleOpenPhotoUpload(student)}
-                                                            className="p-1.5 sm:p-1 text-cyan-600 hover:text-cyan-900 hover:bg-cyan-50 rounded-lg transition-colors"
-                                                            title={t('students.actions.uploadPhotos')}
-                                                        >
-                                                            <Upload className="w-5 h-5" />
-                                                        </button>
+                                                        {/* Leavers keep their photos on record but get no new ones */}
+                                                        {getStudentStatus(student) === 'Active' && (
+                                                            <>
+                                                                {/* Capture Photo Button */}
+                                                                <button
+                                                                    onClick={() => handleOpenPhotoCapture(student)}
+                                                                    className="p-1.5 sm:p-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded-lg transition-colors"
+                                                                    title={t('students.actions.capturePhoto', 'Capture Photo')}
+                                                                >
+                                                                    <Camera className="w-5 h-5" />
+                                                                </button>
+
+                                                                {/* Upload Photos Button */}
+                                                                <button
+                                                                    onClick={() => handleOpenPhotoUpload(student)}
+                                                                    className="p-1.5 sm:p-1 text-cyan-600 hover:text-cyan-900 hover:bg-cyan-50 rounded-lg transition-colors"
+                                                                    title={t('students.actions.uploadPhotos')}
+                                                                >
+                                                                    <Upload className="w-5 h-5" />
+                                                                </button>
+                                                            </>
+                                                        )}
 
                                                         {/* Manage Photos Button */}
                                                         <button
@@ -976,6 +1058,17 @@ const StudentsPage = () => {
                                                             <GraduationCap className="w-5 h-5" />
                                                         </button>
 
+                                                        {/* Transfer / Withdraw / Graduate Button */}
+                                                        {getAvailableActions(student).length > 0 && (
+                                                            <button
+                                                                onClick={() => setStatusStudent(student)}
+                                                                className="p-1.5 sm:p-1 text-amber-600 hover:text-amber-900 hover:bg-amber-50 rounded-lg transition-colors"
+                                                                title={t('students.actions.changeStatus')}
+                                                            >
+                                                                <UserCog className="w-5 h-5" />
+                                                            </button>
+                                                        )}
+
                                                         {/* Edit Button */}
                                                         <button
                                                             onClick={() => handleEdit(student)}
@@ -1481,6 +1574,16 @@ const StudentsPage = () => {
                     </div>
                 )}
 
+            {/* Lifecycle Status Modal - Admin only */}
+            {canManageStudents && statusStudent && (
+                <StudentStatusModal
+                    isOpen={true}
+                    student={statusStudent}
+                    onClose={() => setStatusStudent(null)}
+                    onSuccess={fetchStudents}
+                />
+            )}
+
             {/* Photo Capture Modal - NEW */}
             {showPhotoCaptureModal && selectedStudent && canPerformPhotoAction(selectedStudent) && (
                 <PhotoCaptureModal
@@ -1493,8 +1596,7 @@ const StudentsPage = () => {
                     }}
                     onSuccess={() => {
                         fetchStudents();
-                        setShowPhotoCaptureModal(false);
-                        setSelectedStudent(null);
+                        fetchStaleStudents();
                     }}
                 />
             )}
@@ -1511,8 +1613,7 @@ const StudentsPage = () => {
                     }}
                     onSuccess={() => {
                         fetchStudents();
-                        setShowPhotoUploadModal(false);
-                        setSelectedStudent(null);
+                        fetchStaleStudents();
                     }}
                 />
             )}
@@ -1523,7 +1624,10 @@ const StudentsPage = () => {
                 studentName={photoManagementModal.studentName}
                 isOpen={photoManagementModal.isOpen}
                 onClose={handleClosePhotoManagement}
-                onPhotoUpdated={fetchStudents}
+                onPhotoUpdated={() => {
+                    fetchStudents();
+                    fetchStaleStudents();
+                }}
             />
         </div>
     );
@@ -1,41 +1,158 @@
-﻿import { useState } from 'react';
-import { Brain, CheckCircle, AlertCircle, Loader } from 'lucide-react';
+﻿import { useState, useEffect } from 'react';
+import { Brain, CheckCircle, AlertCircle, History, XCircle, ClipboardCheck, Users } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
-import api from '../services/api';
+import axios from 'axios';
+import { authService } from '../services/authService';
+import { settingsService } from '../services/settingsService';
+import {
+    trainingService,
+    isTrainingJobActive,
+    parseRecognitionThreshold,
+    DEFAULT_RECOGNITION_THRESHOLD,
+    type TrainingJob,
+    type TrainingJobDetail,
+    type TrainingJobScope,
+} from '../services/trainingService';
+import TrainingJobProgress from '../components/Training/TrainingJobProgress';
+import TrainingJobHistory from '../components/Training/TrainingJobHistory';
+import TrainingFailureBreakdown from '../components/Training/TrainingFailureBreakdown';
+import ModelTestModal from '../components/Training/ModelTestModal';
+import ModelEvaluationPanel from '../components/Training/ModelEvaluationPanel';
 
-interface TrainingResult {
-    totalImages: number;
-    successfulImages: number;
-    totalStudents: number;
-    errors?: string[];
-}
+const JOB_POLL_MS = 2000;
 
 const TrainingPage = () => {
     const { t } = useTranslation();
-    const [isTraining, setIsTraining] = useState(false);
-    const [trainingResult, setTrainingResult] = useState<TrainingResult | null>(null);
+    const [jobs, setJobs] = useState<TrainingJob[]>([]);
+    const [activeJob, setActiveJob] = useState<TrainingJob | null>(null);
+    const [selectedJob, setSelectedJob] = useState<TrainingJobDetail | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isStarting, setIsStarting] = useState(false);
+    const [isCancelling, setIsCancelling] = useState(false);
     const [error, setError] = useState('');
+    const [showTestModal, setShowTestModal] = useState(false);
+    const [threshold, setThreshold] = useState(DEFAULT_RECOGNITION_THRESHOLD);
+    const [staleCount, setStaleCount] = useState(0);
 
-    const handleTrain = async () => {
-        setIsTraining(true);
+    // The job list is the source of truth, so a run started before a refresh is picked up again
+    useEffect(() => {
+        loadJobs(true);
+        loadStaleCount();
+    }, []);
+
+    useEffect(() => {
+        const schoolId = authService.getCurrentUser()?.schoolID;
+        if (!schoolId) return;
+        settingsService.getSchoolSettings(schoolId)
+            .then(settings => setThreshold(parseRecognitionThreshold(settings)))
+            .catch(() => null);
+    }, []);
+
+    // Poll the running job until it finishes
+    useEffect(() => {
+        if (!activeJob) return;
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const job = await trainingService.getJob(activeJob.jobId);
+                if (cancelled) return;
+                if (isTrainingJobActive(job)) {
+                    setActiveJob(job);
+                } else {
+                    setActiveJob(null);
+                    setSelectedJob(job);
+                    setIsCancelling(false);
+                    if (job.status === 'Failed') {
+                        setError(job.errorMessage || t('training.trainingFailed'));
+                    }
+                    loadJobs(false);
+                    loadStaleCount();
+                }
+            } catch (err) {
+                console.error('Error polling training job:', err);
+                // Keep polling; a dropped request shouldn't lose track of the job
+                if (!cancelled) setActiveJob(prev => (prev ? { ...prev } : prev));
+            }
+        }, JOB_POLL_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [activeJob, t]);
+
+    const loadStaleCount = async () => {
+        const stale = await trainingService.getStaleStudents().catch(() => []);
+        setStaleCount(stale.length);
+    };
+
+    const loadJobs = async (selectLatest: boolean) => {
+        try {
+            const list = await trainingService.getJobs();
+            setJobs(list);
+            const running = list.find(isTrainingJobActive);
+            if (running) setActiveJob(running);
+            const latestFinished = list.find(job => !isTrainingJobActive(job));
+            if (selectLatest && latestFinished) {
+                setSelectedJob(await trainingService.getJob(latestFinished.jobId));
+            }
+        } catch (err) {
+            console.error('Error loading training jobs:', err);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleTrain = async (scope: TrainingJobScope = 'Full') => {
+        setIsStarting(true);
         setError('');
-        setTrainingResult(null);
 
         try {
-            const response = await api.post('/training/train');
-            setTrainingResult(response.data.data);
+            const job = await trainingService.startJob(scope);
+            setActiveJob(job);
+            setJobs(prev => [job, ...prev.filter(j => j.jobId !== job.jobId)]);
         } catch (err) {
             console.error('Training error:', err);
-            setError(t('training.trainingFailed'));
+            if (axios.isAxiosError(err) && err.response?.status === 409) {
+                // Someone else already started a run; follow it instead
+                loadJobs(false);
+                setError(t('training.jobs.alreadyRunning'));
+            } else {
+                setError(t('training.trainingFailed'));
+            }
         } finally {
-            setIsTraining(false);
+            setIsStarting(false);
         }
     };
 
-    const handleTestModel = async () => {
-        alert(t('training.testComingSoon'));
+    const handleCancel = async () => {
+        if (!activeJob || !confirm(t('training.jobs.confirmCancel'))) return;
+        setIsCancelling(true);
+        try {
+            await trainingService.cancelJob(activeJob.jobId);
+        } catch (err) {
+            console.error('Error cancelling training job:', err);
+            setIsCancelling(false);
+            alert(t('training.jobs.cancelFailed'));
+        }
     };
 
+    const handleSelectJob = async (jobId: number) => {
+        if (activeJob?.jobId === jobId) return;
+        try {
+            setSelectedJob(await trainingService.getJob(jobId));
+        } catch (err) {
+            console.error('Error loading training job:', err);
+        }
+    };
+
+    const handleTestModel = () => {
+        setShowTestModal(true);
+    };
+
+    const latestCompleted = jobs.find(job => job.status === 'Completed') || null;
+    // Scoped runs only cover a few students, so model totals come from the last full run
+    const latestFull = jobs.find(job => job.status === 'Completed' && (job.scope ?? 'Full') === 'Full') || null;
+
     return (
         <div className="space-y-6">
             {/* Header */}
@@ -75,53 +192,67 @@ const TrainingPage = () => {
                     </div>
                 )}
 
-                {trainingResult && (
-                    <div className="mb-4 bg-green-50 border border-green-200 rounded-lg p-4">
-                        <div className="flex items-center gap-2 mb-2">
-                            <CheckCircle className="w-5 h-5 text-green-600" />
-                            <p className="font-semibold text-green-900">{t('training.trainingSuccess')}</p>
-                        </div>
-                        <div className="text-sm text-green-800 space-y-1">
-                            <p>✓ {t('training.totalImagesProcessed')}: {trainingResult.totalImages}</p>
-                            <p>✓ {t('training.successfullyTrained')}: {trainingResult.successfulImages}</p>
-                            <p>✓ {t('training.studentsRecognized')}: {trainingResult.totalStudents}</p>
-                        </div>
-                        {trainingResult.errors && trainingResult.errors.length > 0 && (
-                            <div className="mt-3 text-sm text-yellow-800">
-                                <p className="font-semibold">{t('training.warnings')}</p>
-                                {trainingResult.errors.slice(0, 5).map((err: string, idx: number) => (
-                                    <p key={idx}>• {err}</p>
-                                ))}
-                            </div>
+                {activeJob ? (
+                    <TrainingJobProgress job={activeJob} onCancel={handleCancel} isCancelling={isCancelling} />
+                ) : (
+                    <>
+                        {/* Training Button */}
+                        <button
+                            onClick={() => handleTrain('Full')}
+                            disabled={isStarting || isLoading}
+                            className="w-full btn-primary py-4 text-lg flex items-center justify-center gap-3"
+                        >
+                            <Brain className="w-6 h-6" />
+                            {t('training.startTraining')}
+                        </button>
+                        {latestCompleted && staleCount > 0 && (
+                            <button
+                                onClick={() => handleTrain('Changed')}
+                                disabled={isStarting || isLoading}
+                                className="w-full btn-secondary py-3 mt-3 flex items-center justify-center gap-2"
+                            >
+                                <Users className="w-5 h-5" />
+                                {t('training.retrain.changedStudentsCount', { count: staleCount })}
+                            </button>
                         )}
-                    </div>
+                        <p className="text-center text-sm text-gray-600 mt-4">
+                            {t('training.trainingTimeNotice')}
+                        </p>
+                    </>
                 )}
+            </div>
 
-                {/* Training Button */}
-                <button
-                    onClick={handleTrain}
-                    disabled={isTraining}
-                    className="w-full btn-primary py-4 text-lg flex items-center justify-center gap-3"
-                >
-                    {isTraining ? (
-                        <>
-                            <Loader className="w-6 h-6 animate-spin" />
-                            {t('training.trainingInProgress')}
-                        </>
+            {/* Selected run */}
+            {selectedJob && (
+                <div className="card space-y-4">
+                    <h2 className="text-xl font-bold text-gray-900">
+                        {t('training.jobs.runTitle', { time: new Date(selectedJob.startedAt || selectedJob.createdAt).toLocaleString('en-MY') })}
+                    </h2>
+                    {selectedJob.status === 'Completed' ? (
+                        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                            <div className="flex items-center gap-2 mb-2">
+                                <CheckCircle className="w-5 h-5 text-green-600" />
+                                <p className="font-semibold text-green-900">{t('training.trainingSuccess')}</p>
+                            </div>
+                            <div className="text-sm text-green-800 space-y-1">
+                                <p>✓ {t('training.totalImagesProcessed')}: {selectedJob.totalImages}</p>
+                                <p>✓ {t('training.successfullyTrained')}: {selectedJob.successfulImages}</p>
+                                <p>✓ {t('training.studentsRecognized')}: {selectedJob.totalStudents}</p>
+                            </div>
+                        </div>
                     ) : (
-                        <>
-                            <Brain className="w-6 h-6" />
-                            {t('training.startTraining')}
-                        </>
+                        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 flex items-start gap-2">
+                            <XCircle className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                            <div className="text-sm text-gray-700">
+                                <p className="font-semibold">{t(`training.jobs.statuses.${selectedJob.status}`)}</p>
+                                {selectedJob.errorMessage && <p className="mt-1">{selectedJob.errorMessage}</p>}
+                                <p className="mt-1">{t('training.jobs.imagesProgress', { processed: selectedJob.processedImages, total: selectedJob.totalImages })}</p>
+                            </div>
+                        </div>
                     )}
-                </button>
-
-                {isTraining && (
-                    <p className="text-center text-sm text-gray-600 mt-4">
-                        {t('training.trainingTimeNotice')}
-                    </p>
-                )}
-            </div>
+                    <TrainingFailureBreakdown failures={selectedJob.failures || []} />
+                </div>
+            )}
 
             {/* Model Status Card */}
             <div className="card">
@@ -130,26 +261,44 @@ const TrainingPage = () => {
                     <div className="bg-blue-50 p-4 rounded-lg">
                         <p className="text-sm text-blue-600 font-medium">{t('training.modelStatus')}</p>
                         <p className="text-2xl font-bold text-blue-900 mt-1">
-                            {trainingResult ? t('training.trained') : t('training.notTrained')}
+                            {latestCompleted ? t('training.trained') : t('training.notTrained')}
                         </p>
+                        {latestCompleted?.completedAt && (
+                            <p className="text-xs text-blue-700 mt-1">
+                                {t('training.jobs.lastTrained', { time: new Date(latestCompleted.completedAt).toLocaleString('en-MY') })}
+                            </p>
+                        )}
                     </div>
                     <div className="bg-green-50 p-4 rounded-lg">
                         <p className="text-sm text-green-600 font-medium">{t('training.students')}</p>
                         <p className="text-2xl font-bold text-green-900 mt-1">
-                            {trainingResult?.totalStudents || 0}
+                            {latestFull?.totalStudents || 0}
                         </p>
                     </div>
                     <div className="bg-purple-50 p-4 rounded-lg">
                         <p className="text-sm text-purple-600 font-medium">{t('training.trainingImages')}</p>
                         <p className="text-2xl font-bold text-purple-900 mt-1">
-                            {trainingResult?.successfulImages || 0}
+                            {latestFull?.successfulImages || 0}
                         </p>
                     </div>
                 </div>
             </div>
 
+            {/* Past runs */}
+            <div className="card">
+                <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+                    <History className="w-5 h-5 text-gray-600" />
+                    {t('training.jobs.historyTitle')}
+                </h2>
+                <TrainingJobHistory
+                    jobs={jobs}
+                    selectedJobId={selectedJob?.jobId ?? null}
+                    onSelect={handleSelectJob}
+                />
+            </div>
+
             {/* Test Model Card */}
-            {trainingResult && (
+            {latestCompleted && (
                 <div className="card">
                     <h2 className="text-xl font-bold text-gray-900 mb-4">{t('training.testRecognitionTitle')}</h2>
                     <p className="text-gray-600 mb-4">
@@ -164,8 +313,23 @@ const TrainingPage = () => {
                     </button>
                 </div>
             )}
+
+            {/* Model Evaluation Card */}
+            {latestCompleted && (
+                <div className="card">
+                    <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+                        <ClipboardCheck className="w-5 h-5 text-gray-600" />
+                        {t('training.evaluation.title')}
+                    </h2>
+                    <ModelEvaluationPanel threshold={threshold} />
+                </div>
+            )}
+
+            {showTestModal && (
+                <ModelTestModal threshold={threshold} onClose={() => setShowTestModal(false)} />
+            )}
         </div>
     );
 };
 
-export default TrainingPage;
\ No newline at end of file
+export default TrainingPage;
@@ -1,5 +1,27 @@
 import api from './api';
-import type { AttendanceSummary, AttendanceRecord, AbsentStudent, RecentDetection, ApiResponse } from '../types';
+import type {
+    AttendanceSummary,
+    AttendanceRecord,
+    AbsentStudent,
+    AbsentStudentRecord,
+    AttendanceRangeSummary,
+    AttendanceOverrideRequest,
+    BulkAttendanceOverrideRequest,
+    AttendanceAuditEntry,
+    OverrideReasonCode,
+    RecentDetection,
+    ApiResponse,
+} from '../types';
+
+export const OVERRIDE_REASON_CODES: OverrideReasonCode[] = [
+    'CameraMissed',
+    'CameraOutage',
+    'FieldTrip',
+    'MedicalAppointment',
+    'FamilyMatter',
+    'DataCorrection',
+    'Other',
+];
 
 export const attendanceService = {
     getTodaySummary: async (): Promise<AttendanceSummary> => {
@@ -25,4 +47,108 @@ export const attendanceService = {
         });
         return response.data.data;
     },
-};
\ No newline at end of file
+
+    // ============= DATE RANGE METHODS =============
+
+    /**
+     * Get attendance totals for a date range, with per-day and per-class breakdowns
+     * @param startDate - Start date (yyyy-MM-dd)
+     * @param endDate - End date (yyyy-MM-dd), inclusive
+     * @param classId - Optional: Filter by class
+     * @param gradeId - Optional: Filter by grade
+     */
+    getSummaryByDateRange: async (startDate: string, endDate: string, classId?: number, gradeId?: number): Promise<AttendanceRangeSummary> => {
+        const response = await api.get<ApiResponse<AttendanceRangeSummary>>('/attendance/summary/range', {
+            params: { startDate, endDate, classId, gradeId },
+        });
+        return response.data.data;
+    },
+
+    /**
+     * Get attendance records for a date range
+     * @param startDate - Start date (yyyy-MM-dd)
+     * @param endDate - End date (yyyy-MM-dd), inclusive
+     * @param classId - Optional: Filter by class
+     */
+    getAttendanceByDateRange: async (startDate: string, endDate: string, classId?: number): Promise<AttendanceRecord[]> => {
+        const response = await api.get<ApiResponse<AttendanceRecord[]>>('/attendance/range', {
+            params: { startDate, endDate, classId },
+        });
+        return response.data.data;
+    },
+
+    /**
+     * Get absent students for a date range (one entry per student per absent day)
+     * @param startDate - Start date (yyyy-MM-dd)
+     * @param endDate - End date (yyyy-MM-dd), inclusive
+     * @param classId - Optional: Filter by class
+     */
+    getAbsentByDateRange: async (startDate: string, endDate: string, classId?: number): Promise<AbsentStudentRecord[]> => {
+        const response = await api.get<ApiResponse<{ students: AbsentStudentRecord[] }>>('/attendance/absent', {
+            params: { startDate, endDate, classId },
+        });
+        return response.data.data.students;
+    },
+
+    // ============= STUDENT METHODS =============
+
+    /**
+     * Get one student's daily attendance for a date range.
+     * Days without a check-in come back with status 'Absent'.
+     * @param studentCode - Student code
+     * @param startDate - Start date (yyyy-MM-dd)
+     * @param endDate - End date (yyyy-MM-dd), inclusive
+     */
+    getStudentAttendance: async (studentCode: string, startDate: string, endDate: string): Promise<AttendanceRecord[]> => {
+        const response = await api.get<ApiResponse<AttendanceRecord[]>>(`/attendance/student/${studentCode}`, {
+            params: { startDate, endDate },
+        });
+        return response.data.data;
+    },
+
+    /**
+     * Get the most recent camera detections of one student
+     * @param studentCode - Student code
+     * @param count - Maximum number of detections to return
+     */
+    getStudentDetections: async (studentCode: string, count: number = 12): Promise<RecentDetection[]> => {
+        const response = await api.get<ApiResponse<RecentDetection[]>>('/attendance/recent-detections', {
+            params: { count, studentCode },
+        });
+        return response.data.data;
+    },
+
+    // ============= OVERRIDE METHODS =============
+
+    /**
+     * Manually set one student's attendance for a day (creates or updates the record).
+     * The change is written to the audit trail with the current user.
+     * @param request - Student, date, new status, reason code and remarks
+     */
+    overrideAttendance: async (request: AttendanceOverrideRequest): Promise<AttendanceRecord> => {
+        const response = await api.post<ApiResponse<AttendanceRecord>>('/attendance/override', request);
+        return response.data.data;
+    },
+
+    /**
+     * Mark a whole class (or the selected students in it) for a day
+     * @param request - Class, date, status, reason code and optional student codes
+     * @returns Number of records created or updated
+     */
+    bulkOverrideAttendance: async (request: BulkAttendanceOverrideRequest): Promise<{ updatedCount: number }> => {
+        const response = await api.post<ApiResponse<{ updatedCount: number }>>('/attendance/override/bulk', request);
+        return response.data.data;
+    },
+
+    /**
+     * Get the manual change history for a day
+     * @param date - Attendance date (yyyy-MM-dd)
+     * @param studentCode - Optional: Only changes for this student
+     */
+    getAuditTrail: async (date: string, studentCode?: string): Promise<AttendanceAuditEntry[]> => {
+        const response = await api.get<ApiResponse<AttendanceAuditEntry[]>>('/attendance/audit', {
+            params: { date, studentCode },
+        });
+        return response.data.data;
+    },
+};
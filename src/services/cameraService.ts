@@ -0,0 +1,210 @@
+import api from './api';
+import type { CameraStatus, RecentDetection } from '../types';
+
+// ============================================================
+//  TYPES
+// ============================================================
+
+export const CAMERA_TYPE_RTSP = 1;
+export const CAMERA_TYPE_P6SAI = 2;
+
+/**
+ * What a camera's detections count as. Entry detections record check-in,
+ * exit detections record check-out; Both uses the first sighting of the day
+ * as check-in and later ones as check-out; Monitoring only logs detections.
+ */
+export type CameraRole = 'Entry' | 'Exit' | 'Both' | 'Monitoring';
+
+export const CAMERA_ROLES: CameraRole[] = ['Entry', 'Exit', 'Both', 'Monitoring'];
+
+/** Cameras saved before roles existed behave as Both */
+export const DEFAULT_CAMERA_ROLE: CameraRole = 'Both';
+
+export interface CameraConfig {
+    cameraId: number;
+    cameraName: string;
+    location: string;
+    cameraType: number;       // 1=RTSP, 2=P6SAI
+    rtspUrl: string;
+    ipAddress: string;
+    deviceSerial?: string;    // For P6SAI cameras
+    isActive: boolean;
+    schoolId?: number;
+    role?: CameraRole;
+    zone?: string;            // Free-text label, e.g. "Main Gate", "Block B"
+}
+
+/** Fields the add/edit forms send; unused connection fields are sent as empty strings */
+export interface CameraFormData {
+    cameraName: string;
+    location: string;
+    cameraType: number;
+    rtspUrl: string;
+    ipAddress: string;
+    deviceSerial: string;
+    role: CameraRole;
+    zone: string;
+}
+
+export interface CameraConnectionTestResult {
+    success: boolean;
+    message: string;
+    latencyMs?: number;
+    sampleFrame?: string;     // base64 JPEG, RTSP only
+    frameWidth?: number;
+    frameHeight?: number;
+    deviceModel?: string;     // P6SAI only
+}
+
+/** A face found in a preview frame; box coordinates are in frame pixels */
+export interface PreviewFace extends Pick<RecentDetection, 'studentCode' | 'fullName' | 'confidence'> {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Latest processed frame of a running camera; studentCode is empty for unmatched faces */
+export interface CameraPreviewFrame {
+    cameraId: number;
+    frame: string;            // base64 JPEG
+    frameWidth: number;
+    frameHeight: number;
+    capturedAt: string;
+    faces: PreviewFace[];
+}
+
+/** A recorded online/offline transition of a camera */
+export interface CameraStatusEvent {
+    eventId: number;
+    cameraId: number;
+    cameraName: string;
+    isOnline: boolean;
+    statusMessage: string;
+    occurredAt: string;
+}
+
+const toRequest = (form: CameraFormData) => ({
+    cameraName: form.cameraName.trim(),
+    location: form.location.trim(),
+    cameraType: form.cameraType,
+    rtspUrl: form.cameraType === CAMERA_TYPE_RTSP ? form.rtspUrl.trim() : '',
+    ipAddress: form.ipAddress.trim(),
+    deviceSerial: form.cameraType === CAMERA_TYPE_P6SAI ? form.deviceSerial.trim() : '',
+    role: form.role,
+    zone: form.zone.trim(),
+});
+
+export const EMPTY_CAMERA_FORM: CameraFormData = {
+    cameraName: '',
+    location: '',
+    cameraType: CAMERA_TYPE_RTSP,
+    rtspUrl: '',
+    ipAddress: '',
+    deviceSerial: '',
+    role: DEFAULT_CAMERA_ROLE,
+    zone: '',
+};
+
+export const toCameraForm = (camera: CameraConfig): CameraFormData => ({
+    cameraName: camera.cameraName,
+    location: camera.location || '',
+    cameraType: camera.cameraType,
+    rtspUrl: camera.rtspUrl || '',
+    ipAddress: camera.ipAddress || '',
+    deviceSerial: camera.deviceSerial || '',
+    role: camera.role || DEFAULT_CAMERA_ROLE,
+    zone: camera.zone || '',
+});
+
+/** Fields a connection test depends on; editing any of them invalidates the last result */
+export const CONNECTION_FIELDS: (keyof CameraFormData)[] = ['cameraType', 'rtspUrl', 'ipAddress', 'deviceSerial'];
+
+/** Returns the translation key of the first validation error, or null */
+export const validateCameraForm = (form: CameraFormData): string | null => {
+    if (!form.cameraName.trim()) return 'cameras.cameraNameRequired';
+    if (form.cameraType === CAMERA_TYPE_RTSP && !form.rtspUrl.trim()) return 'cameras.rtspRequired';
+    if (form.cameraType === CAMERA_TYPE_P6SAI && !form.deviceSerial.trim()) return 'cameras.deviceSerialRequired';
+    return null;
+};
+
+// ============================================================
+//  SERVICE
+// ============================================================
+
+export const cameraService = {
+
+    // ── Cameras ─────────────────────────────────────────────
+
+    getCameras: async (): Promise<CameraConfig[]> => {
+        const response = await api.get('/camera');
+        return response.data.data;
+    },
+
+    createCamera: async (form: CameraFormData, schoolId: number): Promise<CameraConfig> => {
+        const response = await api.post('/camera', { ...toRequest(form), schoolId });
+        return response.data.data;
+    },
+
+    updateCamera: async (cameraId: number, form: CameraFormData): Promise<CameraConfig> => {
+        const response = await api.put(`/camera/${cameraId}`, toRequest(form));
+        return response.data.data;
+    },
+
+    /**
+     * Soft-delete: the backend stops the camera and sets isActive = false,
+     * so attendance records keep their camera name.
+     */
+    deleteCamera: async (cameraId: number): Promise<void> => {
+        await api.delete(`/camera/${cameraId}`);
+    },
+
+    /**
+     * Try the connection settings without saving them
+     * @param form - Unsaved form values; only the connection fields are used
+     */
+    testConnection: async (form: CameraFormData): Promise<CameraConnectionTestResult> => {
+        const { cameraType, rtspUrl, ipAddress, deviceSerial } = toRequest(form);
+        const response = await api.post('/camera/test-connection', { cameraType, rtspUrl, ipAddress, deviceSerial });
+        return response.data.data;
+    },
+
+    /**
+     * Latest frame the recognition pipeline processed, with the faces it found.
+     * Poll it for a live view; the backend answers 409 when the camera is not running.
+     */
+    getPreviewFrame: async (cameraId: number): Promise<CameraPreviewFrame> => {
+        const response = await api.get(`/camera/${cameraId}/preview`);
+        return response.data.data;
+    },
+
+    // ── Recognition control ─────────────────────────────────
+
+    getStatuses: async (): Promise<CameraStatus[]> => {
+        const response = await api.get('/camera/statuses');
+        return response.data.data.cameras || [];
+    },
+
+    /**
+     * Online/offline transitions recorded by the backend. The last transition before
+     * startDate is included so the state at the start of the range is known.
+     * @param startDate - yyyy-MM-dd
+     * @param endDate - yyyy-MM-dd, inclusive
+     */
+    getStatusHistory: async (startDate: string, endDate: string, cameraId?: number): Promise<CameraStatusEvent[]> => {
+        const response = await api.get('/camera/status-history', { params: { startDate, endDate, cameraId } });
+        return response.data.data || [];
+    },
+
+    startCamera: async (cameraId: number): Promise<void> => {
+        await api.post(`/camera/${cameraId}/start`);
+    },
+
+    stopCamera: async (cameraId: number): Promise<void> => {
+        await api.post(`/camera/${cameraId}/stop`);
+    },
+
+    stopAll: async (): Promise<void> => {
+        await api.post('/camera/stop-all');
+    },
+};
@@ -254,6 +254,21 @@ export interface EventCalendarItem {
     participantCount: number;
 }
 
+export interface StudentEventParticipation {
+    participantID: number;
+    eventID: number;
+    eventName: string;
+    eventType: EventType;
+    status: EventStatus;
+    eventDate: string;
+    endDate?: string;
+    venue?: string;
+    role: string;
+    attended: boolean;
+    performance?: string;
+    remarks?: string;
+}
+
 // ============================================
 // SERVICE
 // ============================================
@@ -320,6 +335,12 @@ export const eventService = {
         return response.data.data;
     },
 
+    // Get events a student has taken part in
+    getStudentEvents: async (studentCode: string): Promise<StudentEventParticipation[]> => {
+        const response = await api.get(`/activityevent/student/${studentCode}`);
+        return response.data.data;
+    },
+
     // Send parent notifications
     sendParentNotifications: async (eventId: number): Promise<void> => {
         await api.post(`/activityevent/${eventId}/notify-parents`);
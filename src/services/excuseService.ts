@@ -0,0 +1,108 @@
+import api from './api';
+import type { OverrideReasonCode } from '../types';
+
+// ============================================================
+//  TYPES
+// ============================================================
+
+export type ExcuseType = 'Medical' | 'Family' | 'Religious' | 'Official' | 'SchoolEvent' | 'Other';
+
+export const EXCUSE_TYPES: ExcuseType[] = ['Medical', 'Family', 'Religious', 'Official', 'SchoolEvent', 'Other'];
+
+export interface StudentExcuse {
+    excuseID: number;
+    studentID: number;
+    studentCode: string;
+    fullName: string;
+    gradeName?: string;
+    className?: string;
+    excuseType: ExcuseType;
+    startDate: string;
+    endDate: string;          // inclusive
+    reason: string;
+    attachmentUrl?: string;
+    attachmentName?: string;
+    createdByName?: string;
+    createdDate: string;
+}
+
+export interface ExcuseCreateDto {
+    studentCode: string;
+    excuseType: ExcuseType;
+    startDate: string;
+    endDate: string;
+    reason: string;
+}
+
+export interface ExcuseQueryParams {
+    startDate?: string;
+    endDate?: string;
+    classId?: number;
+    studentCode?: string;
+    excuseType?: ExcuseType;
+}
+
+/**
+ * One excused student-day. The backend merges excuse records, ActivityEvent
+ * participants marked as attended on that day and attendance overrides to Excused.
+ */
+export interface ExcusedDay {
+    studentCode: string;
+    date: string;             // yyyy-MM-dd
+    source: 'Excuse' | 'Event' | 'Override';
+    excuseID?: number;
+    excuseType?: ExcuseType;
+    eventID?: number;
+    eventName?: string;
+    reasonCode?: OverrideReasonCode;   // for overrides, e.g. FieldTrip
+    reason?: string;
+}
+
+// ============================================================
+//  SERVICE
+// ============================================================
+
+export const excuseService = {
+
+    // ── Excuses ─────────────────────────────────────────────
+
+    getExcuses: async (params: ExcuseQueryParams = {}): Promise<StudentExcuse[]> => {
+        const response = await api.get('/studentexcuse', { params });
+        return response.data.data;
+    },
+
+    createExcuse: async (dto: ExcuseCreateDto, attachment?: File | null): Promise<StudentExcuse> => {
+        const formData = new FormData();
+        formData.append('studentCode', dto.studentCode);
+        formData.append('excuseType', dto.excuseType);
+        formData.append('startDate', dto.startDate);
+        formData.append('endDate', dto.endDate);
+        formData.append('reason', dto.reason);
+        if (attachment) formData.append('attachment', attachment);
+
+        const response = await api.post('/studentexcuse', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return response.data.data;
+    },
+
+    deleteExcuse: async (id: number): Promise<void> => {
+        await api.delete(`/studentexcuse/${id}`);
+    },
+
+    // ── Classification ──────────────────────────────────────
+
+    /**
+     * Get every excused student-day in a date range (excuses and attended events)
+     * @param startDate - Start date (yyyy-MM-dd)
+     * @param endDate - End date (yyyy-MM-dd), inclusive
+     * @param classId - Optional: Filter by class
+     * @param studentCode - Optional: Filter by student
+     */
+    getExcusedDays: async (startDate: string, endDate: string, classId?: number, studentCode?: string): Promise<ExcusedDay[]> => {
+        const response = await api.get('/studentexcuse/excused-days', {
+            params: { startDate, endDate, classId, studentCode },
+        });
+        return response.data.data;
+    },
+};
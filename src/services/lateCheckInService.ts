@@ -0,0 +1,175 @@
+import api from './api';
+
+// ============================================================
+//  TYPES
+// ============================================================
+
+export interface LateCheckInResult {
+    success: boolean;
+    isRecognized: boolean;
+    studentCode?: string;
+    studentName?: string;
+    facesDetected: number;
+    confidence: number;
+    distance: number;
+    checkInTime?: string;
+    attendanceId?: number;
+    snapshotUrl?: string;
+    remarks?: string;
+    /** Recorded by staff after face recognition failed */
+    isManual?: boolean;
+    message: string;
+}
+
+interface ApiResponse<T> {
+    success: boolean;
+    data: T;
+    message: string;
+    messageKey: string;
+    errors?: string[];
+}
+
+/** A kiosk capture that could not be sent and is waiting in localStorage */
+export interface QueuedLateCheckIn {
+    id: string;
+    image: string;              // JPEG data URL
+    capturedAt: string;         // ISO time of the capture, sent as the check-in time
+    remarks: string;
+}
+
+/** A queued capture the server rejected or could not match; kept until staff check the student in by hand */
+export interface UnresolvedLateCheckIn extends QueuedLateCheckIn {
+    reason: 'notRecognized' | 'rejected';
+    message?: string;
+}
+
+/** Stored as the remark of manual check-ins so reports don't depend on the kiosk's language; translate it when shown */
+export const MANUAL_CHECK_IN_REMARK = 'ManualLateCheckIn';
+
+const QUEUE_KEY = 'late_checkin_queue';
+const UNRESOLVED_KEY = 'late_checkin_unresolved';
+
+/** Each capture is ~100 KB as a data URL, so keep well under the localStorage quota (both lists together) */
+export const MAX_QUEUED_CHECK_INS = 30;
+
+const readList = <T>(key: string): T[] => {
+    try {
+        return JSON.parse(localStorage.getItem(key) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+// ============================================================
+//  SERVICE
+// ============================================================
+
+export const lateCheckInService = {
+
+    // ── Check-in ────────────────────────────────────────────
+
+    /**
+     * Recognize a face and record the late arrival
+     * @param image - Captured photo
+     * @param remarks - Stored with the attendance record
+     * @param capturedAt - Original capture time for queued check-ins; the server time is used when omitted
+     * @throws Error with the server message when the request succeeds but nothing was recorded
+     */
+    checkIn: async (image: Blob, remarks: string, capturedAt?: string): Promise<LateCheckInResult> => {
+        const formData = new FormData();
+        formData.append('image', image, `late_checkin_${Date.now()}.jpg`);
+        formData.append('remarks', remarks);
+        if (capturedAt) formData.append('capturedAt', capturedAt);
+
+        const response = await api.post<ApiResponse<LateCheckInResult>>(
+            '/api/LateRecognition/check-in-late',
+            formData,
+            {
+                headers: {
+                    'Content-Type': 'multipart/form-data'
+                }
+            }
+        );
+
+        if (!response.data.success || !response.data.data) {
+            throw new Error(response.data.message);
+        }
+        return response.data.data;
+    },
+
+    /**
+     * Record a late arrival for a student picked by staff when recognition fails
+     * @param studentCode - Student confirmed by the guard
+     * @param image - Captured photo, kept as evidence on the record
+     * @param capturedAt - Original capture time for queued check-ins; the server time is used when omitted
+     */
+    manualCheckIn: async (studentCode: string, image: Blob, capturedAt?: string): Promise<LateCheckInResult> => {
+        const formData = new FormData();
+        formData.append('studentCode', studentCode);
+        formData.append('image', image, `late_checkin_manual_${Date.now()}.jpg`);
+        formData.append('remarks', MANUAL_CHECK_IN_REMARK);
+        if (capturedAt) formData.append('capturedAt', capturedAt);
+
+        const response = await api.post<ApiResponse<LateCheckInResult>>(
+            '/api/LateRecognition/check-in-manual',
+            formData,
+            {
+                headers: {
+                    'Content-Type': 'multipart/form-data'
+                }
+            }
+        );
+
+        if (!response.data.success || !response.data.data) {
+            throw new Error(response.data.message);
+        }
+        return response.data.data;
+    },
+
+    // ── Offline queue ───────────────────────────────────────
+
+    getQueue: (): QueuedLateCheckIn[] => readList<QueuedLateCheckIn>(QUEUE_KEY),
+
+    /**
+     * Store a capture for later submission
+     * @returns false when the queue is full or storage is out of space
+     */
+    enqueue: (item: Omit<QueuedLateCheckIn, 'id'>): boolean => {
+        const queue = lateCheckInService.getQueue();
+        if (queue.length + lateCheckInService.getUnresolved().length >= MAX_QUEUED_CHECK_INS) return false;
+        try {
+            queue.push({ ...item, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` });
+            localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+            return true;
+        } catch {
+            return false;
+        }
+    },
+
+    dequeue: (id: string): void => {
+        const queue = lateCheckInService.getQueue().filter(item => item.id !== id);
+        localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    },
+
+    getUnresolved: (): UnresolvedLateCheckIn[] => readList<UnresolvedLateCheckIn>(UNRESOLVED_KEY),
+
+    /**
+     * Move a queued capture to the unresolved list
+     * @returns false when storage is out of space; the capture then stays queued
+     */
+    markUnresolved: (item: UnresolvedLateCheckIn): boolean => {
+        try {
+            const unresolved = lateCheckInService.getUnresolved().filter(u => u.id !== item.id);
+            localStorage.setItem(UNRESOLVED_KEY, JSON.stringify([...unresolved, item]));
+        } catch {
+            return false;
+        }
+        lateCheckInService.dequeue(item.id);
+        return true;
+    },
+
+    resolve: (id: string): void => {
+        const unresolved = lateCheckInService.getUnresolved().filter(item => item.id !== id);
+        localStorage.setItem(UNRESOLVED_KEY, JSON.stringify(unresolved));
+    },
+};
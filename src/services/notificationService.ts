@@ -0,0 +1,105 @@
+import api from './api';
+
+// ============================================================
+//  TYPES
+// ============================================================
+
+export type NotificationChannel = 'Email' | 'Telegram' | 'SMS';
+
+export type NotificationStatus = 'Pending' | 'Sent' | 'Failed';
+
+export type NotificationTemplateType = 'AbsentNotification' | 'LateNotification';
+
+export type TemplateLanguage = 'en' | 'zh' | 'ms';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['Email', 'Telegram', 'SMS'];
+
+export const TEMPLATE_LANGUAGES: TemplateLanguage[] = ['en', 'zh', 'ms'];
+
+export interface NotificationLog {
+    notificationID: number;
+    studentCode: string;
+    studentName: string;
+    className?: string;
+    parentName?: string;
+    recipient: string;                // Email address, phone number or Telegram chat
+    channel: NotificationChannel;
+    templateType: NotificationTemplateType;
+    status: NotificationStatus;
+    attendanceDate: string;           // The day the student was absent/late
+    createdDate: string;
+    sentDate?: string;
+    attempts: number;
+    errorMessage?: string;
+    triggeredBy: 'Schedule' | 'Manual';
+    triggeredByName?: string;
+}
+
+export interface NotificationQueryParams {
+    startDate?: string;
+    endDate?: string;
+    status?: NotificationStatus;
+    channel?: NotificationChannel;
+    studentCode?: string;
+}
+
+export interface SendAbsentNotificationsRequest {
+    date: string;
+    studentCodes: string[];
+    channels?: NotificationChannel[];  // Omit to use each parent's registered channels
+}
+
+export interface SendNotificationsResult {
+    queued: number;
+    skipped: number;                   // Parents without a usable contact
+}
+
+export interface NotificationTemplate {
+    templateType: NotificationTemplateType;
+    language: TemplateLanguage;
+    subject: string;
+    body: string;
+    updatedDate?: string;
+    updatedByName?: string;
+}
+
+// ============================================================
+//  SERVICE
+// ============================================================
+
+export const notificationService = {
+
+    // ── Log ─────────────────────────────────────────────────
+
+    getLogs: async (params: NotificationQueryParams = {}): Promise<NotificationLog[]> => {
+        const response = await api.get('/notification/logs', { params });
+        return response.data.data;
+    },
+
+    resend: async (notificationIds: number[]): Promise<SendNotificationsResult> => {
+        const response = await api.post('/notification/resend', { notificationIds });
+        return response.data.data;
+    },
+
+    // ── Manual send ─────────────────────────────────────────
+
+    sendAbsentNotifications: async (request: SendAbsentNotificationsRequest): Promise<SendNotificationsResult> => {
+        const response = await api.post('/notification/absent/send', request);
+        return response.data.data;
+    },
+
+    // ── Templates ───────────────────────────────────────────
+
+    getTemplates: async (): Promise<NotificationTemplate[]> => {
+        const response = await api.get('/notification/templates');
+        return response.data.data;
+    },
+
+    updateTemplate: async (template: NotificationTemplate): Promise<NotificationTemplate> => {
+        const response = await api.put(
+            `/notification/templates/${template.templateType}/${template.language}`,
+            { subject: template.subject, body: template.body }
+        );
+        return response.data.data;
+    },
+};
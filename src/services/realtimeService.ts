@@ -0,0 +1,268 @@
+import { HubConnectionBuilder, HubConnectionState, LogLevel, type HubConnection } from '@microsoft/signalr';
+import api from './api';
+import { authService } from './authService';
+import type { ApiResponse, AttendanceSummary, CameraStatus, RecentDetection } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+export type RealtimeConnectionState = 'idle' | 'connecting' | 'live' | 'polling';
+
+export interface RealtimeEventMap {
+    detection: RecentDetection;
+    summary: AttendanceSummary;
+    cameraStatus: CameraStatus[];
+    connectionState: RealtimeConnectionState;
+}
+
+export type RealtimeEvent = keyof RealtimeEventMap;
+
+type Handler<K extends RealtimeEvent> = (payload: RealtimeEventMap[K]) => void;
+
+// ============================================
+// CONFIG
+// ============================================
+// VITE_REALTIME_URL overrides the hub location (e.g. the local mock server);
+// set it to "off" to skip the hub and always poll.
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
+const HUB_URL: string = import.meta.env.VITE_REALTIME_URL || `${API_URL.replace(/\/api\/?$/, '')}/hubs/attendance`;
+const HUB_DISABLED = HUB_URL === 'off';
+
+const POLL_INTERVAL_MS = 5000;
+const HUB_RETRY_MS = 30000;
+const DETECTION_POLL_COUNT = 10;
+
+// Hub method names pushed by the server
+const HUB_METHODS = {
+    detection: 'DetectionReceived',
+    summary: 'SummaryUpdated',
+    cameraStatus: 'CameraStatusChanged',
+} as const;
+
+// ============================================
+// SERVICE
+// ============================================
+class RealtimeService {
+    private connection: HubConnection | null = null;
+    private handlers = new Map<RealtimeEvent, Set<(payload: unknown) => void>>();
+    private state: RealtimeConnectionState = 'idle';
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private lastDetectionId = 0;
+    private pollFailing = false;
+
+    /**
+     * Subscribe to a realtime event. The connection starts with the first
+     * subscriber and stops when the last one unsubscribes.
+     * @returns Unsubscribe function
+     */
+    subscribe<K extends RealtimeEvent>(event: K, handler: Handler<K>): () => void {
+        if (!this.handlers.has(event)) {
+            this.handlers.set(event, new Set());
+        }
+        const wrapped = handler as (payload: unknown) => void;
+        this.handlers.get(event)!.add(wrapped);
+
+        if (this.state === 'idle') {
+            this.start();
+        }
+
+        return () => {
+            this.handlers.get(event)?.delete(wrapped);
+            if (this.subscriberCount() === 0) {
+                this.stop();
+            }
+        };
+    }
+
+    getState(): RealtimeConnectionState {
+        return this.state;
+    }
+
+    // ─── Connection lifecycle ───────────────────────
+
+    private async start(): Promise<void> {
+        if (HUB_DISABLED) {
+            this.startPolling();
+            return;
+        }
+
+        this.setState('connecting');
+        const connection = this.buildConnection();
+        this.connection = connection;
+
+        try {
+            await connection.start();
+            // Unsubscribed while the handshake was in flight
+            if (this.connection !== connection) {
+                await connection.stop();
+                return;
+            }
+            this.stopPolling();
+            this.setState('live');
+        } catch (error) {
+            console.warn('Realtime hub unavailable, falling back to polling:', error);
+            if (this.connection === connection) {
+                this.connection = null;
+                this.startPolling();
+                this.scheduleRetry();
+            }
+        }
+    }
+
+    private stop(): void {
+        const connection = this.connection;
+        this.connection = null;
+        this.stopPolling();
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        this.lastDetectionId = 0;
+        this.setState('idle');
+        if (connection && connection.state !== HubConnectionState.Disconnected) {
+            connection.stop().catch(() => {
+                // Ignore errors while shutting down
+            });
+        }
+    }
+
+    private buildConnection(): HubConnection {
+        const connection = new HubConnectionBuilder()
+            .withUrl(HUB_URL, {
+                accessTokenFactory: () => authService.getToken() || '',
+            })
+            .withAutomaticReconnect()
+            .configureLogging(LogLevel.Warning)
+            .build();
+
+        connection.on(HUB_METHODS.detection, (detection: RecentDetection) => {
+            this.lastDetectionId = Math.max(this.lastDetectionId, detection.logID);
+            this.emit('detection', detection);
+        });
+        connection.on(HUB_METHODS.summary, (summary: AttendanceSummary) => {
+            this.emit('summary', summary);
+        });
+        connection.on(HUB_METHODS.cameraStatus, (status: CameraStatus) => {
+            this.emit('cameraStatus', [status]);
+        });
+
+        // Keep data flowing while the hub reconnects
+        connection.onreconnecting(() => {
+            if (this.connection === connection) this.startPolling();
+        });
+        connection.onreconnected(() => {
+            if (this.connection !== connection) return;
+            this.stopPolling();
+            this.setState('live');
+        });
+        connection.onclose(() => {
+            if (this.connection !== connection) return;
+            this.connection = null;
+            this.startPolling();
+            this.scheduleRetry();
+        });
+
+        return connection;
+    }
+
+    private scheduleRetry(): void {
+        if (HUB_DISABLED || this.retryTimer) return;
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            if (this.subscriberCount() > 0 && !this.connection) {
+                this.start();
+            }
+        }, HUB_RETRY_MS);
+    }
+
+    // ─── Polling fallback ───────────────────────────
+
+    private startPolling(): void {
+        this.setState('polling');
+        if (this.pollTimer) return;
+        this.poll();
+        this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    }
+
+    private stopPolling(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+        this.pollFailing = false;
+    }
+
+    private async poll(): Promise<void> {
+        const tasks: Promise<void>[] = [];
+
+        if (this.hasSubscribers('summary')) {
+            tasks.push(
+                api.get<ApiResponse<AttendanceSummary>>('/attendance/summary')
+                    .then(res => this.emit('summary', res.data.data))
+            );
+        }
+
+        if (this.hasSubscribers('detection')) {
+            tasks.push(
+                api.get<ApiResponse<RecentDetection[]>>('/attendance/recent-detections', { params: { count: DETECTION_POLL_COUNT } })
+                    .then(res => {
+                        // Emit oldest first so subscribers can prepend in order
+                        const fresh = (res.data.data || [])
+                            .filter(d => d.logID > this.lastDetectionId)
+                            .sort((a, b) => a.logID - b.logID);
+                        fresh.forEach(d => {
+                            this.lastDetectionId = d.logID;
+                            this.emit('detection', d);
+                        });
+                    })
+            );
+        }
+
+        if (this.hasSubscribers('cameraStatus')) {
+            tasks.push(
+                api.get('/camera/statuses')
+                    .then(res => this.emit('cameraStatus', res.data.data.cameras || []))
+            );
+        }
+
+        // Log when polling starts failing, not on every tick while the API is down
+        const failure = (await Promise.allSettled(tasks)).find(result => result.status === 'rejected');
+        if (failure && !this.pollFailing) {
+            console.error('Realtime polling failed:', failure.reason);
+        }
+        this.pollFailing = !!failure;
+    }
+
+    // ─── Helpers ────────────────────────────────────
+
+    private emit<K extends RealtimeEvent>(event: K, payload: RealtimeEventMap[K]): void {
+        this.handlers.get(event)?.forEach(handler => {
+            try {
+                handler(payload);
+            } catch (error) {
+                console.error(`Realtime handler for "${event}" failed:`, error);
+            }
+        });
+    }
+
+    private setState(state: RealtimeConnectionState): void {
+        if (this.state === state) return;
+        this.state = state;
+        this.emit('connectionState', state);
+    }
+
+    private hasSubscribers(event: RealtimeEvent): boolean {
+        return (this.handlers.get(event)?.size ?? 0) > 0;
+    }
+
+    private subscriberCount(): number {
+        let count = 0;
+        this.handlers.forEach(set => {
+            count += set.size;
+        });
+        return count;
+    }
+}
+
+export const realtimeService = new RealtimeService();
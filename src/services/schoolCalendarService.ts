@@ -0,0 +1,88 @@
+import api from './api';
+
+// ============================================================
+//  TYPES
+// ============================================================
+
+/**
+ * Term        - teaching period; when a year has terms, days outside them are off
+ * Holiday     - public or state holiday
+ * SchoolBreak - school holidays between terms
+ * SpecialDay  - one-off override, e.g. a replacement school day on a Saturday
+ *               (isSchoolDay = true) or a school-declared off day (isSchoolDay = false)
+ */
+export type CalendarEntryType = 'Term' | 'Holiday' | 'SchoolBreak' | 'SpecialDay';
+
+export const CALENDAR_ENTRY_TYPES: CalendarEntryType[] = ['Term', 'Holiday', 'SchoolBreak', 'SpecialDay'];
+
+export interface SchoolCalendarEntry {
+    calendarEntryID: number;
+    academicYearID: number;
+    entryType: CalendarEntryType;
+    name: string;
+    startDate: string;
+    endDate: string;          // inclusive
+    isSchoolDay: boolean;     // only meaningful for SpecialDay
+    description?: string;
+}
+
+export interface SchoolCalendarEntryDto {
+    academicYearID: number;
+    entryType: CalendarEntryType;
+    name: string;
+    startDate: string;
+    endDate: string;
+    isSchoolDay: boolean;
+    description?: string;
+}
+
+/**
+ * Calendar for a date range. Entries cover every academic year that overlaps
+ * the range, so a range falling inside a break still sees the year's terms.
+ */
+export interface SchoolCalendarRange {
+    weekendDays: number[];    // 0 = Sunday ... 6 = Saturday
+    entries: SchoolCalendarEntry[];
+}
+
+// ============================================================
+//  SERVICE
+// ============================================================
+
+export const schoolCalendarService = {
+
+    // ── Entries ─────────────────────────────────────────────
+
+    getEntries: async (academicYearId: number): Promise<SchoolCalendarEntry[]> => {
+        const response = await api.get('/schoolcalendar', { params: { academicYearId } });
+        return response.data.data;
+    },
+
+    createEntry: async (dto: SchoolCalendarEntryDto): Promise<SchoolCalendarEntry> => {
+        const response = await api.post('/schoolcalendar', dto);
+        return response.data.data;
+    },
+
+    updateEntry: async (id: number, dto: SchoolCalendarEntryDto): Promise<SchoolCalendarEntry> => {
+        const response = await api.put(`/schoolcalendar/${id}`, dto);
+        return response.data.data;
+    },
+
+    deleteEntry: async (id: number): Promise<void> => {
+        await api.delete(`/schoolcalendar/${id}`);
+    },
+
+    // ── Lookup ──────────────────────────────────────────────
+
+    /**
+     * Get the weekend days and calendar entries that apply to a date range
+     * @param startDate - Start date (yyyy-MM-dd)
+     * @param endDate - End date (yyyy-MM-dd), inclusive
+     */
+    getRange: async (startDate: string, endDate: string): Promise<SchoolCalendarRange> => {
+        const response = await api.get('/schoolcalendar/range', {
+            params: { startDate, endDate },
+        });
+        return response.data.data;
+    },
+};
@@ -0,0 +1,35 @@
+import api from './api';
+import type { ApiResponse } from '../types';
+
+export interface SystemSetting {
+    schoolID: number;
+    settingKey: string;
+    settingValue: string;
+    description: string;
+}
+
+export const settingsService = {
+    /**
+     * Get all settings of a school as a key → value map
+     * @param schoolId - School ID
+     */
+    getSchoolSettings: async (schoolId: number): Promise<Record<string, string>> => {
+        const response = await api.get<ApiResponse<SystemSetting[]>>(`/settings/school/${schoolId}`);
+        const settings: Record<string, string> = {};
+        (response.data.data || []).forEach(setting => {
+            settings[setting.settingKey] = setting.settingValue;
+        });
+        return settings;
+    },
+
+    /**
+     * Save settings of a school
+     * @param schoolId - School ID
+     * @param settings - Key → value map of the settings to save
+     */
+    updateSchoolSettings: async (schoolId: number, settings: Record<string, string>): Promise<void> => {
+        await api.put(`/settings/school/${schoolId}`, {
+            settings: Object.entries(settings).map(([settingKey, settingValue]) => ({ settingKey, settingValue })),
+        });
+    },
+};
@@ -1,5 +1,5 @@
 import api from './api';
-import type { Student, ApiResponse, CreateStudentDto, FaceImage } from '../types';
+import type { Student, ApiResponse, CreateStudentDto, FaceImage, StudentStatusChange, StudentStatusChangeDto } from '../types';
 
 /**
  * Extended Student interface with academic information
@@ -58,7 +58,7 @@ export const studentService = {
         return response.data;
     },
 
-    uploadPhotos: async (studentCode: string, files: FileList) => {
+    uploadPhotos: async (studentCode: string, files: FileList | File[]) => {
         const formData = new FormData();
         Array.from(files).forEach((file) => {
             formData.append('images', file);
@@ -141,4 +141,26 @@ export const studentService = {
             inactivePhotos: photos.filter(p => !p.isActive).length,
         };
     },
+
+    // ============= LIFECYCLE METHODS =============
+
+    /**
+     * Transfer out, withdraw, graduate or transfer in a student. The server owns the face
+     * images: it deactivates a leaving student's images from the effective date and, for a
+     * transfer in with reactivateFaceImages, switches the ones deactivated on leaving back on.
+     * @param studentId - Student ID
+     * @param data - Action, effective date, reason and the other school for transfers
+     */
+    changeStatus: async (studentId: number, data: StudentStatusChangeDto): Promise<void> => {
+        await api.post(`/student/${studentId}/status`, data);
+    },
+
+    /**
+     * Get the lifecycle changes recorded for a student, newest first
+     * @param studentId - Student ID
+     */
+    getStatusHistory: async (studentId: number): Promise<StudentStatusChange[]> => {
+        const response = await api.get<ApiResponse<StudentStatusChange[]>>(`/student/${studentId}/status-history`);
+        return response.data.data || [];
+    },
 };
\ No newline at end of file
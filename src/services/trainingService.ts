@@ -0,0 +1,196 @@
+import api from './api';
+
+// ============================================================
+//  TYPES
+// ============================================================
+
+export type TrainingJobStatus = 'Queued' | 'Running' | 'Completed' | 'Failed' | 'Cancelled';
+
+export const ACTIVE_TRAINING_STATUSES: TrainingJobStatus[] = ['Queued', 'Running'];
+
+/**
+ * Full: every student. Changed: only students whose active photos changed since
+ * they were last trained. Students: the listed students only.
+ */
+export type TrainingJobScope = 'Full' | 'Changed' | 'Students';
+
+export interface TrainingJob {
+    jobId: number;
+    status: TrainingJobStatus;
+    scope?: TrainingJobScope;   // Missing on runs from before scoped training; treat as Full
+    studentCodes?: string[];    // Set when scope is Students
+    createdAt: string;
+    startedAt?: string;
+    completedAt?: string;
+    requestedBy?: string;
+    totalImages: number;
+    processedImages: number;
+    successfulImages: number;
+    totalStudents: number;
+    failedStudents: number;
+    currentStep?: string;       // e.g. "Extracting embeddings", set while running
+    errorMessage?: string;      // Set when the job itself failed
+}
+
+export interface TrainingImageFailure {
+    faceImageId: number;
+    imagePath: string;
+    reason: string;             // e.g. "No face detected", "Multiple faces"
+}
+
+export interface TrainingStudentFailure {
+    studentCode: string;
+    fullName: string;
+    class: string;
+    totalImages: number;
+    failedImages: TrainingImageFailure[];
+}
+
+export interface TrainingJobDetail extends TrainingJob {
+    failures: TrainingStudentFailure[];
+}
+
+/** A student whose active photos no longer match what the model was trained on */
+export interface StaleStudent {
+    studentCode: string;
+    fullName: string;
+    class: string;
+    photosChangedAt: string;
+    lastTrainedAt?: string;     // Missing when the student has never been trained
+}
+
+/** A candidate student for a face; lower distance means a closer match */
+export interface FaceMatchCandidate {
+    studentCode: string;
+    fullName: string;
+    class: string;
+    distance: number;
+    confidence: number;         // 0-1, compared against RecognitionThreshold
+    imagePath?: string;         // Closest enrolled photo of the student
+}
+
+export interface FaceIdentifyResult {
+    faceCount: number;          // 0 when no face was found in the photo
+    matches: FaceMatchCandidate[];
+}
+
+/** An enrolled photo that matched a different student above the threshold */
+export interface FalseMatchPair {
+    faceImageId: number;
+    imagePath: string;
+    studentCode: string;
+    fullName: string;
+    matchedStudentCode: string;
+    matchedFullName: string;
+    matchedImagePath?: string;
+    distance: number;
+    confidence: number;
+}
+
+export interface ThresholdSweepPoint {
+    threshold: number;
+    accuracy: number;           // 0-1
+    falseMatchRate: number;     // 0-1
+    rejectionRate: number;      // 0-1, correct student found but below threshold or no match
+}
+
+/**
+ * Hold-out evaluation: each enrolled image is matched against the model built
+ * from every other image, and scored at the given threshold.
+ */
+export interface ModelEvaluation {
+    evaluatedAt: string;
+    threshold: number;
+    totalImages: number;
+    totalStudents: number;
+    correctMatches: number;
+    falseMatches: number;
+    rejected: number;
+    accuracy: number;           // 0-1
+    falseMatchRate: number;     // 0-1
+    falseMatchPairs: FalseMatchPair[];
+    thresholdSweep: ThresholdSweepPoint[];
+}
+
+export const DEFAULT_RECOGNITION_THRESHOLD = 0.65;
+
+/** Reads the RecognitionThreshold school setting (0-1) */
+export const parseRecognitionThreshold = (settings: Record<string, string>): number => {
+    const value = parseFloat(settings.RecognitionThreshold ?? '');
+    return Number.isFinite(value) && value > 0 && value < 1 ? value : DEFAULT_RECOGNITION_THRESHOLD;
+};
+
+export const isTrainingJobActive = (job: TrainingJob) => ACTIVE_TRAINING_STATUSES.includes(job.status);
+
+// ============================================================
+//  SERVICE
+// ============================================================
+
+export const trainingService = {
+
+    // ── Jobs ────────────────────────────────────────────────
+
+    /**
+     * Queue a training run. Returns immediately; poll getJob for progress.
+     * The backend answers 409 when a job is already queued or running.
+     * @param scope - Which students to (re)train
+     * @param studentCodes - Students to train when scope is Students
+     */
+    startJob: async (scope: TrainingJobScope = 'Full', studentCodes?: string[]): Promise<TrainingJob> => {
+        const response = await api.post('/training/jobs', { scope, studentCodes });
+        return response.data.data;
+    },
+
+    /**
+     * Past and current jobs, newest first
+     * @param count - Number of jobs to return
+     */
+    getJobs: async (count: number = 20): Promise<TrainingJob[]> => {
+        const response = await api.get('/training/jobs', { params: { count } });
+        return response.data.data || [];
+    },
+
+    /** A job with its per-student breakdown of failed images */
+    getJob: async (jobId: number): Promise<TrainingJobDetail> => {
+        const response = await api.get(`/training/jobs/${jobId}`);
+        return response.data.data;
+    },
+
+    cancelJob: async (jobId: number): Promise<void> => {
+        await api.post(`/training/jobs/${jobId}/cancel`);
+    },
+
+    /** Students whose photos were added, removed or deactivated since their last training run */
+    getStaleStudents: async (): Promise<StaleStudent[]> => {
+        const response = await api.get('/training/stale-students');
+        return response.data.data || [];
+    },
+
+    // ── Evaluation ──────────────────────────────────────────
+
+    /**
+     * Match a photo against the current model
+     * @param image - Uploaded or captured photo
+     * @param topN - Number of candidates to return
+     */
+    identifyFace: async (image: Blob, topN: number = 5): Promise<FaceIdentifyResult> => {
+        const formData = new FormData();
+        formData.append('image', image, image instanceof File ? image.name : 'capture.jpg');
+        const response = await api.post('/training/identify', formData, {
+            params: { topN },
+            headers: {
+                'Content-Type': 'multipart/form-data',
+            },
+        });
+        return response.data.data;
+    },
+
+    /**
+     * Run a hold-out evaluation over all active enrolled images
+     * @param threshold - Threshold to score at (0-1); the sweep covers the usual range regardless
+     */
+    evaluateModel: async (threshold: number): Promise<ModelEvaluation> => {
+        const response = await api.post('/training/evaluate', { threshold });
+        return response.data.data;
+    },
+};
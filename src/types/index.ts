@@ -40,10 +40,38 @@ export interface Student {
     isActive: boolean;
     enrollmentDate?: string;
     graduationDate?: string;
+    status?: StudentStatus;
+    statusDate?: string;        // effective date of the last lifecycle change
+    statusReason?: string;
+    transferSchool?: string;    // destination when transferred out, previous school when transferred in
     createdDate?: string;
     updatedDate?: string;
 }
 
+// Student lifecycle: leaving students stay on record but drop off the roll from statusDate
+export type StudentStatus = 'Active' | 'TransferredOut' | 'Withdrawn' | 'Graduated';
+
+export type StudentLifecycleAction = 'TransferOut' | 'TransferIn' | 'Withdraw' | 'Graduate';
+
+export interface StudentStatusChangeDto {
+    action: StudentLifecycleAction;
+    effectiveDate: string;      // yyyy-MM-dd
+    reason: string;
+    transferSchool?: string;
+    reactivateFaceImages?: boolean;   // TransferIn: switch back on the images deactivated when the student left
+}
+
+export interface StudentStatusChange {
+    statusChangeID: number;
+    studentID: number;
+    action: StudentLifecycleAction;
+    effectiveDate: string;
+    reason?: string;
+    transferSchool?: string;
+    changedBy?: string;
+    changedDate: string;
+}
+
 // Student Face Image
 export interface FaceImage {
     imageID: number;
@@ -92,6 +120,8 @@ export interface AttendanceRecord {
   status: string;
   cameraName: string;
   attendanceDate: string;
+  snapshotPath?: string;
+  isOverridden?: boolean;
 }
 
 export interface AbsentStudent {
@@ -104,6 +134,34 @@ export interface AbsentStudent {
   parentEmail: string;
 }
 
+export interface AbsentStudentRecord extends AbsentStudent {
+  absentDate: string;
+}
+
+export interface ClassAttendanceSummary {
+  classId: number;
+  className: string;
+  gradeName: string;
+  totalStudents: number;
+  totalPresent: number;
+  totalLate: number;
+  totalAbsent: number;
+  attendanceRate: number;
+}
+
+export interface AttendanceRangeSummary {
+  startDate: string;
+  endDate: string;
+  schoolDays: number;
+  totalStudents: number;
+  totalPresent: number;
+  totalLate: number;
+  totalAbsent: number;
+  attendanceRate: number;
+  daily: AttendanceSummary[];
+  byClass: ClassAttendanceSummary[];
+}
+
 export interface RecentDetection {
   logID: number;
   studentCode: string;
@@ -114,6 +172,102 @@ export interface RecentDetection {
   snapshotPath: string;
 }
 
+// Attendance override types
+// Excused: no check-in; the day is returned by /studentexcuse/excused-days with source 'Override'
+export type OverrideStatus = 'Present' | 'Late' | 'Absent' | 'Excused';
+
+export type OverrideReasonCode =
+  | 'CameraMissed'
+  | 'CameraOutage'
+  | 'FieldTrip'
+  | 'MedicalAppointment'
+  | 'FamilyMatter'
+  | 'DataCorrection'
+  | 'Other';
+
+export interface AttendanceOverrideRequest {
+  studentCode: string;
+  date: string;
+  status: OverrideStatus;
+  checkInTime?: string;   // HH:mm, required for Present/Late, omitted for Absent/Excused
+  reasonCode: OverrideReasonCode;
+  remarks?: string;
+}
+
+export interface BulkAttendanceOverrideRequest {
+  classId: number;
+  date: string;
+  status: OverrideStatus;
+  checkInTime?: string;
+  reasonCode: OverrideReasonCode;
+  remarks?: string;
+  studentCodes?: string[];  // Omit to apply to every student without a record
+}
+
+export interface AttendanceAuditEntry {
+  auditId: number;
+  attendanceId?: number;
+  studentCode: string;
+  fullName: string;
+  attendanceDate: string;
+  previousStatus?: string;
+  newStatus: string;
+  reasonCode: OverrideReasonCode;
+  remarks?: string;
+  changedBy: number;
+  changedByName: string;
+  changedAt: string;
+  source: 'Manual' | 'Bulk';
+}
+
+// Late recognition types
+export interface LateRecord {
+  attendanceId: number;
+  studentCode: string;
+  studentName: string;
+  gradeName: string;
+  className: string;
+  attendanceDate: string;
+  checkInTime: string;
+  snapshotPath: string;
+  remarks: string;
+  isManual?: boolean;   // checked in by staff after face recognition failed
+}
+
+export interface LateByGrade {
+  gradeId: number;
+  gradeName: string;
+  lateCount: number;
+}
+
+export interface LateByClass {
+  classId: number;
+  className: string;
+  gradeName: string;
+  lateCount: number;
+}
+
+export interface LateSummary {
+  date: string;
+  totalLate: number;
+  totalPresent: number;
+  totalAbsent: number;
+  latePercentage: number;
+  lateByGrade: LateByGrade[];
+  lateByClass: LateByClass[];
+}
+
+// Camera types
+export interface CameraStatus {
+  cameraId: number;
+  cameraName: string;
+  isOnline: boolean;
+  statusMessage: string;
+  lastFrameTime: string;
+  framesProcessed: number;
+  isStopped?: boolean;      // stopped on purpose from the cameras page, so not expected to send frames
+}
+
 // API Response wrapper
 export interface ApiResponse<T> {
   success: boolean;
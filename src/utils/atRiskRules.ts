@@ -0,0 +1,136 @@
+import type { AbsentStudentRecord, LateRecord } from '../types';
+
+// ============================================
+// THRESHOLDS
+// ============================================
+
+/** Stored as school settings (AtRisk* keys); windows are counted in school days */
+export interface AtRiskThresholds {
+    absenceCount: number;
+    absenceWindowDays: number;
+    lateCount: number;
+    lateWindowDays: number;
+}
+
+export const DEFAULT_AT_RISK_THRESHOLDS: AtRiskThresholds = {
+    absenceCount: 3,
+    absenceWindowDays: 10,
+    lateCount: 5,
+    lateWindowDays: 20,
+};
+
+const toPositiveInt = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const parseAtRiskThresholds = (settings: Record<string, string>): AtRiskThresholds => ({
+    absenceCount: toPositiveInt(settings.AtRiskAbsenceCount, DEFAULT_AT_RISK_THRESHOLDS.absenceCount),
+    absenceWindowDays: toPositiveInt(settings.AtRiskAbsenceWindowDays, DEFAULT_AT_RISK_THRESHOLDS.absenceWindowDays),
+    lateCount: toPositiveInt(settings.AtRiskLateCount, DEFAULT_AT_RISK_THRESHOLDS.lateCount),
+    lateWindowDays: toPositiveInt(settings.AtRiskLateWindowDays, DEFAULT_AT_RISK_THRESHOLDS.lateWindowDays),
+});
+
+// ============================================
+// EVALUATION
+// ============================================
+
+export type AtRiskReason = 'absence' | 'late';
+
+export interface AtRiskStudent {
+    studentCode: string;
+    fullName: string;
+    grade: string;
+    class: string;
+    parentContact: string;
+    parentEmail: string;
+    absenceCount: number;
+    lateCount: number;
+    absentDates: string[];
+    lateDates: string[];
+    reasons: AtRiskReason[];
+}
+
+export interface StudentContact {
+    parentContact?: string;
+    parentEmail?: string;
+}
+
+interface EvaluateInput {
+    /** School days in the look-back period, any order */
+    schoolDays: string[];
+    absences: AbsentStudentRecord[];
+    lates: LateRecord[];
+    thresholds: AtRiskThresholds;
+    /** Optional parent contacts by student code, used for students without an absence record */
+    contacts?: Map<string, StudentContact>;
+}
+
+const dateOnly = (value: string) => value.split('T')[0];
+
+/**
+ * Flag students whose absences or lates within the most recent school days
+ * reach the configured thresholds. Sorted by severity (absences, then lates).
+ */
+export const evaluateAtRisk = ({ schoolDays, absences, lates, thresholds, contacts }: EvaluateInput): AtRiskStudent[] => {
+    const recent = [...new Set(schoolDays.map(dateOnly))].sort().reverse();
+    const absenceWindow = new Set(recent.slice(0, thresholds.absenceWindowDays));
+    const lateWindow = new Set(recent.slice(0, thresholds.lateWindowDays));
+
+    const students = new Map<string, AtRiskStudent>();
+    const getStudent = (code: string, init: () => Omit<AtRiskStudent, 'absenceCount' | 'lateCount' | 'absentDates' | 'lateDates' | 'reasons'>) => {
+        let student = students.get(code);
+        if (!student) {
+            student = { ...init(), absenceCount: 0, lateCount: 0, absentDates: [], lateDates: [], reasons: [] };
+            students.set(code, student);
+        }
+        return student;
+    };
+
+    absences.forEach(a => {
+        const day = dateOnly(a.absentDate);
+        if (!absenceWindow.has(day)) return;
+        const student = getStudent(a.studentCode, () => ({
+            studentCode: a.studentCode,
+            fullName: a.fullName,
+            grade: a.grade,
+            class: a.class,
+            parentContact: a.parentContact,
+            parentEmail: a.parentEmail,
+        }));
+        if (!student.absentDates.includes(day)) {
+            student.absentDates.push(day);
+            student.absenceCount++;
+        }
+    });
+
+    lates.forEach(l => {
+        const day = dateOnly(l.attendanceDate);
+        if (!lateWindow.has(day)) return;
+        const student = getStudent(l.studentCode, () => ({
+            studentCode: l.studentCode,
+            fullName: l.studentName,
+            grade: l.gradeName,
+            class: l.className,
+            parentContact: contacts?.get(l.studentCode)?.parentContact || '',
+            parentEmail: contacts?.get(l.studentCode)?.parentEmail || '',
+        }));
+        if (!student.lateDates.includes(day)) {
+            student.lateDates.push(day);
+            student.lateCount++;
+        }
+    });
+
+    const flagged: AtRiskStudent[] = [];
+    students.forEach(student => {
+        if (student.absenceCount >= thresholds.absenceCount) student.reasons.push('absence');
+        if (student.lateCount >= thresholds.lateCount) student.reasons.push('late');
+        if (student.reasons.length > 0) {
+            student.absentDates.sort().reverse();
+            student.lateDates.sort().reverse();
+            flagged.push(student);
+        }
+    });
+
+    return flagged.sort((a, b) => b.absenceCount - a.absenceCount || b.lateCount - a.lateCount);
+};
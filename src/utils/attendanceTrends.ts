@@ -0,0 +1,123 @@
+import type { AttendanceSummary, ClassAttendanceSummary, LateByClass, LateByGrade } from '../types';
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export interface TrendPoint {
+    period: string;        // yyyy-MM-dd (day/week start) or yyyy-MM (month)
+    attendanceRate: number;
+    latePercentage: number;
+    totalPresent: number;
+    totalLate: number;
+    totalAbsent: number;
+    days: number;
+}
+
+/** Grade breakdown — LateSummary.lateByGrade plus attendance totals rolled up from classes */
+export interface GradeTrend extends LateByGrade {
+    totalStudents: number;
+    totalAbsent: number;
+    attendanceRate: number;
+}
+
+/** Class breakdown — LateSummary.lateByClass plus the class attendance totals */
+export interface ClassTrend extends LateByClass {
+    totalStudents: number;
+    totalAbsent: number;
+    attendanceRate: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const periodKey = (date: string, granularity: TrendGranularity): string => {
+    const day = date.split('T')[0];
+    if (granularity === 'day') return day;
+    if (granularity === 'month') return day.slice(0, 7);
+
+    // Week starts on Monday
+    const d = new Date(`${day}T00:00:00`);
+    const offset = (d.getDay() + 6) % 7;
+    d.setDate(d.getDate() - offset);
+    const y = d.getFullYear();
+    const m = String(d.getMonth() + 1).padStart(2, '0');
+    const dd = String(d.getDate()).padStart(2, '0');
+    return `${y}-${m}-${dd}`;
+};
+
+/**
+ * Roll daily summaries up into day/week/month points.
+ * Rates are weighted by the number of students expected on each day.
+ */
+export const aggregateTrend = (daily: AttendanceSummary[], granularity: TrendGranularity): TrendPoint[] => {
+    const buckets = new Map<string, { expected: number; present: number; late: number; absent: number; days: number }>();
+
+    daily.forEach(day => {
+        const key = periodKey(day.date, granularity);
+        const bucket = buckets.get(key) || { expected: 0, present: 0, late: 0, absent: 0, days: 0 };
+        bucket.expected += day.totalStudents;
+        bucket.present += day.totalPresent;
+        bucket.late += day.totalLate;
+        bucket.absent += day.totalAbsent;
+        bucket.days += 1;
+        buckets.set(key, bucket);
+    });
+
+    return Array.from(buckets.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, b]) => ({
+            period,
+            attendanceRate: b.expected > 0 ? round1(((b.present + b.late) / b.expected) * 100) : 0,
+            latePercentage: b.expected > 0 ? round1((b.late / b.expected) * 100) : 0,
+            totalPresent: b.present,
+            totalLate: b.late,
+            totalAbsent: b.absent,
+            days: b.days,
+        }));
+};
+
+/**
+ * Merge the late-recognition class breakdown with the attendance class summary.
+ */
+export const buildClassTrends = (byClass: ClassAttendanceSummary[], lateByClass: LateByClass[]): ClassTrend[] => {
+    const lateMap = new Map(lateByClass.map(c => [c.classId, c.lateCount]));
+    return byClass.map(c => ({
+        classId: c.classId,
+        className: c.className,
+        gradeName: c.gradeName,
+        lateCount: lateMap.get(c.classId) ?? c.totalLate,
+        totalStudents: c.totalStudents,
+        totalAbsent: c.totalAbsent,
+        attendanceRate: c.attendanceRate,
+    }));
+};
+
+/**
+ * Roll class summaries up to grades and merge with LateSummary.lateByGrade.
+ */
+export const buildGradeTrends = (byClass: ClassAttendanceSummary[], lateByGrade: LateByGrade[]): GradeTrend[] => {
+    const grades = new Map<string, { students: number; absent: number; attended: number; expected: number; late: number }>();
+
+    byClass.forEach(c => {
+        const grade = grades.get(c.gradeName) || { students: 0, absent: 0, attended: 0, expected: 0, late: 0 };
+        const expected = c.totalPresent + c.totalLate + c.totalAbsent;
+        grade.students += c.totalStudents;
+        grade.absent += c.totalAbsent;
+        grade.attended += c.totalPresent + c.totalLate;
+        grade.expected += expected;
+        grade.late += c.totalLate;
+        grades.set(c.gradeName, grade);
+    });
+
+    return Array.from(grades.entries())
+        .map(([gradeName, g]) => {
+            const late = lateByGrade.find(l => l.gradeName === gradeName);
+            return {
+                gradeId: late?.gradeId ?? 0,
+                gradeName,
+                lateCount: late?.lateCount ?? g.late,
+                totalStudents: g.students,
+                totalAbsent: g.absent,
+                attendanceRate: g.expected > 0 ? round1((g.attended / g.expected) * 100) : 0,
+            };
+        })
+        .sort((a, b) => a.gradeName.localeCompare(b.gradeName, undefined, { numeric: true }));
+};
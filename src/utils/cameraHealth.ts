@@ -0,0 +1,192 @@
+import type { CameraStatus } from '../types';
+import type { CameraConfig, CameraStatusEvent } from '../services/cameraService';
+import { atTimeOfDay, parseSchoolHours, DEFAULT_SCHOOL_HOURS } from './schoolCalendar';
+
+// ============================================
+// SETTINGS
+// ============================================
+
+/** Uptime is only measured during school hours (SchoolStartTime–SchoolEndTime settings) */
+export interface CameraHealthSettings {
+    schoolStartTime: string;   // HH:mm
+    schoolEndTime: string;     // HH:mm
+    offlineAlertMinutes: number;
+}
+
+export const DEFAULT_CAMERA_HEALTH_SETTINGS: CameraHealthSettings = {
+    schoolStartTime: DEFAULT_SCHOOL_HOURS.startTime,
+    schoolEndTime: DEFAULT_SCHOOL_HOURS.endTime,
+    offlineAlertMinutes: 10,
+};
+
+export const parseCameraHealthSettings = (settings: Record<string, string>): CameraHealthSettings => {
+    const hours = parseSchoolHours(settings);
+    const minutes = parseInt(settings.CameraOfflineAlertMinutes ?? '', 10);
+    return {
+        schoolStartTime: hours.startTime,
+        schoolEndTime: hours.endTime,
+        offlineAlertMinutes: Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_CAMERA_HEALTH_SETTINGS.offlineAlertMinutes,
+    };
+};
+
+const MINUTE_MS = 60000;
+
+// ============================================
+// UPTIME
+// ============================================
+
+export interface CameraDayUptime {
+    cameraId: number;
+    date: string;
+    onlineMinutes: number;
+    /** School-hour minutes with a known state; time before the first recorded transition is not counted */
+    monitoredMinutes: number;
+    /** null when nothing was monitored that day */
+    uptimePercent: number | null;
+    outages: number;
+}
+
+const toPercent = (online: number, monitored: number) =>
+    monitored > 0 ? Math.round((online / monitored) * 1000) / 10 : null;
+
+/**
+ * Uptime of every camera that has transitions, for each given day, during school hours.
+ * Days still in progress are measured up to now; future days are skipped.
+ * @param days - School days (yyyy-MM-dd) to measure
+ */
+export const computeDailyUptime = (
+    events: CameraStatusEvent[],
+    days: string[],
+    settings: CameraHealthSettings,
+    now: Date = new Date()
+): CameraDayUptime[] => {
+    const byCamera = new Map<number, CameraStatusEvent[]>();
+    events.forEach(event => {
+        if (!byCamera.has(event.cameraId)) byCamera.set(event.cameraId, []);
+        byCamera.get(event.cameraId)!.push(event);
+    });
+
+    const rows: CameraDayUptime[] = [];
+    byCamera.forEach((cameraEvents, cameraId) => {
+        const sorted = cameraEvents
+            .map(e => ({ time: new Date(e.occurredAt).getTime(), isOnline: e.isOnline }))
+            .sort((a, b) => a.time - b.time);
+
+        days.forEach(date => {
+            const start = atTimeOfDay(date, settings.schoolStartTime).getTime();
+            const end = Math.min(atTimeOfDay(date, settings.schoolEndTime).getTime(), now.getTime());
+            if (end <= start) return;
+
+            // State at the start of the window: the last transition before it, if any
+            let state: boolean | undefined;
+            for (const e of sorted) {
+                if (e.time > start) break;
+                state = e.isOnline;
+            }
+
+            let online = 0;
+            let monitored = 0;
+            let outages = 0;
+            let cursor = start;
+            const close = (until: number) => {
+                if (state !== undefined) {
+                    monitored += until - cursor;
+                    if (state) online += until - cursor;
+                }
+                cursor = until;
+            };
+
+            sorted
+                .filter(e => e.time > start && e.time < end)
+                .forEach(e => {
+                    close(e.time);
+                    if (state !== false && !e.isOnline) outages++;
+                    state = e.isOnline;
+                });
+            close(end);
+
+            rows.push({
+                cameraId,
+                date,
+                onlineMinutes: Math.round(online / MINUTE_MS),
+                monitoredMinutes: Math.round(monitored / MINUTE_MS),
+                uptimePercent: toPercent(online, monitored),
+                outages,
+            });
+        });
+    });
+    return rows;
+};
+
+/** Overall uptime of one camera across the given daily rows */
+export const summarizeUptime = (rows: CameraDayUptime[]) => {
+    const online = rows.reduce((sum, r) => sum + r.onlineMinutes, 0);
+    const monitored = rows.reduce((sum, r) => sum + r.monitoredMinutes, 0);
+    return {
+        onlineMinutes: online,
+        monitoredMinutes: monitored,
+        uptimePercent: toPercent(online, monitored),
+        outages: rows.reduce((sum, r) => sum + r.outages, 0),
+    };
+};
+
+/** Tailwind classes for an uptime percentage */
+export const uptimeColor = (percent: number | null) => {
+    if (percent === null) return 'text-gray-400';
+    if (percent >= 95) return 'bg-green-50 text-green-700';
+    if (percent >= 80) return 'bg-amber-50 text-amber-700';
+    return 'bg-red-50 text-red-700';
+};
+
+// ============================================
+// OFFLINE ALERTS
+// ============================================
+
+export interface OfflineCameraAlert {
+    cameraId: number;
+    cameraName: string;
+    offlineSince: Date;
+    offlineMinutes: number;
+    /** Identifies this outage, so dismissing it doesn't hide the next one */
+    key: string;
+}
+
+/** Statuses of active cameras nobody stopped on purpose; only these are expected to be running */
+export const getMonitoredStatuses = (statuses: CameraStatus[], cameras: CameraConfig[]): CameraStatus[] => {
+    const activeIds = new Set(cameras.filter(c => c.isActive).map(c => c.cameraId));
+    return statuses.filter(status => activeIds.has(status.cameraId) && !status.isStopped);
+};
+
+/**
+ * Cameras that have been offline for at least offlineAlertMinutes of today's school hours.
+ * Pass only the cameras expected to be running (getMonitoredStatuses).
+ * Time offline before school starts doesn't count, so an overnight outage alerts
+ * offlineAlertMinutes after the start of the day.
+ */
+export const getOfflineAlerts = (
+    statuses: CameraStatus[],
+    settings: CameraHealthSettings,
+    isSchoolDayToday: boolean,
+    today: string,
+    now: Date = new Date()
+): OfflineCameraAlert[] => {
+    if (!isSchoolDayToday) return [];
+    const start = atTimeOfDay(today, settings.schoolStartTime).getTime();
+    const end = atTimeOfDay(today, settings.schoolEndTime).getTime();
+    if (now.getTime() < start || now.getTime() > end) return [];
+
+    return statuses
+        .filter(status => !status.isOnline)
+        .map(status => {
+            const lastFrame = status.lastFrameTime ? new Date(status.lastFrameTime).getTime() : NaN;
+            const since = Number.isNaN(lastFrame) ? start : Math.max(lastFrame, start);
+            return {
+                cameraId: status.cameraId,
+                cameraName: status.cameraName,
+                offlineSince: new Date(since),
+                offlineMinutes: Math.floor((now.getTime() - since) / MINUTE_MS),
+                key: `${status.cameraId}:${status.lastFrameTime}`,
+            };
+        })
+        .filter(alert => alert.offlineMinutes >= settings.offlineAlertMinutes);
+};
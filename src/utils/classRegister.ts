@@ -0,0 +1,246 @@
+import * as XLSX from 'xlsx';
+import type { AttendanceRecord } from '../types';
+import { toDateString } from './schoolCalendar';
+import { findExcuse, type ExcuseLookup } from './excuses';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** P = present, L = late, A = absent, E = excused (MC, leave, school event) */
+export type RegisterCode = 'P' | 'L' | 'A' | 'E';
+
+export interface RegisterDay {
+    day: number;
+    date: string;           // yyyy-MM-dd
+    weekday: number;        // 0 = Sunday
+    isSchoolDay: boolean;
+}
+
+export interface RegisterRow {
+    studentCode: string;
+    fullName: string;
+    codes: (RegisterCode | '')[];   // One per RegisterDay; '' for non-school, future or post-leaving days
+    totals: Record<RegisterCode, number>;
+    attendanceRate: number;
+}
+
+export interface ClassRegister {
+    year: number;
+    month: number;          // 1-12
+    days: RegisterDay[];
+    rows: RegisterRow[];
+}
+
+/** Header text for exports, already translated by the caller */
+export interface RegisterLabels {
+    title: string;
+    className: string;
+    monthLabel: string;
+    no: string;
+    name: string;
+    studentCode: string;
+    rate: string;
+    legend: string;
+    weekdayInitials: string[];   // Sunday first
+}
+
+interface BuildRegisterInput {
+    year: number;
+    month: number;
+    /** leftOn: first day off the roll (transferred out, withdrawn, graduated) */
+    students: { studentCode: string; fullName: string; leftOn?: string }[];
+    records: AttendanceRecord[];
+    /** Dates the school was open (from the range summary) */
+    schoolDays: string[];
+    excuses: ExcuseLookup;
+    /** Days after this date are left blank; defaults to today */
+    today?: string;
+}
+
+const CODES: RegisterCode[] = ['P', 'L', 'A', 'E'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const monthRange = (year: number, month: number) => {
+    const lastDay = new Date(year, month, 0).getDate();
+    return {
+        startDate: `${year}-${pad(month)}-01`,
+        endDate: `${year}-${pad(month)}-${pad(lastDay)}`,
+        lastDay,
+    };
+};
+
+// ============================================
+// BUILD
+// ============================================
+
+export const buildClassRegister = ({ year, month, students, records, schoolDays, excuses, today }: BuildRegisterInput): ClassRegister => {
+    const { lastDay } = monthRange(year, month);
+    const openDays = new Set(schoolDays.map(d => d.split('T')[0]));
+    const cutoff = today ?? toDateString(new Date());
+
+    const days: RegisterDay[] = [];
+    for (let day = 1; day <= lastDay; day++) {
+        const date = `${year}-${pad(month)}-${pad(day)}`;
+        days.push({
+            day,
+            date,
+            weekday: new Date(year, month - 1, day).getDay(),
+            isSchoolDay: openDays.has(date) && date <= cutoff,
+        });
+    }
+
+    const statusByStudentDay = new Map<string, string>();
+    records.forEach(r => statusByStudentDay.set(`${r.studentCode}|${r.attendanceDate.split('T')[0]}`, r.status));
+
+    // Students who left the class mid-month still appear in the records
+    const roster: BuildRegisterInput['students'] = [...students];
+    const known = new Set(students.map(s => s.studentCode));
+    records.forEach(r => {
+        if (!known.has(r.studentCode)) {
+            known.add(r.studentCode);
+            roster.push({ studentCode: r.studentCode, fullName: r.fullName });
+        }
+    });
+    roster.sort((a, b) => a.fullName.localeCompare(b.fullName));
+
+    const rows = roster.map(student => {
+        const totals: Record<RegisterCode, number> = { P: 0, L: 0, A: 0, E: 0 };
+        const codes = days.map(day => {
+            if (!day.isSchoolDay || (student.leftOn && day.date >= student.leftOn)) return '';
+            const status = statusByStudentDay.get(`${student.studentCode}|${day.date}`);
+            let code: RegisterCode;
+            if (status === 'Present') code = 'P';
+            else if (status === 'Late') code = 'L';
+            else if (status === 'Excused' || findExcuse(excuses, student.studentCode, day.date)) code = 'E';
+            else code = 'A';
+            totals[code]++;
+            return code;
+        });
+        const expected = totals.P + totals.L + totals.A;
+        return {
+            studentCode: student.studentCode,
+            fullName: student.fullName,
+            codes,
+            totals,
+            attendanceRate: expected > 0 ? Math.round(((totals.P + totals.L) / expected) * 1000) / 10 : 0,
+        };
+    });
+
+    return { year, month, days, rows };
+};
+
+// ============================================
+// EXPORT
+// ============================================
+
+const headerRows = (register: ClassRegister, labels: RegisterLabels) => [
+    [labels.title],
+    [`${labels.className}    ${labels.monthLabel}`],
+    [],
+    [labels.no, labels.name, labels.studentCode, ...register.days.map(d => d.day), ...CODES, labels.rate],
+    ['', '', '', ...register.days.map(d => labels.weekdayInitials[d.weekday]), ...CODES.map(() => ''), ''],
+];
+
+/** Download the register as an .xlsx workbook, one student per row and one column per day */
+export const exportRegisterToExcel = (register: ClassRegister, labels: RegisterLabels, filename: string) => {
+    const rows: (string | number)[][] = [
+        ...headerRows(register, labels),
+        ...register.rows.map((row, i) => [
+            i + 1,
+            row.fullName,
+            row.studentCode,
+            ...row.codes,
+            ...CODES.map(code => row.totals[code]),
+            `${row.attendanceRate.toFixed(1)}%`,
+        ]),
+        [],
+        [labels.legend],
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(rows);
+    const lastCol = 3 + register.days.length + CODES.length;
+    ws['!merges'] = [
+        { s: { r: 0, c: 0 }, e: { r: 0, c: lastCol } },
+        { s: { r: 1, c: 0 }, e: { r: 1, c: lastCol } },
+    ];
+    ws['!cols'] = [
+        { wch: 5 },   // No
+        { wch: 32 },  // Name
+        { wch: 12 },  // Student code
+        ...register.days.map(() => ({ wch: 3.5 })),
+        ...CODES.map(() => ({ wch: 4 })),
+        { wch: 8 },   // Rate
+    ];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, `${register.year}-${pad(register.month)}`);
+    XLSX.writeFile(wb, filename);
+};
+
+const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const CODE_COLORS: Record<RegisterCode, string> = {
+    P: '#166534',
+    L: '#a16207',
+    A: '#b91c1c',
+    E: '#1d4ed8',
+};
+
+/**
+ * Open the register in a print-ready window (A4 landscape).
+ * Teachers use the browser's "Save as PDF" to produce the PDF copy.
+ * @returns false when the popup was blocked
+ */
+export const printRegister = (register: ClassRegister, labels: RegisterLabels): boolean => {
+    const win = window.open('', '_blank');
+    if (!win) return false;
+
+    const dayHeaders = register.days
+        .map(d => `<th class="${d.isSchoolDay ? '' : 'off'}">${d.day}<br/><span>${labels.weekdayInitials[d.weekday]}</span></th>`)
+        .join('');
+    const body = register.rows
+        .map((row, i) => {
+            const cells = row.codes
+                .map((code, di) => {
+                    const off = register.days[di].isSchoolDay ? '' : ' class="off"';
+                    return code ? `<td style="color:${CODE_COLORS[code]}">${code}</td>` : `<td${off}></td>`;
+                })
+                .join('');
+            const totals = CODES.map(code => `<td class="total">${row.totals[code]}</td>`).join('');
+            return `<tr><td>${i + 1}</td><td class="name">${escapeHtml(row.fullName)}</td>${cells}${totals}<td class="total">${row.attendanceRate.toFixed(1)}%</td></tr>`;
+        })
+        .join('');
+
+    win.document.write(`<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(labels.title)} - ${escapeHtml(labels.className)}</title>
+<style>
+    @page { size: A4 landscape; margin: 8mm; }
+    body { font-family: Arial, sans-serif; font-size: 9px; color: #111; }
+    h1 { font-size: 14px; margin: 0 0 2px; }
+    p { margin: 0 0 8px; font-size: 11px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #999; padding: 2px; text-align: center; }
+    th { background: #f3f4f6; font-weight: bold; }
+    th span { font-weight: normal; color: #555; }
+    td.name { text-align: left; white-space: nowrap; }
+    .off { background: #e5e7eb; }
+    .total { font-weight: bold; background: #f9fafb; }
+    .legend { margin-top: 8px; font-size: 10px; }
+</style></head>
+<body>
+    <h1>${escapeHtml(labels.title)}</h1>
+    <p>${escapeHtml(labels.className)} &nbsp;·&nbsp; ${escapeHtml(labels.monthLabel)}</p>
+    <table>
+        <thead><tr><th>${escapeHtml(labels.no)}</th><th>${escapeHtml(labels.name)}</th>${dayHeaders}${CODES.map(c => `<th>${c}</th>`).join('')}<th>${escapeHtml(labels.rate)}</th></tr></thead>
+        <tbody>${body}</tbody>
+    </table>
+    <div class="legend">${escapeHtml(labels.legend)}</div>
+</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
+    return true;
+};
@@ -0,0 +1,44 @@
+import type { AttendanceRecord } from '../types';
+import type { ExcusedDay } from '../services/excuseService';
+
+export type ExcuseLookup = Map<string, ExcusedDay>;
+
+const dateOnly = (value: string) => value.split('T')[0];
+
+const lookupKey = (studentCode: string, date: string) => `${studentCode}|${dateOnly(date)}`;
+
+/** Index excused days by student and date. Excuse records win over events on the same day. */
+export const buildExcuseLookup = (days: ExcusedDay[]): ExcuseLookup => {
+    const lookup: ExcuseLookup = new Map();
+    days.forEach(day => {
+        const key = lookupKey(day.studentCode, day.date);
+        if (!lookup.has(key) || day.source === 'Excuse') lookup.set(key, day);
+    });
+    return lookup;
+};
+
+export const findExcuse = (lookup: ExcuseLookup, studentCode: string, date: string) =>
+    lookup.get(lookupKey(studentCode, date));
+
+/**
+ * Split absences into unexcused and excused ones.
+ * @param getDate - Returns the absent day of an entry (yyyy-MM-dd or ISO)
+ */
+export const splitAbsences = <T extends { studentCode: string }>(
+    absences: T[],
+    lookup: ExcuseLookup,
+    getDate: (absence: T) => string
+) => {
+    const absent: T[] = [];
+    const excused: T[] = [];
+    absences.forEach(a => (findExcuse(lookup, a.studentCode, getDate(a)) ? excused : absent).push(a));
+    return { absent, excused };
+};
+
+/** Relabel 'Absent' records covered by an excuse or event as 'Excused'. */
+export const applyExcuses = (records: AttendanceRecord[], lookup: ExcuseLookup): AttendanceRecord[] =>
+    records.map(r =>
+        r.status === 'Absent' && findExcuse(lookup, r.studentCode, r.attendanceDate)
+            ? { ...r, status: 'Excused' }
+            : r
+    );
@@ -0,0 +1,53 @@
+// TypeScript declarations for FaceDetector API (Chrome desktop only)
+declare global {
+    interface Window {
+        FaceDetector: new (options?: FaceDetectorOptions) => FaceDetector;
+    }
+    interface FaceDetectorOptions {
+        fastMode?: boolean;
+        maxDetectedFaces?: number;
+    }
+    interface FaceDetector {
+        detect(image: ImageBitmapSource): Promise<DetectedFace[]>;
+    }
+    interface DetectedFace {
+        boundingBox: DOMRectReadOnly;
+        landmarks?: Array<{ type: string; locations: Array<{ x: number; y: number }> }>;
+    }
+}
+
+// ============================================
+// FRAMING
+// ============================================
+
+/** Consecutive good frames (~100ms apart) before an auto-capture */
+export const GOOD_FRAMES_REQUIRED = 15;
+export const MIN_FACE_SIZE_RATIO = 0.20;
+export const MAX_FACE_SIZE_RATIO = 0.80;
+export const CENTER_TOLERANCE = 0.25;
+
+export type FaceFraming = 'too-far' | 'too-close' | 'off-center' | 'good';
+
+/** Returns null when the browser has no FaceDetector (e.g. most mobile browsers) */
+export const createFaceDetector = (maxDetectedFaces: number): FaceDetector | null => {
+    if (!('FaceDetector' in window)) return null;
+    try {
+        return new window.FaceDetector({ fastMode: true, maxDetectedFaces });
+    } catch {
+        return null;
+    }
+};
+
+/** How well a detected face fills the centre square of the video frame */
+export const checkFaceFraming = (box: DOMRectReadOnly, videoWidth: number, videoHeight: number): FaceFraming => {
+    const frameSize = Math.min(videoWidth, videoHeight);
+    const faceSizeRatio = Math.max(box.width, box.height) / frameSize;
+
+    const offsetX = Math.abs(box.x + box.width / 2 - videoWidth / 2) / frameSize;
+    const offsetY = Math.abs(box.y + box.height / 2 - videoHeight / 2) / frameSize;
+
+    if (faceSizeRatio < MIN_FACE_SIZE_RATIO) return 'too-far';
+    if (faceSizeRatio > MAX_FACE_SIZE_RATIO) return 'too-close';
+    if (offsetX > CENTER_TOLERANCE || offsetY > CENTER_TOLERANCE) return 'off-center';
+    return 'good';
+};
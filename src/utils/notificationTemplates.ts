@@ -0,0 +1,70 @@
+import type { NotificationTemplateType, TemplateLanguage } from '../services/notificationService';
+
+/** Placeholders the backend substitutes when sending; keep in sync with the notification worker */
+export const TEMPLATE_PLACEHOLDERS = [
+    'StudentName',
+    'ClassName',
+    'Date',
+    'Time',
+    'ParentName',
+    'SchoolName',
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+export const SAMPLE_TEMPLATE_VALUES: Record<TemplatePlaceholder, string> = {
+    StudentName: 'Tan Wei Ming',
+    ClassName: '4 Bestari',
+    Date: new Date().toLocaleDateString('en-MY'),
+    Time: '07:45',
+    ParentName: 'Tan Ah Kow',
+    SchoolName: 'SJK(C) Contoh',
+};
+
+/** Replace {Placeholder} tokens; unknown tokens are left as-is so typos stay visible */
+export const renderTemplate = (text: string, values: Partial<Record<TemplatePlaceholder, string>>) =>
+    text.replace(/\{(\w+)\}/g, (match, key: string) =>
+        key in values ? values[key as TemplatePlaceholder] ?? match : match
+    );
+
+/** Tokens used in a template that the backend does not know about */
+export const findUnknownPlaceholders = (text: string) => {
+    const known = new Set<string>(TEMPLATE_PLACEHOLDERS);
+    const unknown = new Set<string>();
+    for (const match of text.matchAll(/\{(\w+)\}/g)) {
+        if (!known.has(match[1])) unknown.add(match[1]);
+    }
+    return Array.from(unknown);
+};
+
+/** Starting text when a school has not customised a template yet */
+export const DEFAULT_TEMPLATES: Record<NotificationTemplateType, Record<TemplateLanguage, { subject: string; body: string }>> = {
+    AbsentNotification: {
+        en: {
+            subject: 'Absence notice: {StudentName}',
+            body: 'Dear {ParentName},\n\n{StudentName} ({ClassName}) was not recorded at school on {Date}. If this is unexpected, please contact the school office.\n\n{SchoolName}',
+        },
+        zh: {
+            subject: '缺席通知：{StudentName}',
+            body: '亲爱的{ParentName}：\n\n{StudentName}（{ClassName}）于 {Date} 未到校。如有疑问，请联系学校办公室。\n\n{SchoolName}',
+        },
+        ms: {
+            subject: 'Notis ketidakhadiran: {StudentName}',
+            body: 'Tuan/Puan {ParentName},\n\n{StudentName} ({ClassName}) tidak direkodkan hadir ke sekolah pada {Date}. Sila hubungi pejabat sekolah jika ini tidak dijangka.\n\n{SchoolName}',
+        },
+    },
+    LateNotification: {
+        en: {
+            subject: 'Late arrival: {StudentName}',
+            body: 'Dear {ParentName},\n\n{StudentName} ({ClassName}) arrived late at {Time} on {Date}.\n\n{SchoolName}',
+        },
+        zh: {
+            subject: '迟到通知：{StudentName}',
+            body: '亲爱的{ParentName}：\n\n{StudentName}（{ClassName}）于 {Date} {Time} 迟到。\n\n{SchoolName}',
+        },
+        ms: {
+            subject: 'Lewat tiba: {StudentName}',
+            body: 'Tuan/Puan {ParentName},\n\n{StudentName} ({ClassName}) tiba lewat pada {Time}, {Date}.\n\n{SchoolName}',
+        },
+    },
+};
@@ -0,0 +1,82 @@
+// ============================================
+// LEVELS
+// ============================================
+
+/** Matches the "3-5 clear face photos" guidance on the training page */
+export const ENOUGH_FACE_PHOTOS = 3;
+
+/** unknown: the student's photo statistics failed to load, so they are neither a gap nor covered */
+export type PhotoCoverageLevel = 'none' | 'one' | 'few' | 'enough' | 'unknown';
+
+/** Levels of students whose photos were counted, fewest first */
+export const PHOTO_COVERAGE_LEVELS: PhotoCoverageLevel[] = ['none', 'one', 'few', 'enough'];
+
+export const getCoverageLevel = (activePhotos: number | null): PhotoCoverageLevel => {
+    if (activePhotos === null) return 'unknown';
+    if (activePhotos <= 0) return 'none';
+    if (activePhotos === 1) return 'one';
+    return activePhotos < ENOUGH_FACE_PHOTOS ? 'few' : 'enough';
+};
+
+// ============================================
+// COVERAGE
+// ============================================
+
+export interface StudentPhotoCoverage {
+    studentCode: string;
+    fullName: string;
+    classID?: number;
+    className?: string;
+    gradeName?: string;
+    activePhotos: number | null;   // null when the statistics failed to load
+    level: PhotoCoverageLevel;
+}
+
+export interface ClassPhotoCoverage {
+    classKey: string;           // classID, or "none" for students without a class
+    className?: string;
+    gradeName?: string;
+    total: number;
+    counts: Record<PhotoCoverageLevel, number>;
+    /** Students below ENOUGH_FACE_PHOTOS, fewest photos first */
+    gaps: StudentPhotoCoverage[];
+}
+
+export const emptyCoverageCounts = (): Record<PhotoCoverageLevel, number> =>
+    ({ none: 0, one: 0, few: 0, enough: 0, unknown: 0 });
+
+/** Groups students by class, sorted by grade then class, with unassigned students last */
+export const buildClassCoverage = (students: StudentPhotoCoverage[]): ClassPhotoCoverage[] => {
+    const byClass = new Map<string, ClassPhotoCoverage>();
+
+    students.forEach(student => {
+        const classKey = student.classID ? String(student.classID) : 'none';
+        let entry = byClass.get(classKey);
+        if (!entry) {
+            entry = {
+                classKey,
+                className: student.className,
+                gradeName: student.gradeName,
+                total: 0,
+                counts: emptyCoverageCounts(),
+                gaps: [],
+            };
+            byClass.set(classKey, entry);
+        }
+        entry.total++;
+        entry.counts[student.level]++;
+        if (student.level !== 'enough' && student.level !== 'unknown') entry.gaps.push(student);
+    });
+
+    const classes = [...byClass.values()];
+    classes.forEach(entry => {
+        entry.gaps.sort((a, b) => (a.activePhotos ?? 0) - (b.activePhotos ?? 0) || a.fullName.localeCompare(b.fullName));
+    });
+
+    return classes.sort((a, b) => {
+        if (a.classKey === 'none') return 1;
+        if (b.classKey === 'none') return -1;
+        return (a.gradeName || '').localeCompare(b.gradeName || '', undefined, { numeric: true }) ||
+            (a.className || '').localeCompare(b.className || '', undefined, { numeric: true });
+    });
+};
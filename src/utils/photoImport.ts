@@ -0,0 +1,133 @@
+import type { ZipEntry } from './zipReader';
+
+// ============================================
+// MATCHING
+// ============================================
+
+const PHOTO_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+};
+
+/** A matched photo in the archive and how far its import got */
+export interface PhotoImportItem {
+    entry: ZipEntry;
+    type: string;
+    studentCode: string;
+    status: 'pending' | 'uploaded' | 'noFace' | 'multipleFaces' | 'unreadable' | 'failed';
+    message?: string;             // server error for failed uploads
+}
+
+export const REJECTED_PHOTO_STATUSES: PhotoImportItem['status'][] = ['noFace', 'multipleFaces', 'unreadable'];
+
+/** MIME type of a photo entry, or null for anything that is not a supported image */
+export const getPhotoType = (path: string): string | null => {
+    const name = path.split('/').pop() || '';
+    // Skip macOS resource forks and hidden files
+    if (path.startsWith('__MACOSX/') || name.startsWith('.')) return null;
+    return PHOTO_TYPES[name.split('.').pop()?.toLowerCase() || ''] || null;
+};
+
+/**
+ * Find the student a photo belongs to. The nearest folder named by a student code wins
+ * ("1J/STU001/front.jpg"); otherwise the file name is used, with trailing numbering
+ * removed one part at a time ("STU001_2.jpg", "STU001 (3).jpg", "STU001-a.jpg").
+ * @param studentCodes - Lower-cased code → code as stored
+ */
+export const matchPhotoToStudent = (path: string, studentCodes: Map<string, string>): string | null => {
+    const parts = path.split('/');
+    const fileName = parts.pop() || '';
+
+    for (let i = parts.length - 1; i >= 0; i--) {
+        const match = studentCodes.get(parts[i].trim().toLowerCase());
+        if (match) return match;
+    }
+
+    let base = fileName.replace(/\.[^.]+$/, '').trim();
+    while (base) {
+        const match = studentCodes.get(base.toLowerCase());
+        if (match) return match;
+        const cut = base.search(/[\s_\-(][^\s_\-(]*$/);
+        if (cut <= 0) break;
+        base = base.slice(0, cut).trim();
+    }
+    return null;
+};
+
+// ============================================
+// FACE CHECK
+// ============================================
+
+/** Same limit as the single-student upload */
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+/** Larger photos are scaled down before upload; the model does not need camera resolution */
+export const MAX_PHOTO_DIMENSION = 1600;
+
+export type PhotoCheckResult =
+    | { status: 'ok'; photo: Blob }
+    | { status: 'noFace' | 'multipleFaces' | 'unreadable' };
+
+/**
+ * Decode a photo, count faces when a detector is available and shrink it if it is
+ * too big to upload.
+ * @param detector - From createFaceDetector; null skips the face check
+ */
+export const checkImportPhoto = async (photo: Blob, detector: FaceDetector | null): Promise<PhotoCheckResult> => {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(photo);
+    } catch {
+        return { status: 'unreadable' };
+    }
+
+    try {
+        if (detector) {
+            const faces = await detector.detect(bitmap);
+            if (faces.length === 0) return { status: 'noFace' };
+            if (faces.length > 1) return { status: 'multipleFaces' };
+        }
+
+        const largest = Math.max(bitmap.width, bitmap.height);
+        if (photo.size <= MAX_PHOTO_BYTES && largest <= MAX_PHOTO_DIMENSION) return { status: 'ok', photo };
+
+        const scale = Math.min(1, MAX_PHOTO_DIMENSION / largest);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(bitmap.width * scale);
+        canvas.height = Math.round(bitmap.height * scale);
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        const resized = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+        return resized ? { status: 'ok', photo: resized } : { status: 'unreadable' };
+    } finally {
+        bitmap.close();
+    }
+};
+
+// ============================================
+// RESUME
+// ============================================
+
+const PROGRESS_KEY_PREFIX = 'photo_import_progress_';
+
+/** Identifies an archive across page reloads, so re-selecting it resumes where it stopped */
+export const getArchiveKey = (file: File) => `${PROGRESS_KEY_PREFIX}${file.name}_${file.size}_${file.lastModified}`;
+
+/** Paths of entries already uploaded from this archive */
+export const loadUploadedPaths = (archiveKey: string): Set<string> => {
+    try {
+        return new Set(JSON.parse(localStorage.getItem(archiveKey) || '[]'));
+    } catch {
+        return new Set();
+    }
+};
+
+export const saveUploadedPaths = (archiveKey: string, paths: Set<string>) => {
+    try {
+        localStorage.setItem(archiveKey, JSON.stringify([...paths]));
+    } catch {
+        // Out of space: the import still works, it just cannot be resumed
+    }
+};
+
+export const clearUploadedPaths = (archiveKey: string) => localStorage.removeItem(archiveKey);
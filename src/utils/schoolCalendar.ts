@@ -0,0 +1,206 @@
+import type { AttendanceRangeSummary, ClassAttendanceSummary } from '../types';
+import type { SchoolCalendarEntry, SchoolCalendarRange } from '../services/schoolCalendarService';
+
+export type DayKind = 'SchoolDay' | 'Weekend' | 'Holiday' | 'SchoolBreak' | 'SpecialDay' | 'OutOfTerm';
+
+export interface CalendarDayInfo {
+    date: string;             // yyyy-MM-dd
+    isSchoolDay: boolean;
+    kind: DayKind;
+    entry?: SchoolCalendarEntry;
+}
+
+export interface SchoolCalendar {
+    weekendDays: Set<number>;
+    entries: SchoolCalendarEntry[];
+    hasTerms: boolean;
+}
+
+export const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+/** School hours come from the SchoolStartTime / SchoolEndTime settings (HH:mm) */
+export interface SchoolHours {
+    startTime: string;
+    endTime: string;
+}
+
+export const DEFAULT_SCHOOL_HOURS: SchoolHours = { startTime: '07:30', endTime: '15:30' };
+
+const TIME_PATTERN = /^\d{2}:\d{2}/;
+
+export const parseSchoolHours = (settings: Record<string, string>): SchoolHours => ({
+    startTime: TIME_PATTERN.test(settings.SchoolStartTime ?? '') ? settings.SchoolStartTime.slice(0, 5) : DEFAULT_SCHOOL_HOURS.startTime,
+    endTime: TIME_PATTERN.test(settings.SchoolEndTime ?? '') ? settings.SchoolEndTime.slice(0, 5) : DEFAULT_SCHOOL_HOURS.endTime,
+});
+
+/** Local Date for a time of day (HH:mm) on a yyyy-MM-dd date */
+export const atTimeOfDay = (day: string, time: string) => new Date(`${day.split('T')[0]}T${time}:00`);
+
+/** Used when the calendar could not be loaded: every day counts, as before calendars existed */
+export const OPEN_CALENDAR: SchoolCalendar = { weekendDays: new Set(), entries: [], hasTerms: false };
+
+const dateOnly = (value: string) => value.split('T')[0];
+
+const covers = (entry: SchoolCalendarEntry, day: string) =>
+    dateOnly(entry.startDate) <= day && day <= dateOnly(entry.endDate);
+
+export const toDateString = (date: Date) => {
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, '0');
+    const d = String(date.getDate()).padStart(2, '0');
+    return `${y}-${m}-${d}`;
+};
+
+export const buildSchoolCalendar = (range: SchoolCalendarRange | null | undefined): SchoolCalendar => {
+    if (!range) return OPEN_CALENDAR;
+    const entries = range.entries || [];
+    return {
+        weekendDays: new Set(range.weekendDays ?? DEFAULT_WEEKEND_DAYS),
+        entries,
+        hasTerms: entries.some(e => e.entryType === 'Term'),
+    };
+};
+
+/**
+ * Classify a day. Precedence: special day, holiday/break, weekend, outside every term.
+ */
+export const getDayInfo = (calendar: SchoolCalendar, date: string): CalendarDayInfo => {
+    const day = dateOnly(date);
+    const matching = calendar.entries.filter(e => covers(e, day));
+
+    const special = matching.find(e => e.entryType === 'SpecialDay');
+    if (special) return { date: day, isSchoolDay: special.isSchoolDay, kind: 'SpecialDay', entry: special };
+
+    const closure = matching.find(e => e.entryType === 'Holiday') ?? matching.find(e => e.entryType === 'SchoolBreak');
+    if (closure) return { date: day, isSchoolDay: false, kind: closure.entryType as DayKind, entry: closure };
+
+    if (calendar.weekendDays.has(new Date(`${day}T00:00:00`).getDay())) {
+        return { date: day, isSchoolDay: false, kind: 'Weekend' };
+    }
+
+    const term = matching.find(e => e.entryType === 'Term');
+    if (calendar.hasTerms && !term) return { date: day, isSchoolDay: false, kind: 'OutOfTerm' };
+
+    return { date: day, isSchoolDay: true, kind: 'SchoolDay', entry: term };
+};
+
+export const isSchoolDay = (calendar: SchoolCalendar, date: string) => getDayInfo(calendar, date).isSchoolDay;
+
+/** Drop entries that fall on non-school days */
+export const filterSchoolDays = <T>(items: T[], calendar: SchoolCalendar, getDate: (item: T) => string): T[] =>
+    items.filter(item => isSchoolDay(calendar, getDate(item)));
+
+/** Every school day between two dates, inclusive */
+export const listSchoolDays = (calendar: SchoolCalendar, startDate: string, endDate: string): string[] => {
+    const days: string[] = [];
+    const end = dateOnly(endDate);
+    for (const d = new Date(`${dateOnly(startDate)}T00:00:00`); toDateString(d) <= end; d.setDate(d.getDate() + 1)) {
+        const day = toDateString(d);
+        if (isSchoolDay(calendar, day)) days.push(day);
+    }
+    return days;
+};
+
+/**
+ * Runs of consecutive non-school days that have attendance in a range summary. byClass is
+ * pre-aggregated by the backend, so the class totals for these runs are fetched separately
+ * and handed back to applyCalendarToSummary.
+ */
+export const getClosedRuns = (summary: AttendanceRangeSummary, calendar: SchoolCalendar): { startDate: string; endDate: string }[] => {
+    const closedWithData = new Set(summary.daily.map(d => dateOnly(d.date)).filter(day => !isSchoolDay(calendar, day)));
+    if (closedWithData.size === 0) return [];
+
+    const runs: { startDate: string; endDate: string; hasData: boolean }[] = [];
+    let current: { startDate: string; endDate: string; hasData: boolean } | null = null;
+    const end = dateOnly(summary.endDate);
+    for (const d = new Date(`${dateOnly(summary.startDate)}T00:00:00`); toDateString(d) <= end; d.setDate(d.getDate() + 1)) {
+        const day = toDateString(d);
+        if (isSchoolDay(calendar, day)) {
+            current = null;
+            continue;
+        }
+        if (!current) {
+            current = { startDate: day, endDate: day, hasData: false };
+            runs.push(current);
+        }
+        current.endDate = day;
+        current.hasData ||= closedWithData.has(day);
+    }
+    return runs.filter(r => r.hasData).map(({ startDate, endDate }) => ({ startDate, endDate }));
+};
+
+/** Take the totals counted on closed days back out of each class */
+const removeClosedDays = (byClass: ClassAttendanceSummary[], closedByClass: ClassAttendanceSummary[]): ClassAttendanceSummary[] => {
+    if (closedByClass.length === 0) return byClass;
+    return byClass.map(c => {
+        const closed = closedByClass.filter(x => x.classId === c.classId);
+        if (closed.length === 0) return c;
+        const totalPresent = Math.max(0, c.totalPresent - closed.reduce((sum, x) => sum + x.totalPresent, 0));
+        const totalLate = Math.max(0, c.totalLate - closed.reduce((sum, x) => sum + x.totalLate, 0));
+        const totalAbsent = Math.max(0, c.totalAbsent - closed.reduce((sum, x) => sum + x.totalAbsent, 0));
+        const expected = totalPresent + totalLate + totalAbsent;
+        return {
+            ...c,
+            totalPresent,
+            totalLate,
+            totalAbsent,
+            attendanceRate: expected > 0 ? Math.round(((totalPresent + totalLate) / expected) * 1000) / 10 : 0,
+        };
+    });
+};
+
+/**
+ * Drop non-school days from a range summary and recompute its totals.
+ * @param closedByClass - Class totals for the runs from getClosedRuns, removed from byClass
+ */
+export const applyCalendarToSummary = (
+    summary: AttendanceRangeSummary,
+    calendar: SchoolCalendar,
+    closedByClass: ClassAttendanceSummary[] = [],
+): AttendanceRangeSummary => {
+    const daily = filterSchoolDays(summary.daily, calendar, d => d.date);
+    if (daily.length === summary.daily.length) return summary;
+
+    const totalPresent = daily.reduce((sum, d) => sum + d.totalPresent, 0);
+    const totalLate = daily.reduce((sum, d) => sum + d.totalLate, 0);
+    const totalAbsent = daily.reduce((sum, d) => sum + d.totalAbsent, 0);
+    const expected = daily.reduce((sum, d) => sum + d.totalStudents, 0);
+    return {
+        ...summary,
+        daily,
+        byClass: removeClosedDays(summary.byClass, closedByClass),
+        schoolDays: daily.length,
+        totalPresent,
+        totalLate,
+        totalAbsent,
+        attendanceRate: expected > 0 ? Math.round(((totalPresent + totalLate) / expected) * 1000) / 10 : 0,
+    };
+};
+
+/**
+ * Weeks (Monday first) covering a month; days outside the month are null.
+ * @param month - 1-12
+ */
+export const buildMonthGrid = (year: number, month: number): (string | null)[][] => {
+    const first = new Date(year, month - 1, 1);
+    const daysInMonth = new Date(year, month, 0).getDate();
+    const cells: (string | null)[] = Array((first.getDay() + 6) % 7).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+        cells.push(toDateString(new Date(year, month - 1, day)));
+    }
+    while (cells.length % 7 !== 0) cells.push(null);
+
+    const weeks: (string | null)[][] = [];
+    for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+    return weeks;
+};
+
+/** Tailwind classes for a day cell, shared by the calendar views */
+export const DAY_KIND_STYLES: Record<DayKind, string> = {
+    SchoolDay: 'bg-white',
+    Weekend: 'bg-gray-100 text-gray-400',
+    Holiday: 'bg-red-50 text-red-700',
+    SchoolBreak: 'bg-amber-50 text-amber-700',
+    SpecialDay: 'bg-purple-50 text-purple-700',
+    OutOfTerm: 'bg-gray-50 text-gray-400',
+};
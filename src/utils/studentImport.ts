@@ -0,0 +1,512 @@
+import * as XLSX from 'xlsx';
+import type { StudentWithAcademic } from '../services/studentService';
+
+// ============================================
+// ROWS
+// ============================================
+
+/** Every column the import understands, in template order */
+export const IMPORT_FIELDS = [
+    'studentCode', 'academicYear', 'fullName', 'otherName', 'dateOfBirth', 'gender', 'email',
+    'phoneNumber', 'parentName', 'parentContact', 'parentEmail', 'address', 'className',
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/** Column headers used by the template, and by the error workbook so it can be re-uploaded as is */
+export const TEMPLATE_HEADERS: Record<ImportField, string> = {
+    studentCode: 'Student Code',
+    academicYear: 'Academic Year',
+    fullName: 'Full Name',
+    otherName: 'Other Name',
+    dateOfBirth: 'Date of Birth',
+    gender: 'Gender',
+    email: 'Email',
+    phoneNumber: 'Phone Number',
+    parentName: 'Parent Name',
+    parentContact: 'Parent Contact',
+    parentEmail: 'Parent Email',
+    address: 'Address',
+    className: 'Class',
+};
+
+/** Cell values as read from the sheet, keyed by field */
+export type RawImportRow = Partial<Record<ImportField, string>>;
+
+/** A problem with one cell; `key` is an i18n key under import.validation */
+export interface ImportCellError {
+    field: ImportField;
+    key: string;
+    params?: Record<string, string | number>;
+}
+
+export interface ImportStudentRow {
+    rowNumber: number;
+    studentCode: string;
+    fullName: string;
+    otherName?: string;
+    dateOfBirth: string;
+    gender: string;
+    academicYear: string;
+    className: string;
+    email?: string;
+    phoneNumber?: string;
+    parentName?: string;
+    parentContact?: string;
+    parentEmail?: string;
+    address?: string;
+    isValid: boolean;
+    errors: ImportCellError[];
+}
+
+/** 'create' adds new students only; 'upsert' also updates students matched on studentCode */
+export type ImportMode = 'create' | 'upsert';
+
+// ============================================
+// COLUMN MAPPING
+// ============================================
+
+/** Fields a sheet must provide, either from a column or a fixed value */
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['studentCode', 'academicYear', 'className', 'fullName', 'gender'];
+
+/** Field → header of the source column it is read from */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ColumnMappingPreset {
+    name: string;
+    mapping: ColumnMapping;
+}
+
+/** School setting holding the saved presets as JSON */
+export const MAPPING_PRESETS_SETTING_KEY = 'ImportColumnPresets';
+
+/**
+ * Known headers per field in English, Malay and Chinese, including our own template,
+ * APDM exports and sheets from other schools. Compared after normalizeHeader.
+ */
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+    studentCode: [
+        'Student Code', 'Student ID', 'Student No', 'Admission No', 'No Pendaftaran', 'No Murid', 'ID Murid',
+        'Kod Pelajar', 'No Sijil Lahir', 'MyKid', 'No MyKid', '学号', '学生编号', '学生号码',
+    ],
+    academicYear: ['Academic Year', 'Year', 'Session', 'Tahun Akademik', 'Tahun', 'Sesi', '学年', '年度'],
+    fullName: ['Full Name', 'Name', 'Student Name', 'Nama', 'Nama Penuh', 'Nama Murid', 'Nama Pelajar', '姓名', '全名', '学生姓名'],
+    otherName: ['Other Name', 'Chinese Name', 'Tamil Name', 'Nama Lain', 'Nama Cina', '中文名', '中文姓名', '其他名字'],
+    dateOfBirth: ['Date of Birth', 'DOB', 'Birth Date', 'Tarikh Lahir', 'T Lahir', '出生日期', '生日'],
+    gender: ['Gender', 'Sex', 'Jantina', '性别'],
+    email: ['Email', 'E-mail', 'Student Email', 'Emel', 'E-mel', '电子邮件', '电邮'],
+    phoneNumber: ['Phone Number', 'Phone', 'Mobile', 'Student Phone', 'No Telefon', 'Telefon', '电话', '电话号码'],
+    parentName: [
+        'Parent Name', 'Guardian Name', 'Father Name', 'Mother Name', 'Nama Ibu Bapa', 'Nama Penjaga',
+        'Nama Bapa', 'Nama Ibu', '家长姓名', '父母姓名', '监护人',
+    ],
+    parentContact: [
+        'Parent Contact', 'Parent Phone', 'Guardian Phone', 'Emergency Contact', 'No Telefon Ibu Bapa',
+        'No Telefon Penjaga', 'Telefon Penjaga', '家长电话', '家长联络号码', '联络号码',
+    ],
+    parentEmail: ['Parent Email', 'Guardian Email', 'Emel Ibu Bapa', 'E-mel Ibu Bapa', 'Emel Penjaga', '家长电邮', '家长电子邮件'],
+    address: ['Address', 'Home Address', 'Alamat', 'Alamat Rumah', '地址', '住址'],
+    className: ['Class', 'Class Name', 'Classes', 'Kelas', 'Nama Kelas', '班级', '班'],
+};
+
+/** Lowercase and drop spaces and punctuation, so "Student_Code" and "student code" compare equal */
+export const normalizeHeader = (header: string): string =>
+    header.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/** Levenshtein similarity between 0 and 1 */
+const similarity = (a: string, b: string): number => {
+    if (!a || !b) return 0;
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+/** Below this a header is not suggested for a field */
+const MIN_MATCH_SCORE = 0.75;
+
+const scoreHeader = (header: string, field: ImportField): number => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return 0;
+    return Math.max(...[field, ...HEADER_SYNONYMS[field]].map(synonym => {
+        const candidate = normalizeHeader(synonym);
+        if (candidate === normalized) return 1;
+        // "Nama Murid (Penuh)" still contains "namamurid"
+        if (candidate.length >= 4 && normalized.includes(candidate)) return 0.9;
+        return similarity(candidate, normalized);
+    }));
+};
+
+/**
+ * Suggest a column for each field by fuzzy header match. Each header is used at most
+ * once, best matches first.
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+    const candidates: { field: ImportField; header: string; score: number }[] = [];
+    IMPORT_FIELDS.forEach(field => {
+        headers.forEach(header => {
+            const score = scoreHeader(header, field);
+            if (score >= MIN_MATCH_SCORE) candidates.push({ field, header, score });
+        });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const mapping: ColumnMapping = {};
+    const usedHeaders = new Set<string>();
+    candidates.forEach(({ field, header }) => {
+        if (mapping[field] || usedHeaders.has(header)) return;
+        mapping[field] = header;
+        usedHeaders.add(header);
+    });
+    return mapping;
+};
+
+/** The parts of a preset whose columns exist in this sheet */
+export const applyMappingPreset = (preset: ColumnMappingPreset, headers: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    IMPORT_FIELDS.forEach(field => {
+        const header = preset.mapping[field];
+        if (header && headers.includes(header)) mapping[field] = header;
+    });
+    return mapping;
+};
+
+/** The saved preset that covers the most fields of this sheet, if it covers every column it names */
+export const findMatchingPreset = (presets: ColumnMappingPreset[], headers: string[]): ColumnMappingPreset | null => {
+    let best: ColumnMappingPreset | null = null;
+    presets.forEach(preset => {
+        const mapped = Object.values(preset.mapping).filter(Boolean);
+        if (mapped.length === 0 || !mapped.every(header => headers.includes(header as string))) return;
+        if (!best || mapped.length > Object.values(best.mapping).filter(Boolean).length) best = preset;
+    });
+    return best;
+};
+
+export const parseMappingPresets = (settings: Record<string, string>): ColumnMappingPreset[] => {
+    try {
+        const presets = JSON.parse(settings[MAPPING_PRESETS_SETTING_KEY] || '[]');
+        return Array.isArray(presets) ? presets.filter(p => p && typeof p.name === 'string' && p.mapping) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Read the data rows of a sheet through a column mapping. Empty rows are skipped and
+ * row numbers match the spreadsheet (header is row 1).
+ * @param fixedValues - Values used for every row when a field has no column, e.g. the academic year
+ */
+export const mapSheetRows = (
+    headers: string[],
+    rows: unknown[][],
+    mapping: ColumnMapping,
+    fixedValues: RawImportRow = {}
+): { rowNumber: number; values: RawImportRow }[] => {
+    const columnIndex = new Map(headers.map((header, index) => [header, index]));
+    const mapped: { rowNumber: number; values: RawImportRow }[] = [];
+
+    rows.forEach((row, i) => {
+        if (!row || row.every(cell => cell === null || cell === undefined || cell === '')) return;
+
+        const values: RawImportRow = { ...fixedValues };
+        IMPORT_FIELDS.forEach(field => {
+            const header = mapping[field];
+            if (!header) return;
+            let cellValue = row[columnIndex.get(header) ?? -1];
+
+            // Excel date serial number to YYYY-MM-DD
+            if (field === 'dateOfBirth' && typeof cellValue === 'number') {
+                const date = XLSX.SSF.parse_date_code(cellValue);
+                cellValue = `${date.y}-${String(date.m).padStart(2, '0')}-${String(date.d).padStart(2, '0')}`;
+            }
+            values[field] = cellValue?.toString() || '';
+        });
+        mapped.push({ rowNumber: i + 2, values });
+    });
+    return mapped;
+};
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/** Reference data from /student/import/validation-data */
+export interface ImportValidationData {
+    academicYears: { academicYearID: number; yearName: string }[];
+    grades: { gradeID: number; gradeName: string }[];
+    classes: { classID: number; className: string; gradeID: number; academicYearID: number }[];
+}
+
+/** Ages outside this range are almost certainly typos in the year */
+export const MIN_STUDENT_AGE = 3;
+export const MAX_STUDENT_AGE = 25;
+
+const STUDENT_CODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._/-]*$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+/** 9-15 digits once spaces, dashes and brackets are removed, optionally with a leading + */
+const PHONE_PATTERN = /^\+?\d{9,15}$/;
+
+const GENDER_VALUES: Record<string, 'Male' | 'Female'> = {
+    // English
+    male: 'Male', female: 'Female', m: 'Male', f: 'Female',
+    // Bahasa Melayu
+    lelaki: 'Male', perempuan: 'Female', l: 'Male', p: 'Female',
+    // 华语 (Chinese)
+    '男': 'Male', '女': 'Female',
+};
+
+/** Normalize gender value to English (Male/Female); unknown values are returned unchanged */
+export const normalizeGender = (gender: string): string => GENDER_VALUES[gender.toLowerCase()] || gender;
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Parse a date of birth written as YYYY-MM-DD (template, Excel dates) or DD/MM/YYYY
+ * (common in local sheets). Returns YYYY-MM-DD, or null when the date does not exist.
+ */
+export const parseImportDate = (value: string): string | null => {
+    let year: number, month: number, day: number;
+    const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+    const local = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (local) {
+        [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+    } else {
+        return null;
+    }
+
+    // Rejects 31/02 and the like, which Date would silently roll over
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+    return `${year}-${pad2(month)}-${pad2(day)}`;
+};
+
+const ageOn = (dateOfBirth: string, today: Date): number => {
+    const [year, month, day] = dateOfBirth.split('-').map(Number);
+    let age = today.getFullYear() - year;
+    if (today.getMonth() + 1 < month || (today.getMonth() + 1 === month && today.getDate() < day)) age--;
+    return age;
+};
+
+const validateRow = (
+    rowNumber: number,
+    raw: RawImportRow,
+    data: ImportValidationData | null,
+    today: Date
+): ImportStudentRow => {
+    const errors: ImportCellError[] = [];
+    const addError = (field: ImportField, key: string, params?: Record<string, string | number>) =>
+        errors.push({ field, key, params });
+    const value = (field: ImportField) => raw[field]?.trim() || '';
+
+    const studentCode = value('studentCode');
+    if (!studentCode) {
+        addError('studentCode', 'studentCodeRequired');
+    } else if (!STUDENT_CODE_PATTERN.test(studentCode)) {
+        addError('studentCode', 'invalidStudentCode');
+    }
+
+    if (!value('fullName')) addError('fullName', 'fullNameRequired');
+
+    // Date of birth is optional - only validate when provided
+    let dateOfBirth = value('dateOfBirth');
+    if (dateOfBirth) {
+        const parsed = parseImportDate(dateOfBirth);
+        if (!parsed) {
+            addError('dateOfBirth', 'invalidDateFormat');
+        } else {
+            dateOfBirth = parsed;
+            const age = ageOn(parsed, today);
+            if (age < MIN_STUDENT_AGE || age > MAX_STUDENT_AGE) {
+                addError('dateOfBirth', 'dateOfBirthOutOfRange', { min: MIN_STUDENT_AGE, max: MAX_STUDENT_AGE });
+            }
+        }
+    }
+
+    const gender = value('gender');
+    if (!gender) {
+        addError('gender', 'genderRequired');
+    } else if (!GENDER_VALUES[gender.toLowerCase()]) {
+        addError('gender', 'invalidGender');
+    }
+
+    const academicYear = value('academicYear');
+    const year = data?.academicYears.find(y => y.yearName.toLowerCase() === academicYear.toLowerCase());
+    if (!academicYear) {
+        addError('academicYear', 'academicYearRequired');
+    } else if (data && !year) {
+        addError('academicYear', 'invalidAcademicYear', { year: academicYear });
+    }
+
+    const className = value('className');
+    if (!className) {
+        addError('className', 'classRequired');
+    } else if (data) {
+        const matches = data.classes.filter(c => c.className.toLowerCase() === className.toLowerCase());
+        if (matches.length === 0) {
+            addError('className', 'invalidClass', { className });
+        } else if (year && !matches.some(c => c.academicYearID === year.academicYearID)) {
+            addError('className', 'classNotInYear', { className, year: year.yearName });
+        }
+    }
+
+    if (value('email') && !EMAIL_PATTERN.test(value('email'))) addError('email', 'invalidEmail');
+    if (value('parentEmail') && !EMAIL_PATTERN.test(value('parentEmail'))) addError('parentEmail', 'invalidParentEmail');
+
+    (['phoneNumber', 'parentContact'] as const).forEach(field => {
+        if (value(field) && !PHONE_PATTERN.test(value(field).replace(/[\s()-]/g, ''))) {
+            addError(field, field === 'phoneNumber' ? 'invalidPhone' : 'invalidParentContact');
+        }
+    });
+
+    return {
+        rowNumber,
+        studentCode,
+        fullName: value('fullName'),
+        otherName: value('otherName') || undefined,
+        dateOfBirth,
+        gender: normalizeGender(gender),
+        academicYear,
+        className,
+        email: value('email') || undefined,
+        phoneNumber: value('phoneNumber') || undefined,
+        parentName: value('parentName') || undefined,
+        parentContact: value('parentContact') || undefined,
+        parentEmail: value('parentEmail') || undefined,
+        address: value('address') || undefined,
+        isValid: errors.length === 0,
+        errors
+    };
+};
+
+/**
+ * Validate every row of a sheet. Besides per-cell checks, student codes that appear
+ * more than once in the file are flagged on each of those rows.
+ * @param data - Reference data; year and class checks are skipped when null
+ */
+export const validateImportRows = (
+    rows: { rowNumber: number; values: RawImportRow }[],
+    data: ImportValidationData | null,
+    today: Date = new Date()
+): ImportStudentRow[] => {
+    const validated = rows.map(row => validateRow(row.rowNumber, row.values, data, today));
+
+    const rowsByCode = new Map<string, number[]>();
+    validated.forEach(row => {
+        if (!row.studentCode) return;
+        const code = row.studentCode.toLowerCase();
+        rowsByCode.set(code, [...(rowsByCode.get(code) || []), row.rowNumber]);
+    });
+
+    return validated.map(row => {
+        const sameCode = rowsByCode.get(row.studentCode.toLowerCase()) || [];
+        if (sameCode.length < 2) return row;
+        const errors = [...row.errors, {
+            field: 'studentCode' as const,
+            key: 'duplicateCode',
+            params: { rows: sameCode.filter(n => n !== row.rowNumber).join(', ') },
+        }];
+        return { ...row, errors, isValid: false };
+    });
+};
+
+/** Cell values for re-exporting a row under the template headers */
+export const toTemplateRow = (row: ImportStudentRow): Record<string, string> => {
+    const cells: Record<string, string> = {};
+    IMPORT_FIELDS.forEach(field => {
+        cells[TEMPLATE_HEADERS[field]] = row[field] || '';
+    });
+    return cells;
+};
+
+// ============================================
+// DIFF
+// ============================================
+
+export type ImportRowChange = 'new' | 'changed' | 'unchanged';
+
+/** Fields compared against the existing student, in display order */
+export const DIFF_FIELDS = [
+    'fullName', 'otherName', 'dateOfBirth', 'gender', 'academicYear', 'className',
+    'email', 'phoneNumber', 'parentName', 'parentContact', 'parentEmail', 'address',
+] as const;
+
+export type DiffField = typeof DIFF_FIELDS[number];
+
+export interface FieldChange {
+    field: DiffField;
+    before: string;
+    after: string;
+}
+
+export interface ImportRowDiff {
+    change: ImportRowChange;
+    changes: FieldChange[];
+}
+
+const CASE_INSENSITIVE_FIELDS: DiffField[] = ['gender', 'academicYear', 'className', 'email', 'parentEmail'];
+
+const normalize = (field: DiffField, value?: string): string => {
+    const trimmed = (value || '').trim();
+    if (field === 'dateOfBirth') return trimmed.slice(0, 10);
+    return CASE_INSENSITIVE_FIELDS.includes(field) ? trimmed.toLowerCase() : trimmed;
+};
+
+/**
+ * Compare an import row with the student it would update. Blank cells keep the
+ * current value, so they never count as a change.
+ */
+export const diffImportRow = (row: ImportStudentRow, existing?: StudentWithAcademic): ImportRowDiff => {
+    if (!existing) return { change: 'new', changes: [] };
+
+    const changes: FieldChange[] = [];
+    DIFF_FIELDS.forEach(field => {
+        const after = row[field];
+        if (!after?.trim()) return;
+        const before = existing[field] || '';
+        if (normalize(field, before) !== normalize(field, after)) {
+            changes.push({ field, before: field === 'dateOfBirth' ? before.slice(0, 10) : before, after });
+        }
+    });
+
+    return { change: changes.length > 0 ? 'changed' : 'unchanged', changes };
+};
+
+// ============================================
+// PAYLOAD
+// ============================================
+
+const OPTIONAL_PAYLOAD_FIELDS = [
+    'otherName', 'dateOfBirth', 'email', 'phoneNumber', 'parentName', 'parentContact', 'parentEmail', 'address',
+] as const;
+
+/**
+ * One student for POST /student/import. New students get null for blank optional cells;
+ * in update mode blank cells are left out, so the server keeps the current value.
+ */
+export const toImportPayloadRow = (row: ImportStudentRow, mode: ImportMode) => {
+    const payload: Record<string, string | null> = {
+        studentCode: row.studentCode,
+        fullName: row.fullName,
+        gender: row.gender,
+        academicYear: row.academicYear,
+        className: row.className,
+    };
+    OPTIONAL_PAYLOAD_FIELDS.forEach(field => {
+        if (row[field]) payload[field] = row[field];
+        else if (mode === 'create') payload[field] = null;
+    });
+    return payload;
+};
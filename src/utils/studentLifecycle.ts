@@ -0,0 +1,61 @@
+import type { StudentLifecycleAction, StudentStatus } from '../types';
+
+// ============================================
+// ACTIONS
+// ============================================
+
+export const EXIT_ACTIONS: StudentLifecycleAction[] = ['TransferOut', 'Withdraw', 'Graduate'];
+
+export const ACTION_STATUS: Record<StudentLifecycleAction, StudentStatus> = {
+    TransferOut: 'TransferredOut',
+    Withdraw: 'Withdrawn',
+    Graduate: 'Graduated',
+    TransferIn: 'Active',
+};
+
+/** Transfers record the other school: the destination going out, the previous school coming in */
+export const isTransferAction = (action: StudentLifecycleAction) => action === 'TransferOut' || action === 'TransferIn';
+
+// ============================================
+// STATUS
+// ============================================
+
+/** The lifecycle fields shared by every student shape the API returns */
+export interface StudentLifecycle {
+    isActive: boolean;
+    status?: StudentStatus;
+    statusDate?: string | null;
+    graduationDate?: string | null;
+}
+
+/** Students deactivated before lifecycle states existed have no status; graduates still carry their date */
+export const getStudentStatus = (student: StudentLifecycle): StudentStatus => {
+    if (student.status) return student.status;
+    if (student.isActive) return 'Active';
+    return student.graduationDate ? 'Graduated' : 'Withdrawn';
+};
+
+/** First day the student is no longer on the roll (yyyy-MM-dd), or null while they are enrolled */
+export const getLeavingDate = (student: StudentLifecycle): string | null => {
+    const status = getStudentStatus(student);
+    if (status === 'Active') return null;
+    const date = student.statusDate || (status === 'Graduated' ? student.graduationDate : null);
+    return date ? date.split('T')[0] : null;
+};
+
+/**
+ * Whether the student should be expected at school on a date. Leavers with no recorded
+ * date were deactivated by hand and are treated as gone for every date.
+ */
+export const isOnRoll = (student: StudentLifecycle, date: string): boolean => {
+    if (getStudentStatus(student) === 'Active') return true;
+    const leavingDate = getLeavingDate(student);
+    return !!leavingDate && date < leavingDate;
+};
+
+/** Leavers can only come back by transfer; graduates are final */
+export const getAvailableActions = (student: StudentLifecycle): StudentLifecycleAction[] => {
+    const status = getStudentStatus(student);
+    if (status === 'Active') return EXIT_ACTIONS;
+    return status === 'Graduated' ? [] : ['TransferIn'];
+};
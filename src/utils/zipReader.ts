@@ -0,0 +1,121 @@
+// ============================================
+// ZIP READER
+// ============================================
+//
+// Reads ZIP archives straight from a File without loading the whole archive into
+// memory: the central directory is read once, and each entry is sliced and inflated
+// only when it is needed. Photo-day archives run to several gigabytes.
+
+export interface ZipEntry {
+    path: string;               // full path inside the archive, "/" separated
+    compressedSize: number;
+    size: number;
+    method: number;             // 0 = stored, 8 = deflate
+    localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const MAX_EOCD_SEARCH = 22 + 0xffff;   // fixed record + longest comment
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<DataView> =>
+    new DataView(await file.slice(start, end).arrayBuffer());
+
+const getUint64 = (view: DataView, offset: number): number =>
+    view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+/** Locate the central directory via the end-of-central-directory record (ZIP64 aware) */
+const findCentralDirectory = async (file: File): Promise<{ offset: number; size: number }> => {
+    const tailStart = Math.max(0, file.size - MAX_EOCD_SEARCH);
+    const tail = await readBytes(file, tailStart, file.size);
+
+    let eocd = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+        if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error('Not a ZIP archive');
+
+    let size = tail.getUint32(eocd + 12, true);
+    let offset = tail.getUint32(eocd + 16, true);
+
+    // Archives over 4 GB or 65535 entries keep the real values in the ZIP64 record
+    const locator = eocd - 20;
+    if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+        const recordOffset = getUint64(tail, locator + 8);
+        const record = await readBytes(file, recordOffset, recordOffset + 56);
+        if (record.getUint32(0, true) === ZIP64_EOCD_SIGNATURE) {
+            size = getUint64(record, 40);
+            offset = getUint64(record, 48);
+        }
+    }
+    return { offset, size };
+};
+
+/** List the files in an archive; folders are left out */
+export const listZipEntries = async (file: File): Promise<ZipEntry[]> => {
+    const directory = await findCentralDirectory(file);
+    const view = await readBytes(file, directory.offset, directory.offset + directory.size);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+
+    let pos = 0;
+    while (pos + 46 <= view.byteLength && view.getUint32(pos, true) === CENTRAL_HEADER_SIGNATURE) {
+        const method = view.getUint16(pos + 10, true);
+        let compressedSize = view.getUint32(pos + 20, true);
+        let size = view.getUint32(pos + 24, true);
+        const nameLength = view.getUint16(pos + 28, true);
+        const extraLength = view.getUint16(pos + 30, true);
+        const commentLength = view.getUint16(pos + 32, true);
+        let localHeaderOffset = view.getUint32(pos + 42, true);
+
+        const path = decoder.decode(new Uint8Array(view.buffer, pos + 46, nameLength)).replace(/\\/g, '/');
+
+        // ZIP64 extra field: only the values that overflowed are present, in this order
+        let extra = pos + 46 + nameLength;
+        const extraEnd = extra + extraLength;
+        while (extra + 4 <= extraEnd) {
+            const id = view.getUint16(extra, true);
+            const length = view.getUint16(extra + 2, true);
+            if (id === ZIP64_EXTRA_ID) {
+                let field = extra + 4;
+                if (size === 0xffffffff) { size = getUint64(view, field); field += 8; }
+                if (compressedSize === 0xffffffff) { compressedSize = getUint64(view, field); field += 8; }
+                if (localHeaderOffset === 0xffffffff) { localHeaderOffset = getUint64(view, field); }
+            }
+            extra += 4 + length;
+        }
+
+        if (!path.endsWith('/')) {
+            entries.push({ path, compressedSize, size, method, localHeaderOffset });
+        }
+        pos = extraEnd + commentLength;
+    }
+    return entries;
+};
+
+/**
+ * Extract one entry as a Blob
+ * @throws Error when the entry uses a compression method other than stored or deflate
+ */
+export const readZipEntry = async (file: File, entry: ZipEntry, type = ''): Promise<Blob> => {
+    const header = await readBytes(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Corrupt entry: ${entry.path}`);
+
+    // The local header may carry a different extra field than the central directory
+    const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === 0) return new Blob([data], { type });
+    if (entry.method !== 8) throw new Error(`Unsupported compression in ${entry.path}`);
+
+    const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    const blob = await new Response(inflated).blob();
+    return type ? new Blob([blob], { type }) : blob;
+};